@@ -1,23 +1,121 @@
 import { useState, useRef, useEffect } from 'react';
+import type { QuerySyntax, SearchSource } from './types';
+import { getDefaultSources } from './searchSources';
+import { parseQuery } from './lib/queryLanguage';
+import { querySyntaxLabels, translateQuery } from './lib/queryTranslators';
+import { buildSourceSearchUrl } from './lib/searchUrl';
+import { validateUrlTemplate } from './lib/urlTemplate';
+import { customSourcesStorage } from './lib/customSources';
+import { applySettingsBundle, createSettingsBundle } from './lib/settingsBundle';
+import type { ImportMode, SettingsBundle } from './lib/settingsBundle';
+import {
+  addHistoryEntry,
+  clearHistory,
+  deleteHistoryEntry,
+  historyStorage,
+  pinHistoryEntry,
+  unpinHistoryEntry,
+} from './lib/history';
+import type { SearchHistoryEntry } from './lib/history';
+import {
+  applyQuerySuffix,
+  createProfile,
+  DEFAULT_PROFILE_ID,
+  deleteProfile,
+  duplicateProfile,
+  getActiveProfile,
+  loadProfileState,
+  profilesStorage,
+  removeEngineFromProfiles,
+  renameProfile,
+  setActiveProfile,
+  setProfileEngines,
+  setProfileQuerySuffix,
+} from './lib/profiles';
+import type { EngineSelection, ProfileState, SearchProfile } from './lib/profiles';
+import {
+  addCategory,
+  arrangeSources,
+  deleteCategory,
+  moveSource,
+  removeSourceFromLayout,
+  renameCategory,
+  setSourceHidden,
+  sourceLayoutStorage,
+} from './lib/sourceLayout';
+import type { SourceLayout } from './lib/sourceLayout';
+import { getResultAdapter } from './lib/adapters';
+import { preferencesStorage } from './lib/preferences';
+import {
+  createTranslator,
+  isLocale,
+  localeNames,
+  localizeCategory,
+  localizeProfile,
+  localizeSources,
+  resolveLocale,
+  translateMessage,
+} from './lib/i18n';
+import type { Locale, Message } from './lib/i18n';
+import type { AppPreferences } from './lib/preferences';
+import { useAggregatedResults } from './hooks/useAggregatedResults';
+import { useCollections } from './hooks/useCollections';
+import { useReviewLog } from './hooks/useReviewLog';
+import { useSearchAlerts } from './hooks/useSearchAlerts';
+import { useSourceHealth } from './hooks/useSourceHealth';
+import { validateSources } from './lib/sourceHealth';
+import { applySourcePack, sourcePacksStorage, unsubscribeSourcePack } from './lib/sourcePacks';
+import type { PackApplyResult, PackDiff, PackSubscription, SourcePackManifest } from './lib/sourcePacks';
+import { useTabManager } from './hooks/useTabManager';
+import { buildBangIndex, parseBangList, parseBangs, validateBangs } from './lib/bangs';
+import type { BangGroup } from './lib/bangs';
+import { buildDeepLink, parseDeepLink, stripDeepLinkParams } from './lib/deepLink';
+import { extractIdentifier } from './lib/identifiers';
+import type { Identifier } from './lib/identifiers';
+import { isResolvable } from './lib/resolvers';
+import { useIdentifierMetadata } from './hooks/useIdentifierMetadata';
+import { defaultThesaurus } from './defaultThesaurus';
+import { customThesaurusStorage, expandQuery, pruneSelection, suggestExpansions } from './lib/thesaurus';
+import type { ExpansionSelection, ThesaurusEntry } from './lib/thesaurus';
+import { createItemFromResult } from './lib/collections';
+import type { SavableResult } from './lib/collections';
+import { createLogEntries } from './lib/reviewLog';
+import { isAlertSource } from './lib/alerts';
+import { embedCapabilitiesStorage, getEmbeddability, recordEmbedFailure } from './lib/embedding';
+import type { EmbedCapabilities } from './lib/embedding';
+import {
+  dockSources,
+  getWorkspaceLayout,
+  removeProfileWorkspace,
+  removeSourceFromWorkspaces,
+  undockSource,
+  workspaceLayoutsStorage,
+} from './lib/workspaceLayout';
+import type { PaneSearch, WorkspaceLayout, WorkspaceLayouts } from './lib/workspaceLayout';
+import HistoryPanel from './components/HistoryPanel';
+import SourceCard from './components/SourceCard';
+import CategoryHeader from './components/CategoryHeader';
+import ResultsPanel from './components/ResultsPanel';
+import ProfileBar from './components/ProfileBar';
+import SourcePacksModal from './components/SourcePacksModal';
+import SettingsTransferModal from './components/SettingsTransferModal';
+import CollectionsPanel from './components/CollectionsPanel';
+import ReviewLogPanel from './components/ReviewLogPanel';
+import AlertsPanel from './components/AlertsPanel';
+import WorkspacePanel from './components/WorkspacePanel';
+import BlockedTabsNotice from './components/BlockedTabsNotice';
+import CommandPalette from './components/CommandPalette';
+import IdentifierPanel from './components/IdentifierPanel';
+import ExpansionPanel from './components/ExpansionPanel';
+import type { PaletteCommand } from './components/CommandPalette';
 
-interface SearchSource {
-  id: string;
-  name: string;
-  url: string;
-  description: string;
-  category?: 'general' | 'academic';
-  isCustom?: boolean;
-}
-
-interface SearchWindow {
-  [key: string]: Window | null;
-}
+// 表单校验时草稿搜索源使用的临时 ID
+const DRAFT_SOURCE_ID = '__draft__';
 
 function App() {
   const [searchQuery, setSearchQuery] = useState('');
-  const [isSearching, setIsSearching] = useState(false);
-  const [selectedEngines, setSelectedEngines] = useState<{[key: string]: boolean}>({});
-  const [customSources, setCustomSources] = useState<SearchSource[]>([]);
+  const [profileState, setProfileState] = useState<ProfileState>(() => loadProfileState());
+  const [customSources, setCustomSources] = useState<SearchSource[]>(() => customSourcesStorage.load());
   const [showAddModal, setShowAddModal] = useState(false);
   const [newSource, setNewSource] = useState<SearchSource>({
     id: '',
@@ -27,90 +125,111 @@ function App() {
     category: 'general',
     isCustom: true
   });
-  const searchWindows = useRef<SearchWindow>({});
-
-  const defaultSearchSources: SearchSource[] = [
-    { 
-      id: 'google', 
-      name: 'Google',
-      url: 'https://www.google.com/search?q=',
-      description: 'General web search',
-      category: 'general'
-    },
-    { 
-      id: 'bing', 
-      name: 'Bing',
-      url: 'https://www.bing.com/search?q=',
-      description: 'Microsoft search engine',
-      category: 'general'
-    },
-    { 
-      id: 'google_scholar', 
-      name: 'Google Scholar',
-      url: 'https://scholar.google.com/scholar?q=',
-      description: 'Academic papers and citations',
-      category: 'academic'
-    },
-    { 
-      id: 'pubmed', 
-      name: 'PubMed',
-      url: 'https://pubmed.ncbi.nlm.nih.gov/?term=',
-      description: 'Biomedical literature',
-      category: 'academic'
-    },
-    { 
-      id: 'semantic_scholar', 
-      name: 'Semantic Scholar',
-      url: 'https://www.semanticscholar.org/search?q=',
-      description: 'AI-powered research tool',
-      category: 'academic'
-    },
-    { 
-      id: 'arxiv', 
-      name: 'arXiv',
-      url: 'https://arxiv.org/search/?query=',
-      description: 'Scientific paper repository',
-      category: 'academic'
-    },
-    { 
-      id: 'research_gate', 
-      name: 'ResearchGate',
-      url: 'https://www.researchgate.net/search/publication?q=',
-      description: 'Scientific network and papers',
-      category: 'academic'
-    },
-    { 
-      id: 'dblp', 
-      name: 'DBLP',
-      url: 'https://dblp.org/search?q=',
-      description: 'Computer Science Bibliography',
-      category: 'academic'
-    }
-  ];
+  const [urlError, setUrlError] = useState<Message | null>(null);
+  // 表单中的 bang 别名, 提交时解析
+  const [bangInput, setBangInput] = useState('');
+  const [bangErrors, setBangErrors] = useState<Message[]>([]);
+  const [searchError, setSearchError] = useState<string | null>(null);
+  const [showPalette, setShowPalette] = useState(false);
+  const [linkIssues, setLinkIssues] = useState<Message[]>([]);
+  // 分享链接指定的搜索引擎: 本次会话中代替当前配置的选择, 不写入配置; 切换配置后失效
+  const [linkEngines, setLinkEngines] = useState<EngineSelection | null>(null);
+  // 搜索源的语法表达不了的查询部分, 搜索时提示
+  const [translationNotes, setTranslationNotes] = useState<string[]>([]);
+  const [linkCopied, setLinkCopied] = useState(false);
+  const [resolvedIdentifier, setResolvedIdentifier] = useState<Identifier | null>(null);
+  const identifierMetadata = useIdentifierMetadata(resolvedIdentifier);
+  // 识别出标识符时暂停的搜索, 用户选择仍然搜索时按原来的配置和搜索引擎执行
+  const deferredSearch = useRef<{ profile: SearchProfile; engines: EngineSelection } | null>(null);
+  const [customThesaurus, setCustomThesaurus] = useState<ThesaurusEntry[]>(() => customThesaurusStorage.load());
+  const [showExpansion, setShowExpansion] = useState(false);
+  const [expansionSelection, setExpansionSelection] = useState<ExpansionSelection>({});
+  const searchInputRef = useRef<HTMLInputElement>(null);
+  const [history, setHistory] = useState<SearchHistoryEntry[]>(() => historyStorage.load());
+  const [showHistory, setShowHistory] = useState(false);
+  const [showTransferModal, setShowTransferModal] = useState(false);
+  const [packSubscriptions, setPackSubscriptions] = useState<PackSubscription[]>(() => sourcePacksStorage.load());
+  const [showPacksModal, setShowPacksModal] = useState(false);
+  const [layout, setLayout] = useState<SourceLayout>(() => sourceLayoutStorage.load());
+  // 正在编辑的自定义搜索源, null 表示添加新搜索源
+  const [editingSourceId, setEditingSourceId] = useState<string | null>(null);
+  const [showHiddenSources, setShowHiddenSources] = useState(false);
+  const [newCategoryName, setNewCategoryName] = useState('');
+  const draggedSourceId = useRef<string | null>(null);
+  const [preferences, setPreferences] = useState<AppPreferences>(() => preferencesStorage.load());
+  const { results, fetchResults, clearResults } = useAggregatedResults();
+  const collections = useCollections();
+  const [showCollections, setShowCollections] = useState(false);
+  const reviewLog = useReviewLog();
+  const [showReviewLog, setShowReviewLog] = useState(false);
+  const [showAlerts, setShowAlerts] = useState(false);
+  const { manager: tabManager, records: tabRecords, blocked: blockedTabs } = useTabManager();
+  const [embedCapabilities, setEmbedCapabilities] = useState<EmbedCapabilities>(() => embedCapabilitiesStorage.load());
+  const [workspaceLayouts, setWorkspaceLayouts] = useState<WorkspaceLayouts>(() => workspaceLayoutsStorage.load());
+  const [paneSearches, setPaneSearches] = useState<{ [sourceId: string]: PaneSearch }>({});
 
-  // 合并默认和自定义搜索源
-  const searchSources = [...defaultSearchSources, ...customSources];
+  const locale = resolveLocale(preferences.locale);
+  const t = createTranslator(locale);
 
-  // 加载保存的搜索引擎选择和自定义搜索源
-  useEffect(() => {
-    const savedPreferences = localStorage.getItem('searchEnginePreferences');
-    const savedCustomSources = localStorage.getItem('customSearchSources');
-    
-    if (savedPreferences) {
-      setSelectedEngines(JSON.parse(savedPreferences));
-    } else {
-      const defaultPreferences = defaultSearchSources.reduce((acc, source) => {
-        acc[source.id] = true;
-        return acc;
-      }, {} as {[key: string]: boolean});
-      setSelectedEngines(defaultPreferences);
-      localStorage.setItem('searchEnginePreferences', JSON.stringify(defaultPreferences));
-    }
+  // 合并默认和自定义搜索源; 内置搜索源随界面语言变化 (描述和语言专属的搜索源)
+  const searchSources = [...localizeSources(getDefaultSources(locale), t), ...customSources];
+  // 隐藏的搜索源不参与搜索
+  const visibleSources = searchSources.filter(source => !layout.hiddenSources.includes(source.id));
+  const hiddenSources = searchSources.filter(source => layout.hiddenSources.includes(source.id));
+  const sourceHealth = useSourceHealth(searchSources);
+  const searchAlerts = useSearchAlerts(searchSources, t);
+  // 表单中正在编辑的搜索源与其他搜索源一起校验; 模板语法错误由 urlError 显示
+  const draftSourceIssues = newSource.url.trim() && !urlError
+    ? validateSources([
+        ...searchSources.filter(source => source.id !== editingSourceId),
+        { ...newSource, id: DRAFT_SOURCE_ID, url: newSource.url.trim() },
+      ])[DRAFT_SOURCE_ID]
+    : [];
+  const draftHasErrors = draftSourceIssues.some(issue => issue.severity === 'error');
 
-    if (savedCustomSources) {
-      setCustomSources(JSON.parse(savedCustomSources));
-    }
-  }, []);
+  // 每个分类也可以作为 bang, 例如 !academic
+  const bangGroups: BangGroup[] = arrangeSources(searchSources, layout).map(({ category, sources }) => ({
+    id: category.id,
+    name: category.name,
+    sourceIds: sources.map(source => source.id),
+  }));
+  const bangIndex = buildBangIndex(visibleSources, bangGroups);
+
+  // 查询扩展: 建议和预览都基于去掉 bang 之后的查询
+  const bangParsedQuery = parseBangs(searchQuery, bangIndex);
+  const expansionSuggestions = suggestExpansions(bangParsedQuery.query, [...defaultThesaurus, ...customThesaurus]);
+  // 查询中已不存在的词的选择不计入, 也不会生效
+  const activeExpansions = pruneSelection(expansionSelection, expansionSuggestions);
+  const activeExpansionCount = Object.values(activeExpansions).reduce((sum, selected) => sum + selected.length, 0);
+
+  // 当前配置的搜索引擎选择
+  const activeProfile = getActiveProfile(profileState);
+  // 界面显示的配置: 默认配置使用当前语言的名称
+  const displayedProfiles = { ...profileState, profiles: profileState.profiles.map(profile => localizeProfile(profile, t)) };
+  const selectedEngines = linkEngines ?? activeProfile.engines;
+
+  // 更新配置并持久化
+  const updateProfiles = (update: (state: ProfileState) => ProfileState) => {
+    const updated = update(profileState);
+    setProfileState(updated);
+    profilesStorage.save(updated);
+  };
+
+  const setSelectedEngines = (engines: EngineSelection) => {
+    if (linkEngines) setLinkEngines(engines);
+    else updateProfiles(state => setProfileEngines(state, activeProfile.id, engines));
+  };
+
+  const selectProfile = (profileId: string) => {
+    setLinkEngines(null);
+    updateProfiles(state => setActiveProfile(state, profileId));
+  };
+
+  // 把链接带来的选择保存到当前配置
+  const keepLinkEngines = () => {
+    if (linkEngines) updateProfiles(state => setProfileEngines(state, activeProfile.id, linkEngines));
+    setLinkEngines(null);
+  };
 
   // 保存搜索引擎选择
   const handleEngineToggle = (sourceId: string) => {
@@ -119,122 +238,547 @@ function App() {
       [sourceId]: !selectedEngines[sourceId]
     };
     setSelectedEngines(newSelectedEngines);
-    localStorage.setItem('searchEnginePreferences', JSON.stringify(newSelectedEngines));
   };
 
-  // 添加新的搜索源
+  const updateCustomSources = (updatedCustomSources: SearchSource[]) => {
+    setCustomSources(updatedCustomSources);
+    customSourcesStorage.save(updatedCustomSources);
+  };
+
+  const updateCustomThesaurus = (entries: ThesaurusEntry[]) => {
+    setCustomThesaurus(entries);
+    customThesaurusStorage.save(entries);
+  };
+
+  const updatePreferences = (changes: Partial<AppPreferences>) => {
+    const updated = { ...preferences, ...changes };
+    setPreferences(updated);
+    preferencesStorage.save(updated);
+  };
+
+  const updateLayout = (update: (layout: SourceLayout) => SourceLayout) => {
+    const updated = update(layout);
+    setLayout(updated);
+    sourceLayoutStorage.save(updated);
+  };
+
+  // iframe 的加载结果和超时异步到达, 这两份状态基于最新值更新
+  const updateEmbedCapabilities = (update: (capabilities: EmbedCapabilities) => EmbedCapabilities) => {
+    setEmbedCapabilities(current => {
+      const updated = update(current);
+      embedCapabilitiesStorage.save(updated);
+      return updated;
+    });
+  };
+
+  const updateWorkspaceLayouts = (update: (layouts: WorkspaceLayouts) => WorkspaceLayouts) => {
+    setWorkspaceLayouts(current => {
+      const updated = update(current);
+      workspaceLayoutsStorage.save(updated);
+      return updated;
+    });
+  };
+
+  // 当前配置的工作区布局
+  const workspaceLayout = getWorkspaceLayout(workspaceLayouts, activeProfile.id);
+  const updateWorkspace = (update: (layout: WorkspaceLayout) => WorkspaceLayout) => {
+    const profileId = activeProfile.id;
+    updateWorkspaceLayouts(layouts => ({ ...layouts, [profileId]: update(getWorkspaceLayout(layouts, profileId)) }));
+  };
+
+  const resetSourceForm = () => {
+    setNewSource({
+      id: '',
+      name: '',
+      url: '',
+      description: '',
+      category: 'general',
+      isCustom: true
+    });
+    setEditingSourceId(null);
+    setUrlError(null);
+    setBangInput('');
+    setBangErrors([]);
+    setShowAddModal(false);
+  };
+
+  // 添加新的搜索源, 或保存对自定义搜索源的修改
   const handleAddSource = () => {
     if (!newSource.name || !newSource.url) return;
 
+    const error = validateUrlTemplate(newSource.url);
+    if (error) {
+      setUrlError(error);
+      return;
+    }
+    if (draftHasErrors) return;
+
+    const bangs = parseBangList(bangInput);
+    const errors = validateBangs(bangs, editingSourceId ?? '', searchSources, bangGroups);
+    if (errors.length > 0) {
+      setBangErrors(errors);
+      return;
+    }
+    const saved: SearchSource = {
+      ...newSource,
+      url: newSource.url.trim(),
+      bangs: bangs.length > 0 ? bangs : undefined,
+    };
+
+    if (editingSourceId) {
+      const original = customSources.find(source => source.id === editingSourceId);
+      updateCustomSources(customSources.map(source => (source.id === editingSourceId ? saved : source)));
+      // 换了分类时放到新分类末尾
+      if (original?.category !== saved.category) {
+        updateLayout(current => moveSource(current, searchSources, editingSourceId, saved.category ?? 'general', null));
+      }
+      resetSourceForm();
+      return;
+    }
+
     // 生成唯一ID
-    newSource.id = `custom_${Date.now()}`;
+    const added: SearchSource = { ...saved, id: `custom_${Date.now()}` };
     
-    const updatedCustomSources = [...customSources, newSource];
-    setCustomSources(updatedCustomSources);
-    localStorage.setItem('customSearchSources', JSON.stringify(updatedCustomSources));
+    updateCustomSources([...customSources, added]);
     
     // 自动选中新添加的搜索源
     const newSelectedEngines = {
       ...selectedEngines,
-      [newSource.id]: true
+      [added.id]: true
     };
     setSelectedEngines(newSelectedEngines);
-    localStorage.setItem('searchEnginePreferences', JSON.stringify(newSelectedEngines));
 
     // 重置表单并关闭模态框
-    setNewSource({
-      id: '',
-      name: '',
-      url: '',
-      description: '',
-      category: 'general',
-      isCustom: true
-    });
-    setShowAddModal(false);
+    resetSourceForm();
+  };
+
+  const handleEditSource = (source: SearchSource) => {
+    setNewSource({ ...source });
+    setEditingSourceId(source.id);
+    setUrlError(null);
+    setBangInput(source.bangs?.join(' ') ?? '');
+    setBangErrors([]);
+    setShowAddModal(true);
+  };
+
+  // 拖放: 放到卡片上时插到该卡片之前, 放到分类空白处时放在分类末尾
+  const handleDropSource = (categoryId: string, beforeId: string | null) => {
+    const sourceId = draggedSourceId.current;
+    draggedSourceId.current = null;
+    if (!sourceId || sourceId === beforeId) return;
+
+    updateLayout(current => moveSource(current, searchSources, sourceId, categoryId, beforeId));
+    if (customSources.some(source => source.id === sourceId)) {
+      updateCustomSources(customSources.map(source => (source.id === sourceId ? { ...source, category: categoryId } : source)));
+    }
+  };
+
+  // 导入设置文件, 返回导入结果统计
+  const handleImportSettings = (bundle: SettingsBundle, mode: ImportMode) => {
+    const result = applySettingsBundle(
+      bundle,
+      { customSources, profiles: profileState, layout, thesaurus: customThesaurus, preferences },
+      mode,
+      name => t('profiles.importedName', { name })
+    );
+    updateCustomSources(result.customSources);
+    updateCustomThesaurus(result.thesaurus);
+    setProfileState(result.profiles);
+    profilesStorage.save(result.profiles);
+    updateLayout(() => result.layout);
+    updatePreferences(result.preferences);
+    return result.report;
+  };
+
+  // OpenSearch 描述文件解析出的搜索源交给添加表单确认
+  const handleOpenSearchParsed = (source: SearchSource) => {
+    setNewSource(source);
+    setEditingSourceId(null);
+    setUrlError(null);
+    setBangInput('');
+    setBangErrors([]);
+    setShowTransferModal(false);
+    setShowAddModal(true);
+  };
+
+  // 应用搜索源包的更新或取消订阅, 被删除的搜索源同时从配置和布局中移除
+  const commitPackResult = (result: PackApplyResult) => {
+    updateCustomSources(result.customSources);
+    setPackSubscriptions(result.subscriptions);
+    sourcePacksStorage.save(result.subscriptions);
+    if (result.removedIds.length === 0) return;
+    updateProfiles(state => result.removedIds.reduce(removeEngineFromProfiles, state));
+    updateLayout(current => result.removedIds.reduce(removeSourceFromLayout, current));
+    updateWorkspaceLayouts(layouts => result.removedIds.reduce(removeSourceFromWorkspaces, layouts));
+  };
+
+  const handleApplyPack = (manifest: SourcePackManifest, diff: PackDiff, url?: string) => {
+    commitPackResult(applySourcePack(manifest, diff, customSources, packSubscriptions, url));
+  };
+
+  const handleUnsubscribePack = (packId: string) => {
+    commitPackResult(unsubscribeSourcePack(packId, customSources, packSubscriptions));
   };
 
   // 删除自定义搜索源
   const handleDeleteSource = (sourceId: string) => {
-    const updatedCustomSources = customSources.filter(source => source.id !== sourceId);
-    setCustomSources(updatedCustomSources);
-    localStorage.setItem('customSearchSources', JSON.stringify(updatedCustomSources));
+    updateCustomSources(customSources.filter(source => source.id !== sourceId));
 
-    // 从选中列表中移除
-    const newSelectedEngines = { ...selectedEngines };
-    delete newSelectedEngines[sourceId];
-    setSelectedEngines(newSelectedEngines);
-    localStorage.setItem('searchEnginePreferences', JSON.stringify(newSelectedEngines));
+    // 从所有配置的选中列表和布局中移除
+    updateProfiles(state => removeEngineFromProfiles(state, sourceId));
+    updateLayout(current => removeSourceFromLayout(current, sourceId));
+    updateWorkspaceLayouts(layouts => removeSourceFromWorkspaces(layouts, sourceId));
   };
 
-  const isWindowOpen = (win: Window | null): boolean => {
-    return win != null && !win.closed;
+  const handleDeleteProfile = (profileId: string) => {
+    updateProfiles(state => deleteProfile(state, profileId));
+    updateWorkspaceLayouts(layouts => removeProfileWorkspace(layouts, profileId));
   };
 
-  const openSearchWindow = (source: SearchSource, query: string) => {
-    const searchUrl = `${source.url}${encodeURIComponent(query)}`;
-    const windowName = `search_${source.id}`;
-    
-    if (isWindowOpen(searchWindows.current[source.id])) {
-      searchWindows.current[source.id]?.location.replace(searchUrl);
-    } else {
-      const windowFeatures = 'noopener=yes,noreferrer=yes';
-      const newWindow = window.open(searchUrl, windowName, windowFeatures);
-      searchWindows.current[source.id] = newWindow;
+  // 工作区窗格无法显示: 记住这个站点不可嵌入, 以后改用窗口打开.
+  // 超时触发时不在用户手势内, 窗口会被拦截, 所以只保留窗格, 由窗格中的按钮打开;
+  // 用户报告时关闭窗格并立即打开窗口
+  const handleEmbedFailed = (source: SearchSource, evidence: 'timeout' | 'reported') => {
+    updateEmbedCapabilities(capabilities => recordEmbedFailure(capabilities, source, evidence));
+    if (evidence === 'timeout') return;
+    updateWorkspace(current => undockSource(current, source.id));
+    const search = paneSearches[source.id];
+    if (search) tabManager.openTabs([{ sourceId: source.id, ...search }]);
+  };
+
+  const handleOpenPaneInWindow = (source: SearchSource) => {
+    const search = paneSearches[source.id];
+    if (search) tabManager.openTabs([{ sourceId: source.id, ...search }]);
+  };
+
+  // 保存检索结果到当前收藏集, 还没有收藏集时自动创建一个
+  const handleSaveResult = (result: SavableResult) => {
+    const collection = collections.activeCollection ?? collections.addCollection(t('collections.defaultName'));
+    collections.addItem(createItemFromResult(collection.id, result));
+  };
+
+  // 更新搜索历史并持久化
+  const updateHistory = (update: (entries: SearchHistoryEntry[]) => SearchHistoryEntry[]) => {
+    const updated = update(history);
+    setHistory(updated);
+    historyStorage.save(updated);
+  };
+
+  const recordSearch = (query: string, engines: string[]) => {
+    updateHistory(entries => addHistoryEntry(entries, { query, engines }));
+  };
+
+  // 在给定的搜索源上打开搜索窗口并记录历史
+  const launchSearch = (query: string, sources: SearchSource[]) => {
+    if (!query.trim() || sources.length === 0) return;
+
+    recordSearch(query, sources.map(source => source.id));
+
+    // 只解析一次, 各搜索源再按自己的语法翻译
+    const structuredQuery = parseQuery(query);
+    setTranslationNotes(sources.flatMap(source => {
+      const { unsupported } = translateQuery(source, structuredQuery);
+      if (!unsupported) return [];
+      const features = unsupported.map(feature => t(`search.unsupported.${feature}`)).join(t('common.listSeparator'));
+      return [t('search.unsupported', { name: source.name, features })];
+    }));
+
+    // 页面内获取结果的搜索源不再打开窗口
+    const fetchedSources = preferences.fetchResults ? sources.filter(source => getResultAdapter(source)) : [];
+    const popupSources = sources.filter(source => !fetchedSources.includes(source));
+    if (fetchedSources.length > 0) {
+      fetchResults(fetchedSources, structuredQuery);
+    }
+
+    // 工作区打开时, 没有确认不可嵌入的搜索源在窗格中显示
+    const embeddedSources = preferences.workspace
+      ? popupSources.filter(source => getEmbeddability(source, embedCapabilities) !== 'no')
+      : [];
+    const windowSources = popupSources.filter(source => !embeddedSources.includes(source));
+    if (embeddedSources.length > 0) {
+      setPaneSearches(current => ({
+        ...current,
+        ...Object.fromEntries(
+          embeddedSources.map(source => [source.id, { url: buildSourceSearchUrl(source, structuredQuery), query }])
+        ),
+      }));
+      updateWorkspace(current => dockSources(current, embeddedSources.map(source => source.id)));
+    }
+
+    // 必须在用户手势内同步打开; 被拦截的窗口显示在 BlockedTabsNotice 中
+    const { blocked } = windowSources.length > 0
+      ? tabManager.openTabs(
+          windowSources.map(source => ({ sourceId: source.id, url: buildSourceSearchUrl(source, structuredQuery), query }))
+        )
+      : { blocked: [] as string[] };
+
+    if (reviewLog.activeProject) {
+      reviewLog.logEntries(
+        createLogEntries(reviewLog.activeProject.id, query, structuredQuery, [
+          ...fetchedSources.map(source => ({ source, delivery: 'in-page' as const })),
+          ...embeddedSources.map(source => ({ source, delivery: 'embedded' as const })),
+          ...windowSources.map(source => ({
+            source,
+            delivery: blocked.includes(source.id) ? ('blocked' as const) : ('window' as const),
+          })),
+        ])
+      );
     }
+  };
 
-    searchWindows.current[source.id]?.focus();
+  // 在记录中的搜索引擎上重新执行搜索, 已删除的搜索源会被跳过
+  const handleReplaySearch = (entry: SearchHistoryEntry) => {
+    setSearchQuery(entry.query);
+    launchSearch(entry.query, visibleSources.filter(source => entry.engines.includes(source.id)));
   };
 
-  const handleSearch = async (e: React.FormEvent) => {
+  const handleSearch = (e: React.FormEvent) => {
     e.preventDefault();
-    if (!searchQuery.trim()) return;
-    
-    setIsSearching(true);
+    submitQuery(searchQuery, activeProfile, selectedEngines);
+  };
 
-    // 只搜索选中的搜索引擎
-    const selectedSources = searchSources.filter(source => selectedEngines[source.id]);
-    
-    for (let i = 0; i < selectedSources.length; i++) {
-      const source = selectedSources[i];
-      setTimeout(() => {
-        openSearchWindow(source, searchQuery);
-      }, i * 100);
+  // 所有搜索路径发送的查询: 加入选中的扩展词, 再附加配置的查询后缀
+  const prepareQuery = (query: string, profile: SearchProfile) =>
+    applyQuerySuffix(expandQuery(query, expansionSelection), profile);
+
+  // DOI、arXiv ID、PMID、ISBN 先显示落地页链接和元数据, 不直接发给搜索引擎.
+  // 所有搜索入口 (搜索框、单个搜索源、其他配置、命令面板) 都经过这里
+  const submitQuery = (query: string, profile: SearchProfile, engines: EngineSelection) => {
+    const identifier = extractIdentifier(query);
+    if (isResolvable(identifier) && parseBangs(query, bangIndex).bangs.length === 0) {
+      setSearchError(null);
+      setResolvedIdentifier(identifier);
+      deferredSearch.current = { profile, engines };
+      return;
     }
+    setResolvedIdentifier(null);
+    searchWithBangs(query, profile, engines);
   };
 
+  // 有 bang 时只搜索 bang 指定的搜索引擎, 否则搜索选中的
+  const searchWithBangs = (query: string, profile: SearchProfile, engines: EngineSelection) => {
+    const parsed = parseBangs(query, bangIndex);
+    if (parsed.unknown.length > 0) {
+      setSearchError(t('search.unknownBang', { bangs: parsed.unknown.map(bang => `!${bang}`).join(', ') }));
+      return;
+    }
+    setSearchError(null);
+    const targetSources = parsed.sourceIds
+      ? visibleSources.filter(source => parsed.sourceIds?.includes(source.id))
+      : visibleSources.filter(source => engines[source.id]);
+    launchSearch(prepareQuery(parsed.query, profile), targetSources);
+  };
+
+  // 打开分享链接 (?q=&engines=&profile=&run=1) 时只在首次加载处理一次.
+  // ref 保存首次渲染时的处理函数, 之后的渲染不会替换它; 处理后地址中的参数被移除, 重复调用不会生效
+  const openDeepLink = useRef(() => {
+    const { link, issues } = parseDeepLink(
+      window.location.search,
+      searchSources,
+      profileState.profiles,
+      layout.hiddenSources
+    );
+    if (!link) return;
+    window.history.replaceState(null, '', stripDeepLinkParams(window.location.href));
+    setLinkIssues(issues);
+
+    const state = link.profileId ? setActiveProfile(profileState, link.profileId) : profileState;
+    if (state !== profileState) updateProfiles(() => state);
+    const profile = getActiveProfile(state);
+    const engines = link.engines
+      ? Object.fromEntries(searchSources.map(source => [source.id, link.engines?.includes(source.id) ?? false]))
+      : null;
+    setLinkEngines(engines);
+    setSearchQuery(link.query);
+
+    // 页面加载时不在用户手势内, 弹出窗口多半会被拦截, 由 BlockedTabsNotice 提供链接
+    if (link.autorun && link.query.trim()) {
+      submitQuery(link.query, profile, engines ?? profile.engines);
+    }
+  });
+  useEffect(() => openDeepLink.current(), []);
+
+  const handleCopyLink = async () => {
+    const base = `${window.location.origin}${window.location.pathname}`;
+    const link = buildDeepLink(base, {
+      query: searchQuery,
+      engines: visibleSources.filter(source => selectedEngines[source.id]).map(source => source.id),
+      // 默认配置人人都有, 不写入链接
+      profile: activeProfile.id === DEFAULT_PROFILE_ID ? undefined : activeProfile.name,
+      autorun: true,
+    });
+    try {
+      await navigator.clipboard.writeText(link);
+      setLinkCopied(true);
+      window.setTimeout(() => setLinkCopied(false), 2000);
+    } catch {
+      window.prompt(t('search.copyLinkPrompt'), link);
+    }
+  };
+
+  const handleDuplicateProfile = (id: string) => {
+    const original = displayedProfiles.profiles.find(profile => profile.id === id);
+    if (original) updateProfiles(state => duplicateProfile(state, id, t('profiles.copyName', { name: original.name })));
+  };
+
+  // 用另一个配置的搜索引擎和查询后缀搜索, 不切换当前配置
+  const handleSearchWithProfile = (profileId: string) => {
+    const profile = profileState.profiles.find(p => p.id === profileId);
+    if (!profile || !searchQuery.trim()) return;
+    submitQuery(searchQuery, profile, profile.engines);
+  };
+
+  // 只搜索一个搜索源; 查询中的 bang 仍然优先
   const handleSingleSearch = (source: SearchSource) => {
     if (!searchQuery.trim()) return;
-    openSearchWindow(source, searchQuery);
+    submitQuery(searchQuery, activeProfile, { [source.id]: true });
   };
 
+  // 屏幕阅读器和浏览器翻译依据 <html lang> 判断页面语言
+  useEffect(() => {
+    document.documentElement.lang = locale;
+  }, [locale]);
+
+  // Ctrl/Cmd+K 打开命令面板
   useEffect(() => {
-    return () => {
-      Object.values(searchWindows.current).forEach(window => {
-        if (isWindowOpen(window)) {
-          window?.close();
-        }
-      });
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if ((e.ctrlKey || e.metaKey) && e.key.toLowerCase() === 'k') {
+        e.preventDefault();
+        setShowPalette(open => !open);
+      }
     };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
   }, []);
 
+  const paletteCommands: PaletteCommand[] = [
+    {
+      id: 'action-focus-search',
+      group: t('palette.group.action'),
+      label: t('palette.focusSearch'),
+      run: () => searchInputRef.current?.focus(),
+    },
+    {
+      id: 'action-history',
+      group: t('palette.group.action'),
+      label: showHistory ? t('palette.hideHistory') : t('palette.showHistory'),
+      run: () => setShowHistory(!showHistory),
+    },
+    {
+      id: 'action-collections',
+      group: t('palette.group.action'),
+      label: showCollections ? t('palette.hideCollections') : t('palette.showCollections'),
+      run: () => setShowCollections(!showCollections),
+    },
+    {
+      id: 'action-review-log',
+      group: t('palette.group.action'),
+      label: showReviewLog ? t('palette.hideSearchLog') : t('palette.showSearchLog'),
+      run: () => setShowReviewLog(!showReviewLog),
+    },
+    {
+      id: 'action-alerts',
+      group: t('palette.group.action'),
+      label: showAlerts ? t('palette.hideAlerts') : t('palette.showAlerts'),
+      run: () => setShowAlerts(!showAlerts),
+    },
+    {
+      id: 'action-workspace',
+      group: t('palette.group.action'),
+      label: preferences.workspace ? t('palette.hideWorkspace') : t('palette.showWorkspace'),
+      run: () => updatePreferences({ workspace: !preferences.workspace }),
+    },
+    {
+      id: 'action-check-sources',
+      group: t('palette.group.action'),
+      label: t('palette.checkSources'),
+      detail: t('toolbar.checkSourcesHint'),
+      run: () => sourceHealth.probeSources(visibleSources),
+    },
+    {
+      id: 'action-packs',
+      group: t('palette.group.action'),
+      label: t('palette.sourcePacks'),
+      run: () => setShowPacksModal(true),
+    },
+    {
+      id: 'action-transfer',
+      group: t('palette.group.action'),
+      label: t('palette.importExport'),
+      run: () => setShowTransferModal(true),
+    },
+    {
+      id: 'action-add-source',
+      group: t('palette.group.action'),
+      label: t('palette.addSource'),
+      run: () => setShowAddModal(true),
+    },
+    ...visibleSources.map(source => ({
+      id: `toggle-${source.id}`,
+      group: t('palette.group.engine'),
+      label: t(selectedEngines[source.id] ? 'palette.deselectEngine' : 'palette.selectEngine', { name: source.name }),
+      detail: source.bangs?.map(bang => `!${bang}`).join(' '),
+      run: () => handleEngineToggle(source.id),
+      keepOpen: true,
+    })),
+    ...(searchQuery.trim()
+      ? visibleSources.map(source => ({
+          id: `search-${source.id}`,
+          group: t('palette.group.engine'),
+          label: t('palette.searchEngine', { name: source.name }),
+          detail: searchQuery,
+          run: () => handleSingleSearch(source),
+        }))
+      : []),
+    ...displayedProfiles.profiles.map(profile => ({
+      id: `profile-${profile.id}`,
+      group: t('palette.group.profile'),
+      label: t('palette.switchProfile', { name: profile.name }),
+      run: () => selectProfile(profile.id),
+    })),
+    ...history.map(entry => ({
+      id: `history-${entry.id}`,
+      group: entry.pinned ? t('palette.group.saved') : t('palette.group.history'),
+      label: entry.name || entry.query,
+      detail: new Date(entry.timestamp).toLocaleDateString(),
+      run: () => handleReplaySearch(entry),
+    })),
+  ];
+
   return (
     <div className="flex flex-col min-h-screen bg-gradient-to-b from-gray-50 to-gray-100 dark:from-gray-900 dark:to-gray-800">
       {/* Search Header */}
       <div className="flex-none p-4 bg-white/80 dark:bg-gray-800/80 backdrop-blur-md border-b border-gray-200 dark:border-gray-700">
         <div className="max-w-4xl mx-auto">
+          <div className="flex justify-end">
+            <label className="flex items-center gap-2 text-sm text-gray-600 dark:text-gray-400">
+              {t('language.label')}
+              <select
+                value={locale}
+                onChange={(e) => isLocale(e.target.value) && updatePreferences({ locale: e.target.value })}
+                className="px-2 py-1 text-sm border border-gray-300 rounded-md dark:bg-gray-700 dark:border-gray-600 dark:text-white"
+              >
+                {(Object.keys(localeNames) as Locale[]).map(option => (
+                  <option key={option} value={option}>{localeNames[option]}</option>
+                ))}
+              </select>
+            </label>
+          </div>
           <h1 className="text-2xl font-bold text-center text-gray-900 dark:text-white mb-4">
-            LiteResearch Search||公众号: 正经人王同学
+            {t('app.title')}
           </h1>
           <form onSubmit={handleSearch} className="relative">
             <input
               type="text"
               value={searchQuery}
               onChange={(e) => setSearchQuery(e.target.value)}
+              ref={searchInputRef}
               className="w-full px-6 py-3 text-lg rounded-full border border-gray-300 
                        focus:ring-2 focus:ring-blue-500 focus:border-transparent 
                        dark:bg-gray-800 dark:border-gray-700 dark:text-white
                        shadow-sm hover:shadow-md transition-shadow"
-              placeholder="Enter your search query..."
+              placeholder={t('search.placeholder')}
+              title={t('search.syntaxHint')}
             />
             <button
               type="submit"
@@ -242,9 +786,106 @@ function App() {
                        bg-blue-500 text-white px-6 py-2 rounded-full 
                        hover:bg-blue-600 transition-colors"
             >
-              Search Selected
+              {t('search.submit')}
             </button>
           </form>
+          {searchError && <p className="mt-2 text-sm text-red-600 dark:text-red-400">{searchError}</p>}
+          {linkIssues.length > 0 && (
+            <div className="mt-2 text-sm text-yellow-800 dark:text-yellow-200 bg-yellow-50 dark:bg-yellow-900 rounded-lg px-4 py-2">
+              <div className="flex justify-between gap-3">
+                <span>{t('search.linkIssues')}</span>
+                <button onClick={() => setLinkIssues([])} className="hover:underline">{t('common.dismiss')}</button>
+              </div>
+              <ul className="list-disc pl-5">
+                {linkIssues.map(issue => <li key={translateMessage(t, issue)}>{translateMessage(t, issue)}</li>)}
+              </ul>
+            </div>
+          )}
+          {linkEngines && (
+            <div className="mt-2 flex flex-wrap justify-between gap-3 text-sm text-blue-800 dark:text-blue-200 bg-blue-50 dark:bg-blue-900 rounded-lg px-4 py-2">
+              <span>{t('search.linkEngines', { profile: localizeProfile(activeProfile, t).name })}</span>
+              <span className="flex gap-3">
+                <button onClick={keepLinkEngines} className="hover:underline">{t('search.linkEngines.keep')}</button>
+                <button onClick={() => setLinkEngines(null)} className="hover:underline">{t('search.linkEngines.reset')}</button>
+              </span>
+            </div>
+          )}
+          {translationNotes.length > 0 && (
+            <div className="mt-2 text-sm text-yellow-800 dark:text-yellow-200 bg-yellow-50 dark:bg-yellow-900 rounded-lg px-4 py-2">
+              <div className="flex justify-between gap-3">
+                <ul className="list-disc pl-5">
+                  {translationNotes.map(note => <li key={note}>{note}</li>)}
+                </ul>
+                <button onClick={() => setTranslationNotes([])} className="hover:underline">{t('common.dismiss')}</button>
+              </div>
+            </div>
+          )}
+          <div className="flex flex-wrap justify-between items-center gap-2 mt-3">
+            <label className="flex items-center gap-2 text-sm text-gray-700 dark:text-gray-300">
+              <input
+                type="checkbox"
+                checked={preferences.fetchResults}
+                onChange={(e) => updatePreferences({ fetchResults: e.target.checked })}
+                className="w-4 h-4 text-blue-600 rounded border-gray-300 focus:ring-blue-500"
+              />
+              <span>{t('search.fetchResults')}</span>
+            </label>
+            <label className="flex items-center gap-2 text-sm text-gray-700 dark:text-gray-300" title={t('search.workspaceHint')}>
+              <input
+                type="checkbox"
+                checked={preferences.workspace ?? false}
+                onChange={(e) => updatePreferences({ workspace: e.target.checked })}
+                className="w-4 h-4 text-blue-600 rounded border-gray-300 focus:ring-blue-500"
+              />
+              <span>{t('search.workspace')}</span>
+            </label>
+            <button
+              onClick={() => setShowExpansion(!showExpansion)}
+              className="text-sm text-blue-500 hover:text-blue-600 dark:text-blue-400"
+              title={t('search.expandHint')}
+            >
+              {showExpansion ? t('search.hideExpansion') : t('search.expand')}
+              {activeExpansionCount > 0 && t('search.expansionCount', { count: activeExpansionCount })}
+            </button>
+            <button
+              onClick={handleCopyLink}
+              disabled={!searchQuery.trim()}
+              className="text-sm text-blue-500 hover:text-blue-600 dark:text-blue-400 disabled:opacity-50 disabled:cursor-not-allowed"
+              title={t('search.copyLinkHint')}
+            >
+              {linkCopied ? t('search.linkCopied') : t('search.copyLink')}
+            </button>
+          </div>
+          {showExpansion && (
+            <div className="mt-3">
+              <ExpansionPanel
+                suggestions={expansionSuggestions}
+                selection={activeExpansions}
+                onSelectionChange={setExpansionSelection}
+                expandedQuery={prepareQuery(bangParsedQuery.query, activeProfile)}
+                previewSources={
+                  bangParsedQuery.sourceIds
+                    ? visibleSources.filter(source => bangParsedQuery.sourceIds?.includes(source.id))
+                    : visibleSources.filter(source => selectedEngines[source.id])
+                }
+                customEntries={customThesaurus}
+                onAddEntry={(entry) => updateCustomThesaurus([...customThesaurus, entry])}
+                onDeleteEntry={(id) => updateCustomThesaurus(customThesaurus.filter(entry => entry.id !== id))}
+                t={t}
+              />
+            </div>
+          )}
+          <ProfileBar
+            state={displayedProfiles}
+            onSelect={selectProfile}
+            onCreate={(name) => updateProfiles(state => createProfile(state, name, selectedEngines))}
+            onRename={(id, name) => updateProfiles(state => renameProfile(state, id, name))}
+            onDuplicate={handleDuplicateProfile}
+            onDelete={handleDeleteProfile}
+            onQuerySuffixChange={(id, suffix) => updateProfiles(state => setProfileQuerySuffix(state, id, suffix))}
+            onSearchWithProfile={handleSearchWithProfile}
+            t={t}
+          />
         </div>
       </div>
 
@@ -252,150 +893,257 @@ function App() {
       <div className="flex-grow p-4">
         <div className="max-w-6xl mx-auto space-y-6">
           {/* Add New Source Button */}
-          <div className="flex justify-end px-4">
+          <div className="flex justify-end space-x-3 px-4">
+            <button
+              onClick={() => setShowHistory(!showHistory)}
+              className="px-4 py-2 bg-gray-200 dark:bg-gray-700 text-gray-800 dark:text-gray-200 rounded-full hover:bg-gray-300 dark:hover:bg-gray-600 transition-colors"
+            >
+              {showHistory ? t('toolbar.hideHistory') : t('toolbar.history', { count: history.length })}
+            </button>
+            <button
+              onClick={() => setShowCollections(!showCollections)}
+              className="px-4 py-2 bg-gray-200 dark:bg-gray-700 text-gray-800 dark:text-gray-200 rounded-full hover:bg-gray-300 dark:hover:bg-gray-600 transition-colors"
+            >
+              {showCollections ? t('toolbar.hideCollections') : t('toolbar.collections')}
+            </button>
+            <button
+              onClick={() => setShowReviewLog(!showReviewLog)}
+              className="px-4 py-2 bg-gray-200 dark:bg-gray-700 text-gray-800 dark:text-gray-200 rounded-full hover:bg-gray-300 dark:hover:bg-gray-600 transition-colors"
+            >
+              {showReviewLog
+                ? t('toolbar.hideSearchLog')
+                : reviewLog.activeProject
+                  ? t('toolbar.searchLogActive')
+                  : t('toolbar.searchLog')}
+            </button>
+            <button
+              onClick={() => setShowAlerts(!showAlerts)}
+              className="px-4 py-2 bg-gray-200 dark:bg-gray-700 text-gray-800 dark:text-gray-200 rounded-full hover:bg-gray-300 dark:hover:bg-gray-600 transition-colors"
+            >
+              {showAlerts
+                ? t('toolbar.hideAlerts')
+                : searchAlerts.unreadCount > 0
+                  ? t('toolbar.alertsUnread', { count: searchAlerts.unreadCount })
+                  : t('toolbar.alerts')}
+            </button>
+            <button
+              onClick={() =>
+                sourceHealth.probing ? sourceHealth.cancelProbes() : sourceHealth.probeSources(visibleSources)
+              }
+              title={t('toolbar.checkSourcesHint')}
+              className="px-4 py-2 bg-gray-200 dark:bg-gray-700 text-gray-800 dark:text-gray-200 rounded-full hover:bg-gray-300 dark:hover:bg-gray-600 transition-colors"
+            >
+              {sourceHealth.probing
+                ? t('toolbar.checkingSources', { count: sourceHealth.pending.length })
+                : t('toolbar.checkSources')}
+            </button>
+            <button
+              onClick={() => setShowPacksModal(true)}
+              className="px-4 py-2 bg-gray-200 dark:bg-gray-700 text-gray-800 dark:text-gray-200 rounded-full hover:bg-gray-300 dark:hover:bg-gray-600 transition-colors"
+            >
+              {t('toolbar.sourcePacks')}
+            </button>
+            <button
+              onClick={() => setShowTransferModal(true)}
+              className="px-4 py-2 bg-gray-200 dark:bg-gray-700 text-gray-800 dark:text-gray-200 rounded-full hover:bg-gray-300 dark:hover:bg-gray-600 transition-colors"
+            >
+              {t('toolbar.importExport')}
+            </button>
             <button
               onClick={() => setShowAddModal(true)}
               className="px-4 py-2 bg-green-500 text-white rounded-full hover:bg-green-600 transition-colors"
             >
-              Add Custom Search Engine
+              {t('toolbar.addSource')}
             </button>
           </div>
 
-          {/* General Search Engines */}
-          <div>
-            <h2 className="text-xl font-semibold text-gray-900 dark:text-white mb-4 px-4">
-              General Search
-            </h2>
-            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
-              {searchSources.filter(source => source.category === 'general').map((source) => (
-                <div 
-                  key={source.id} 
-                  className="bg-white dark:bg-gray-800 rounded-xl shadow-sm hover:shadow-md transition-shadow p-6"
-                >
-                  <div className="flex justify-between items-start mb-4">
-                    <div className="flex items-center space-x-3">
-                      <input
-                        type="checkbox"
-                        id={`engine-${source.id}`}
-                        checked={selectedEngines[source.id] || false}
-                        onChange={() => handleEngineToggle(source.id)}
-                        className="w-4 h-4 text-blue-600 rounded border-gray-300 focus:ring-blue-500"
-                      />
-                      <div>
-                        <h2 className="text-xl font-semibold text-gray-900 dark:text-white">
-                          {source.name}
-                        </h2>
-                        <p className="text-sm text-gray-600 dark:text-gray-400 mt-1">
-                          {source.description}
-                        </p>
-                      </div>
-                    </div>
-                    <div className="flex space-x-2">
-                      <button
-                        onClick={() => handleSingleSearch(source)}
-                        className="px-4 py-2 bg-gray-100 dark:bg-gray-700 rounded-full
-                                 text-gray-700 dark:text-gray-300 text-sm font-medium
-                                 hover:bg-gray-200 dark:hover:bg-gray-600 transition-colors"
-                      >
-                        Search
-                      </button>
-                      {source.isCustom && (
-                        <button
-                          onClick={() => handleDeleteSource(source.id)}
-                          className="px-3 py-2 bg-red-100 dark:bg-red-900 rounded-full
-                                   text-red-600 dark:text-red-300 text-sm font-medium
-                                   hover:bg-red-200 dark:hover:bg-red-800 transition-colors"
-                        >
-                          Delete
-                        </button>
-                      )}
-                    </div>
-                  </div>
-                  {isSearching && searchQuery && isWindowOpen(searchWindows.current[source.id]) && (
-                    <div className="mt-4">
-                      <div className="text-sm text-gray-600 dark:text-gray-400">
-                        Window is open - "{searchQuery}"
-                      </div>
-                      <button
-                        onClick={() => searchWindows.current[source.id]?.focus()}
-                        className="inline-block mt-2 text-blue-500 hover:text-blue-600 dark:text-blue-400"
-                      >
-                        ↗ Focus window
-                      </button>
-                    </div>
-                  )}
-                </div>
-              ))}
-            </div>
-          </div>
+          {/* Identifier Resolver */}
+          {resolvedIdentifier && (
+            <IdentifierPanel
+              identifier={resolvedIdentifier}
+              metadata={identifierMetadata}
+              onSearchAnyway={() => {
+                const { profile, engines } = deferredSearch.current ?? { profile: activeProfile, engines: selectedEngines };
+                setResolvedIdentifier(null);
+                searchWithBangs(searchQuery, profile, engines);
+              }}
+              onSave={handleSaveResult}
+              onClose={() => setResolvedIdentifier(null)}
+              t={t}
+            />
+          )}
 
-          {/* Academic Search Engines */}
-          <div>
-            <h2 className="text-xl font-semibold text-gray-900 dark:text-white mb-4 px-4">
-              Academic Search
-            </h2>
-            <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-4">
-              {searchSources.filter(source => source.category === 'academic').map((source) => (
-                <div 
-                  key={source.id} 
-                  className="bg-white dark:bg-gray-800 rounded-xl shadow-sm hover:shadow-md transition-shadow p-6"
-                >
-                  <div className="flex justify-between items-start mb-4">
-                    <div className="flex items-center space-x-3">
-                      <input
-                        type="checkbox"
-                        id={`engine-${source.id}`}
-                        checked={selectedEngines[source.id] || false}
-                        onChange={() => handleEngineToggle(source.id)}
-                        className="w-4 h-4 text-blue-600 rounded border-gray-300 focus:ring-blue-500"
-                      />
-                      <div>
-                        <h2 className="text-xl font-semibold text-gray-900 dark:text-white">
-                          {source.name}
-                        </h2>
-                        <p className="text-sm text-gray-600 dark:text-gray-400 mt-1">
-                          {source.description}
-                        </p>
-                      </div>
-                    </div>
-                    <div className="flex space-x-2">
-                      <button
-                        onClick={() => handleSingleSearch(source)}
-                        className="px-4 py-2 bg-gray-100 dark:bg-gray-700 rounded-full
-                                 text-gray-700 dark:text-gray-300 text-sm font-medium
-                                 hover:bg-gray-200 dark:hover:bg-gray-600 transition-colors"
-                      >
-                        Search
-                      </button>
-                      {source.isCustom && (
-                        <button
-                          onClick={() => handleDeleteSource(source.id)}
-                          className="px-3 py-2 bg-red-100 dark:bg-red-900 rounded-full
-                                   text-red-600 dark:text-red-300 text-sm font-medium
-                                   hover:bg-red-200 dark:hover:bg-red-800 transition-colors"
-                        >
-                          Delete
-                        </button>
-                      )}
-                    </div>
-                  </div>
-                  {isSearching && searchQuery && isWindowOpen(searchWindows.current[source.id]) && (
-                    <div className="mt-4">
-                      <div className="text-sm text-gray-600 dark:text-gray-400">
-                        Window is open - "{searchQuery}"
-                      </div>
-                      <button
-                        onClick={() => searchWindows.current[source.id]?.focus()}
-                        className="inline-block mt-2 text-blue-500 hover:text-blue-600 dark:text-blue-400"
-                      >
-                        ↗ Focus window
-                      </button>
-                    </div>
-                  )}
-                </div>
-              ))}
+          {/* Blocked Search Windows */}
+          {blockedTabs.length > 0 && (
+            <BlockedTabsNotice blocked={blockedTabs} sources={searchSources} manager={tabManager} t={t} />
+          )}
+
+          {/* Embedded Workspace */}
+          {preferences.workspace && (
+            <WorkspacePanel
+              layout={workspaceLayout}
+              sources={searchSources}
+              searches={paneSearches}
+              capabilities={embedCapabilities}
+              onLayoutChange={updateWorkspace}
+              onEmbedFailed={handleEmbedFailed}
+              onOpenWindow={handleOpenPaneInWindow}
+              t={t}
+            />
+          )}
+
+          {/* Aggregated Results */}
+          {Object.keys(results).length > 0 && (
+            <ResultsPanel
+              results={results}
+              sources={searchSources}
+              view={preferences.resultsView}
+              onViewChange={(resultsView) => updatePreferences({ resultsView })}
+              onClear={clearResults}
+              onSave={handleSaveResult}
+              t={t}
+            />
+          )}
+
+          {/* Collections */}
+          {showCollections && <CollectionsPanel state={collections} t={t} />}
+
+          {/* Systematic Review Search Log */}
+          {showReviewLog && <ReviewLogPanel state={reviewLog} t={t} />}
+
+          {/* Search Alerts */}
+          {showAlerts && (
+            <AlertsPanel
+              state={searchAlerts}
+              sources={visibleSources.filter(isAlertSource)}
+              savedSearches={history.filter(entry => entry.pinned)}
+              defaultDraft={{
+                query: bangParsedQuery.query.trim(),
+                sourceIds: visibleSources.filter(source => isAlertSource(source) && selectedEngines[source.id]).map(source => source.id),
+              }}
+              onSave={handleSaveResult}
+              t={t}
+            />
+          )}
+
+          {/* Search History */}
+          {showHistory && (
+            <HistoryPanel
+              entries={history}
+              sources={searchSources}
+              onReplay={handleReplaySearch}
+              onDelete={(id) => updateHistory(entries => deleteHistoryEntry(entries, id))}
+              onClear={() => updateHistory(clearHistory)}
+              onPin={(id, name) => updateHistory(entries => pinHistoryEntry(entries, id, name))}
+              onUnpin={(id) => updateHistory(entries => unpinHistoryEntry(entries, id))}
+              t={t}
+            />
+          )}
+
+          {/* Search Engines by Category */}
+          {arrangeSources(searchSources, layout).map(({ category, sources }) => (
+            <div
+              key={category.id}
+              onDragOver={(e) => e.preventDefault()}
+              onDrop={(e) => {
+                e.preventDefault();
+                handleDropSource(category.id, null);
+              }}
+            >
+              <CategoryHeader
+                category={localizeCategory(category, t)}
+                onRename={(name) => updateLayout(current => renameCategory(current, category.id, name))}
+                onDelete={() => updateLayout(current => deleteCategory(current, category.id))}
+                t={t}
+              />
+              <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-4 min-h-[4rem]">
+                {sources.map((source) => (
+                  <SourceCard
+                    key={source.id}
+                    source={source}
+                    selected={selectedEngines[source.id] || false}
+                    onToggle={() => handleEngineToggle(source.id)}
+                    onSearch={() => handleSingleSearch(source)}
+                    onEdit={source.isCustom ? () => handleEditSource(source) : undefined}
+                    onDelete={source.isCustom ? () => handleDeleteSource(source.id) : undefined}
+                    onHide={source.isCustom ? undefined : () => updateLayout(current => setSourceHidden(current, source.id, true))}
+                    openWindowQuery={
+                      tabRecords.find(record => record.sourceId === source.id && record.status === 'open')?.query
+                    }
+                    onFocusWindow={() => tabManager.focus(source.id)}
+                    health={sourceHealth.health[source.id]}
+                    checking={sourceHealth.pending.includes(source.id)}
+                    onDragStart={(e) => {
+                      draggedSourceId.current = source.id;
+                      e.dataTransfer.effectAllowed = 'move';
+                    }}
+                    onDragOver={(e) => e.preventDefault()}
+                    onDrop={(e) => {
+                      e.preventDefault();
+                      e.stopPropagation();
+                      handleDropSource(category.id, source.id);
+                    }}
+                    t={t}
+                  />
+                ))}
+                {sources.length === 0 && (
+                  <p className="text-sm text-gray-500 dark:text-gray-400 px-4 py-6">
+                    {t('category.empty')}
+                  </p>
+                )}
+              </div>
             </div>
+          ))}
+
+          {/* Add Category / Hidden Sources */}
+          <div className="flex flex-wrap justify-between items-center gap-3 px-4">
+            <form
+              onSubmit={(e) => {
+                e.preventDefault();
+                updateLayout(current => addCategory(current, newCategoryName));
+                setNewCategoryName('');
+              }}
+              className="flex items-center gap-2"
+            >
+              <input
+                type="text"
+                value={newCategoryName}
+                onChange={(e) => setNewCategoryName(e.target.value)}
+                placeholder={t('category.newPlaceholder')}
+                className="px-3 py-2 text-sm border border-gray-300 rounded-full dark:bg-gray-700 dark:border-gray-600 dark:text-white"
+              />
+              <button
+                type="submit"
+                disabled={!newCategoryName.trim()}
+                className="px-4 py-2 text-sm bg-gray-200 dark:bg-gray-700 text-gray-800 dark:text-gray-200 rounded-full hover:bg-gray-300 dark:hover:bg-gray-600 transition-colors disabled:opacity-50"
+              >
+                {t('category.add')}
+              </button>
+            </form>
+            {hiddenSources.length > 0 && (
+              <button
+                onClick={() => setShowHiddenSources(!showHiddenSources)}
+                className="text-sm text-gray-600 dark:text-gray-400 hover:text-gray-800 dark:hover:text-gray-200"
+              >
+                {showHiddenSources ? t('hidden.hideList') : t('hidden.list', { count: hiddenSources.length })}
+              </button>
+            )}
           </div>
+          {showHiddenSources && hiddenSources.length > 0 && (
+            <ul className="px-4 space-y-2">
+              {hiddenSources.map(source => (
+                <li key={source.id} className="flex items-center justify-between text-sm text-gray-700 dark:text-gray-300">
+                  <span>{source.name}</span>
+                  <button
+                    onClick={() => updateLayout(current => setSourceHidden(current, source.id, false))}
+                    className="text-blue-500 hover:text-blue-600 dark:text-blue-400"
+                  >
+                    {t('hidden.show')}
+                  </button>
+                </li>
+              ))}
+            </ul>
+          )}
         </div>
       </div>
 
@@ -404,12 +1152,12 @@ function App() {
         <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center p-4">
           <div className="bg-white dark:bg-gray-800 rounded-lg p-6 max-w-md w-full">
             <h2 className="text-xl font-semibold text-gray-900 dark:text-white mb-4">
-              Add Custom Search Engine
+              {editingSourceId ? t('sourceForm.editTitle') : t('sourceForm.addTitle')}
             </h2>
             <form onSubmit={(e) => { e.preventDefault(); handleAddSource(); }} className="space-y-4">
               <div>
                 <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
-                  Name
+                  {t('sourceForm.name')}
                 </label>
                 <input
                   type="text"
@@ -421,20 +1169,38 @@ function App() {
               </div>
               <div>
                 <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
-                  Search URL (include %s where the search term should go)
+                  {t('sourceForm.url')}
                 </label>
                 <input
                   type="text"
                   value={newSource.url}
-                  onChange={(e) => setNewSource({ ...newSource, url: e.target.value })}
-                  placeholder="https://example.com/search?q=%s"
-                  className="w-full px-3 py-2 border border-gray-300 rounded-md dark:bg-gray-700 dark:border-gray-600"
+                  onChange={(e) => {
+                    setNewSource({ ...newSource, url: e.target.value });
+                    setUrlError(e.target.value ? validateUrlTemplate(e.target.value) : null);
+                  }}
+                  placeholder="https://example.com/search?q={query}&hl=en"
+                  className={`w-full px-3 py-2 border rounded-md dark:bg-gray-700 ${
+                    urlError ? 'border-red-500' : 'border-gray-300 dark:border-gray-600'
+                  }`}
                   required
                 />
+                {urlError && (
+                  <p className="text-sm text-red-600 dark:text-red-400 mt-1">{translateMessage(t, urlError)}</p>
+                )}
+                {draftSourceIssues.map(issue => (
+                  <p
+                    key={issue.code}
+                    className={`text-sm mt-1 ${
+                      issue.severity === 'error' ? 'text-red-600 dark:text-red-400' : 'text-yellow-700 dark:text-yellow-400'
+                    }`}
+                  >
+                    {translateMessage(t, issue.message)}
+                  </p>
+                ))}
               </div>
               <div>
                 <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
-                  Description
+                  {t('sourceForm.description')}
                 </label>
                 <input
                   type="text"
@@ -445,30 +1211,67 @@ function App() {
               </div>
               <div>
                 <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
-                  Category
+                  {t('sourceForm.category')}
                 </label>
                 <select
                   value={newSource.category}
-                  onChange={(e) => setNewSource({ ...newSource, category: e.target.value as 'general' | 'academic' })}
+                  onChange={(e) => setNewSource({ ...newSource, category: e.target.value })}
+                  className="w-full px-3 py-2 border border-gray-300 rounded-md dark:bg-gray-700 dark:border-gray-600"
+                >
+                  {layout.categories.map(category => (
+                    <option key={category.id} value={category.id}>{localizeCategory(category, t).name}</option>
+                  ))}
+                </select>
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
+                  {t('sourceForm.syntax')}
+                </label>
+                <select
+                  value={newSource.syntax ?? ''}
+                  onChange={(e) => setNewSource({ ...newSource, syntax: (e.target.value || undefined) as QuerySyntax | undefined })}
                   className="w-full px-3 py-2 border border-gray-300 rounded-md dark:bg-gray-700 dark:border-gray-600"
                 >
-                  <option value="general">General</option>
-                  <option value="academic">Academic</option>
+                  <option value="">{t('sourceForm.plainText')}</option>
+                  {(Object.keys(querySyntaxLabels) as QuerySyntax[]).map(syntax => (
+                    <option key={syntax} value={syntax}>{t(querySyntaxLabels[syntax])}</option>
+                  ))}
                 </select>
               </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
+                  {t('sourceForm.bangs')}
+                </label>
+                <input
+                  type="text"
+                  value={bangInput}
+                  onChange={(e) => {
+                    setBangInput(e.target.value);
+                    setBangErrors([]);
+                  }}
+                  className={`w-full px-3 py-2 border rounded-md dark:bg-gray-700 ${
+                    bangErrors.length > 0 ? 'border-red-500' : 'border-gray-300 dark:border-gray-600'
+                  }`}
+                  placeholder={t('sourceForm.bangsPlaceholder')}
+                />
+                {bangErrors.map(error => (
+                  <p key={String(error.params?.bang)} className="text-sm text-red-600 dark:text-red-400 mt-1">{translateMessage(t, error)}</p>
+                ))}
+              </div>
               <div className="flex justify-end space-x-3 mt-6">
                 <button
                   type="button"
-                  onClick={() => setShowAddModal(false)}
+                  onClick={resetSourceForm}
                   className="px-4 py-2 text-gray-600 dark:text-gray-400 hover:text-gray-800 dark:hover:text-gray-200"
                 >
-                  Cancel
+                  {t('common.cancel')}
                 </button>
                 <button
                   type="submit"
-                  className="px-4 py-2 bg-blue-500 text-white rounded-md hover:bg-blue-600"
+                  disabled={urlError !== null || draftHasErrors}
+                  className="px-4 py-2 bg-blue-500 text-white rounded-md hover:bg-blue-600 disabled:opacity-50 disabled:cursor-not-allowed"
                 >
-                  Add Search Engine
+                  {editingSourceId ? t('sourceForm.save') : t('sourceForm.add')}
                 </button>
               </div>
             </form>
@@ -476,14 +1279,40 @@ function App() {
         </div>
       )}
 
+      {/* Import / Export Modal */}
+      {showTransferModal && (
+        <SettingsTransferModal
+          onExport={() => createSettingsBundle(customSources, profileState, layout, customThesaurus, preferences)}
+          onImport={handleImportSettings}
+          onOpenSearchParsed={handleOpenSearchParsed}
+          onClose={() => setShowTransferModal(false)}
+          t={t}
+        />
+      )}
+
+      {showPacksModal && (
+        <SourcePacksModal
+          subscriptions={packSubscriptions}
+          customSources={customSources}
+          sources={searchSources}
+          bangGroups={bangGroups}
+          onApply={handleApplyPack}
+          onUnsubscribe={handleUnsubscribePack}
+          onClose={() => setShowPacksModal(false)}
+          t={t}
+        />
+      )}
+
+      {showPalette && <CommandPalette commands={paletteCommands} onClose={() => setShowPalette(false)} t={t} />}
+
       {/* Footer */}
       <div className="flex-none p-4 bg-white/80 dark:bg-gray-800/80 backdrop-blur-md border-t border-gray-200 dark:border-gray-700">
         <div className="max-w-4xl mx-auto text-center space-y-2">
           <p className="text-sm text-gray-600 dark:text-gray-400">
-            Click "Search Selected" to search in selected engines, or use individual search buttons.
+            {t('footer.hint')}
           </p>
           <div className="text-sm text-gray-600 dark:text-gray-400">
-            <p>Contact: 微信公众号: 正经人王同学</p>
+            <p>{t('footer.contact')}</p>
             <p>
               <a 
                 href="https://github.com/zjrwtx/literesearch_search" 
@@ -491,7 +1320,7 @@ function App() {
                 rel="noopener noreferrer"
                 className="text-blue-500 hover:text-blue-600 dark:text-blue-400"
               >
-                GitHub Open Source
+                {t('footer.github')}
               </a>
             </p>
           </div>
@@ -0,0 +1,370 @@
+import { useState } from 'react';
+import type { SearchSource } from '../types';
+import { ALERT_SOURCE_UNAVAILABLE, countUnread, frequencyLabels, isUnread } from '../lib/alerts';
+import type { AlertDraft, AlertFrequency, AlertItem, SearchAlert } from '../lib/alerts';
+import type { SearchHistoryEntry } from '../lib/history';
+import type { SavableResult } from '../lib/collections';
+import type { Translate } from '../lib/i18n';
+import type { SearchAlertsState } from '../hooks/useSearchAlerts';
+import ResultItem from './ResultItem';
+
+interface AlertsPanelProps {
+  state: SearchAlertsState;
+  // 可用于提醒的搜索源 (有结果适配器)
+  sources: SearchSource[];
+  // 固定的保存搜索, 可以直接转为提醒
+  savedSearches: SearchHistoryEntry[];
+  // 新提醒的默认值: 当前查询和选中的搜索源
+  defaultDraft: Pick<AlertDraft, 'query' | 'sourceIds'>;
+  onSave?: (result: SavableResult) => void;
+  t: Translate;
+}
+
+const inputClass =
+  'px-2 py-1 text-sm border border-gray-300 rounded-md dark:bg-gray-700 dark:border-gray-600 dark:text-white';
+
+const MAX_ITEMS_SHOWN = 50;
+
+const notificationsSupported = () => typeof window !== 'undefined' && 'Notification' in window;
+
+interface AlertFormProps {
+  initial: AlertDraft;
+  sources: SearchSource[];
+  savedSearches: SearchHistoryEntry[];
+  submitLabel: string;
+  onSubmit: (draft: AlertDraft) => void;
+  onCancel: () => void;
+  t: Translate;
+}
+
+function AlertForm({ initial, sources, savedSearches, submitLabel, onSubmit, onCancel, t }: AlertFormProps) {
+  const [draft, setDraft] = useState<AlertDraft>(initial);
+  const [formError, setFormError] = useState<string | null>(null);
+  const [permissionNote, setPermissionNote] = useState<string | null>(null);
+
+  const update = (changes: Partial<AlertDraft>) => setDraft(current => ({ ...current, ...changes }));
+
+  const handleSavedSearch = (entryId: string) => {
+    const entry = savedSearches.find(e => e.id === entryId);
+    if (!entry) return;
+    update({
+      name: entry.name || entry.query,
+      query: entry.query,
+      sourceIds: sources.filter(source => entry.engines.includes(source.id)).map(source => source.id),
+    });
+  };
+
+  // 权限请求必须在用户操作中发起
+  const handleNotify = async (notify: boolean) => {
+    update({ notify });
+    setPermissionNote(null);
+    if (!notify) return;
+    if (!notificationsSupported()) {
+      setPermissionNote(t('alerts.notificationsUnsupported'));
+      return;
+    }
+    const permission = Notification.permission === 'default' ? await Notification.requestPermission() : Notification.permission;
+    if (permission !== 'granted') {
+      setPermissionNote(t('alerts.notificationsBlocked'));
+    }
+  };
+
+  return (
+    <form
+      onSubmit={(e) => {
+        e.preventDefault();
+        if (!draft.query.trim()) {
+          setFormError(t('alerts.queryRequired'));
+          return;
+        }
+        if (draft.sourceIds.length === 0) {
+          setFormError(t('alerts.enginesRequired'));
+          return;
+        }
+        onSubmit(draft);
+      }}
+      className="space-y-2 text-sm border border-gray-200 dark:border-gray-700 rounded-lg p-3"
+    >
+      {savedSearches.length > 0 && (
+        <select value="" onChange={(e) => handleSavedSearch(e.target.value)} className={`${inputClass} w-full`}>
+          <option value="">{t('alerts.fromSaved')}</option>
+          {savedSearches.map(entry => (
+            <option key={entry.id} value={entry.id}>{entry.name || entry.query}</option>
+          ))}
+        </select>
+      )}
+      <div className="flex flex-wrap gap-2">
+        <input
+          type="text"
+          value={draft.name}
+          onChange={(e) => update({ name: e.target.value })}
+          placeholder={t('alerts.namePlaceholder')}
+          className={`${inputClass} w-48`}
+        />
+        <input
+          type="text"
+          value={draft.query}
+          onChange={(e) => update({ query: e.target.value })}
+          placeholder={t('alerts.queryPlaceholder')}
+          className={`${inputClass} flex-grow font-mono`}
+        />
+      </div>
+      <div className="flex flex-wrap items-center gap-3 text-gray-700 dark:text-gray-300">
+        {sources.map(source => (
+          <label key={source.id} className="flex items-center gap-1">
+            <input
+              type="checkbox"
+              checked={draft.sourceIds.includes(source.id)}
+              onChange={(e) =>
+                update({
+                  sourceIds: e.target.checked
+                    ? [...draft.sourceIds, source.id]
+                    : draft.sourceIds.filter(id => id !== source.id),
+                })
+              }
+            />
+            {source.name}
+          </label>
+        ))}
+      </div>
+      <div className="flex flex-wrap items-center gap-3 text-gray-700 dark:text-gray-300">
+        <label className="flex items-center gap-1">
+          {t('alerts.check')}
+          <select
+            value={draft.frequency}
+            onChange={(e) => update({ frequency: e.target.value as AlertFrequency })}
+            className={inputClass}
+          >
+            {(Object.keys(frequencyLabels) as AlertFrequency[]).map(frequency => (
+              <option key={frequency} value={frequency}>{t(frequencyLabels[frequency]).toLowerCase()}</option>
+            ))}
+          </select>
+        </label>
+        <label className="flex items-center gap-1">
+          <input type="checkbox" checked={draft.notify} onChange={(e) => handleNotify(e.target.checked)} />
+          {t('alerts.notify')}
+        </label>
+        <div className="flex gap-2 ml-auto">
+          <button
+            type="button"
+            onClick={onCancel}
+            className="px-2 py-1 text-gray-600 dark:text-gray-400 hover:text-gray-800 dark:hover:text-gray-200"
+          >
+            {t('common.cancel')}
+          </button>
+          <button type="submit" className="px-3 py-1 bg-blue-500 text-white rounded-md hover:bg-blue-600">
+            {submitLabel}
+          </button>
+        </div>
+      </div>
+      {permissionNote && <p className="text-yellow-700 dark:text-yellow-400">{permissionNote}</p>}
+      {formError && <p className="text-red-600 dark:text-red-400">{formError}</p>}
+    </form>
+  );
+}
+
+interface AlertCardProps {
+  alert: SearchAlert;
+  items: AlertItem[];
+  sources: SearchSource[];
+  savedSearches: SearchHistoryEntry[];
+  running: boolean;
+  state: SearchAlertsState;
+  onSave?: (result: SavableResult) => void;
+  t: Translate;
+}
+
+function AlertCard({ alert, items, sources, savedSearches, running, state, onSave, t }: AlertCardProps) {
+  const [editing, setEditing] = useState(false);
+  const sourceName = (id: string) => sources.find(source => source.id === id)?.name ?? id;
+  const found = items.filter(item => !item.baseline);
+  const unread = countUnread(items, alert.id);
+
+  const status = alert.paused
+    ? t('alerts.paused')
+    : alert.lastCheckedAt === undefined
+      ? t('alerts.notChecked')
+      : t('alerts.checked', {
+          last: new Date(alert.lastCheckedAt).toLocaleString(),
+          next: new Date(alert.nextCheckAt).toLocaleString(),
+        });
+
+  return (
+    <li className="py-3 border-b border-gray-100 dark:border-gray-700 last:border-0 text-sm space-y-2">
+      <div className="flex flex-wrap justify-between items-start gap-2">
+        <div>
+          <p className="font-medium text-gray-900 dark:text-white">
+            {alert.name}
+            {unread > 0 && (
+              <span className="ml-2 px-2 py-0.5 text-xs rounded-full bg-blue-500 text-white">{t('alerts.newCount', { count: unread })}</span>
+            )}
+          </p>
+          <p className="font-mono text-gray-800 dark:text-gray-200 break-all">{alert.query}</p>
+          <p className="text-gray-500 dark:text-gray-400">
+            {alert.sourceIds.map(sourceName).join(t('common.listSeparator'))} · {t(frequencyLabels[alert.frequency])}
+            {alert.notify && ` · ${t('alerts.notificationsOn')}`}
+          </p>
+          <p className="text-gray-500 dark:text-gray-400">{running ? t('alerts.checking') : status}</p>
+        </div>
+        <div className="flex flex-wrap gap-3">
+          <button
+            onClick={() => state.checkNow(alert.id)}
+            disabled={running}
+            className="text-blue-500 hover:text-blue-600 dark:text-blue-400 disabled:opacity-50"
+          >
+            {t('alerts.checkNow')}
+          </button>
+          {unread > 0 && (
+            <button
+              onClick={() => state.markRead(items.filter(isUnread).map(item => item.id))}
+              className="text-blue-500 hover:text-blue-600 dark:text-blue-400"
+            >
+              {t('alerts.markAllRead')}
+            </button>
+          )}
+          <button
+            onClick={() => state.pauseAlert(alert.id, !alert.paused)}
+            className="text-gray-600 dark:text-gray-400 hover:text-gray-800 dark:hover:text-gray-200"
+          >
+            {alert.paused ? t('alerts.resume') : t('alerts.pause')}
+          </button>
+          <button
+            onClick={() => setEditing(!editing)}
+            className="text-gray-600 dark:text-gray-400 hover:text-gray-800 dark:hover:text-gray-200"
+          >
+            {t('common.edit')}
+          </button>
+          <button
+            onClick={() => {
+              if (window.confirm(t('alerts.confirmDelete', { name: alert.name }))) state.deleteAlert(alert.id);
+            }}
+            className="text-red-600 dark:text-red-400 hover:text-red-700"
+          >
+            {t('common.delete')}
+          </button>
+        </div>
+      </div>
+
+      {Object.entries(alert.errors).length > 0 && (
+        <ul className="text-red-600 dark:text-red-400">
+          {Object.entries(alert.errors).map(([sourceId, message]) => (
+            <li key={sourceId}>
+              {sourceName(sourceId)}: {message === ALERT_SOURCE_UNAVAILABLE ? t('alerts.sourceUnavailable') : message}
+            </li>
+          ))}
+        </ul>
+      )}
+
+      {editing && (
+        <AlertForm
+          initial={{ name: alert.name, query: alert.query, sourceIds: alert.sourceIds, frequency: alert.frequency, notify: alert.notify }}
+          sources={sources}
+          savedSearches={savedSearches}
+          submitLabel={t('common.save')}
+          onSubmit={(draft) => {
+            state.editAlert(alert.id, draft);
+            setEditing(false);
+          }}
+          onCancel={() => setEditing(false)}
+          t={t}
+        />
+      )}
+
+      {found.length > 0 ? (
+        <details open={unread > 0}>
+          <summary className="text-gray-600 dark:text-gray-400 cursor-pointer">
+            {t('alerts.found', { count: found.length })}
+          </summary>
+          <ul>
+            {found.slice(0, MAX_ITEMS_SHOWN).map(item => (
+              <ResultItem
+                key={item.id}
+                result={item.result}
+                badges={[...(isUnread(item) ? [t('alerts.newBadge')] : []), sourceName(item.result.sourceId)]}
+                onSave={onSave && (() => onSave(item.result))}
+                t={t}
+              />
+            ))}
+          </ul>
+        </details>
+      ) : (
+        alert.lastCheckedAt !== undefined && (
+          <p className="text-gray-500 dark:text-gray-400">
+            {t('alerts.nothingNew')}
+          </p>
+        )
+      )}
+    </li>
+  );
+}
+
+function AlertsPanel({ state, sources, savedSearches, defaultDraft, onSave, t }: AlertsPanelProps) {
+  const { alerts, items, unreadCount, running, error, clearError, addAlert } = state;
+  const [creating, setCreating] = useState(false);
+
+  return (
+    <div className="bg-white dark:bg-gray-800 rounded-xl shadow-sm p-6 space-y-4 text-left">
+      <div className="flex flex-wrap justify-between items-center gap-2">
+        <h2 className="text-xl font-semibold text-gray-900 dark:text-white">{t('alerts.title')}</h2>
+        <span className="text-sm text-gray-600 dark:text-gray-400">
+          {unreadCount === 0
+            ? t('alerts.noUnread')
+            : t(unreadCount === 1 ? 'alerts.unread.one' : 'alerts.unread', { count: unreadCount })}
+        </span>
+      </div>
+
+      {error && (
+        <p className="text-sm text-red-600 dark:text-red-400">
+          {t('alerts.error', { error })}{' '}
+          <button onClick={clearError} className="underline">{t('common.dismiss')}</button>
+        </p>
+      )}
+
+      <p className="text-sm text-gray-500 dark:text-gray-400">
+        {t('alerts.intro')}
+      </p>
+
+      {creating ? (
+        <AlertForm
+          initial={{ name: '', frequency: 'weekly', notify: false, ...defaultDraft }}
+          sources={sources}
+          savedSearches={savedSearches}
+          submitLabel={t('alerts.create')}
+          onSubmit={(draft) => {
+            addAlert(draft);
+            setCreating(false);
+          }}
+          onCancel={() => setCreating(false)}
+          t={t}
+        />
+      ) : (
+        <button
+          onClick={() => setCreating(true)}
+          className="px-3 py-1 text-sm bg-blue-500 text-white rounded-md hover:bg-blue-600"
+        >
+          {t('alerts.new')}
+        </button>
+      )}
+
+      {alerts.length > 0 && (
+        <ul>
+          {alerts.map(alert => (
+            <AlertCard
+              key={alert.id}
+              alert={alert}
+              items={items.filter(item => item.alertId === alert.id)}
+              sources={sources}
+              savedSearches={savedSearches}
+              running={running.includes(alert.id)}
+              state={state}
+              onSave={onSave}
+              t={t}
+            />
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
+
+export default AlertsPanel;
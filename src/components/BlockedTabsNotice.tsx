@@ -0,0 +1,60 @@
+import type { SearchSource } from '../types';
+import type { Translate } from '../lib/i18n';
+import type { TabManager, TabRecord } from '../lib/tabManager';
+
+interface BlockedTabsNoticeProps {
+  blocked: TabRecord[];
+  sources: SearchSource[];
+  manager: TabManager;
+  t: Translate;
+}
+
+// 被浏览器拦截的搜索窗口: 每个链接的点击都是一次新的用户手势, 一定能打开
+function BlockedTabsNotice({ blocked, sources, manager, t }: BlockedTabsNoticeProps) {
+  const sourceName = (id: string) => sources.find(source => source.id === id)?.name ?? id;
+
+  return (
+    <div className="bg-yellow-50 dark:bg-yellow-900 border border-yellow-200 dark:border-yellow-700 rounded-xl p-4 space-y-3">
+      <div className="flex flex-wrap justify-between items-center gap-2">
+        <p className="text-sm text-yellow-800 dark:text-yellow-200">
+          {t(blocked.length === 1 ? 'blocked.messageOne' : 'blocked.message', { count: blocked.length })}
+        </p>
+        <div className="flex gap-3 text-sm">
+          <button
+            onClick={() => manager.retryBlocked()}
+            className="px-3 py-1 bg-yellow-500 text-white rounded-full hover:bg-yellow-600"
+          >
+            {t('blocked.openAll', { count: blocked.length })}
+          </button>
+          <button
+            onClick={() => manager.dismissBlocked()}
+            className="text-yellow-800 dark:text-yellow-200 hover:underline"
+          >
+            {t('common.dismiss')}
+          </button>
+        </div>
+      </div>
+      <ul className="flex flex-wrap gap-2">
+        {blocked.map(record => (
+          <li key={record.sourceId}>
+            <a
+              href={record.url}
+              target="_blank"
+              rel="noopener noreferrer"
+              onClick={(e) => {
+                // 优先交给窗口管理器打开以便跟踪; 仍被拦截时由链接本身打开
+                if (manager.openTabs([record]).opened.length > 0) e.preventDefault();
+                else manager.dismissBlocked(record.sourceId);
+              }}
+              className="inline-block px-3 py-1 text-sm bg-white dark:bg-gray-800 text-blue-600 dark:text-blue-400 rounded-full hover:bg-gray-100 dark:hover:bg-gray-700"
+            >
+              ↗ {sourceName(record.sourceId)}
+            </a>
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+}
+
+export default BlockedTabsNotice;
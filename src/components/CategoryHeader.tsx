@@ -0,0 +1,77 @@
+import { useState } from 'react';
+import type { Translate } from '../lib/i18n';
+import type { SourceCategory } from '../lib/sourceLayout';
+
+interface CategoryHeaderProps {
+  category: SourceCategory;
+  onRename: (name: string) => void;
+  onDelete: () => void;
+  t: Translate;
+}
+
+function CategoryHeader({ category, onRename, onDelete, t }: CategoryHeaderProps) {
+  const [editing, setEditing] = useState(false);
+  const [name, setName] = useState(category.name);
+
+  if (editing) {
+    return (
+      <form
+        onSubmit={(e) => {
+          e.preventDefault();
+          onRename(name);
+          setEditing(false);
+        }}
+        className="flex items-center gap-2 mb-4 px-4"
+      >
+        <input
+          type="text"
+          value={name}
+          onChange={(e) => setName(e.target.value)}
+          autoFocus
+          className="px-3 py-1 text-lg border border-gray-300 rounded-md dark:bg-gray-700 dark:border-gray-600 dark:text-white"
+        />
+        <button type="submit" className="px-3 py-1 text-sm bg-blue-500 text-white rounded-md hover:bg-blue-600">
+          {t('common.save')}
+        </button>
+        <button
+          type="button"
+          onClick={() => setEditing(false)}
+          className="px-2 py-1 text-sm text-gray-600 dark:text-gray-400 hover:text-gray-800 dark:hover:text-gray-200"
+        >
+          {t('common.cancel')}
+        </button>
+      </form>
+    );
+  }
+
+  return (
+    <div className="group flex items-center gap-3 mb-4 px-4">
+      <h2 className="text-xl font-semibold text-gray-900 dark:text-white">
+        {category.name}
+      </h2>
+      <div className="flex gap-2 text-sm opacity-0 group-hover:opacity-100 focus-within:opacity-100 transition-opacity">
+        <button
+          onClick={() => {
+            setName(category.name);
+            setEditing(true);
+          }}
+          className="text-gray-500 hover:text-gray-800 dark:text-gray-400 dark:hover:text-gray-200"
+        >
+          {t('common.rename')}
+        </button>
+        {!category.builtIn && (
+          <button
+            onClick={() => {
+              if (window.confirm(t('category.confirmDelete', { name: category.name }))) onDelete();
+            }}
+            className="text-red-500 hover:text-red-600 dark:text-red-400"
+          >
+            {t('common.delete')}
+          </button>
+        )}
+      </div>
+    </div>
+  );
+}
+
+export default CategoryHeader;
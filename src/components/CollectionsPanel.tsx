@@ -0,0 +1,304 @@
+import { useState } from 'react';
+import { createItemFromIdentifier, parseTags, readStatusLabels } from '../lib/collections';
+import type { CollectionItem, ReadStatus } from '../lib/collections';
+import { exportFormats } from '../lib/citationExport';
+import type { ExportFormat } from '../lib/citationExport';
+import { downloadFile } from '../lib/download';
+import type { Translate } from '../lib/i18n';
+import type { CollectionsState } from '../hooks/useCollections';
+import ResultItem from './ResultItem';
+
+interface CollectionsPanelProps {
+  state: CollectionsState;
+  t: Translate;
+}
+
+const inputClass =
+  'px-2 py-1 text-sm border border-gray-300 rounded-md dark:bg-gray-700 dark:border-gray-600 dark:text-white';
+
+interface CollectionItemRowProps {
+  item: CollectionItem;
+  onUpdate: (changes: Partial<Pick<CollectionItem, 'tags' | 'note' | 'status'>>) => void;
+  onDelete: () => void;
+  t: Translate;
+}
+
+// 标签和批注在失去焦点时保存, 避免每次按键都写入数据库
+function CollectionItemRow({ item, onUpdate, onDelete, t }: CollectionItemRowProps) {
+  const [tags, setTags] = useState(item.tags.join(', '));
+  const [note, setNote] = useState(item.note);
+
+  return (
+    <div className="border-b border-gray-100 dark:border-gray-700 last:border-0 pb-3">
+      <ul>
+        <ResultItem result={item} badges={item.tags} t={t} />
+      </ul>
+      <div className="flex flex-wrap items-start gap-2">
+        <select
+          value={item.status}
+          onChange={(e) => onUpdate({ status: e.target.value as ReadStatus })}
+          className={inputClass}
+        >
+          {(Object.keys(readStatusLabels) as ReadStatus[]).map(status => (
+            <option key={status} value={status}>{t(readStatusLabels[status])}</option>
+          ))}
+        </select>
+        <input
+          type="text"
+          value={tags}
+          onChange={(e) => setTags(e.target.value)}
+          onBlur={() => onUpdate({ tags: parseTags(tags) })}
+          placeholder={t('collections.tagsPlaceholder')}
+          className={`${inputClass} flex-grow`}
+        />
+        <button
+          onClick={onDelete}
+          className="px-2 py-1 text-sm text-red-600 dark:text-red-400 hover:text-red-700"
+        >
+          {t('common.remove')}
+        </button>
+        <textarea
+          value={note}
+          onChange={(e) => setNote(e.target.value)}
+          onBlur={() => note !== item.note && onUpdate({ note })}
+          rows={2}
+          placeholder={t('collections.notesPlaceholder')}
+          className={`${inputClass} w-full`}
+        />
+      </div>
+    </div>
+  );
+}
+
+function CollectionsPanel({ state, t }: CollectionsPanelProps) {
+  const {
+    collections,
+    items,
+    activeCollection,
+    setActiveCollectionId,
+    loaded,
+    error,
+    clearError,
+    addCollection,
+    renameCollection,
+    deleteCollection,
+    addItem,
+    updateItem,
+    deleteItem,
+  } = state;
+  const [newCollectionName, setNewCollectionName] = useState('');
+  const [renaming, setRenaming] = useState<string | null>(null);
+  const [identifier, setIdentifier] = useState('');
+  const [title, setTitle] = useState('');
+  const [addMessage, setAddMessage] = useState<string | null>(null);
+  const [tagFilter, setTagFilter] = useState('');
+
+  const collectionItems = activeCollection
+    ? items.filter(item => item.collectionId === activeCollection.id)
+    : [];
+  const allTags = Array.from(new Set(collectionItems.flatMap(item => item.tags))).sort();
+  // 切换收藏集或删除标签后筛选条件自动失效
+  const activeTag = allTags.includes(tagFilter) ? tagFilter : '';
+  const visibleItems = activeTag
+    ? collectionItems.filter(item => item.tags.includes(activeTag))
+    : collectionItems;
+
+  const handleAddIdentifier = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!activeCollection) return;
+    const item = createItemFromIdentifier(activeCollection.id, identifier, title);
+    if (!item) {
+      setAddMessage(t('collections.unrecognised'));
+      return;
+    }
+    if (!addItem(item)) {
+      setAddMessage(t('collections.duplicate'));
+      return;
+    }
+    setAddMessage(null);
+    setIdentifier('');
+    setTitle('');
+  };
+
+  const handleExport = (format: ExportFormat) => {
+    if (!activeCollection) return;
+    const { extension, mimeType, render } = exportFormats[format];
+    const filename = `${activeCollection.name.replace(/[^\w-]+/g, '_') || 'collection'}.${extension}`;
+    downloadFile(render(visibleItems), filename, mimeType);
+  };
+
+  return (
+    <div className="bg-white dark:bg-gray-800 rounded-xl shadow-sm p-6 space-y-4">
+      <h2 className="text-xl font-semibold text-gray-900 dark:text-white">{t('collections.title')}</h2>
+
+      {error && (
+        <p className="text-sm text-red-600 dark:text-red-400">
+          {t('common.storageError', { error })}{' '}
+          <button onClick={clearError} className="underline">{t('common.dismiss')}</button>
+        </p>
+      )}
+
+      <div className="flex flex-wrap items-center gap-2">
+        {collections.map(collection => (
+          <button
+            key={collection.id}
+            onClick={() => setActiveCollectionId(collection.id)}
+            className={`px-3 py-1 text-sm rounded-full ${
+              activeCollection?.id === collection.id
+                ? 'bg-blue-500 text-white'
+                : 'bg-gray-100 dark:bg-gray-700 text-gray-700 dark:text-gray-300 hover:bg-gray-200 dark:hover:bg-gray-600'
+            }`}
+          >
+            {collection.name} ({items.filter(item => item.collectionId === collection.id).length})
+          </button>
+        ))}
+        <form
+          onSubmit={(e) => {
+            e.preventDefault();
+            if (!newCollectionName.trim()) return;
+            addCollection(newCollectionName);
+            setNewCollectionName('');
+          }}
+          className="flex gap-2"
+        >
+          <input
+            type="text"
+            value={newCollectionName}
+            onChange={(e) => setNewCollectionName(e.target.value)}
+            placeholder={t('collections.newPlaceholder')}
+            className={inputClass}
+          />
+          <button type="submit" className="px-3 py-1 text-sm bg-blue-500 text-white rounded-md hover:bg-blue-600">
+            {t('common.create')}
+          </button>
+        </form>
+      </div>
+
+      {loaded && collections.length === 0 && (
+        <p className="text-sm text-gray-500 dark:text-gray-400">
+          {t('collections.emptyHint')}
+        </p>
+      )}
+
+      {activeCollection && (
+        <>
+          <div className="flex flex-wrap justify-between items-center gap-2">
+            {renaming !== null ? (
+              <form
+                onSubmit={(e) => {
+                  e.preventDefault();
+                  renameCollection(activeCollection.id, renaming);
+                  setRenaming(null);
+                }}
+                className="flex gap-2"
+              >
+                <input
+                  type="text"
+                  value={renaming}
+                  onChange={(e) => setRenaming(e.target.value)}
+                  autoFocus
+                  className={inputClass}
+                />
+                <button type="submit" className="px-3 py-1 text-sm bg-blue-500 text-white rounded-md hover:bg-blue-600">
+                  {t('common.save')}
+                </button>
+                <button
+                  type="button"
+                  onClick={() => setRenaming(null)}
+                  className="px-2 py-1 text-sm text-gray-600 dark:text-gray-400 hover:text-gray-800 dark:hover:text-gray-200"
+                >
+                  {t('common.cancel')}
+                </button>
+              </form>
+            ) : (
+              <div className="flex gap-3 text-sm">
+                <button
+                  onClick={() => setRenaming(activeCollection.name)}
+                  className="text-gray-600 dark:text-gray-400 hover:text-gray-800 dark:hover:text-gray-200"
+                >
+                  {t('common.rename')}
+                </button>
+                <button
+                  onClick={() => {
+                    if (window.confirm(t('collections.confirmDelete', { name: activeCollection.name }))) {
+                      deleteCollection(activeCollection.id);
+                    }
+                  }}
+                  className="text-red-600 dark:text-red-400 hover:text-red-700"
+                >
+                  {t('common.delete')}
+                </button>
+              </div>
+            )}
+            <div className="flex items-center gap-2 text-sm">
+              <span className="text-gray-600 dark:text-gray-400">{t('common.export')}</span>
+              {(Object.keys(exportFormats) as ExportFormat[]).map(format => (
+                <button
+                  key={format}
+                  onClick={() => handleExport(format)}
+                  disabled={visibleItems.length === 0}
+                  className="px-3 py-1 bg-gray-100 dark:bg-gray-700 text-gray-700 dark:text-gray-300 rounded-full hover:bg-gray-200 dark:hover:bg-gray-600 disabled:opacity-50 disabled:cursor-not-allowed"
+                >
+                  {exportFormats[format].label}
+                </button>
+              ))}
+            </div>
+          </div>
+
+          <form onSubmit={handleAddIdentifier} className="flex flex-wrap gap-2">
+            <input
+              type="text"
+              value={identifier}
+              onChange={(e) => setIdentifier(e.target.value)}
+              placeholder={t('collections.identifierPlaceholder')}
+              className={`${inputClass} flex-grow`}
+            />
+            <input
+              type="text"
+              value={title}
+              onChange={(e) => setTitle(e.target.value)}
+              placeholder={t('collections.titlePlaceholder')}
+              className={`${inputClass} flex-grow`}
+            />
+            <button
+              type="submit"
+              disabled={!identifier.trim()}
+              className="px-3 py-1 text-sm bg-blue-500 text-white rounded-md hover:bg-blue-600 disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              {t('common.add')}
+            </button>
+          </form>
+          {addMessage && <p className="text-sm text-red-600 dark:text-red-400">{addMessage}</p>}
+
+          {allTags.length > 0 && (
+            <div className="flex flex-wrap items-center gap-2 text-sm">
+              <span className="text-gray-600 dark:text-gray-400">{t('collections.tag')}</span>
+              <select value={activeTag} onChange={(e) => setTagFilter(e.target.value)} className={inputClass}>
+                <option value="">{t('collections.allTags')}</option>
+                {allTags.map(tag => <option key={tag} value={tag}>{tag}</option>)}
+              </select>
+            </div>
+          )}
+
+          {visibleItems.length === 0 ? (
+            <p className="text-sm text-gray-500 dark:text-gray-400">{t('collections.empty')}</p>
+          ) : (
+            <div className="space-y-3">
+              {visibleItems.map(item => (
+                <CollectionItemRow
+                  key={item.id}
+                  item={item}
+                  onUpdate={(changes) => updateItem(item.id, changes)}
+                  onDelete={() => deleteItem(item.id)}
+                  t={t}
+                />
+              ))}
+            </div>
+          )}
+        </>
+      )}
+    </div>
+  );
+}
+
+export default CollectionsPanel;
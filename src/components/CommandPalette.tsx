@@ -0,0 +1,116 @@
+import { useEffect, useRef, useState } from 'react';
+import { fuzzyFilter } from '../lib/fuzzyMatch';
+import type { Translate } from '../lib/i18n';
+
+export interface PaletteCommand {
+  id: string;
+  group: string;
+  label: string;
+  detail?: string;
+  run: () => void;
+  // 执行后保持面板打开 (例如连续切换多个搜索引擎)
+  keepOpen?: boolean;
+}
+
+interface CommandPaletteProps {
+  commands: PaletteCommand[];
+  onClose: () => void;
+  t: Translate;
+}
+
+const MAX_VISIBLE_COMMANDS = 50;
+
+function CommandPalette({ commands, onClose, t }: CommandPaletteProps) {
+  const [query, setQuery] = useState('');
+  const [activeIndex, setActiveIndex] = useState(0);
+  const listRef = useRef<HTMLUListElement>(null);
+
+  const matches = fuzzyFilter(commands, query, command => `${command.group} ${command.label} ${command.detail ?? ''}`)
+    .slice(0, MAX_VISIBLE_COMMANDS);
+  const active = Math.min(activeIndex, Math.max(matches.length - 1, 0));
+
+  useEffect(() => {
+    listRef.current?.children[active]?.scrollIntoView({ block: 'nearest' });
+  }, [active]);
+
+  const runCommand = (command: PaletteCommand | undefined) => {
+    if (!command) return;
+    command.run();
+    if (!command.keepOpen) onClose();
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent) => {
+    if (e.key === 'ArrowDown') {
+      e.preventDefault();
+      setActiveIndex((active + 1) % Math.max(matches.length, 1));
+    } else if (e.key === 'ArrowUp') {
+      e.preventDefault();
+      setActiveIndex((active - 1 + matches.length) % Math.max(matches.length, 1));
+    } else if (e.key === 'Enter') {
+      e.preventDefault();
+      runCommand(matches[active]);
+    } else if (e.key === 'Escape') {
+      e.preventDefault();
+      onClose();
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-start justify-center p-4 pt-24" onClick={onClose}>
+      <div
+        role="dialog"
+        aria-label={t('palette.title')}
+        className="bg-white dark:bg-gray-800 rounded-lg shadow-xl max-w-xl w-full overflow-hidden"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <input
+          type="text"
+          value={query}
+          onChange={(e) => {
+            setQuery(e.target.value);
+            setActiveIndex(0);
+          }}
+          onKeyDown={handleKeyDown}
+          autoFocus
+          role="combobox"
+          aria-expanded="true"
+          aria-controls="command-palette-list"
+          aria-activedescendant={matches[active] ? `command-${matches[active].id}` : undefined}
+          placeholder={t('palette.placeholder')}
+          className="w-full px-4 py-3 text-lg border-b border-gray-200 dark:border-gray-700 dark:bg-gray-800 dark:text-white focus:outline-none"
+        />
+        <ul id="command-palette-list" role="listbox" ref={listRef} className="max-h-96 overflow-y-auto py-2">
+          {matches.length === 0 && (
+            <li className="px-4 py-2 text-sm text-gray-500 dark:text-gray-400">{t('palette.noMatches')}</li>
+          )}
+          {matches.map((command, i) => (
+            <li
+              key={command.id}
+              id={`command-${command.id}`}
+              role="option"
+              aria-selected={i === active}
+              onMouseEnter={() => setActiveIndex(i)}
+              onClick={() => runCommand(command)}
+              className={`flex justify-between items-center gap-3 px-4 py-2 cursor-pointer ${
+                i === active ? 'bg-blue-50 dark:bg-gray-700' : ''
+              }`}
+            >
+              <span className="min-w-0">
+                <span className="text-gray-900 dark:text-white">{command.label}</span>
+                {command.detail && (
+                  <span className="ml-2 text-sm text-gray-500 dark:text-gray-400 truncate">{command.detail}</span>
+                )}
+              </span>
+              <span className="flex-none text-xs text-gray-400 dark:text-gray-500">{command.group}</span>
+            </li>
+          ))}
+        </ul>
+        <p className="px-4 py-2 text-xs text-gray-500 dark:text-gray-400 border-t border-gray-200 dark:border-gray-700">
+          {t('palette.keys')}
+        </p>
+      </div>
+    </div>
+  );
+}
+
+export default CommandPalette;
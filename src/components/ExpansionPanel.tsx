@@ -0,0 +1,181 @@
+import { useState } from 'react';
+import type { SearchSource } from '../types';
+import { parseQuery } from '../lib/queryLanguage';
+import { translateQuery } from '../lib/queryTranslators';
+import { createThesaurusEntry, expansionKindLabels } from '../lib/thesaurus';
+import type { Translate } from '../lib/i18n';
+import type { ExpansionSelection, ExpansionSuggestion, ThesaurusEntry, ThesaurusKind } from '../lib/thesaurus';
+
+interface ExpansionPanelProps {
+  suggestions: ExpansionSuggestion[];
+  selection: ExpansionSelection;
+  onSelectionChange: (selection: ExpansionSelection) => void;
+  expandedQuery: string;
+  // 预览各搜索引擎实际收到的查询
+  previewSources: SearchSource[];
+  customEntries: ThesaurusEntry[];
+  onAddEntry: (entry: ThesaurusEntry) => void;
+  onDeleteEntry: (id: string) => void;
+  t: Translate;
+}
+
+const inputClass =
+  'px-2 py-1 text-sm border border-gray-300 rounded-md dark:bg-gray-700 dark:border-gray-600 dark:text-white';
+
+function ExpansionPanel({
+  suggestions,
+  selection,
+  onSelectionChange,
+  expandedQuery,
+  previewSources,
+  customEntries,
+  onAddEntry,
+  onDeleteEntry,
+  t,
+}: ExpansionPanelProps) {
+  const [termsText, setTermsText] = useState('');
+  const [kind, setKind] = useState<ThesaurusKind>('synonym');
+  const [entryError, setEntryError] = useState<string | null>(null);
+
+  const toggle = (key: string, text: string) => {
+    const selected = selection[key] ?? [];
+    onSelectionChange({
+      ...selection,
+      [key]: selected.includes(text) ? selected.filter(item => item !== text) : [...selected, text],
+    });
+  };
+
+  const structured = parseQuery(expandedQuery);
+
+  return (
+    <div className="bg-white dark:bg-gray-800 rounded-xl shadow-sm p-6 space-y-4 text-left">
+      <div className="flex justify-between items-center">
+        <h2 className="text-xl font-semibold text-gray-900 dark:text-white">{t('expansion.title')}</h2>
+        {Object.values(selection).some(selected => selected.length > 0) && (
+          <button
+            onClick={() => onSelectionChange({})}
+            className="text-sm text-gray-600 dark:text-gray-400 hover:text-gray-800 dark:hover:text-gray-200"
+          >
+            {t('expansion.clearSelection')}
+          </button>
+        )}
+      </div>
+
+      {suggestions.length === 0 ? (
+        <p className="text-sm text-gray-500 dark:text-gray-400">
+          {t('expansion.none')}
+        </p>
+      ) : (
+        <div className="space-y-3">
+          {suggestions.map(suggestion => (
+            <div key={suggestion.key}>
+              <p className="text-sm font-semibold text-gray-900 dark:text-white">{suggestion.text}</p>
+              <div className="flex flex-wrap gap-x-4 gap-y-1 mt-1">
+                {suggestion.expansions.map(expansion => (
+                  <label
+                    key={expansion.text}
+                    className="flex items-center gap-2 text-sm text-gray-700 dark:text-gray-300"
+                    title={expansion.heading && t('expansion.meshHeading', { heading: expansion.heading })}
+                  >
+                    <input
+                      type="checkbox"
+                      checked={selection[suggestion.key]?.includes(expansion.text) ?? false}
+                      onChange={() => toggle(suggestion.key, expansion.text)}
+                      className="w-4 h-4 text-blue-600 rounded border-gray-300 focus:ring-blue-500"
+                    />
+                    <span>{expansion.text}</span>
+                    <span className="px-1.5 text-xs rounded bg-gray-100 dark:bg-gray-700 text-gray-500 dark:text-gray-400">
+                      {t(expansionKindLabels[expansion.kind])}
+                    </span>
+                  </label>
+                ))}
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+
+      <div className="border-t border-gray-200 dark:border-gray-700 pt-3 space-y-2">
+        <p className="text-sm font-medium text-gray-700 dark:text-gray-300">{t('expansion.expandedQuery')}</p>
+        <p className="font-mono text-sm text-gray-800 dark:text-gray-200 break-words">{expandedQuery || '—'}</p>
+        {previewSources.length > 0 && expandedQuery.trim() && (
+          <table className="w-full text-sm">
+            <tbody>
+              {previewSources.map(source => {
+                const translated = translateQuery(source, structured);
+                const params = Object.entries(translated.params ?? {}).map(([key, value]) => `&${key}=${value}`).join('');
+                return (
+                  <tr key={source.id} className="align-top border-t border-gray-100 dark:border-gray-700">
+                    <td className="py-1 pr-3 whitespace-nowrap text-gray-600 dark:text-gray-400">{source.name}</td>
+                    <td className="py-1 font-mono text-gray-800 dark:text-gray-200 break-all">
+                      {translated.query}
+                      {params && <span className="text-gray-500 dark:text-gray-400"> {params}</span>}
+                    </td>
+                  </tr>
+                );
+              })}
+            </tbody>
+          </table>
+        )}
+      </div>
+
+      <details className="border-t border-gray-200 dark:border-gray-700 pt-3">
+        <summary className="text-sm font-medium text-gray-700 dark:text-gray-300 cursor-pointer">
+          {t('expansion.myThesaurus', { count: customEntries.length })}
+        </summary>
+        <div className="mt-2 space-y-2">
+          {customEntries.map(entry => (
+            <div key={entry.id} className="flex justify-between items-start gap-3 text-sm">
+              <span className="text-gray-800 dark:text-gray-200">
+                {entry.terms.join(' · ')}{' '}
+                <span className="text-xs text-gray-500 dark:text-gray-400">({t(expansionKindLabels[entry.kind])})</span>
+              </span>
+              <button
+                onClick={() => onDeleteEntry(entry.id)}
+                className="flex-none text-red-600 dark:text-red-400 hover:text-red-700"
+              >
+                {t('common.delete')}
+              </button>
+            </div>
+          ))}
+          <form
+            onSubmit={(e) => {
+              e.preventDefault();
+              const entry = createThesaurusEntry(termsText, kind);
+              if (!entry) {
+                setEntryError(t('expansion.entryError'));
+                return;
+              }
+              onAddEntry(entry);
+              setTermsText('');
+              setEntryError(null);
+            }}
+            className="flex flex-wrap gap-2"
+          >
+            <input
+              type="text"
+              value={termsText}
+              onChange={(e) => setTermsText(e.target.value)}
+              placeholder={t('expansion.entryPlaceholder')}
+              className={`${inputClass} flex-grow`}
+            />
+            <select value={kind} onChange={(e) => setKind(e.target.value as ThesaurusKind)} className={inputClass}>
+              <option value="synonym">{t('expansion.kind.synonyms')}</option>
+              <option value="acronym">{t('expansion.kind.acronym')}</option>
+              <option value="mesh">{t('expansion.kind.meshStyle')}</option>
+            </select>
+            <button type="submit" className="px-3 py-1 text-sm bg-blue-500 text-white rounded-md hover:bg-blue-600">
+              {t('common.add')}
+            </button>
+          </form>
+          {entryError && <p className="text-sm text-red-600 dark:text-red-400">{entryError}</p>}
+          <p className="text-xs text-gray-500 dark:text-gray-400">
+            {t('expansion.exportNote')}
+          </p>
+        </div>
+      </details>
+    </div>
+  );
+}
+
+export default ExpansionPanel;
@@ -0,0 +1,161 @@
+import { useState } from 'react';
+import type { SearchSource } from '../types';
+import type { Translate } from '../lib/i18n';
+import { filterHistory } from '../lib/history';
+import type { SearchHistoryEntry } from '../lib/history';
+
+interface HistoryPanelProps {
+  entries: SearchHistoryEntry[];
+  sources: SearchSource[];
+  onReplay: (entry: SearchHistoryEntry) => void;
+  onDelete: (id: string) => void;
+  onClear: () => void;
+  onPin: (id: string, name: string) => void;
+  onUnpin: (id: string) => void;
+  t: Translate;
+}
+
+function HistoryPanel({ entries, sources, onReplay, onDelete, onClear, onPin, onUnpin, t }: HistoryPanelProps) {
+  const [filter, setFilter] = useState('');
+  // 正在命名的条目
+  const [namingId, setNamingId] = useState<string | null>(null);
+  const [name, setName] = useState('');
+
+  const visibleEntries = filterHistory(entries, filter);
+  const savedSearches = visibleEntries.filter(entry => entry.pinned);
+  const history = visibleEntries.filter(entry => !entry.pinned);
+
+  const engineNames = (entry: SearchHistoryEntry) =>
+    entry.engines
+      .map(id => sources.find(source => source.id === id)?.name ?? id)
+      .join(t('common.listSeparator'));
+
+  const startNaming = (entry: SearchHistoryEntry) => {
+    setNamingId(entry.id);
+    setName(entry.query);
+  };
+
+  const renderEntry = (entry: SearchHistoryEntry) => (
+    <li
+      key={entry.id}
+      className="flex justify-between items-start gap-3 py-3 border-b border-gray-100 dark:border-gray-700 last:border-0"
+    >
+      <div className="min-w-0">
+        {entry.pinned && entry.name && (
+          <p className="text-sm font-semibold text-gray-900 dark:text-white">{entry.name}</p>
+        )}
+        <p className="text-sm text-gray-800 dark:text-gray-200 break-words">{entry.query}</p>
+        <p className="text-xs text-gray-500 dark:text-gray-400 mt-1">
+          {new Date(entry.timestamp).toLocaleString()} · {engineNames(entry) || t('history.noEngines')}
+        </p>
+        {namingId === entry.id && (
+          <form
+            onSubmit={(e) => {
+              e.preventDefault();
+              onPin(entry.id, name);
+              setNamingId(null);
+            }}
+            className="flex gap-2 mt-2"
+          >
+            <input
+              type="text"
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+              autoFocus
+              className="flex-grow px-2 py-1 text-sm border border-gray-300 rounded-md dark:bg-gray-700 dark:border-gray-600 dark:text-white"
+              placeholder={t('history.namePlaceholder')}
+            />
+            <button type="submit" className="px-3 py-1 text-sm bg-blue-500 text-white rounded-md hover:bg-blue-600">
+              {t('common.save')}
+            </button>
+            <button
+              type="button"
+              onClick={() => setNamingId(null)}
+              className="px-2 py-1 text-sm text-gray-600 dark:text-gray-400 hover:text-gray-800 dark:hover:text-gray-200"
+            >
+              {t('common.cancel')}
+            </button>
+          </form>
+        )}
+      </div>
+      <div className="flex flex-none space-x-2">
+        <button
+          onClick={() => onReplay(entry)}
+          className="px-3 py-1 bg-blue-100 dark:bg-blue-900 rounded-full text-blue-700 dark:text-blue-300 text-sm hover:bg-blue-200 dark:hover:bg-blue-800 transition-colors"
+        >
+          {t('history.run')}
+        </button>
+        {entry.pinned ? (
+          <button
+            onClick={() => onUnpin(entry.id)}
+            className="px-3 py-1 bg-gray-100 dark:bg-gray-700 rounded-full text-gray-700 dark:text-gray-300 text-sm hover:bg-gray-200 dark:hover:bg-gray-600 transition-colors"
+          >
+            {t('history.unpin')}
+          </button>
+        ) : (
+          <button
+            onClick={() => startNaming(entry)}
+            className="px-3 py-1 bg-gray-100 dark:bg-gray-700 rounded-full text-gray-700 dark:text-gray-300 text-sm hover:bg-gray-200 dark:hover:bg-gray-600 transition-colors"
+          >
+            {t('history.pin')}
+          </button>
+        )}
+        <button
+          onClick={() => onDelete(entry.id)}
+          className="px-3 py-1 bg-red-100 dark:bg-red-900 rounded-full text-red-600 dark:text-red-300 text-sm hover:bg-red-200 dark:hover:bg-red-800 transition-colors"
+        >
+          {t('common.delete')}
+        </button>
+      </div>
+    </li>
+  );
+
+  return (
+    <div className="bg-white dark:bg-gray-800 rounded-xl shadow-sm p-6 space-y-4">
+      <div className="flex justify-between items-center gap-3">
+        <h2 className="text-xl font-semibold text-gray-900 dark:text-white">{t('history.title')}</h2>
+        <div className="flex items-center gap-3">
+          <input
+            type="text"
+            value={filter}
+            onChange={(e) => setFilter(e.target.value)}
+            placeholder={t('history.filterPlaceholder')}
+            className="px-3 py-1 text-sm border border-gray-300 rounded-full dark:bg-gray-700 dark:border-gray-600 dark:text-white"
+          />
+          <button
+            onClick={() => {
+              if (window.confirm(t('history.confirmClear'))) onClear();
+            }}
+            className="px-3 py-1 text-sm text-red-600 dark:text-red-400 hover:text-red-700"
+          >
+            {t('common.clear')}
+          </button>
+        </div>
+      </div>
+
+      {savedSearches.length > 0 && (
+        <div>
+          <h3 className="text-sm font-semibold uppercase tracking-wide text-gray-500 dark:text-gray-400">
+            {t('history.saved')}
+          </h3>
+          <ul>{savedSearches.map(renderEntry)}</ul>
+        </div>
+      )}
+
+      <div>
+        <h3 className="text-sm font-semibold uppercase tracking-wide text-gray-500 dark:text-gray-400">
+          {t('history.recent')}
+        </h3>
+        {history.length > 0 ? (
+          <ul>{history.map(renderEntry)}</ul>
+        ) : (
+          <p className="text-sm text-gray-500 dark:text-gray-400 py-3">
+            {filter ? t('history.noMatches') : t('history.empty')}
+          </p>
+        )}
+      </div>
+    </div>
+  );
+}
+
+export default HistoryPanel;
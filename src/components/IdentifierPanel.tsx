@@ -0,0 +1,74 @@
+import type { Identifier } from '../lib/identifiers';
+import type { Translate } from '../lib/i18n';
+import { identifierLabels, metadataTargets } from '../lib/resolvers';
+import type { IdentifierMetadata } from '../lib/resolvers';
+import type { MetadataState } from '../hooks/useIdentifierMetadata';
+import ResultItem from './ResultItem';
+
+interface IdentifierPanelProps {
+  identifier: Identifier;
+  metadata: MetadataState;
+  // 仍然把输入作为关键词发送给选中的搜索引擎
+  onSearchAnyway: () => void;
+  onSave: (metadata: IdentifierMetadata) => void;
+  onClose: () => void;
+  t: Translate;
+}
+
+function IdentifierPanel({ identifier, metadata, onSearchAnyway, onSave, onClose, t }: IdentifierPanelProps) {
+  const found = metadata.status === 'done' ? metadata.metadata : null;
+  const targets = metadataTargets(identifier, found);
+
+  return (
+    <div className="bg-white dark:bg-gray-800 rounded-xl shadow-sm p-6 space-y-4">
+      <div className="flex flex-wrap justify-between items-center gap-3">
+        <h2 className="text-xl font-semibold text-gray-900 dark:text-white">
+          {t(identifierLabels[identifier.type])}{' '}
+          <span className="font-mono text-base font-normal text-gray-600 dark:text-gray-400 break-all">{identifier.value}</span>
+        </h2>
+        <div className="flex gap-3 text-sm">
+          <button onClick={onSearchAnyway} className="text-blue-500 hover:text-blue-600 dark:text-blue-400">
+            {t('identifier.searchAnyway')}
+          </button>
+          <button onClick={onClose} className="text-gray-600 dark:text-gray-400 hover:text-gray-800 dark:hover:text-gray-200">
+            {t('common.close')}
+          </button>
+        </div>
+      </div>
+
+      <div className="flex flex-wrap gap-2">
+        {targets.map(target => (
+          <a
+            key={target.id}
+            href={target.url}
+            target="_blank"
+            rel="noopener noreferrer"
+            className="px-4 py-2 bg-gray-100 dark:bg-gray-700 rounded-full text-sm font-medium text-gray-700 dark:text-gray-300 hover:bg-gray-200 dark:hover:bg-gray-600 transition-colors"
+          >
+            ↗ {t(target.label)}
+          </a>
+        ))}
+      </div>
+
+      {metadata.status === 'loading' && <p className="text-sm text-gray-500 dark:text-gray-400">{t('identifier.loading')}</p>}
+      {metadata.status === 'error' && (
+        <p className="text-sm text-red-600 dark:text-red-400">{t('identifier.error', { error: metadata.error })}</p>
+      )}
+      {metadata.status === 'done' && !found && (
+        <p className="text-sm text-gray-500 dark:text-gray-400">{t('identifier.notFound')}</p>
+      )}
+      {found && (
+        <ul className="border-t border-gray-100 dark:border-gray-700">
+          <ResultItem
+            result={found}
+            badges={found.publisher ? [found.publisher] : []}
+            onSave={() => onSave(found)}
+            t={t}
+          />
+        </ul>
+      )}
+    </div>
+  );
+}
+
+export default IdentifierPanel;
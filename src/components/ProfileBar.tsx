@@ -0,0 +1,127 @@
+import { useState } from 'react';
+import type { Translate } from '../lib/i18n';
+import { getActiveProfile } from '../lib/profiles';
+import type { ProfileState } from '../lib/profiles';
+
+interface ProfileBarProps {
+  state: ProfileState;
+  onSelect: (id: string) => void;
+  onCreate: (name: string) => void;
+  onRename: (id: string, name: string) => void;
+  onDuplicate: (id: string) => void;
+  onDelete: (id: string) => void;
+  onQuerySuffixChange: (id: string, querySuffix: string) => void;
+  // 用指定配置搜索, 不切换当前配置
+  onSearchWithProfile: (id: string) => void;
+  t: Translate;
+}
+
+const buttonClass = `px-3 py-1 bg-gray-100 dark:bg-gray-700 rounded-full text-gray-700 dark:text-gray-300 text-sm
+  hover:bg-gray-200 dark:hover:bg-gray-600 transition-colors disabled:opacity-50 disabled:cursor-not-allowed`;
+
+const inputClass = `px-3 py-1 text-sm border border-gray-300 rounded-full dark:bg-gray-700 dark:border-gray-600 dark:text-white`;
+
+function ProfileBar({
+  state,
+  onSelect,
+  onCreate,
+  onRename,
+  onDuplicate,
+  onDelete,
+  onQuerySuffixChange,
+  onSearchWithProfile,
+  t,
+}: ProfileBarProps) {
+  const [mode, setMode] = useState<'create' | 'rename' | null>(null);
+  const [name, setName] = useState('');
+  const activeProfile = getActiveProfile(state);
+  const otherProfiles = state.profiles.filter(profile => profile.id !== activeProfile.id);
+
+  const startEditing = (nextMode: 'create' | 'rename') => {
+    setMode(nextMode);
+    setName(nextMode === 'rename' ? activeProfile.name : '');
+  };
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!name.trim()) return;
+    if (mode === 'create') onCreate(name);
+    if (mode === 'rename') onRename(activeProfile.id, name);
+    setMode(null);
+  };
+
+  return (
+    <div className="flex flex-wrap items-center gap-2 mt-3 text-sm text-gray-700 dark:text-gray-300">
+      <label htmlFor="profile-select" className="font-medium">{t('profiles.label')}</label>
+      {mode ? (
+        <form onSubmit={handleSubmit} className="flex items-center gap-2">
+          <input
+            type="text"
+            value={name}
+            onChange={(e) => setName(e.target.value)}
+            autoFocus
+            placeholder={t('profiles.namePlaceholder')}
+            className={inputClass}
+          />
+          <button type="submit" className="px-3 py-1 bg-blue-500 text-white rounded-full hover:bg-blue-600">
+            {mode === 'create' ? t('common.create') : t('common.rename')}
+          </button>
+          <button type="button" onClick={() => setMode(null)} className="px-2 py-1 hover:text-gray-900 dark:hover:text-white">
+            {t('common.cancel')}
+          </button>
+        </form>
+      ) : (
+        <>
+          <select
+            id="profile-select"
+            value={activeProfile.id}
+            onChange={(e) => onSelect(e.target.value)}
+            className={inputClass}
+          >
+            {state.profiles.map(profile => (
+              <option key={profile.id} value={profile.id}>{profile.name}</option>
+            ))}
+          </select>
+          <button type="button" onClick={() => startEditing('create')} className={buttonClass}>{t('profiles.new')}</button>
+          <button type="button" onClick={() => startEditing('rename')} className={buttonClass}>{t('common.rename')}</button>
+          <button type="button" onClick={() => onDuplicate(activeProfile.id)} className={buttonClass}>{t('profiles.duplicate')}</button>
+          <button
+            type="button"
+            onClick={() => {
+              if (window.confirm(t('profiles.confirmDelete', { name: activeProfile.name }))) onDelete(activeProfile.id);
+            }}
+            disabled={state.profiles.length <= 1}
+            className={buttonClass}
+          >
+            {t('common.delete')}
+          </button>
+        </>
+      )}
+      <input
+        type="text"
+        value={activeProfile.querySuffix ?? ''}
+        onChange={(e) => onQuerySuffixChange(activeProfile.id, e.target.value)}
+        placeholder={t('profiles.suffixPlaceholder')}
+        title={t('profiles.suffixHint')}
+        className={`${inputClass} flex-grow min-w-[12rem]`}
+      />
+      {otherProfiles.length > 0 && (
+        <select
+          value=""
+          onChange={(e) => {
+            if (e.target.value) onSearchWithProfile(e.target.value);
+          }}
+          title={t('profiles.searchWithHint')}
+          className={inputClass}
+        >
+          <option value="">{t('profiles.searchWith')}</option>
+          {otherProfiles.map(profile => (
+            <option key={profile.id} value={profile.id}>{profile.name}</option>
+          ))}
+        </select>
+      )}
+    </div>
+  );
+}
+
+export default ProfileBar;
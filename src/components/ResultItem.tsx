@@ -0,0 +1,73 @@
+import type { SearchResult } from '../types';
+import type { Translate } from '../lib/i18n';
+
+interface ResultItemProps {
+  result: Pick<SearchResult, 'title' | 'authors' | 'year' | 'venue' | 'doi' | 'abstract' | 'url'>;
+  // 标明结果来源 (交替或合并显示时)
+  badges?: string[];
+  // 保存到当前收藏集
+  onSave?: () => void;
+  t: Translate;
+}
+
+const MAX_AUTHORS = 5;
+
+function ResultItem({ result, badges = [], onSave, t }: ResultItemProps) {
+  const authors = result.authors.length > MAX_AUTHORS
+    ? t('results.etAl', { authors: result.authors.slice(0, MAX_AUTHORS).join(', ') })
+    : result.authors.join(', ');
+  const meta = [result.year, result.venue].filter(Boolean).join(' · ');
+
+  return (
+    <li className="py-3 border-b border-gray-100 dark:border-gray-700 last:border-0">
+      <div className="flex items-start gap-2">
+        {badges.map(badge => (
+          <span
+            key={badge}
+            className="flex-none mt-0.5 px-2 py-0.5 text-xs rounded-full bg-blue-100 dark:bg-blue-900 text-blue-700 dark:text-blue-300"
+          >
+            {badge}
+          </span>
+        ))}
+        <a
+          href={result.url}
+          target="_blank"
+          rel="noopener noreferrer"
+          className="font-medium text-blue-600 hover:text-blue-700 dark:text-blue-400"
+        >
+          {result.title || t('results.untitled')}
+        </a>
+        {onSave && (
+          <button
+            onClick={onSave}
+            className="flex-none ml-auto px-2 py-0.5 text-xs rounded-full bg-gray-100 dark:bg-gray-700 text-gray-700 dark:text-gray-300 hover:bg-gray-200 dark:hover:bg-gray-600"
+          >
+            {t('common.save')}
+          </button>
+        )}
+      </div>
+      {authors && <p className="text-sm text-gray-700 dark:text-gray-300 mt-1">{authors}</p>}
+      <p className="text-xs text-gray-500 dark:text-gray-400 mt-1 space-x-2">
+        {meta && <span>{meta}</span>}
+        {result.doi && (
+          <a
+            href={`https://doi.org/${result.doi}`}
+            target="_blank"
+            rel="noopener noreferrer"
+            className="hover:text-gray-700 dark:hover:text-gray-200"
+          >
+            doi:{result.doi}
+          </a>
+        )}
+      </p>
+      {result.abstract && (
+        <details className="mt-1">
+          <summary className="text-xs text-gray-500 dark:text-gray-400 cursor-pointer">{t('results.abstract')}</summary>
+          <p className="text-sm text-gray-600 dark:text-gray-400 mt-1">{result.abstract}</p>
+        </details>
+      )}
+    </li>
+  );
+}
+
+export default ResultItem;
@@ -0,0 +1,131 @@
+import type { SearchResult, SearchSource } from '../types';
+import type { MessageKey, Translate } from '../lib/i18n';
+import { interleaveResults, resultsViews } from '../lib/results';
+import { mergeResults } from '../lib/dedup';
+import type { ResultsView, SourceResults } from '../lib/results';
+import type { MergedResult } from '../lib/dedup';
+import ResultItem from './ResultItem';
+
+interface ResultsPanelProps {
+  results: { [sourceId: string]: SourceResults };
+  sources: SearchSource[];
+  view: ResultsView;
+  onViewChange: (view: ResultsView) => void;
+  onClear: () => void;
+  // 没有可用的收藏集时不显示保存按钮
+  onSave?: (result: SearchResult | MergedResult) => void;
+  t: Translate;
+}
+
+const viewLabels: { [key in ResultsView]: MessageKey } = {
+  grouped: 'results.view.grouped',
+  interleaved: 'results.view.interleaved',
+  merged: 'results.view.merged',
+};
+
+function ResultsPanel({ results, sources, view, onViewChange, onClear, onSave, t }: ResultsPanelProps) {
+  const entries = sources
+    .filter(source => results[source.id])
+    .map(source => ({ source, state: results[source.id] }));
+  const sourceName = (id: string) => sources.find(source => source.id === id)?.name ?? id;
+
+  const doneGroups = entries.map(({ state }) => (state.status === 'done' ? state.results : [] as SearchResult[]));
+  const total = doneGroups.reduce((sum, group) => sum + group.length, 0);
+
+  const renderStatus = (state: SourceResults) => {
+    if (state.status === 'loading') {
+      return <span className="text-gray-500 dark:text-gray-400">{t('common.loading')}</span>;
+    }
+    if (state.status === 'error') {
+      return <span className="text-red-600 dark:text-red-400">{t('results.failed', { error: state.error })}</span>;
+    }
+    return <span className="text-gray-500 dark:text-gray-400">{t('results.count', { count: state.results.length })}</span>;
+  };
+
+  return (
+    <div className="bg-white dark:bg-gray-800 rounded-xl shadow-sm p-6 space-y-4">
+      <div className="flex flex-wrap justify-between items-center gap-3">
+        <h2 className="text-xl font-semibold text-gray-900 dark:text-white">
+          {t('results.title')} <span className="text-base font-normal text-gray-500 dark:text-gray-400">({total})</span>
+        </h2>
+        <div className="flex items-center gap-3 text-sm">
+          <div className="flex rounded-full bg-gray-100 dark:bg-gray-700 p-1">
+            {resultsViews.map(option => (
+              <button
+                key={option}
+                onClick={() => onViewChange(option)}
+                className={`px-3 py-1 rounded-full ${
+                  view === option
+                    ? 'bg-white dark:bg-gray-600 text-gray-900 dark:text-white shadow-sm'
+                    : 'text-gray-600 dark:text-gray-300'
+                }`}
+              >
+                {t(viewLabels[option])}
+              </button>
+            ))}
+          </div>
+          <button onClick={onClear} className="text-gray-600 dark:text-gray-400 hover:text-gray-800 dark:hover:text-gray-200">
+            {t('common.clear')}
+          </button>
+        </div>
+      </div>
+
+      {view === 'grouped' && (
+        entries.map(({ source, state }) => (
+          <section key={source.id}>
+            <h3 className="flex justify-between text-sm font-semibold text-gray-900 dark:text-white">
+              <span>{source.name}</span>
+              <span className="font-normal">{renderStatus(state)}</span>
+            </h3>
+            {state.status === 'done' && (
+              <ul>
+                {state.results.map(result => (
+                  <ResultItem key={result.id} result={result} onSave={onSave && (() => onSave(result))} t={t} />
+                ))}
+              </ul>
+            )}
+          </section>
+        ))
+      )}
+
+      {view !== 'grouped' && (
+        <>
+          <p className="flex flex-wrap gap-x-4 text-xs">
+            {entries.map(({ source, state }) => (
+              <span key={source.id}>
+                <span className="text-gray-700 dark:text-gray-300">{source.name}:</span> {renderStatus(state)}
+              </span>
+            ))}
+          </p>
+          {view === 'interleaved' ? (
+            <ul>
+              {interleaveResults(doneGroups).map(result => (
+                <ResultItem
+                  key={result.id}
+                  result={result}
+                  badges={[sourceName(result.sourceId)]}
+                  onSave={onSave && (() => onSave(result))}
+                  t={t}
+                />
+              ))}
+            </ul>
+          ) : (
+            <ul>
+              {mergeResults(doneGroups).map(result => (
+                <ResultItem
+                  key={result.id}
+                  result={result}
+                  badges={result.sources.map(source => sourceName(source.sourceId))}
+                  onSave={onSave && (() => onSave(result))}
+                  t={t}
+                />
+              ))}
+            </ul>
+          )}
+        </>
+      )}
+    </div>
+  );
+}
+
+export default ResultsPanel;
@@ -0,0 +1,251 @@
+import { useState } from 'react';
+import { buildEntryStates, deliveryLabels, toReviewCsv, toReviewHtml, toReviewMarkdown } from '../lib/reviewLog';
+import type { ReviewEntryState, ReviewLogEntry } from '../lib/reviewLog';
+import { downloadFile } from '../lib/download';
+import type { Translate } from '../lib/i18n';
+import type { ReviewLogState } from '../hooks/useReviewLog';
+
+interface ReviewLogPanelProps {
+  state: ReviewLogState;
+  t: Translate;
+}
+
+const inputClass =
+  'px-2 py-1 text-sm border border-gray-300 rounded-md dark:bg-gray-700 dark:border-gray-600 dark:text-white';
+
+interface AmendFormProps {
+  onSubmit: (changes: { hitCount?: number; note?: string }) => boolean;
+  onCancel: () => void;
+  t: Translate;
+}
+
+function AmendForm({ onSubmit, onCancel, t }: AmendFormProps) {
+  const [hitCount, setHitCount] = useState('');
+  const [note, setNote] = useState('');
+  const [formError, setFormError] = useState<string | null>(null);
+
+  return (
+    <form
+      onSubmit={(e) => {
+        e.preventDefault();
+        const trimmed = hitCount.trim();
+        if (trimmed && !/^\d+$/.test(trimmed)) {
+          setFormError(t('reviewLog.countError'));
+          return;
+        }
+        if (!onSubmit({ hitCount: trimmed ? Number(trimmed) : undefined, note })) {
+          setFormError(t('reviewLog.emptyAmendment'));
+          return;
+        }
+        onCancel();
+      }}
+      className="flex flex-wrap gap-2 mt-2"
+    >
+      <input
+        type="text"
+        inputMode="numeric"
+        value={hitCount}
+        onChange={(e) => setHitCount(e.target.value)}
+        placeholder={t('reviewLog.resultsPlaceholder')}
+        autoFocus
+        className={`${inputClass} w-28`}
+      />
+      <input
+        type="text"
+        value={note}
+        onChange={(e) => setNote(e.target.value)}
+        placeholder={t('reviewLog.notePlaceholder')}
+        className={`${inputClass} flex-grow`}
+      />
+      <button type="submit" className="px-3 py-1 text-sm bg-blue-500 text-white rounded-md hover:bg-blue-600">
+        {t('reviewLog.append')}
+      </button>
+      <button
+        type="button"
+        onClick={onCancel}
+        className="px-2 py-1 text-sm text-gray-600 dark:text-gray-400 hover:text-gray-800 dark:hover:text-gray-200"
+      >
+        {t('common.cancel')}
+      </button>
+      {formError && <p className="w-full text-sm text-red-600 dark:text-red-400">{formError}</p>}
+    </form>
+  );
+}
+
+interface EntryRowProps {
+  state: ReviewEntryState;
+  onAmend: (entry: ReviewLogEntry, changes: { hitCount?: number; note?: string }) => boolean;
+  t: Translate;
+}
+
+function EntryRow({ state, onAmend, t }: EntryRowProps) {
+  const [amending, setAmending] = useState(false);
+  const { entry, number, hitCount, note, amendments } = state;
+
+  return (
+    <li className="py-3 border-b border-gray-100 dark:border-gray-700 last:border-0 text-sm">
+      <div className="flex flex-wrap justify-between gap-2">
+        <span className="font-medium text-gray-900 dark:text-white">
+          #{number} {entry.sourceName}
+        </span>
+        <span className="text-gray-500 dark:text-gray-400">
+          {new Date(entry.timestamp).toLocaleString()} · {t(deliveryLabels[entry.delivery])}
+        </span>
+      </div>
+      <p className="font-mono text-gray-800 dark:text-gray-200 break-all">{entry.renderedQuery}</p>
+      <a
+        href={entry.url}
+        target="_blank"
+        rel="noopener noreferrer"
+        className="text-blue-500 hover:text-blue-600 dark:text-blue-400 break-all"
+      >
+        {entry.url}
+      </a>
+      <div className="flex flex-wrap items-center gap-3 mt-1 text-gray-600 dark:text-gray-400">
+        <span>{t('reviewLog.results', { count: hitCount ?? '—' })}</span>
+        {note && <span>{t('reviewLog.note', { note })}</span>}
+        {!amending && (
+          <button onClick={() => setAmending(true)} className="text-blue-500 hover:text-blue-600 dark:text-blue-400">
+            {amendments.length > 0 ? t('reviewLog.amend') : t('reviewLog.recordResults')}
+          </button>
+        )}
+      </div>
+      {amendments.length > 0 && (
+        <details className="mt-1">
+          <summary className="text-gray-500 dark:text-gray-400 cursor-pointer">
+            {t('reviewLog.history', { count: amendments.length })}
+          </summary>
+          <ul className="mt-1 space-y-0.5 text-gray-600 dark:text-gray-400">
+            {amendments.map(amendment => (
+              <li key={amendment.id}>
+                {new Date(amendment.timestamp).toLocaleString()}
+                {amendment.hitCount !== undefined && ` · ${t('reviewLog.amendedCount', { count: amendment.hitCount })}`}
+                {amendment.note && ` · ${amendment.note}`}
+              </li>
+            ))}
+          </ul>
+        </details>
+      )}
+      {amending && <AmendForm onSubmit={(changes) => onAmend(entry, changes)} onCancel={() => setAmending(false)} t={t} />}
+    </li>
+  );
+}
+
+function ReviewLogPanel({ state, t }: ReviewLogPanelProps) {
+  const { projects, entries, amendments, activeProject, setActiveProjectId, error, clearError, addProject, amendEntry } =
+    state;
+  const [newProjectName, setNewProjectName] = useState('');
+
+  const states = activeProject
+    ? buildEntryStates(
+        entries.filter(entry => entry.projectId === activeProject.id),
+        amendments.filter(amendment => amendment.projectId === activeProject.id)
+      )
+    : [];
+
+  const handleExport = (format: 'csv' | 'md' | 'html') => {
+    if (!activeProject) return;
+    const filename = `${activeProject.name.replace(/[^\w-]+/g, '_') || 'review'}-search-log.${format}`;
+    if (format === 'csv') downloadFile(toReviewCsv(states, t), filename, 'text/csv');
+    else if (format === 'md') downloadFile(toReviewMarkdown(activeProject, states, t), filename, 'text/markdown');
+    else downloadFile(toReviewHtml(activeProject, states, t), filename, 'text/html');
+  };
+
+  return (
+    <div className="bg-white dark:bg-gray-800 rounded-xl shadow-sm p-6 space-y-4 text-left">
+      <div className="flex flex-wrap justify-between items-center gap-2">
+        <h2 className="text-xl font-semibold text-gray-900 dark:text-white">{t('reviewLog.title')}</h2>
+        <span className="text-sm text-gray-600 dark:text-gray-400">
+          {activeProject ? t('reviewLog.logging', { name: activeProject.name }) : t('reviewLog.notLogging')}
+        </span>
+      </div>
+
+      {error && (
+        <p className="text-sm text-red-600 dark:text-red-400">
+          {t('common.storageError', { error })}{' '}
+          <button onClick={clearError} className="underline">{t('common.dismiss')}</button>
+        </p>
+      )}
+
+      <div className="flex flex-wrap items-center gap-2">
+        {projects.map(project => (
+          <button
+            key={project.id}
+            onClick={() => setActiveProjectId(project.id)}
+            className={`px-3 py-1 text-sm rounded-full ${
+              activeProject?.id === project.id
+                ? 'bg-blue-500 text-white'
+                : 'bg-gray-100 dark:bg-gray-700 text-gray-700 dark:text-gray-300 hover:bg-gray-200 dark:hover:bg-gray-600'
+            }`}
+          >
+            {project.name} ({entries.filter(entry => entry.projectId === project.id).length})
+          </button>
+        ))}
+        <form
+          onSubmit={(e) => {
+            e.preventDefault();
+            if (!newProjectName.trim()) return;
+            addProject(newProjectName);
+            setNewProjectName('');
+          }}
+          className="flex gap-2"
+        >
+          <input
+            type="text"
+            value={newProjectName}
+            onChange={(e) => setNewProjectName(e.target.value)}
+            placeholder={t('reviewLog.newPlaceholder')}
+            className={inputClass}
+          />
+          <button type="submit" className="px-3 py-1 text-sm bg-blue-500 text-white rounded-md hover:bg-blue-600">
+            {t('common.create')}
+          </button>
+        </form>
+      </div>
+
+      {!activeProject && (
+        <p className="text-sm text-gray-500 dark:text-gray-400">
+          {t('reviewLog.intro')}
+        </p>
+      )}
+
+      {activeProject && (
+        <>
+          <div className="flex flex-wrap justify-between items-center gap-2">
+            <button
+              onClick={() => setActiveProjectId(null)}
+              className="text-sm text-gray-600 dark:text-gray-400 hover:text-gray-800 dark:hover:text-gray-200"
+            >
+              {t('reviewLog.stop')}
+            </button>
+            <div className="flex items-center gap-2 text-sm">
+              <span className="text-gray-600 dark:text-gray-400">{t('common.export')}</span>
+              {([['csv', 'CSV'], ['md', 'Markdown'], ['html', 'HTML']] as const).map(([format, label]) => (
+                <button
+                  key={format}
+                  onClick={() => handleExport(format)}
+                  disabled={states.length === 0}
+                  className="px-3 py-1 bg-gray-100 dark:bg-gray-700 text-gray-700 dark:text-gray-300 rounded-full hover:bg-gray-200 dark:hover:bg-gray-600 disabled:opacity-50 disabled:cursor-not-allowed"
+                >
+                  {label}
+                </button>
+              ))}
+            </div>
+          </div>
+
+          {states.length === 0 ? (
+            <p className="text-sm text-gray-500 dark:text-gray-400">{t('reviewLog.empty')}</p>
+          ) : (
+            <ul>
+              {[...states].reverse().map(entryState => (
+                <EntryRow key={entryState.entry.id} state={entryState} onAmend={amendEntry} t={t} />
+              ))}
+            </ul>
+          )}
+        </>
+      )}
+    </div>
+  );
+}
+
+export default ReviewLogPanel;
@@ -0,0 +1,162 @@
+import { useState } from 'react';
+import type { SearchSource } from '../types';
+import { looksLikeOpenSearch, OpenSearchError, parseOpenSearchDescription } from '../lib/openSearch';
+import { parseSettingsBundle, SettingsImportError } from '../lib/settingsBundle';
+import { downloadFile } from '../lib/download';
+import { translateMessage } from '../lib/i18n';
+import type { Translate } from '../lib/i18n';
+import type { ImportMode, ImportReport, SettingsBundle } from '../lib/settingsBundle';
+
+interface SettingsTransferModalProps {
+  onExport: () => SettingsBundle;
+  onImport: (bundle: SettingsBundle, mode: ImportMode) => ImportReport;
+  // OpenSearch 描述文件解析成功后交给 "添加搜索源" 表单确认
+  onOpenSearchParsed: (source: SearchSource) => void;
+  onClose: () => void;
+  t: Translate;
+}
+
+function SettingsTransferModal({ onExport, onImport, onOpenSearchParsed, onClose, t }: SettingsTransferModalProps) {
+  const [text, setText] = useState('');
+  const [errors, setErrors] = useState<string[]>([]);
+  const [bundle, setBundle] = useState<SettingsBundle | null>(null);
+  const [mode, setMode] = useState<ImportMode>('merge');
+  const [report, setReport] = useState<ImportReport | null>(null);
+
+  const handleExport = () => {
+    const date = new Date().toISOString().slice(0, 10);
+    downloadFile(JSON.stringify(onExport(), null, 2), `literesearch-settings-${date}.json`, 'application/json');
+  };
+
+  const handleFile = async (file: File | undefined) => {
+    if (!file) return;
+    setText(await file.text());
+    setBundle(null);
+    setErrors([]);
+    setReport(null);
+  };
+
+  // 校验导入内容: OpenSearch 描述文件直接转到添加表单, 设置文件先预览
+  const handleCheck = () => {
+    setErrors([]);
+    setBundle(null);
+    setReport(null);
+    try {
+      if (looksLikeOpenSearch(text)) {
+        onOpenSearchParsed(parseOpenSearchDescription(text));
+        return;
+      }
+      setBundle(parseSettingsBundle(text));
+    } catch (error) {
+      if (error instanceof SettingsImportError) setErrors(error.issues);
+      else if (error instanceof OpenSearchError) setErrors([translateMessage(t, error.detail)]);
+      else throw error;
+    }
+  };
+
+  const handleImport = () => {
+    if (!bundle) return;
+    setReport(onImport(bundle, mode));
+    setBundle(null);
+    setText('');
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center p-4">
+      <div className="bg-white dark:bg-gray-800 rounded-lg p-6 max-w-lg w-full space-y-4">
+        <h2 className="text-xl font-semibold text-gray-900 dark:text-white">{t('transfer.title')}</h2>
+
+        <div className="flex justify-between items-center">
+          <p className="text-sm text-gray-600 dark:text-gray-400">
+            {t('transfer.exportHint')}
+          </p>
+          <button
+            onClick={handleExport}
+            className="px-4 py-2 bg-blue-500 text-white rounded-md hover:bg-blue-600"
+          >
+            {t('transfer.export')}
+          </button>
+        </div>
+
+        <div className="border-t border-gray-200 dark:border-gray-700 pt-4 space-y-3">
+          <label className="block text-sm font-medium text-gray-700 dark:text-gray-300">
+            {t('transfer.importLabel')}
+          </label>
+          <input
+            type="file"
+            accept=".json,.xml,application/json,application/opensearchdescription+xml"
+            onChange={(e) => handleFile(e.target.files?.[0])}
+            className="block w-full text-sm text-gray-600 dark:text-gray-400"
+          />
+          <textarea
+            value={text}
+            onChange={(e) => setText(e.target.value)}
+            rows={5}
+            placeholder={t('transfer.pastePlaceholder')}
+            className="w-full px-3 py-2 text-sm font-mono border border-gray-300 rounded-md dark:bg-gray-700 dark:border-gray-600 dark:text-white"
+          />
+
+          {errors.length > 0 && (
+            <ul className="text-sm text-red-600 dark:text-red-400 list-disc pl-5 max-h-32 overflow-y-auto">
+              {errors.map(error => <li key={error}>{error}</li>)}
+            </ul>
+          )}
+
+          {bundle && (
+            <div className="text-sm text-gray-700 dark:text-gray-300 space-y-2">
+              <p>
+                {[
+                  t('transfer.sources', { count: bundle.customSources.length }),
+                  ...(bundle.profiles ? [t('transfer.profiles', { count: bundle.profiles.profiles.length })] : []),
+                  ...(bundle.thesaurus ? [t('transfer.thesaurus', { count: bundle.thesaurus.length })] : []),
+                ].join(t('common.listSeparator'))}
+                {t('transfer.exportedAt', { date: new Date(bundle.exportedAt).toLocaleString() })}
+              </p>
+              <div className="flex space-x-4">
+                <label className="flex items-center space-x-2">
+                  <input type="radio" checked={mode === 'merge'} onChange={() => setMode('merge')} />
+                  <span>{t('transfer.merge')}</span>
+                </label>
+                <label className="flex items-center space-x-2">
+                  <input type="radio" checked={mode === 'replace'} onChange={() => setMode('replace')} />
+                  <span>{t('transfer.replace')}</span>
+                </label>
+              </div>
+            </div>
+          )}
+
+          {report && (
+            <p className="text-sm text-green-700 dark:text-green-400">
+              {t('transfer.report', { added: report.added, skipped: report.skipped, renamed: report.renamed })}
+            </p>
+          )}
+        </div>
+
+        <div className="flex justify-end space-x-3">
+          <button
+            type="button"
+            onClick={onClose}
+            className="px-4 py-2 text-gray-600 dark:text-gray-400 hover:text-gray-800 dark:hover:text-gray-200"
+          >
+            {t('common.close')}
+          </button>
+          {bundle ? (
+            <button onClick={handleImport} className="px-4 py-2 bg-blue-500 text-white rounded-md hover:bg-blue-600">
+              {t('transfer.import')}
+            </button>
+          ) : (
+            <button
+              onClick={handleCheck}
+              disabled={!text.trim()}
+              className="px-4 py-2 bg-blue-500 text-white rounded-md hover:bg-blue-600 disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              {t('transfer.check')}
+            </button>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
+
+export default SettingsTransferModal;
@@ -0,0 +1,152 @@
+import type { SearchSource } from '../types';
+import { translateMessage } from '../lib/i18n';
+import type { Translate } from '../lib/i18n';
+import type { SourceHealth } from '../lib/sourceHealth';
+
+interface SourceCardProps {
+  source: SearchSource;
+  selected: boolean;
+  onToggle: () => void;
+  onSearch: () => void;
+  onEdit?: () => void;
+  onDelete?: () => void;
+  onHide?: () => void;
+  // 搜索窗口打开时显示当前查询和聚焦按钮
+  openWindowQuery?: string;
+  onFocusWindow?: () => void;
+  health?: SourceHealth;
+  // 正在探测
+  checking?: boolean;
+  onDragStart: (e: React.DragEvent) => void;
+  onDragOver: (e: React.DragEvent) => void;
+  onDrop: (e: React.DragEvent) => void;
+  t: Translate;
+}
+
+const smallButtonClass = `px-3 py-2 bg-gray-100 dark:bg-gray-700 rounded-full
+  text-gray-700 dark:text-gray-300 text-sm font-medium
+  hover:bg-gray-200 dark:hover:bg-gray-600 transition-colors`;
+
+const badgeClass = 'px-2 py-0.5 text-xs font-medium rounded-full align-middle';
+
+// 健康状态徽章; 没有问题且未探测时不显示
+function HealthBadge({ health, checking, t }: { health?: SourceHealth; checking?: boolean; t: Translate }) {
+  if (checking) {
+    return <span className={`${badgeClass} bg-gray-100 dark:bg-gray-700 text-gray-600 dark:text-gray-400`}>{t('health.checking')}</span>;
+  }
+  if (!health) return null;
+  const title = health.issues.map(issue => translateMessage(t, issue.message)).join('\n') || undefined;
+  if (health.status === 'error') {
+    return <span title={title} className={`${badgeClass} bg-red-100 dark:bg-red-900 text-red-700 dark:text-red-300`}>{t('health.broken')}</span>;
+  }
+  if (health.status === 'warning') {
+    return <span title={title} className={`${badgeClass} bg-yellow-100 dark:bg-yellow-900 text-yellow-800 dark:text-yellow-300`}>{t('health.warning')}</span>;
+  }
+  if (health.reachable) {
+    return <span className={`${badgeClass} bg-green-100 dark:bg-green-900 text-green-700 dark:text-green-300`}>{t('health.working')}</span>;
+  }
+  if (health.issues.length > 0) {
+    return <span title={title} className={`${badgeClass} bg-gray-100 dark:bg-gray-700 text-gray-600 dark:text-gray-400`}>{t('health.unverified')}</span>;
+  }
+  return null;
+}
+
+function SourceCard({
+  source,
+  selected,
+  onToggle,
+  onSearch,
+  onEdit,
+  onDelete,
+  onHide,
+  openWindowQuery,
+  onFocusWindow,
+  health,
+  checking,
+  onDragStart,
+  onDragOver,
+  onDrop,
+  t,
+}: SourceCardProps) {
+  return (
+    <div
+      draggable
+      onDragStart={onDragStart}
+      onDragOver={onDragOver}
+      onDrop={onDrop}
+      className="bg-white dark:bg-gray-800 rounded-xl shadow-sm hover:shadow-md transition-shadow p-6 cursor-grab active:cursor-grabbing"
+    >
+      <div className="flex justify-between items-start mb-4">
+        <div className="flex items-center space-x-3">
+          <input
+            type="checkbox"
+            id={`engine-${source.id}`}
+            checked={selected}
+            onChange={onToggle}
+            className="w-4 h-4 text-blue-600 rounded border-gray-300 focus:ring-blue-500"
+          />
+          <div>
+            <h2 className="text-xl font-semibold text-gray-900 dark:text-white">
+              {source.name} <HealthBadge health={health} checking={checking} t={t} />
+            </h2>
+            <p className="text-sm text-gray-600 dark:text-gray-400 mt-1">
+              {source.description}
+            </p>
+            {health && health.issues.some(issue => issue.severity !== 'info') && (
+              <ul className="text-xs text-red-600 dark:text-red-400 mt-1 space-y-0.5">
+                {health.issues
+                  .filter(issue => issue.severity !== 'info')
+                  .map(issue => <li key={issue.code}>{translateMessage(t, issue.message)}</li>)}
+              </ul>
+            )}
+          </div>
+        </div>
+        <div className="flex flex-wrap justify-end gap-2">
+          <button
+            onClick={onSearch}
+            className="px-4 py-2 bg-gray-100 dark:bg-gray-700 rounded-full
+                     text-gray-700 dark:text-gray-300 text-sm font-medium
+                     hover:bg-gray-200 dark:hover:bg-gray-600 transition-colors"
+          >
+            {t('sourceCard.search')}
+          </button>
+          {onEdit && (
+            <button onClick={onEdit} className={smallButtonClass}>
+              {t('common.edit')}
+            </button>
+          )}
+          {onHide && (
+            <button onClick={onHide} className={smallButtonClass} title={t('sourceCard.hideHint')}>
+              {t('sourceCard.hide')}
+            </button>
+          )}
+          {onDelete && (
+            <button
+              onClick={onDelete}
+              className="px-3 py-2 bg-red-100 dark:bg-red-900 rounded-full
+                       text-red-600 dark:text-red-300 text-sm font-medium
+                       hover:bg-red-200 dark:hover:bg-red-800 transition-colors"
+            >
+              {t('common.delete')}
+            </button>
+          )}
+        </div>
+      </div>
+      {openWindowQuery && (
+        <div className="mt-4">
+          <div className="text-sm text-gray-600 dark:text-gray-400">
+            {t('sourceCard.windowOpen', { query: openWindowQuery })}
+          </div>
+          <button
+            onClick={onFocusWindow}
+            className="inline-block mt-2 text-blue-500 hover:text-blue-600 dark:text-blue-400"
+          >
+            ↗ {t('sourceCard.focusWindow')}
+          </button>
+        </div>
+      )}
+    </div>
+  );
+}
+
+export default SourceCard;
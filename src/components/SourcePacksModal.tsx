@@ -0,0 +1,317 @@
+import { useState } from 'react';
+import type { SearchSource } from '../types';
+import type { BangGroup } from '../lib/bangs';
+import { translateMessage } from '../lib/i18n';
+import type { MessageKey, Translate } from '../lib/i18n';
+import { diffSourcePack, fetchSourcePack, hasPackChanges, parseSourcePack, SourcePackError } from '../lib/sourcePacks';
+import type { PackDiff, PackField, PackSourceChange, PackSubscription, SourcePackManifest } from '../lib/sourcePacks';
+
+interface SourcePacksModalProps {
+  subscriptions: PackSubscription[];
+  customSources: SearchSource[];
+  // 全部搜索源和分类, 检查包中的 bang 是否冲突
+  sources: SearchSource[];
+  bangGroups: BangGroup[];
+  // 用户确认差异后应用
+  onApply: (manifest: SourcePackManifest, diff: PackDiff, url?: string) => void;
+  onUnsubscribe: (packId: string) => void;
+  onClose: () => void;
+  t: Translate;
+}
+
+interface PendingPack {
+  manifest: SourcePackManifest;
+  url?: string;
+  diff: PackDiff;
+}
+
+const inputClass =
+  'px-3 py-2 text-sm border border-gray-300 rounded-md dark:bg-gray-700 dark:border-gray-600 dark:text-white';
+
+const fieldLabels: { [key in PackField]: MessageKey } = {
+  name: 'packs.field.name',
+  url: 'packs.field.url',
+  description: 'packs.field.description',
+  category: 'packs.field.category',
+  syntax: 'packs.field.syntax',
+  bangs: 'packs.field.bangs',
+};
+
+const showField = (source: SearchSource | undefined, field: PackField) => {
+  const value = field === 'bangs' ? source?.bangs?.map(bang => `!${bang}`).join(' ') : source?.[field];
+  return value || '—';
+};
+
+function ChangeRow({ change, t }: { change: PackSourceChange; t: Translate }) {
+  const source = change.after ?? change.before;
+  return (
+    <li className="py-1">
+      <span className="font-medium text-gray-900 dark:text-white">{source?.name}</span>
+      {change.kind === 'changed' && (
+        <ul className="pl-4 text-xs text-gray-600 dark:text-gray-400">
+          {change.fields.map(field => (
+            <li key={field} className="break-all">
+              {t(fieldLabels[field])}: <span className="line-through">{showField(change.before, field)}</span> →{' '}
+              {showField(change.after, field)}
+            </li>
+          ))}
+        </ul>
+      )}
+      {change.kind === 'added' && <p className="pl-4 text-xs text-gray-600 dark:text-gray-400 break-all">{source?.url}</p>}
+      {change.keptAsCustom && (
+        <p className="pl-4 text-xs text-gray-600 dark:text-gray-400">
+          {t('packs.keptAsCustom')}
+        </p>
+      )}
+      {change.bangIssues && (
+        <p className="pl-4 text-xs text-red-600 dark:text-red-400">
+          {t('packs.bangIssues', {
+            issues: change.bangIssues.map(issue => translateMessage(t, issue)).join(t('common.listSeparator')),
+          })}
+        </p>
+      )}
+      {change.kind !== 'removed' && change.preserved.length > 0 && (
+        <p className="pl-4 text-xs text-gray-600 dark:text-gray-400">
+          {t('packs.preserved', {
+            fields: change.preserved.map(field => t(fieldLabels[field])).join(t('common.listSeparator')),
+          })}
+        </p>
+      )}
+    </li>
+  );
+}
+
+function SourcePacksModal({
+  subscriptions,
+  customSources,
+  sources,
+  bangGroups,
+  onApply,
+  onUnsubscribe,
+  onClose,
+  t,
+}: SourcePacksModalProps) {
+  const [url, setUrl] = useState('');
+  const [errors, setErrors] = useState<string[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [pending, setPending] = useState<PendingPack | null>(null);
+  const [message, setMessage] = useState<string | null>(null);
+
+  const review = (manifest: SourcePackManifest, packUrl?: string) => {
+    const subscription = subscriptions.find(s => s.manifest.id === manifest.id);
+    setPending({ manifest, url: packUrl, diff: diffSourcePack(manifest, customSources, subscription, sources, bangGroups) });
+  };
+
+  const reset = () => {
+    setErrors([]);
+    setMessage(null);
+    setPending(null);
+  };
+
+  const showError = (error: unknown) => {
+    if (error instanceof SourcePackError) setErrors(error.issues);
+    else setErrors([error instanceof Error ? error.message : String(error)]);
+  };
+
+  const handleLoadUrl = async (packUrl: string) => {
+    reset();
+    setLoading(true);
+    try {
+      review(await fetchSourcePack(packUrl), packUrl);
+    } catch (error) {
+      showError(error);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleFile = async (file: File | undefined) => {
+    if (!file) return;
+    reset();
+    try {
+      review(parseSourcePack(await file.text()));
+    } catch (error) {
+      showError(error);
+    }
+  };
+
+  const handleAccept = () => {
+    if (!pending) return;
+    onApply(pending.manifest, pending.diff, pending.url);
+    setMessage(t('packs.applied', { name: pending.manifest.name, version: pending.manifest.version }));
+    setPending(null);
+    setUrl('');
+  };
+
+  const pendingSubscription = pending && subscriptions.find(s => s.manifest.id === pending.manifest.id);
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center p-4">
+      <div className="bg-white dark:bg-gray-800 rounded-lg p-6 max-w-lg w-full space-y-4 max-h-full overflow-y-auto">
+        <h2 className="text-xl font-semibold text-gray-900 dark:text-white">{t('packs.title')}</h2>
+
+        {subscriptions.length === 0 ? (
+          <p className="text-sm text-gray-600 dark:text-gray-400">
+            {t('packs.intro')}
+          </p>
+        ) : (
+          <ul className="space-y-2">
+            {subscriptions.map(subscription => {
+              const { manifest } = subscription;
+              return (
+                <li key={manifest.id} className="text-sm border-b border-gray-100 dark:border-gray-700 pb-2">
+                  <div className="flex justify-between items-start gap-3">
+                    <div>
+                      <p className="font-medium text-gray-900 dark:text-white">
+                        {manifest.name} <span className="text-gray-500 dark:text-gray-400">v{manifest.version}</span>
+                      </p>
+                      <p className="text-gray-600 dark:text-gray-400">
+                        {t('packs.subscriptionInfo', {
+                          author: manifest.author,
+                          count: manifest.sources.length,
+                          date: new Date(subscription.updatedAt).toLocaleDateString(),
+                        })}
+                      </p>
+                    </div>
+                    <div className="flex flex-none gap-3">
+                      {subscription.url && (
+                        <button
+                          onClick={() => handleLoadUrl(subscription.url as string)}
+                          disabled={loading}
+                          className="text-blue-500 hover:text-blue-600 dark:text-blue-400 disabled:opacity-50"
+                        >
+                          {t('packs.checkUpdates')}
+                        </button>
+                      )}
+                      <button
+                        onClick={() => {
+                          if (window.confirm(t('packs.confirmUnsubscribe', { name: manifest.name }))) {
+                            onUnsubscribe(manifest.id);
+                          }
+                        }}
+                        className="text-red-600 dark:text-red-400 hover:text-red-700"
+                      >
+                        {t('packs.unsubscribe')}
+                      </button>
+                    </div>
+                  </div>
+                </li>
+              );
+            })}
+          </ul>
+        )}
+
+        <div className="border-t border-gray-200 dark:border-gray-700 pt-4 space-y-3">
+          <label className="block text-sm font-medium text-gray-700 dark:text-gray-300">{t('packs.loadLabel')}</label>
+          <form
+            onSubmit={(e) => {
+              e.preventDefault();
+              if (url.trim()) handleLoadUrl(url.trim());
+            }}
+            className="flex gap-2"
+          >
+            <input
+              type="url"
+              value={url}
+              onChange={(e) => setUrl(e.target.value)}
+              placeholder="https://example.org/literesearch-pack.json"
+              className={`${inputClass} flex-grow`}
+            />
+            <button
+              type="submit"
+              disabled={!url.trim() || loading}
+              className="px-4 py-2 bg-blue-500 text-white rounded-md hover:bg-blue-600 disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              {loading ? t('common.loading') : t('packs.load')}
+            </button>
+          </form>
+          <input
+            type="file"
+            accept=".json,application/json"
+            onChange={(e) => handleFile(e.target.files?.[0])}
+            className="block w-full text-sm text-gray-600 dark:text-gray-400"
+          />
+
+          {errors.length > 0 && (
+            <ul className="text-sm text-red-600 dark:text-red-400 list-disc pl-5 max-h-32 overflow-y-auto">
+              {errors.map(error => <li key={error}>{error}</li>)}
+            </ul>
+          )}
+          {message && <p className="text-sm text-green-700 dark:text-green-400">{message}</p>}
+
+          {pending && (
+            <div className="text-sm text-gray-700 dark:text-gray-300 space-y-2">
+              <p>
+                <span className="font-medium text-gray-900 dark:text-white">{pending.manifest.name}</span>{' '}
+                {pendingSubscription
+                  ? t('packs.update', {
+                      author: pending.manifest.author,
+                      from: pending.diff.fromVersion ?? '',
+                      to: pending.diff.toVersion,
+                    })
+                  : t('packs.newPack', { author: pending.manifest.author, to: pending.diff.toVersion })}
+              </p>
+              {pending.manifest.description && (
+                <p className="text-gray-600 dark:text-gray-400">{pending.manifest.description}</p>
+              )}
+              {!hasPackChanges(pending.diff) ? (
+                <p className="text-gray-600 dark:text-gray-400">
+                  {pending.diff.unchanged > 0
+                    ? t('packs.noChangesCount', { count: pending.diff.unchanged })
+                    : t('packs.noChanges')}
+                </p>
+              ) : (
+                <div className="max-h-64 overflow-y-auto space-y-2">
+                  {([
+                    ['packs.added', 'text-green-700 dark:text-green-400', pending.diff.added],
+                    ['packs.changed', 'text-yellow-700 dark:text-yellow-400', pending.diff.changed],
+                    ['packs.removed', 'text-red-600 dark:text-red-400', pending.diff.removed],
+                  ] as const).map(([label, color, changes]) =>
+                    changes.length > 0 && (
+                      <div key={label}>
+                        <p className={`font-medium ${color}`}>{t(label, { count: changes.length })}</p>
+                        <ul className="pl-2">
+                          {changes.map(change => <ChangeRow key={change.installedId} change={change} t={t} />)}
+                        </ul>
+                      </div>
+                    )
+                  )}
+                  {pending.diff.unchanged > 0 && (
+                    <p className="text-gray-600 dark:text-gray-400">{t('packs.unchanged', { count: pending.diff.unchanged })}</p>
+                  )}
+                </div>
+              )}
+            </div>
+          )}
+        </div>
+
+        <div className="flex justify-end space-x-3">
+          {pending ? (
+            <>
+              <button
+                type="button"
+                onClick={() => setPending(null)}
+                className="px-4 py-2 text-gray-600 dark:text-gray-400 hover:text-gray-800 dark:hover:text-gray-200"
+              >
+                {t('common.cancel')}
+              </button>
+              <button onClick={handleAccept} className="px-4 py-2 bg-blue-500 text-white rounded-md hover:bg-blue-600">
+                {pendingSubscription ? t('packs.acceptUpdate') : t('packs.subscribe')}
+              </button>
+            </>
+          ) : (
+            <button
+              type="button"
+              onClick={onClose}
+              className="px-4 py-2 text-gray-600 dark:text-gray-400 hover:text-gray-800 dark:hover:text-gray-200"
+            >
+              {t('common.close')}
+            </button>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
+
+export default SourcePacksModal;
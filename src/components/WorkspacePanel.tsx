@@ -0,0 +1,305 @@
+import { useEffect, useRef, useState } from 'react';
+import type { SearchSource } from '../types';
+import { EMBED_LOAD_TIMEOUT, getEmbeddability } from '../lib/embedding';
+import type { EmbedCapabilities } from '../lib/embedding';
+import type { MessageKey, Translate } from '../lib/i18n';
+import { movePane, PANE_RESIZE_STEP, paneSize, resizePanes, setActiveTab, setWorkspaceMode, undockSource } from '../lib/workspaceLayout';
+import type { PaneSearch, WorkspaceLayout, WorkspaceMode } from '../lib/workspaceLayout';
+
+interface WorkspacePanelProps {
+  layout: WorkspaceLayout;
+  sources: SearchSource[];
+  // 搜索源 ID -> 窗格当前显示的搜索, 只保存在内存中
+  searches: { [sourceId: string]: PaneSearch };
+  capabilities: EmbedCapabilities;
+  onLayoutChange: (update: (layout: WorkspaceLayout) => WorkspaceLayout) => void;
+  // 超时未加载或用户报告无法显示: 调用方记录结果; 用户报告时改用窗口打开
+  onEmbedFailed: (source: SearchSource, evidence: 'timeout' | 'reported') => void;
+  onOpenWindow: (source: SearchSource) => void;
+  t: Translate;
+}
+
+const modeLabels: { [key in WorkspaceMode]: MessageKey } = {
+  panes: 'workspace.mode.panes',
+  tabs: 'workspace.mode.tabs',
+};
+
+const headerButtonClass =
+  'px-1.5 text-gray-600 dark:text-gray-400 hover:text-gray-900 dark:hover:text-white disabled:opacity-30 disabled:cursor-not-allowed';
+
+interface FrameProps {
+  source: SearchSource;
+  url?: string;
+  // 还不知道能否嵌入时等待 load 事件, 超时视为被拒绝
+  watchLoad: boolean;
+  onTimeout: () => void;
+  onOpenWindow: () => void;
+  t: Translate;
+}
+
+function WorkspaceFrame({ source, url, watchLoad, onTimeout, onOpenWindow, t }: FrameProps) {
+  const timer = useRef<number | undefined>(undefined);
+  // 超时的搜索地址; 换了搜索后提示消失
+  const [timedOutUrl, setTimedOutUrl] = useState<string | null>(null);
+  // 计时器回调总是调用最新的 onTimeout
+  const latestOnTimeout = useRef(onTimeout);
+  useEffect(() => {
+    latestOnTimeout.current = onTimeout;
+  });
+
+  useEffect(() => {
+    if (!url || !watchLoad) return;
+    timer.current = window.setTimeout(() => {
+      setTimedOutUrl(url);
+      latestOnTimeout.current();
+    }, EMBED_LOAD_TIMEOUT);
+    return () => window.clearTimeout(timer.current);
+  }, [url, watchLoad]);
+
+  if (!url) {
+    return (
+      <p className="p-4 text-sm text-gray-500 dark:text-gray-400">{t('workspace.emptyPane', { name: source.name })}</p>
+    );
+  }
+
+  // 超时不在用户手势内, 打开窗口会被拦截, 由用户点击按钮打开
+  return (
+    <div className="flex flex-col h-full">
+      {timedOutUrl === url && (
+        <div role="status" className="flex flex-none flex-wrap items-center gap-2 px-3 py-2 text-sm bg-yellow-50 dark:bg-yellow-900 text-yellow-800 dark:text-yellow-300">
+          <span className="flex-grow">{t('workspace.timedOut', { name: source.name })}</span>
+          <button onClick={onOpenWindow} className="px-3 py-1 rounded-md bg-blue-500 text-white hover:bg-blue-600">
+            {t('workspace.openTab')}
+          </button>
+        </div>
+      )}
+      <iframe
+        key={url}
+        src={url}
+        title={t('workspace.frameTitle', { name: source.name })}
+        sandbox="allow-scripts allow-same-origin allow-forms allow-popups allow-popups-to-escape-sandbox"
+        referrerPolicy="no-referrer"
+        onLoad={() => window.clearTimeout(timer.current)}
+        className="w-full flex-grow bg-white"
+      />
+    </div>
+  );
+}
+
+// 工作区: 停靠的搜索源以并排窗格或标签页显示在页面内.
+// 键盘操作: 标签之间用方向键 / Home / End 切换; 分隔条获得焦点后用左右方向键调整宽度
+function WorkspacePanel({
+  layout,
+  sources,
+  searches,
+  capabilities,
+  onLayoutChange,
+  onEmbedFailed,
+  onOpenWindow,
+  t,
+}: WorkspacePanelProps) {
+  const containerRef = useRef<HTMLDivElement>(null);
+  const tabRefs = useRef<{ [sourceId: string]: HTMLButtonElement | null }>({});
+  const [dragging, setDragging] = useState<{ leftId: string; rightId: string; x: number } | null>(null);
+
+  const docked = layout.docked
+    .map(id => sources.find(source => source.id === id))
+    .filter((source): source is SearchSource => source !== undefined);
+  const activeTab = docked.some(source => source.id === layout.activeTab) ? layout.activeTab : docked[0]?.id;
+
+  const selectTab = (sourceId: string) => {
+    onLayoutChange(current => setActiveTab(current, sourceId));
+    tabRefs.current[sourceId]?.focus();
+  };
+
+  const handleTabKeyDown = (e: React.KeyboardEvent, index: number) => {
+    const targets: { [key: string]: number } = {
+      ArrowLeft: index - 1,
+      ArrowRight: index + 1,
+      Home: 0,
+      End: docked.length - 1,
+    };
+    if (!(e.key in targets)) return;
+    e.preventDefault();
+    const target = (targets[e.key] + docked.length) % docked.length;
+    selectTab(docked[target].id);
+  };
+
+  const handleSeparatorKeyDown = (e: React.KeyboardEvent, leftId: string, rightId: string) => {
+    const delta = e.key === 'ArrowLeft' ? -PANE_RESIZE_STEP : e.key === 'ArrowRight' ? PANE_RESIZE_STEP : 0;
+    if (!delta) return;
+    e.preventDefault();
+    onLayoutChange(current => resizePanes(current, leftId, rightId, delta));
+  };
+
+  // 拖动分隔条: 像素换算成宽度权重
+  const handleSeparatorMove = (e: React.PointerEvent) => {
+    if (!dragging || !containerRef.current) return;
+    const totalSize = docked.reduce((sum, source) => sum + paneSize(layout, source.id), 0);
+    const delta = ((e.clientX - dragging.x) / containerRef.current.clientWidth) * totalSize;
+    onLayoutChange(current => resizePanes(current, dragging.leftId, dragging.rightId, delta));
+    setDragging({ ...dragging, x: e.clientX });
+  };
+
+  if (docked.length === 0) {
+    return (
+      <div className="bg-white dark:bg-gray-800 rounded-xl shadow-sm p-4 text-sm text-gray-600 dark:text-gray-400">
+        {t('workspace.empty')}
+      </div>
+    );
+  }
+
+  return (
+    <div className="bg-white dark:bg-gray-800 rounded-xl shadow-sm p-4 space-y-3">
+      <div className="flex flex-wrap justify-between items-center gap-3">
+        <h2 className="text-lg font-semibold text-gray-900 dark:text-white">{t('workspace.title')}</h2>
+        <div role="radiogroup" aria-label={t('workspace.layout')} className="flex gap-1 text-sm">
+          {(Object.keys(modeLabels) as WorkspaceMode[]).map(mode => (
+            <button
+              key={mode}
+              role="radio"
+              aria-checked={layout.mode === mode}
+              onClick={() => onLayoutChange(current => setWorkspaceMode(current, mode))}
+              className={`px-3 py-1 rounded-full ${
+                layout.mode === mode
+                  ? 'bg-blue-500 text-white'
+                  : 'bg-gray-100 dark:bg-gray-700 text-gray-700 dark:text-gray-300 hover:bg-gray-200 dark:hover:bg-gray-600'
+              }`}
+            >
+              {t(modeLabels[mode])}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      {layout.mode === 'tabs' && (
+        <div role="tablist" aria-label={t('workspace.engines')} className="flex flex-wrap gap-1 border-b border-gray-200 dark:border-gray-700">
+          {docked.map((source, index) => (
+            <button
+              key={source.id}
+              ref={element => {
+                tabRefs.current[source.id] = element;
+              }}
+              role="tab"
+              id={`workspace-tab-${source.id}`}
+              aria-selected={source.id === activeTab}
+              aria-controls={`workspace-pane-${source.id}`}
+              tabIndex={source.id === activeTab ? 0 : -1}
+              onClick={() => selectTab(source.id)}
+              onKeyDown={(e) => handleTabKeyDown(e, index)}
+              className={`px-3 py-1.5 text-sm rounded-t-md ${
+                source.id === activeTab
+                  ? 'bg-blue-50 dark:bg-gray-700 text-blue-700 dark:text-white font-medium'
+                  : 'text-gray-600 dark:text-gray-400 hover:text-gray-900 dark:hover:text-white'
+              }`}
+            >
+              {source.name}
+            </button>
+          ))}
+        </div>
+      )}
+
+      <div ref={containerRef} className="flex h-[70vh] min-h-[20rem]">
+        {docked.flatMap((source, index) => {
+          const url = searches[source.id]?.url;
+          const hidden = layout.mode === 'tabs' && source.id !== activeTab;
+          const previous = docked[index - 1];
+          const items = [];
+
+          if (layout.mode === 'panes' && previous) {
+            items.push(
+              <div
+                key={`separator-${source.id}`}
+                role="separator"
+                aria-orientation="vertical"
+                aria-label={t('workspace.resize', { left: previous.name, right: source.name })}
+                aria-valuenow={Math.round(
+                  (paneSize(layout, previous.id) / (paneSize(layout, previous.id) + paneSize(layout, source.id))) * 100
+                )}
+                tabIndex={0}
+                onKeyDown={(e) => handleSeparatorKeyDown(e, previous.id, source.id)}
+                onPointerDown={(e) => {
+                  e.currentTarget.setPointerCapture(e.pointerId);
+                  setDragging({ leftId: previous.id, rightId: source.id, x: e.clientX });
+                }}
+                onPointerMove={handleSeparatorMove}
+                onPointerUp={() => setDragging(null)}
+                className="flex-none w-2 mx-0.5 rounded cursor-col-resize bg-gray-200 dark:bg-gray-700 hover:bg-blue-300 focus:bg-blue-400 focus:outline-none"
+              />
+            );
+          }
+
+          items.push(
+            <section
+              key={source.id}
+              id={`workspace-pane-${source.id}`}
+              role={layout.mode === 'tabs' ? 'tabpanel' : 'region'}
+              aria-labelledby={layout.mode === 'tabs' ? `workspace-tab-${source.id}` : undefined}
+              aria-label={layout.mode === 'tabs' ? undefined : source.name}
+              style={{ flexGrow: layout.mode === 'panes' ? paneSize(layout, source.id) : 1, flexBasis: 0 }}
+              className={`${hidden ? 'hidden' : 'flex'} flex-col min-w-0 border border-gray-200 dark:border-gray-700 rounded-md overflow-hidden`}
+            >
+              <div className="flex flex-none items-center gap-1 px-2 py-1 text-sm bg-gray-50 dark:bg-gray-900">
+                <span className="flex-grow truncate font-medium text-gray-900 dark:text-white">{source.name}</span>
+                {layout.mode === 'panes' && (
+                  <>
+                    <button
+                      onClick={() => onLayoutChange(current => movePane(current, source.id, -1))}
+                      disabled={index === 0}
+                      aria-label={t('workspace.moveLeft', { name: source.name })}
+                      className={headerButtonClass}
+                    >
+                      ←
+                    </button>
+                    <button
+                      onClick={() => onLayoutChange(current => movePane(current, source.id, 1))}
+                      disabled={index === docked.length - 1}
+                      aria-label={t('workspace.moveRight', { name: source.name })}
+                      className={headerButtonClass}
+                    >
+                      →
+                    </button>
+                  </>
+                )}
+                {url && (
+                  <>
+                    <button onClick={() => onOpenWindow(source)} className={headerButtonClass}>
+                      {t('workspace.openWindow')}
+                    </button>
+                    <button
+                      onClick={() => onEmbedFailed(source, 'reported')}
+                      title={t('workspace.notLoadingHint')}
+                      className={headerButtonClass}
+                    >
+                      {t('workspace.notLoading')}
+                    </button>
+                  </>
+                )}
+                <button
+                  onClick={() => onLayoutChange(current => undockSource(current, source.id))}
+                  aria-label={t('workspace.close', { name: source.name })}
+                  className={headerButtonClass}
+                >
+                  ✕
+                </button>
+              </div>
+              <div className={`flex-grow ${dragging ? 'pointer-events-none' : ''}`}>
+                <WorkspaceFrame
+                  source={source}
+                  url={url}
+                  watchLoad={getEmbeddability(source, capabilities) === 'unknown'}
+                  onTimeout={() => onEmbedFailed(source, 'timeout')}
+                  onOpenWindow={() => onOpenWindow(source)}
+                  t={t}
+                />
+              </div>
+            </section>
+          );
+          return items;
+        })}
+      </div>
+    </div>
+  );
+}
+
+export default WorkspacePanel;
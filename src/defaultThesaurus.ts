@@ -0,0 +1,78 @@
+import type { ThesaurusEntry } from './lib/thesaurus';
+
+// 内置同义词表. mesh 条目的第一个词是 MeSH 主题词 (Descriptor), 其余为入口词.
+// 只收录文献检索中最常见的一小部分, 其余由用户自行添加.
+export const defaultThesaurus: ThesaurusEntry[] = [
+  // ---- 生物医学 (MeSH) ----
+  { id: 'mesh-D009203', kind: 'mesh', meshId: 'D009203', terms: ['myocardial infarction', 'heart attack', 'MI', 'cardiac infarction'] },
+  { id: 'mesh-D009369', kind: 'mesh', meshId: 'D009369', terms: ['neoplasms', 'cancer', 'tumor', 'tumour', 'malignancy'] },
+  { id: 'mesh-D003920', kind: 'mesh', meshId: 'D003920', terms: ['diabetes mellitus', 'diabetes', 'DM'] },
+  { id: 'mesh-D006973', kind: 'mesh', meshId: 'D006973', terms: ['hypertension', 'high blood pressure', 'HTN'] },
+  { id: 'mesh-D020521', kind: 'mesh', meshId: 'D020521', terms: ['stroke', 'cerebrovascular accident', 'CVA', 'brain attack'] },
+  { id: 'mesh-D000544', kind: 'mesh', meshId: 'D000544', terms: ['alzheimer disease', "alzheimer's disease", 'alzheimer dementia'] },
+  { id: 'mesh-D003863', kind: 'mesh', meshId: 'D003863', terms: ['depression', 'depressive symptoms'] },
+  { id: 'mesh-D003865', kind: 'mesh', meshId: 'D003865', terms: ['depressive disorder, major', 'major depressive disorder', 'MDD'] },
+  { id: 'mesh-D009765', kind: 'mesh', meshId: 'D009765', terms: ['obesity', 'obese'] },
+  { id: 'mesh-D000086382', kind: 'mesh', meshId: 'D000086382', terms: ['COVID-19', 'SARS-CoV-2 infection', 'coronavirus disease 2019'] },
+  { id: 'mesh-D029424', kind: 'mesh', meshId: 'D029424', terms: ['pulmonary disease, chronic obstructive', 'chronic obstructive pulmonary disease', 'COPD'] },
+  { id: 'mesh-D001249', kind: 'mesh', meshId: 'D001249', terms: ['asthma', 'bronchial asthma'] },
+  { id: 'mesh-D015658', kind: 'mesh', meshId: 'D015658', terms: ['HIV infections', 'HIV', 'human immunodeficiency virus infection'] },
+  { id: 'mesh-D001714', kind: 'mesh', meshId: 'D001714', terms: ['bipolar disorder', 'manic-depressive illness'] },
+  { id: 'mesh-D012559', kind: 'mesh', meshId: 'D012559', terms: ['schizophrenia'] },
+  { id: 'mesh-D000740', kind: 'mesh', meshId: 'D000740', terms: ['anemia', 'anaemia'] },
+  { id: 'mesh-D004487', kind: 'mesh', meshId: 'D004487', terms: ['edema', 'oedema'] },
+  { id: 'mesh-D016032', kind: 'mesh', meshId: 'D016032', terms: ['randomized controlled trial', 'RCT', 'randomised controlled trial'] },
+  { id: 'mesh-D017418', kind: 'mesh', meshId: 'D017418', terms: ['meta-analysis', 'meta analysis'] },
+  { id: 'mesh-D000078182', kind: 'mesh', meshId: 'D000078182', terms: ['systematic review', 'systematic literature review'] },
+  { id: 'mesh-D064113', kind: 'mesh', meshId: 'D064113', terms: ['CRISPR-Cas systems', 'CRISPR', 'CRISPR/Cas9'] },
+  { id: 'mesh-D000818', kind: 'mesh', meshId: 'D000818', terms: ['animals', 'animal model'] },
+  { id: 'mesh-D007239', kind: 'mesh', meshId: 'D007239', terms: ['infections', 'infection'] },
+  { id: 'mesh-D000900', kind: 'mesh', meshId: 'D000900', terms: ['anti-bacterial agents', 'antibiotics', 'antibacterial agents'] },
+  { id: 'mesh-D014611', kind: 'mesh', meshId: 'D014611', terms: ['vaccines', 'vaccine', 'vaccination'] },
+
+  // ---- 计算机科学 ----
+  { id: 'cs-ml', kind: 'synonym', terms: ['machine learning', 'statistical learning'] },
+  { id: 'cs-dl', kind: 'synonym', terms: ['deep learning', 'deep neural networks'] },
+  { id: 'cs-nlp', kind: 'acronym', terms: ['natural language processing', 'NLP'] },
+  { id: 'cs-llm', kind: 'acronym', terms: ['large language model', 'LLM', 'large language models', 'LLMs'] },
+  { id: 'cs-gnn', kind: 'acronym', terms: ['graph neural network', 'GNN', 'graph neural networks', 'GNNs'] },
+  { id: 'cs-cnn', kind: 'acronym', terms: ['convolutional neural network', 'CNN', 'ConvNet'] },
+  { id: 'cs-rl', kind: 'acronym', terms: ['reinforcement learning', 'RL'] },
+  { id: 'cs-ai', kind: 'acronym', terms: ['artificial intelligence', 'AI'] },
+  { id: 'cs-cv', kind: 'synonym', terms: ['computer vision', 'image understanding'] },
+  { id: 'cs-rag', kind: 'acronym', terms: ['retrieval-augmented generation', 'RAG', 'retrieval augmented generation'] },
+  { id: 'cs-kg', kind: 'acronym', terms: ['knowledge graph', 'KG', 'knowledge base'] },
+  { id: 'cs-transformer', kind: 'synonym', terms: ['transformer', 'self-attention model'] },
+];
+
+// 英式 / 美式拼写, 按单词替换
+export const spellingVariants: [british: string, american: string][] = [
+  ['analyse', 'analyze'],
+  ['analysed', 'analyzed'],
+  ['analysing', 'analyzing'],
+  ['behaviour', 'behavior'],
+  ['behavioural', 'behavioral'],
+  ['centre', 'center'],
+  ['colour', 'color'],
+  ['defence', 'defense'],
+  ['favour', 'favor'],
+  ['fibre', 'fiber'],
+  ['haemoglobin', 'hemoglobin'],
+  ['haemorrhage', 'hemorrhage'],
+  ['labour', 'labor'],
+  ['leukaemia', 'leukemia'],
+  ['modelling', 'modeling'],
+  ['oesophagus', 'esophagus'],
+  ['oestrogen', 'estrogen'],
+  ['optimisation', 'optimization'],
+  ['optimise', 'optimize'],
+  ['organisation', 'organization'],
+  ['paediatric', 'pediatric'],
+  ['paediatrics', 'pediatrics'],
+  ['programme', 'program'],
+  ['randomised', 'randomized'],
+  ['randomisation', 'randomization'],
+  ['signalling', 'signaling'],
+  ['tumour', 'tumor'],
+  ['visualisation', 'visualization'],
+];
@@ -0,0 +1,41 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import type { SearchSource } from '../types';
+import { fetchSourceResults } from '../lib/adapters';
+import type { StructuredQuery } from '../lib/queryLanguage';
+import type { SourceResults } from '../lib/results';
+
+// 并行获取多个搜索源的结果; 新的搜索会取消尚未完成的旧请求
+export const useAggregatedResults = () => {
+  const [results, setResults] = useState<{ [sourceId: string]: SourceResults }>({});
+  const controller = useRef<AbortController | null>(null);
+
+  const fetchResults = useCallback((sources: SearchSource[], query: StructuredQuery) => {
+    controller.current?.abort();
+    const current = new AbortController();
+    controller.current = current;
+
+    setResults(Object.fromEntries(sources.map(source => [source.id, { status: 'loading' } as SourceResults])));
+
+    sources.forEach(source => {
+      fetchSourceResults(source, query, { signal: current.signal })
+        .then(sourceResults => {
+          if (current.signal.aborted) return;
+          setResults(prev => ({ ...prev, [source.id]: { status: 'done', results: sourceResults } }));
+        })
+        .catch((error: unknown) => {
+          if (current.signal.aborted) return;
+          const message = error instanceof Error ? error.message : String(error);
+          setResults(prev => ({ ...prev, [source.id]: { status: 'error', error: message } }));
+        });
+    });
+  }, []);
+
+  const clearResults = useCallback(() => {
+    controller.current?.abort();
+    setResults({});
+  }, []);
+
+  useEffect(() => () => controller.current?.abort(), []);
+
+  return { results, fetchResults, clearResults };
+};
@@ -0,0 +1,120 @@
+import { useCallback, useEffect, useState } from 'react';
+import {
+  createCollection,
+  deleteCollection as removeCollection,
+  deleteItem as removeItem,
+  findDuplicateItem,
+  loadCollections,
+  saveCollection,
+  saveItem,
+} from '../lib/collections';
+import type { Collection, CollectionItem } from '../lib/collections';
+
+const ACTIVE_COLLECTION_KEY = 'activeCollectionId';
+
+// 收藏集状态: 先更新界面, 再异步写入 IndexedDB; 写入失败时记录错误信息
+export const useCollections = () => {
+  const [collections, setCollections] = useState<Collection[]>([]);
+  const [items, setItems] = useState<CollectionItem[]>([]);
+  const [activeCollectionId, setActiveCollectionIdState] = useState<string | null>(
+    () => localStorage.getItem(ACTIVE_COLLECTION_KEY)
+  );
+  const [loaded, setLoaded] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const persist = useCallback((task: Promise<unknown>) => {
+    task.catch((reason: unknown) => {
+      setError(reason instanceof Error ? reason.message : String(reason));
+    });
+  }, []);
+
+  useEffect(() => {
+    let cancelled = false;
+    loadCollections()
+      .then(data => {
+        if (cancelled) return;
+        setCollections(data.collections);
+        setItems(data.items);
+      })
+      .catch((reason: unknown) => {
+        if (!cancelled) setError(reason instanceof Error ? reason.message : String(reason));
+      })
+      .finally(() => {
+        if (!cancelled) setLoaded(true);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, []);
+
+  const setActiveCollectionId = useCallback((id: string | null) => {
+    setActiveCollectionIdState(id);
+    if (id) localStorage.setItem(ACTIVE_COLLECTION_KEY, id);
+    else localStorage.removeItem(ACTIVE_COLLECTION_KEY);
+  }, []);
+
+  // 记录的收藏集已被删除时退回到第一个
+  const activeCollection =
+    collections.find(collection => collection.id === activeCollectionId) ?? collections[0] ?? null;
+
+  const addCollection = (name: string) => {
+    const collection = createCollection(name);
+    setCollections(prev => [...prev, collection]);
+    setActiveCollectionId(collection.id);
+    persist(saveCollection(collection));
+    return collection;
+  };
+
+  const renameCollection = (id: string, name: string) => {
+    const collection = collections.find(c => c.id === id);
+    if (!collection || !name.trim()) return;
+    const renamed = { ...collection, name: name.trim() };
+    setCollections(prev => prev.map(c => (c.id === id ? renamed : c)));
+    persist(saveCollection(renamed));
+  };
+
+  const deleteCollection = (id: string) => {
+    setCollections(prev => prev.filter(c => c.id !== id));
+    setItems(prev => prev.filter(item => item.collectionId !== id));
+    persist(removeCollection(id));
+  };
+
+  // 返回 false 表示收藏集中已有同一篇文献
+  const addItem = (item: CollectionItem) => {
+    if (findDuplicateItem(items, item)) return false;
+    setItems(prev => [...prev, item]);
+    persist(saveItem(item));
+    return true;
+  };
+
+  const updateItem = (id: string, changes: Partial<Pick<CollectionItem, 'tags' | 'note' | 'status'>>) => {
+    const item = items.find(i => i.id === id);
+    if (!item) return;
+    const updated = { ...item, ...changes };
+    setItems(prev => prev.map(i => (i.id === id ? updated : i)));
+    persist(saveItem(updated));
+  };
+
+  const deleteItem = (id: string) => {
+    setItems(prev => prev.filter(item => item.id !== id));
+    persist(removeItem(id));
+  };
+
+  return {
+    collections,
+    items,
+    activeCollection,
+    setActiveCollectionId,
+    loaded,
+    error,
+    clearError: () => setError(null),
+    addCollection,
+    renameCollection,
+    deleteCollection,
+    addItem,
+    updateItem,
+    deleteItem,
+  };
+};
+
+export type CollectionsState = ReturnType<typeof useCollections>;
@@ -0,0 +1,37 @@
+import { useEffect, useState } from 'react';
+import type { Identifier } from '../lib/identifiers';
+import { fetchIdentifierMetadata } from '../lib/resolvers';
+import type { IdentifierMetadata } from '../lib/resolvers';
+
+export type MetadataState =
+  | { status: 'idle' }
+  | { status: 'loading' }
+  | { status: 'done'; metadata: IdentifierMetadata | null }
+  | { status: 'error'; error: string };
+
+// 标识符变化时重新获取元数据, 取消上一次未完成的请求
+export const useIdentifierMetadata = (identifier: Identifier | null) => {
+  const [state, setState] = useState<MetadataState>({ status: 'idle' });
+  const type = identifier?.type;
+  const value = identifier?.value;
+
+  useEffect(() => {
+    if (!type || !value) {
+      setState({ status: 'idle' });
+      return;
+    }
+    const controller = new AbortController();
+    setState({ status: 'loading' });
+    fetchIdentifierMetadata({ type, value }, { signal: controller.signal })
+      .then(metadata => {
+        if (!controller.signal.aborted) setState({ status: 'done', metadata });
+      })
+      .catch((error: unknown) => {
+        if (controller.signal.aborted) return;
+        setState({ status: 'error', error: error instanceof Error ? error.message : String(error) });
+      });
+    return () => controller.abort();
+  }, [type, value]);
+
+  return state;
+};
@@ -0,0 +1,92 @@
+import { useCallback, useEffect, useState } from 'react';
+import {
+  appendAmendment,
+  appendLogEntry,
+  createAmendment,
+  createReviewProject,
+  loadReviewLog,
+  saveReviewProject,
+} from '../lib/reviewLog';
+import type { ReviewAmendment, ReviewLogEntry, ReviewProject } from '../lib/reviewLog';
+
+const ACTIVE_REVIEW_KEY = 'activeReviewProjectId';
+
+// 检索日志状态: 先更新界面, 再异步追加到 IndexedDB; 写入失败时记录错误信息.
+// activeProject 为 null 时不记录搜索.
+export const useReviewLog = () => {
+  const [projects, setProjects] = useState<ReviewProject[]>([]);
+  const [entries, setEntries] = useState<ReviewLogEntry[]>([]);
+  const [amendments, setAmendments] = useState<ReviewAmendment[]>([]);
+  const [activeProjectId, setActiveProjectIdState] = useState<string | null>(
+    () => localStorage.getItem(ACTIVE_REVIEW_KEY)
+  );
+  const [error, setError] = useState<string | null>(null);
+
+  const persist = useCallback((task: Promise<unknown>) => {
+    task.catch((reason: unknown) => {
+      setError(reason instanceof Error ? reason.message : String(reason));
+    });
+  }, []);
+
+  useEffect(() => {
+    let cancelled = false;
+    loadReviewLog()
+      .then(data => {
+        if (cancelled) return;
+        setProjects(data.projects);
+        setEntries(data.entries);
+        setAmendments(data.amendments);
+      })
+      .catch((reason: unknown) => {
+        if (!cancelled) setError(reason instanceof Error ? reason.message : String(reason));
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, []);
+
+  const setActiveProjectId = useCallback((id: string | null) => {
+    setActiveProjectIdState(id);
+    if (id) localStorage.setItem(ACTIVE_REVIEW_KEY, id);
+    else localStorage.removeItem(ACTIVE_REVIEW_KEY);
+  }, []);
+
+  const activeProject = projects.find(project => project.id === activeProjectId) ?? null;
+
+  const addProject = (name: string) => {
+    const project = createReviewProject(name);
+    setProjects(prev => [...prev, project]);
+    setActiveProjectId(project.id);
+    persist(saveReviewProject(project));
+    return project;
+  };
+
+  const logEntries = (newEntries: ReviewLogEntry[]) => {
+    if (newEntries.length === 0) return;
+    setEntries(prev => [...prev, ...newEntries]);
+    newEntries.forEach(entry => persist(appendLogEntry(entry)));
+  };
+
+  const amendEntry = (entry: ReviewLogEntry, changes: { hitCount?: number; note?: string }) => {
+    const amendment = createAmendment(entry, changes);
+    if (!amendment) return false;
+    setAmendments(prev => [...prev, amendment]);
+    persist(appendAmendment(amendment));
+    return true;
+  };
+
+  return {
+    projects,
+    entries,
+    amendments,
+    activeProject,
+    setActiveProjectId,
+    error,
+    clearError: () => setError(null),
+    addProject,
+    logEntries,
+    amendEntry,
+  };
+};
+
+export type ReviewLogState = ReturnType<typeof useReviewLog>;
@@ -0,0 +1,183 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import type { SearchSource } from '../types';
+import type { Translate } from '../lib/i18n';
+import {
+  alertNotification,
+  countUnread,
+  createAlert,
+  deleteAlert as removeAlert,
+  getStoredAlert,
+  isAlertDue,
+  loadAlerts,
+  mergeAlertRun,
+  runAlert,
+  saveAlert,
+  saveAlertItems,
+  setAlertPaused,
+  updateAlert,
+} from '../lib/alerts';
+import type { AlertDraft, AlertItem, SearchAlert } from '../lib/alerts';
+
+// 检查到期提醒的间隔; 提醒本身按天或按周执行
+const ALERT_POLL_INTERVAL = 60 * 1000;
+
+// 检索提醒状态: 应用打开期间定时检查到期的提醒, 页面重新可见或恢复联网时也会检查.
+// 和其他 IndexedDB 数据一样先更新界面, 再异步写入. 浏览器通知使用当前界面语言.
+export const useSearchAlerts = (sources: SearchSource[], t: Translate) => {
+  const [alerts, setAlerts] = useState<SearchAlert[]>([]);
+  const [items, setItems] = useState<AlertItem[]>([]);
+  const [loaded, setLoaded] = useState(false);
+  const [running, setRunning] = useState<string[]>([]);
+  const [error, setError] = useState<string | null>(null);
+
+  // 定时器回调读取最新状态
+  const latest = useRef({ alerts, items, sources, t });
+  useEffect(() => {
+    latest.current = { alerts, items, sources, t };
+  });
+  const inFlight = useRef(new Set<string>());
+
+  const persist = useCallback((task: Promise<unknown>) => {
+    task.catch((reason: unknown) => {
+      setError(reason instanceof Error ? reason.message : String(reason));
+    });
+  }, []);
+
+  useEffect(() => {
+    let cancelled = false;
+    loadAlerts()
+      .then(data => {
+        if (cancelled) return;
+        setAlerts(data.alerts);
+        setItems(data.items);
+      })
+      .catch((reason: unknown) => {
+        if (!cancelled) setError(reason instanceof Error ? reason.message : String(reason));
+      })
+      .finally(() => {
+        if (!cancelled) setLoaded(true);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, []);
+
+  const replaceAlert = (alert: SearchAlert) => {
+    setAlerts(prev => prev.map(existing => (existing.id === alert.id ? alert : existing)));
+    persist(saveAlert(alert));
+  };
+
+  const check = useCallback(async (alertIds: string[], force = false) => {
+    for (const alertId of alertIds) {
+      if (inFlight.current.has(alertId)) continue;
+      inFlight.current.add(alertId);
+      setRunning(prev => [...prev, alertId]);
+      try {
+        // 其他标签页可能已经检查过
+        const alert = (await getStoredAlert(alertId)) ?? latest.current.alerts.find(a => a.id === alertId);
+        if (!alert || (!force && !isAlertDue(alert))) {
+          if (alert) setAlerts(prev => prev.map(existing => (existing.id === alert.id ? alert : existing)));
+          continue;
+        }
+        const run = await runAlert(alert, latest.current.sources, latest.current.items);
+        // 检查期间被删除, 或者查询被修改 (按新查询重新建立基线)
+        const current = latest.current.alerts.find(a => a.id === alertId);
+        const merged = current && mergeAlertRun(current, run.alert);
+        if (!merged) continue;
+        const newItems = run.newItems.filter(item => merged.sourceIds.includes(item.result.sourceId));
+        setAlerts(prev =>
+          prev.map(existing => (existing.id === alertId ? (mergeAlertRun(existing, run.alert) ?? existing) : existing))
+        );
+        setItems(prev => [...newItems.filter(item => !item.baseline), ...prev, ...newItems.filter(item => item.baseline)]);
+        await Promise.all([saveAlert(merged), saveAlertItems(newItems)]);
+
+        const notification = alertNotification(merged, newItems, latest.current.t);
+        if (
+          merged.notify &&
+          !merged.paused &&
+          newItems.some(item => !item.baseline) &&
+          'Notification' in window &&
+          Notification.permission === 'granted'
+        ) {
+          new Notification(notification.title, { body: notification.body, tag: `alert-${alertId}` });
+        }
+      } catch (reason) {
+        setError(reason instanceof Error ? reason.message : String(reason));
+      } finally {
+        inFlight.current.delete(alertId);
+        setRunning(prev => prev.filter(id => id !== alertId));
+      }
+    }
+  }, []);
+
+  const checkDue = useCallback(() => {
+    const due = latest.current.alerts.filter(alert => isAlertDue(alert)).map(alert => alert.id);
+    if (due.length > 0) check(due);
+  }, [check]);
+
+  useEffect(() => {
+    if (!loaded) return;
+    checkDue();
+    const timer = window.setInterval(checkDue, ALERT_POLL_INTERVAL);
+    const handleVisibility = () => {
+      if (document.visibilityState === 'visible') checkDue();
+    };
+    document.addEventListener('visibilitychange', handleVisibility);
+    window.addEventListener('online', checkDue);
+    return () => {
+      window.clearInterval(timer);
+      document.removeEventListener('visibilitychange', handleVisibility);
+      window.removeEventListener('online', checkDue);
+    };
+  }, [loaded, checkDue]);
+
+  const addAlert = (draft: AlertDraft) => {
+    const alert = createAlert(draft);
+    setAlerts(prev => [...prev, alert]);
+    // 保存后再检查, 检查时会重新读取
+    saveAlert(alert)
+      .then(() => check([alert.id]))
+      .catch((reason: unknown) => setError(reason instanceof Error ? reason.message : String(reason)));
+    return alert;
+  };
+
+  const editAlert = (alertId: string, changes: Partial<AlertDraft>) => {
+    const alert = alerts.find(a => a.id === alertId);
+    if (alert) replaceAlert(updateAlert(alert, changes));
+  };
+
+  const pauseAlert = (alertId: string, paused: boolean) => {
+    const alert = alerts.find(a => a.id === alertId);
+    if (alert) replaceAlert(setAlertPaused(alert, paused));
+  };
+
+  const deleteAlert = (alertId: string) => {
+    setAlerts(prev => prev.filter(alert => alert.id !== alertId));
+    setItems(prev => prev.filter(item => item.alertId !== alertId));
+    persist(removeAlert(alertId));
+  };
+
+  const markRead = (itemIds: string[]) => {
+    const changed = items.filter(item => itemIds.includes(item.id) && !item.read).map(item => ({ ...item, read: true }));
+    if (changed.length === 0) return;
+    setItems(prev => prev.map(item => changed.find(c => c.id === item.id) ?? item));
+    persist(saveAlertItems(changed));
+  };
+
+  return {
+    alerts,
+    items,
+    unreadCount: countUnread(items),
+    running,
+    error,
+    clearError: () => setError(null),
+    addAlert,
+    editAlert,
+    pauseAlert,
+    deleteAlert,
+    checkNow: (alertId: string) => check([alertId], true),
+    markRead,
+  };
+};
+
+export type SearchAlertsState = ReturnType<typeof useSearchAlerts>;
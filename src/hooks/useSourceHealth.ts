@@ -0,0 +1,47 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import type { SearchSource } from '../types';
+import { probeSource, summarizeHealth, validateSources } from '../lib/sourceHealth';
+import type { ProbeResult, SourceHealth } from '../lib/sourceHealth';
+
+// 静态校验随搜索源变化即时计算; 探测结果只保存在内存中, 搜索源的 URL 改变后作废
+export const useSourceHealth = (sources: SearchSource[]) => {
+  const [probes, setProbes] = useState<{ [sourceId: string]: ProbeResult }>({});
+  const [pending, setPending] = useState<string[]>([]);
+  const controller = useRef<AbortController | null>(null);
+
+  const probeSources = useCallback((targets: SearchSource[]) => {
+    controller.current?.abort();
+    const current = new AbortController();
+    controller.current = current;
+    setPending(targets.map(source => source.id));
+
+    targets.forEach(source => {
+      probeSource(source, { signal: current.signal })
+        .then(probe => {
+          if (current.signal.aborted) return;
+          setProbes(prev => ({ ...prev, [source.id]: probe }));
+        })
+        .catch(() => undefined)
+        .finally(() => {
+          if (!current.signal.aborted) setPending(prev => prev.filter(id => id !== source.id));
+        });
+    });
+  }, []);
+
+  const cancelProbes = useCallback(() => {
+    controller.current?.abort();
+    setPending([]);
+  }, []);
+
+  useEffect(() => () => controller.current?.abort(), []);
+
+  const issues = validateSources(sources);
+  const health: { [sourceId: string]: SourceHealth } = Object.fromEntries(
+    sources.map(source => {
+      const probe = probes[source.id];
+      return [source.id, summarizeHealth(issues[source.id] ?? [], probe?.url === source.url ? probe : undefined)];
+    })
+  );
+
+  return { health, probing: pending.length > 0, pending, probeSources, cancelProbes };
+};
@@ -0,0 +1,27 @@
+import { useEffect, useReducer, useState } from 'react';
+import { createTabManager } from '../lib/tabManager';
+
+// 用户关闭搜索窗口不会触发任何事件, 只能轮询
+const CLOSED_POLL_INTERVAL = 1000;
+
+export const useTabManager = () => {
+  const [, rerender] = useReducer((count: number) => count + 1, 0);
+  const [manager] = useState(() => createTabManager({ onChange: rerender }));
+
+  const records = manager.getRecords();
+  const hasOpenTabs = records.some(record => record.status === 'open');
+
+  useEffect(() => {
+    if (!hasOpenTabs) return;
+    const timer = window.setInterval(() => manager.refresh(), CLOSED_POLL_INTERVAL);
+    return () => window.clearInterval(timer);
+  }, [manager, hasOpenTabs]);
+
+  useEffect(() => () => manager.closeAll(), [manager]);
+
+  return {
+    manager,
+    records,
+    blocked: records.filter(record => record.status === 'blocked'),
+  };
+};
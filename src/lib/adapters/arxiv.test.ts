@@ -0,0 +1,125 @@
+// @vitest-environment jsdom
+import { describe, expect, it } from 'vitest';
+import { parseQuery } from '../queryLanguage';
+import { ARXIV_API_URL, arxivAdapter, extractArxivId, parseArxivResponse } from './arxiv';
+import { AdapterError } from './types';
+
+// 精简自 export.arxiv.org 的实际响应
+const FEED = `<?xml version="1.0" encoding="UTF-8"?>
+<feed xmlns="http://www.w3.org/2005/Atom" xmlns:arxiv="http://arxiv.org/schemas/atom">
+  <title type="html">ArXiv Query: search_query=all:attention</title>
+  <entry>
+    <id>http://arxiv.org/abs/1706.03762v7</id>
+    <published>2017-06-12T17:57:34Z</published>
+    <title>Attention Is All
+      You Need</title>
+    <summary>  The dominant sequence transduction models
+      are based on complex recurrent networks.  </summary>
+    <author><name>Ashish Vaswani</name></author>
+    <author><name>Noam Shazeer</name></author>
+    <arxiv:doi>10.48550/arXiv.1706.03762</arxiv:doi>
+    <arxiv:journal_ref>Advances in Neural Information Processing Systems 30 (2017)</arxiv:journal_ref>
+    <link href="http://arxiv.org/abs/1706.03762v7" rel="alternate" type="text/html"/>
+    <link title="pdf" href="http://arxiv.org/pdf/1706.03762v7" rel="related" type="application/pdf"/>
+  </entry>
+  <entry>
+    <id>http://arxiv.org/abs/hep-th/9901001v1</id>
+    <published>1999-01-01T00:00:00Z</published>
+    <title>An old-style identifier</title>
+    <summary></summary>
+    <author><name>A. Physicist</name></author>
+  </entry>
+</feed>`;
+
+const EMPTY_FEED = '<feed xmlns="http://www.w3.org/2005/Atom"><title>ArXiv Query</title></feed>';
+
+const respond = (body: string, status = 200): typeof fetch => async () => new Response(body, { status });
+
+describe('parseArxivResponse', () => {
+  it('reads entries from the Atom feed', () => {
+    const [paper, old] = parseArxivResponse(FEED);
+    expect(paper).toEqual({
+      id: 'arxiv:1706.03762',
+      sourceId: 'arxiv',
+      rank: 0,
+      title: 'Attention Is All You Need',
+      authors: ['Ashish Vaswani', 'Noam Shazeer'],
+      year: 2017,
+      venue: 'Advances in Neural Information Processing Systems 30 (2017)',
+      doi: '10.48550/arXiv.1706.03762',
+      arxivId: '1706.03762',
+      abstract: 'The dominant sequence transduction models are based on complex recurrent networks.',
+      url: 'http://arxiv.org/abs/1706.03762v7',
+    });
+    expect(old).toMatchObject({
+      id: 'arxiv:hep-th/9901001',
+      rank: 1,
+      venue: undefined,
+      doi: undefined,
+      abstract: undefined,
+      url: 'http://arxiv.org/abs/hep-th/9901001v1',
+    });
+  });
+
+  it('returns no results for an empty feed', () => {
+    expect(parseArxivResponse(EMPTY_FEED)).toEqual([]);
+  });
+
+  it('rejects malformed XML', () => {
+    expect(() => parseArxivResponse('<feed><entry>')).toThrow(new AdapterError('Response is not valid XML'));
+  });
+
+  it('extracts IDs from abstract URLs', () => {
+    expect(extractArxivId('https://arxiv.org/abs/2401.01234v2')).toBe('2401.01234');
+  });
+});
+
+describe('arxivAdapter.search', () => {
+  const query = parseQuery('attention');
+
+  it('requests the configured base URL', async () => {
+    const requested: string[] = [];
+    const results = await arxivAdapter.search(query, {
+      fetch: async input => {
+        requested.push(String(input));
+        return new Response(FEED);
+      },
+      limit: 5,
+      baseUrl: 'http://localhost:8080/arxiv',
+    });
+    expect(results).toHaveLength(2);
+    expect(requested).toEqual(['http://localhost:8080/arxiv?search_query=all%3Aattention&start=0&max_results=5']);
+  });
+
+  it('sorts by submission date when only recent results are wanted', () => {
+    const request = arxivAdapter.buildRequest(query, { limit: 5, recent: { from: 2025, to: 2026 } });
+    expect(request?.url).toBe(
+      `${ARXIV_API_URL}?search_query=all%3Aattention&start=0&max_results=5&sortBy=submittedDate&sortOrder=descending`
+    );
+  });
+
+  it('reports HTTP errors with their status', async () => {
+    const search = arxivAdapter.search(query, { fetch: respond('Rate exceeded.', 503), limit: 5 });
+    await expect(search).rejects.toThrow(new AdapterError('Request failed with status 503'));
+    await expect(search).rejects.toMatchObject({ status: 503 });
+  });
+
+  it('rejects when the request is aborted', async () => {
+    const controller = new AbortController();
+    const aborting: typeof fetch = async (_, init) => {
+      controller.abort();
+      expect(init?.signal).toBe(controller.signal);
+      throw new DOMException('The operation was aborted.', 'AbortError');
+    };
+    await expect(
+      arxivAdapter.search(query, { fetch: aborting, limit: 5, signal: controller.signal })
+    ).rejects.toMatchObject({ name: 'AbortError' });
+  });
+
+  it('does not send a request for an empty query', async () => {
+    const failing: typeof fetch = async () => {
+      throw new Error('unexpected request');
+    };
+    await expect(arxivAdapter.search(parseQuery(''), { fetch: failing, limit: 5 })).resolves.toEqual([]);
+  });
+});
@@ -0,0 +1,70 @@
+// arXiv API (Atom): https://info.arxiv.org/help/api/user-manual.html
+
+import type { SearchResult } from '../../types';
+import type { StructuredQuery } from '../queryLanguage';
+import { translateArxivApi } from '../queryTranslators';
+import { buildUrl, collapseWhitespace, fetchText, parseXml, parseYear } from './http';
+import type { RequestOptions, ResultAdapter } from './types';
+
+export const ARXIV_API_URL = 'https://export.arxiv.org/api/query';
+const SOURCE_ID = 'arxiv';
+
+const ARXIV_NAMESPACE = 'http://arxiv.org/schemas/atom';
+
+// "http://arxiv.org/abs/2401.01234v2" -> "2401.01234"
+export const extractArxivId = (absUrl: string) =>
+  absUrl.replace(/^https?:\/\/arxiv\.org\/abs\//, '').replace(/v\d+$/, '');
+
+export const parseArxivResponse = (xml: string): SearchResult[] => {
+  const doc = parseXml(xml);
+  return Array.from(doc.getElementsByTagNameNS('*', 'entry')).map((entry, rank) => {
+    const text = (tag: string) => collapseWhitespace(entry.getElementsByTagNameNS('*', tag)[0]?.textContent);
+    const arxivText = (tag: string) => collapseWhitespace(entry.getElementsByTagNameNS(ARXIV_NAMESPACE, tag)[0]?.textContent);
+
+    const absUrl = text('id');
+    const arxivId = extractArxivId(absUrl);
+    const alternate = Array.from(entry.getElementsByTagNameNS('*', 'link'))
+      .find(link => link.getAttribute('rel') === 'alternate')
+      ?.getAttribute('href');
+
+    return {
+      id: `${SOURCE_ID}:${arxivId}`,
+      sourceId: SOURCE_ID,
+      rank,
+      title: text('title'),
+      authors: Array.from(entry.getElementsByTagNameNS('*', 'author')).map(author =>
+        collapseWhitespace(author.getElementsByTagNameNS('*', 'name')[0]?.textContent)
+      ),
+      year: parseYear(text('published')),
+      venue: arxivText('journal_ref') || undefined,
+      doi: arxivText('doi') || undefined,
+      arxivId,
+      abstract: text('summary') || undefined,
+      url: alternate ?? absUrl,
+    };
+  });
+};
+
+const buildRequest = (query: StructuredQuery, options: RequestOptions) => {
+  // API 语法和网页不同, 纯关键词查询也需要 all: 前缀
+  const searchQuery = translateArxivApi(query).query;
+  if (!searchQuery) return null;
+
+  const url = buildUrl(options.baseUrl ?? ARXIV_API_URL, {
+    search_query: searchQuery,
+    start: 0,
+    max_results: options.limit,
+    ...(options.recent && { sortBy: 'submittedDate', sortOrder: 'descending' }),
+  });
+  return { query: searchQuery, url };
+};
+
+export const arxivAdapter: ResultAdapter = {
+  sourceId: SOURCE_ID,
+  buildRequest,
+  search: async (query, options) => {
+    const request = buildRequest(query, options);
+    if (!request) return [];
+    return parseArxivResponse(await fetchText(request.url, options));
+  },
+};
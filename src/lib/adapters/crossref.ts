@@ -0,0 +1,52 @@
+// Crossref REST API: https://api.crossref.org/swagger-ui/index.html
+// 只用于按 DOI 获取元数据, 不作为搜索源
+
+import { AdapterError } from './types';
+import { collapseWhitespace, parseJson } from './http';
+
+export const CROSSREF_API_URL = 'https://api.crossref.org/works';
+
+export interface CrossrefWork {
+  title: string;
+  authors: string[];
+  year?: number;
+  venue?: string;
+  doi: string;
+  abstract?: string;
+  publisher?: string;
+  // 出版商落地页 (doi.org 跳转的目标)
+  url: string;
+}
+
+interface CrossrefMessage {
+  DOI?: string;
+  title?: string[];
+  author?: { given?: string; family?: string; name?: string }[];
+  'container-title'?: string[];
+  issued?: { 'date-parts'?: (number | null)[][] };
+  abstract?: string;
+  publisher?: string;
+  URL?: string;
+  resource?: { primary?: { URL?: string } };
+}
+
+export const parseCrossrefWork = (json: string): CrossrefWork => {
+  const data = parseJson(json) as { status?: string; message?: CrossrefMessage };
+  const work = data.message;
+  if (data.status !== 'ok' || !work?.DOI) throw new AdapterError('Unexpected Crossref response');
+
+  const year = work.issued?.['date-parts']?.[0]?.[0];
+  return {
+    title: collapseWhitespace(work.title?.[0]),
+    authors: (work.author ?? [])
+      .map(author => collapseWhitespace(author.name ?? [author.given, author.family].filter(Boolean).join(' ')))
+      .filter(Boolean),
+    year: typeof year === 'number' ? year : undefined,
+    venue: collapseWhitespace(work['container-title']?.[0]) || undefined,
+    doi: work.DOI.toLowerCase(),
+    // 摘要是 JATS XML 片段, 去掉标签
+    abstract: collapseWhitespace(work.abstract?.replace(/<[^>]+>/g, ' ')) || undefined,
+    publisher: work.publisher || undefined,
+    url: work.resource?.primary?.URL ?? work.URL ?? `https://doi.org/${work.DOI}`,
+  };
+};
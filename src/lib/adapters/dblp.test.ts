@@ -0,0 +1,102 @@
+import { describe, expect, it } from 'vitest';
+import { parseQuery } from '../queryLanguage';
+import { dblpAdapter, parseDblpResponse } from './dblp';
+import { AdapterError } from './types';
+
+// 精简自 /search/publ/api?format=json 的实际响应; 单个作者或单个链接时不是数组
+const RESPONSE = JSON.stringify({
+  result: {
+    query: 'attention*',
+    status: { '@code': '200', text: 'OK' },
+    hits: {
+      '@total': '2',
+      hit: [
+        {
+          '@score': '7',
+          '@id': '1',
+          info: {
+            authors: { author: [{ '@pid': '01/1', text: 'Ashish Vaswani' }, { '@pid': '02/2', text: 'Wei Wang 0001' }] },
+            title: 'Attention is All you Need.',
+            venue: 'NIPS',
+            year: '2017',
+            type: 'Conference and Workshop Papers',
+            key: 'conf/nips/VaswaniSPUJGKP17',
+            doi: '10.5555/3295222.3295349',
+            ee: ['https://proceedings.neurips.cc/paper/2017/hash/3f5ee243.html', 'https://dl.acm.org/doi/10.5555/3295222'],
+            url: 'https://dblp.org/rec/conf/nips/VaswaniSPUJGKP17',
+          },
+        },
+        {
+          '@score': '3',
+          '@id': '2',
+          info: {
+            authors: { author: { '@pid': '03/3', text: 'Solo Author' } },
+            title: 'A survey.',
+            venue: ['CoRR', 'arXiv'],
+            year: '2020',
+            key: 'journals/corr/abs-2001-00001',
+          },
+        },
+      ],
+    },
+  },
+});
+
+describe('parseDblpResponse', () => {
+  it('reads hits and normalizes single values to lists', () => {
+    const [paper, survey] = parseDblpResponse(RESPONSE);
+    expect(paper).toEqual({
+      id: 'dblp:conf/nips/VaswaniSPUJGKP17',
+      sourceId: 'dblp',
+      rank: 0,
+      title: 'Attention is All you Need',
+      authors: ['Ashish Vaswani', 'Wei Wang'],
+      year: 2017,
+      venue: 'NIPS',
+      doi: '10.5555/3295222.3295349',
+      url: 'https://proceedings.neurips.cc/paper/2017/hash/3f5ee243.html',
+    });
+    expect(survey).toMatchObject({
+      rank: 1,
+      title: 'A survey',
+      authors: ['Solo Author'],
+      venue: 'CoRR, arXiv',
+      doi: undefined,
+      url: 'https://dblp.org/rec/journals/corr/abs-2001-00001',
+    });
+  });
+
+  it('returns no results when there are no hits', () => {
+    expect(parseDblpResponse('{"result":{"hits":{"@total":"0"}}}')).toEqual([]);
+  });
+
+  it('rejects malformed responses', () => {
+    expect(() => parseDblpResponse('{"result":{"status":{"@code":"500"}}}')).toThrow(
+      new AdapterError('Unexpected DBLP response')
+    );
+    expect(() => parseDblpResponse('<!DOCTYPE html>')).toThrow(new AdapterError('Response is not valid JSON'));
+  });
+});
+
+describe('dblpAdapter.search', () => {
+  it('requests the configured base URL', async () => {
+    const requested: string[] = [];
+    const results = await dblpAdapter.search(parseQuery('attention'), {
+      fetch: async input => {
+        requested.push(String(input));
+        return new Response(RESPONSE);
+      },
+      limit: 3,
+      baseUrl: 'http://localhost:8080/dblp',
+    });
+    expect(results).toHaveLength(2);
+    expect(requested[0].startsWith('http://localhost:8080/dblp?')).toBe(true);
+    expect(new URL(requested[0]).searchParams.get('h')).toBe('3');
+  });
+
+  it('reports HTTP errors with their status', async () => {
+    await expect(
+      dblpAdapter.search(parseQuery('attention'), { fetch: async () => new Response('', { status: 502 }), limit: 3 })
+    ).rejects.toMatchObject({ name: 'AdapterError', status: 502 });
+  });
+});
@@ -0,0 +1,74 @@
+// DBLP 检索 API (JSON): https://dblp.org/faq/How+to+use+the+dblp+search+API.html
+
+import type { SearchResult } from '../../types';
+import type { StructuredQuery } from '../queryLanguage';
+import { queryTranslators } from '../queryTranslators';
+import { AdapterError } from './types';
+import type { RequestOptions, ResultAdapter } from './types';
+import { buildUrl, collapseWhitespace, fetchText, parseJson, restrictToRecent } from './http';
+
+export const DBLP_API_URL = 'https://dblp.org/search/publ/api';
+const SOURCE_ID = 'dblp';
+
+type OneOrMany<T> = T | T[];
+
+interface DblpHit {
+  info: {
+    key: string;
+    title?: string;
+    authors?: { author: OneOrMany<{ text: string } | string> };
+    venue?: OneOrMany<string>;
+    year?: string;
+    doi?: string;
+    ee?: OneOrMany<string>;
+    url?: string;
+  };
+}
+
+const toArray = <T>(value: OneOrMany<T> | undefined): T[] =>
+  value === undefined ? [] : Array.isArray(value) ? value : [value];
+
+// DBLP 会在人名后加消歧编号, 例如 "Wei Wang 0001"
+const cleanAuthor = (name: string) => name.replace(/\s+\d{4}$/, '');
+
+export const parseDblpResponse = (json: string): SearchResult[] => {
+  const data = parseJson(json) as { result?: { hits?: { hit?: DblpHit[] } } };
+  if (!data.result?.hits) {
+    throw new AdapterError('Unexpected DBLP response');
+  }
+
+  return toArray(data.result.hits.hit).map((hit, rank) => {
+    const { info } = hit;
+    return {
+      id: `${SOURCE_ID}:${info.key}`,
+      sourceId: SOURCE_ID,
+      rank,
+      // DBLP 标题以句点结尾
+      title: collapseWhitespace(info.title).replace(/\.$/, ''),
+      authors: toArray(info.authors?.author).map(author =>
+        cleanAuthor(typeof author === 'string' ? author : author.text)
+      ),
+      year: info.year ? Number(info.year) : undefined,
+      venue: toArray(info.venue).join(', ') || undefined,
+      doi: info.doi,
+      url: toArray(info.ee)[0] ?? info.url ?? `https://dblp.org/rec/${info.key}`,
+    };
+  });
+};
+
+// 搜索 API 只按相关度排序, 只要最新结果时改用年份过滤
+const buildRequest = (query: StructuredQuery, options: RequestOptions) => {
+  const q = queryTranslators.dblp(restrictToRecent(query, options.recent)).query;
+  if (!q) return null;
+  return { query: q, url: buildUrl(options.baseUrl ?? DBLP_API_URL, { q, format: 'json', h: options.limit }) };
+};
+
+export const dblpAdapter: ResultAdapter = {
+  sourceId: SOURCE_ID,
+  buildRequest,
+  search: async (query, options) => {
+    const request = buildRequest(query, options);
+    if (!request) return [];
+    return parseDblpResponse(await fetchText(request.url, options));
+  },
+};
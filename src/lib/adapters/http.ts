@@ -0,0 +1,51 @@
+import type { StructuredQuery } from '../queryLanguage';
+import { AdapterError } from './types';
+import type { AdapterOptions, RecentYears } from './types';
+
+export const buildUrl = (base: string, params: { [key: string]: string | number | undefined }) => {
+  const query = Object.entries(params)
+    .filter(([, value]) => value !== undefined && value !== '')
+    .map(([key, value]) => `${encodeURIComponent(key)}=${encodeURIComponent(String(value))}`)
+    .join('&');
+  return query ? `${base}?${query}` : base;
+};
+
+export const fetchText = async (url: string, options: AdapterOptions): Promise<string> => {
+  const response = await options.fetch(url, { signal: options.signal });
+  if (!response.ok) {
+    throw new AdapterError(`Request failed with status ${response.status}`, response.status);
+  }
+  return response.text();
+};
+
+export const parseXml = (text: string): Document => {
+  const doc = new DOMParser().parseFromString(text, 'application/xml');
+  if (doc.getElementsByTagName('parsererror').length > 0) {
+    throw new AdapterError('Response is not valid XML');
+  }
+  return doc;
+};
+
+export const parseJson = (text: string): unknown => {
+  try {
+    return JSON.parse(text);
+  } catch {
+    throw new AdapterError('Response is not valid JSON');
+  }
+};
+
+// 合并多余空白 (API 返回的标题和摘要中常带有换行)
+export const collapseWhitespace = (text: string | null | undefined) => (text ?? '').replace(/\s+/g, ' ').trim();
+
+export const parseYear = (text: string | null | undefined): number | undefined => {
+  const match = /\b(\d{4})\b/.exec(text ?? '');
+  return match ? Number(match[1]) : undefined;
+};
+
+// 把查询的年份区间收窄到最近几年; 没有交集时保持查询本身的区间
+export const restrictToRecent = (query: StructuredQuery, recent: RecentYears | undefined): StructuredQuery => {
+  if (!recent) return query;
+  const from = Math.max(query.years?.from ?? recent.from, recent.from);
+  const to = Math.min(query.years?.to ?? recent.to, recent.to);
+  return from > to ? query : { ...query, years: { from, to } };
+};
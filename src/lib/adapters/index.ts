@@ -0,0 +1,56 @@
+// 开放 API 的结果适配器, 按搜索源 ID 注册
+// 没有适配器的搜索源仍然通过弹出窗口搜索
+
+import type { SearchResult, SearchSource } from '../../types';
+import type { StructuredQuery } from '../queryLanguage';
+import { arxivAdapter } from './arxiv';
+import { dblpAdapter } from './dblp';
+import { pubmedAdapter } from './pubmed';
+import { semanticScholarAdapter } from './semanticScholar';
+import type { AdapterOptions, AdapterRequest, RequestOptions, ResultAdapter } from './types';
+
+export { AdapterError } from './types';
+export type { AdapterOptions, AdapterRequest, RecentYears, ResultAdapter } from './types';
+
+export const DEFAULT_RESULT_LIMIT = 20;
+
+export const resultAdapters: { [sourceId: string]: ResultAdapter } = {
+  [arxivAdapter.sourceId]: arxivAdapter,
+  [pubmedAdapter.sourceId]: pubmedAdapter,
+  [semanticScholarAdapter.sourceId]: semanticScholarAdapter,
+  [dblpAdapter.sourceId]: dblpAdapter,
+};
+
+// 自定义搜索源即使 ID 相同也不使用内置适配器
+export const getResultAdapter = (source: SearchSource): ResultAdapter | undefined =>
+  source.isCustom ? undefined : resultAdapters[source.id];
+
+// 页面内搜索实际发送的请求, 和 fetchSourceResults 使用相同的默认值
+export const getSourceRequest = (
+  source: SearchSource,
+  query: StructuredQuery,
+  options: Partial<RequestOptions> = {}
+): AdapterRequest | null =>
+  getResultAdapter(source)?.buildRequest(query, {
+    limit: options.limit ?? DEFAULT_RESULT_LIMIT,
+    baseUrl: options.baseUrl,
+    recent: options.recent,
+  }) ?? null;
+
+export const fetchSourceResults = (
+  source: SearchSource,
+  query: StructuredQuery,
+  options: Partial<AdapterOptions> = {}
+): Promise<SearchResult[]> => {
+  const adapter = getResultAdapter(source);
+  if (!adapter) {
+    return Promise.reject(new Error(`No result adapter for ${source.name}`));
+  }
+  return adapter.search(query, {
+    fetch: options.fetch ?? ((input, init) => window.fetch(input, init)),
+    limit: options.limit ?? DEFAULT_RESULT_LIMIT,
+    signal: options.signal,
+    baseUrl: options.baseUrl,
+    recent: options.recent,
+  });
+};
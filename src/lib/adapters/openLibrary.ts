@@ -0,0 +1,38 @@
+// Open Library Books API: https://openlibrary.org/dev/docs/api/books
+// 只用于按 ISBN 获取元数据
+
+import { collapseWhitespace, parseJson, parseYear } from './http';
+
+export const OPEN_LIBRARY_API_URL = 'https://openlibrary.org/api/books';
+
+export interface OpenLibraryBook {
+  title: string;
+  authors: string[];
+  year?: number;
+  publisher?: string;
+  url: string;
+}
+
+interface OpenLibraryRecord {
+  title?: string;
+  subtitle?: string;
+  authors?: { name?: string }[];
+  publish_date?: string;
+  publishers?: { name?: string }[];
+  url?: string;
+}
+
+// 找不到这本书时返回 null
+export const parseOpenLibraryResponse = (json: string, isbn: string): OpenLibraryBook | null => {
+  const data = parseJson(json) as { [bibkey: string]: OpenLibraryRecord | undefined };
+  const book = data[`ISBN:${isbn}`];
+  if (!book) return null;
+
+  return {
+    title: collapseWhitespace([book.title, book.subtitle].filter(Boolean).join(': ')),
+    authors: (book.authors ?? []).map(author => collapseWhitespace(author.name)).filter(Boolean),
+    year: parseYear(book.publish_date),
+    publisher: collapseWhitespace(book.publishers?.[0]?.name) || undefined,
+    url: book.url ?? `https://openlibrary.org/isbn/${isbn}`,
+  };
+};
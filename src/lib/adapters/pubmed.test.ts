@@ -0,0 +1,179 @@
+// @vitest-environment jsdom
+import { describe, expect, it } from 'vitest';
+import { parseQuery } from '../queryLanguage';
+import { PUBMED_API_URL, parseEfetchResponse, parseEsearchResponse, pubmedAdapter } from './pubmed';
+import { AdapterError } from './types';
+
+const ESEARCH = JSON.stringify({
+  header: { type: 'esearch', version: '0.3' },
+  esearchresult: { count: '2', retmax: '2', retstart: '0', idlist: ['31452104', '29083389'] },
+});
+
+// 精简自 efetch.fcgi?db=pubmed&retmode=xml 的实际响应; 顺序和 esearch 不同
+const EFETCH = `<?xml version="1.0" ?>
+<!DOCTYPE PubmedArticleSet PUBLIC "-//NLM//DTD PubMedArticle, 1st January 2024//EN" "https://dtd.nlm.nih.gov/ncbi/pubmed/out/pubmed_240101.dtd">
+<PubmedArticleSet>
+  <PubmedArticle>
+    <MedlineCitation Status="MEDLINE" Owner="NLM">
+      <PMID Version="1">29083389</PMID>
+      <Article PubModel="Print">
+        <Journal>
+          <JournalIssue CitedMedium="Internet">
+            <PubDate><MedlineDate>2017 Nov-Dec</MedlineDate></PubDate>
+          </JournalIssue>
+          <Title>Journal of the American Medical Informatics Association : JAMIA</Title>
+        </Journal>
+        <ArticleTitle>Deep learning
+          for health informatics.</ArticleTitle>
+        <Abstract><AbstractText>Unstructured abstract.</AbstractText></Abstract>
+        <AuthorList>
+          <Author><CollectiveName>Health Informatics Consortium</CollectiveName></Author>
+          <Author><LastName>Ravi</LastName><Initials>D</Initials></Author>
+        </AuthorList>
+      </Article>
+    </MedlineCitation>
+    <PubmedData>
+      <ArticleIdList><ArticleId IdType="pubmed">29083389</ArticleId></ArticleIdList>
+    </PubmedData>
+  </PubmedArticle>
+  <PubmedArticle>
+    <MedlineCitation Status="MEDLINE" Owner="NLM">
+      <PMID Version="1">31452104</PMID>
+      <Article PubModel="Print-Electronic">
+        <Journal>
+          <JournalIssue CitedMedium="Internet">
+            <PubDate><Year>2019</Year><Month>Aug</Month></PubDate>
+          </JournalIssue>
+          <Title>Nature medicine</Title>
+        </Journal>
+        <ArticleTitle>A guide to deep learning in healthcare.</ArticleTitle>
+        <Abstract>
+          <AbstractText Label="BACKGROUND">Deep learning is
+            transforming medicine.</AbstractText>
+          <AbstractText Label="CONCLUSIONS">More work is needed.</AbstractText>
+        </Abstract>
+        <AuthorList>
+          <Author><LastName>Esteva</LastName><ForeName>Andre</ForeName><Initials>A</Initials></Author>
+        </AuthorList>
+      </Article>
+    </MedlineCitation>
+    <PubmedData>
+      <ArticleIdList>
+        <ArticleId IdType="pubmed">31452104</ArticleId>
+        <ArticleId IdType="doi">10.1038/s41591-018-0316-z</ArticleId>
+      </ArticleIdList>
+    </PubmedData>
+  </PubmedArticle>
+</PubmedArticleSet>`;
+
+// 按接口名 (esearch / efetch) 返回固定响应, 并记录请求地址
+const fakeFetch = (responses: { [endpoint: string]: string | number }, requested: string[] = []): typeof fetch =>
+  async input => {
+    const url = new URL(String(input));
+    requested.push(url.href);
+    const body = responses[url.pathname.split('/').pop()?.replace('.fcgi', '') ?? ''];
+    if (body === undefined) throw new TypeError('Failed to fetch');
+    return typeof body === 'number' ? new Response('', { status: body }) : new Response(body);
+  };
+
+describe('parseEsearchResponse', () => {
+  it('returns the PMID list', () => {
+    expect(parseEsearchResponse(ESEARCH)).toEqual(['31452104', '29083389']);
+    expect(parseEsearchResponse('{"esearchresult":{"count":"0","idlist":[]}}')).toEqual([]);
+  });
+
+  it('rejects error and malformed responses', () => {
+    expect(() => parseEsearchResponse('{"error":"API rate limit exceeded"}')).toThrow(
+      new AdapterError('Unexpected esearch response')
+    );
+    expect(() => parseEsearchResponse('<html>')).toThrow(new AdapterError('Response is not valid JSON'));
+  });
+});
+
+describe('parseEfetchResponse', () => {
+  it('reads articles, authors, dates and structured abstracts', () => {
+    const [first, second] = parseEfetchResponse(EFETCH);
+    expect(first).toEqual({
+      id: 'pubmed:29083389',
+      sourceId: 'pubmed',
+      rank: 0,
+      title: 'Deep learning for health informatics.',
+      authors: ['Health Informatics Consortium', 'D Ravi'],
+      year: 2017,
+      venue: 'Journal of the American Medical Informatics Association : JAMIA',
+      doi: undefined,
+      pmid: '29083389',
+      abstract: 'Unstructured abstract.',
+      url: 'https://pubmed.ncbi.nlm.nih.gov/29083389/',
+    });
+    expect(second).toMatchObject({
+      authors: ['Andre Esteva'],
+      year: 2019,
+      doi: '10.1038/s41591-018-0316-z',
+      abstract: 'BACKGROUND: Deep learning is transforming medicine. CONCLUSIONS: More work is needed.',
+    });
+  });
+
+  it('rejects malformed XML', () => {
+    expect(() => parseEfetchResponse('<PubmedArticleSet><PubmedArticle>')).toThrow(
+      new AdapterError('Response is not valid XML')
+    );
+  });
+});
+
+describe('pubmedAdapter.search', () => {
+  const query = parseQuery('deep learning');
+
+  it('fetches records for the PMIDs in relevance order', async () => {
+    const requested: string[] = [];
+    const results = await pubmedAdapter.search(query, {
+      fetch: fakeFetch({ esearch: ESEARCH, efetch: EFETCH }, requested),
+      limit: 2,
+      baseUrl: 'http://localhost:8080/eutils',
+    });
+    expect(results.map(result => [result.pmid, result.rank])).toEqual([
+      ['31452104', 0],
+      ['29083389', 1],
+    ]);
+    expect(requested.map(url => new URL(url).pathname)).toEqual(['/eutils/esearch.fcgi', '/eutils/efetch.fcgi']);
+    expect(new URL(requested[1]).searchParams.get('id')).toBe('31452104,29083389');
+  });
+
+  it('sorts by publication date when only recent results are wanted', () => {
+    const request = pubmedAdapter.buildRequest(query, { limit: 2, recent: { from: 2025, to: 2026 } });
+    expect(new URL(request?.url ?? '').searchParams.get('sort')).toBe('pub_date');
+    expect(new URL(pubmedAdapter.buildRequest(query, { limit: 2 })?.url ?? '').searchParams.has('sort')).toBe(false);
+  });
+
+  it('skips efetch when nothing matches', async () => {
+    const requested: string[] = [];
+    const results = await pubmedAdapter.search(query, {
+      fetch: fakeFetch({ esearch: '{"esearchresult":{"idlist":[]}}' }, requested),
+      limit: 2,
+    });
+    expect(results).toEqual([]);
+    expect(requested).toHaveLength(1);
+    expect(requested[0].startsWith(`${PUBMED_API_URL}/esearch.fcgi?`)).toBe(true);
+  });
+
+  it('reports HTTP errors from either request', async () => {
+    await expect(pubmedAdapter.search(query, { fetch: fakeFetch({ esearch: 429 }), limit: 2 })).rejects.toThrow(
+      new AdapterError('Request failed with status 429')
+    );
+    await expect(
+      pubmedAdapter.search(query, { fetch: fakeFetch({ esearch: ESEARCH, efetch: 500 }), limit: 2 })
+    ).rejects.toMatchObject({ name: 'AdapterError', status: 500 });
+  });
+
+  it('rejects when the request is aborted', async () => {
+    const controller = new AbortController();
+    controller.abort();
+    const aborting: typeof fetch = async (_, init) => {
+      init?.signal?.throwIfAborted();
+      return new Response(ESEARCH);
+    };
+    await expect(
+      pubmedAdapter.search(query, { fetch: aborting, limit: 2, signal: controller.signal })
+    ).rejects.toMatchObject({ name: 'AbortError' });
+  });
+});
@@ -0,0 +1,105 @@
+// PubMed E-utilities: 先用 esearch 取 PMID 列表, 再用 efetch 取完整记录
+// https://www.ncbi.nlm.nih.gov/books/NBK25499/
+
+import type { SearchResult } from '../../types';
+import type { StructuredQuery } from '../queryLanguage';
+import { queryTranslators } from '../queryTranslators';
+import { AdapterError } from './types';
+import type { RequestOptions, ResultAdapter } from './types';
+import { buildUrl, collapseWhitespace, fetchText, parseJson, parseXml, parseYear } from './http';
+
+export const PUBMED_API_URL = 'https://eutils.ncbi.nlm.nih.gov/entrez/eutils';
+const SOURCE_ID = 'pubmed';
+
+export const parseEsearchResponse = (json: string): string[] => {
+  const data = parseJson(json) as { esearchresult?: { idlist?: unknown } };
+  const ids = data.esearchresult?.idlist;
+  if (!Array.isArray(ids)) {
+    throw new AdapterError('Unexpected esearch response');
+  }
+  return ids.map(String);
+};
+
+const authorName = (author: Element) => {
+  const child = (tag: string) => collapseWhitespace(author.getElementsByTagName(tag)[0]?.textContent);
+  const collective = child('CollectiveName');
+  if (collective) return collective;
+  return [child('ForeName') || child('Initials'), child('LastName')].filter(Boolean).join(' ');
+};
+
+export const parseEfetchResponse = (xml: string): SearchResult[] => {
+  const doc = parseXml(xml);
+  return Array.from(doc.getElementsByTagName('PubmedArticle')).map((article, rank) => {
+    const first = (tag: string) => article.getElementsByTagName(tag)[0];
+    const text = (tag: string) => collapseWhitespace(first(tag)?.textContent);
+
+    const pmid = text('PMID');
+    const pubDate = first('PubDate');
+    const year =
+      parseYear(pubDate?.getElementsByTagName('Year')[0]?.textContent) ??
+      parseYear(pubDate?.getElementsByTagName('MedlineDate')[0]?.textContent);
+    const doi = Array.from(article.getElementsByTagName('ArticleId'))
+      .find(id => id.getAttribute('IdType') === 'doi')
+      ?.textContent?.trim();
+    // 结构化摘要有多个 AbstractText, 按 "标签: 内容" 拼接
+    const abstract = Array.from(article.getElementsByTagName('AbstractText'))
+      .map(part => {
+        const label = part.getAttribute('Label');
+        const content = collapseWhitespace(part.textContent);
+        return label ? `${label}: ${content}` : content;
+      })
+      .join(' ');
+
+    return {
+      id: `${SOURCE_ID}:${pmid}`,
+      sourceId: SOURCE_ID,
+      rank,
+      title: text('ArticleTitle'),
+      authors: Array.from(article.getElementsByTagName('Author')).map(authorName).filter(Boolean),
+      year,
+      venue: first('Journal') ? collapseWhitespace(first('Journal').getElementsByTagName('Title')[0]?.textContent) : undefined,
+      doi: doi || undefined,
+      pmid,
+      abstract: abstract || undefined,
+      url: `https://pubmed.ncbi.nlm.nih.gov/${pmid}/`,
+    };
+  });
+};
+
+// 检索请求是 esearch; 之后的 efetch 只按 ID 获取记录
+const buildRequest = (query: StructuredQuery, options: RequestOptions) => {
+  const term = queryTranslators.pubmed(query).query;
+  if (!term) return null;
+  const baseUrl = options.baseUrl ?? PUBMED_API_URL;
+  return {
+    query: term,
+    url: buildUrl(`${baseUrl}/esearch.fcgi`, {
+      db: 'pubmed',
+      term,
+      retmax: options.limit,
+      retmode: 'json',
+      sort: options.recent ? 'pub_date' : undefined,
+    }),
+  };
+};
+
+export const pubmedAdapter: ResultAdapter = {
+  sourceId: SOURCE_ID,
+  buildRequest,
+  search: async (query, options) => {
+    const request = buildRequest(query, options);
+    if (!request) return [];
+
+    const ids = parseEsearchResponse(await fetchText(request.url, options));
+    if (ids.length === 0) return [];
+
+    const baseUrl = options.baseUrl ?? PUBMED_API_URL;
+    const results = parseEfetchResponse(
+      await fetchText(buildUrl(`${baseUrl}/efetch.fcgi`, { db: 'pubmed', id: ids.join(','), retmode: 'xml' }), options)
+    );
+    // efetch 不保证顺序, 按 esearch 的顺序 (相关度或发表日期) 排序
+    return results
+      .sort((a, b) => ids.indexOf(a.pmid ?? '') - ids.indexOf(b.pmid ?? ''))
+      .map((result, rank) => ({ ...result, rank }));
+  },
+};
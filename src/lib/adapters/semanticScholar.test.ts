@@ -0,0 +1,99 @@
+import { describe, expect, it } from 'vitest';
+import { parseQuery } from '../queryLanguage';
+import { SEMANTIC_SCHOLAR_API_URL, parseSemanticScholarResponse, semanticScholarAdapter } from './semanticScholar';
+import { AdapterError } from './types';
+
+// 精简自 /graph/v1/paper/search 的实际响应
+const RESPONSE = JSON.stringify({
+  total: 2,
+  offset: 0,
+  data: [
+    {
+      paperId: '204e3073870fae3d05bcbc2f6a8e263d9b72e776',
+      externalIds: { ArXiv: '1706.03762', DBLP: 'conf/nips/VaswaniSPUJGKP17', DOI: '10.48550/arXiv.1706.03762' },
+      url: 'https://www.semanticscholar.org/paper/204e3073870fae3d05bcbc2f6a8e263d9b72e776',
+      title: 'Attention is All\nyou Need',
+      venue: 'Neural Information Processing Systems',
+      year: 2017,
+      authors: [{ authorId: '40348417', name: 'Ashish Vaswani' }, { authorId: null, name: null }],
+      abstract: 'The dominant sequence transduction models.',
+    },
+    { paperId: 'abc', title: 'No metadata', venue: '', year: null, authors: [], abstract: null, externalIds: null },
+  ],
+});
+
+describe('parseSemanticScholarResponse', () => {
+  it('reads papers and their external IDs', () => {
+    const [paper, bare] = parseSemanticScholarResponse(RESPONSE);
+    expect(paper).toEqual({
+      id: 'semantic_scholar:204e3073870fae3d05bcbc2f6a8e263d9b72e776',
+      sourceId: 'semantic_scholar',
+      rank: 0,
+      title: 'Attention is All you Need',
+      authors: ['Ashish Vaswani'],
+      year: 2017,
+      venue: 'Neural Information Processing Systems',
+      doi: '10.48550/arXiv.1706.03762',
+      arxivId: '1706.03762',
+      pmid: undefined,
+      abstract: 'The dominant sequence transduction models.',
+      url: 'https://www.semanticscholar.org/paper/204e3073870fae3d05bcbc2f6a8e263d9b72e776',
+    });
+    expect(bare).toMatchObject({
+      rank: 1,
+      year: undefined,
+      venue: undefined,
+      doi: undefined,
+      abstract: undefined,
+      url: 'https://www.semanticscholar.org/paper/abc',
+    });
+  });
+
+  it('returns no results when the data field is missing', () => {
+    expect(parseSemanticScholarResponse('{"total":0,"offset":0}')).toEqual([]);
+  });
+
+  it('rejects malformed responses', () => {
+    expect(() => parseSemanticScholarResponse('{"data":{"message":"oops"}}')).toThrow(
+      new AdapterError('Unexpected Semantic Scholar response')
+    );
+    expect(() => parseSemanticScholarResponse('Too Many Requests')).toThrow(new AdapterError('Response is not valid JSON'));
+  });
+});
+
+describe('semanticScholarAdapter.search', () => {
+  it('sends the plain-text query and year filter', async () => {
+    const requested: string[] = [];
+    await semanticScholarAdapter.search(parseQuery('"graph networks" year:2021'), {
+      fetch: async input => {
+        requested.push(String(input));
+        return new Response(RESPONSE);
+      },
+      limit: 10,
+    });
+    const url = new URL(requested[0]);
+    expect(`${url.origin}${url.pathname}`).toBe(SEMANTIC_SCHOLAR_API_URL);
+    expect(url.searchParams.get('year')).toBe('2021');
+    expect(url.searchParams.get('limit')).toBe('10');
+  });
+
+  it('narrows the years when only recent results are wanted', () => {
+    const recent = { from: 2025, to: 2026 };
+    const year = (query: string) =>
+      semanticScholarAdapter.buildRequest(parseQuery(query), { limit: 10, recent })?.params?.year;
+    expect(year('attention')).toBe('2025-2026');
+    expect(year('attention year:2026-')).toBe('2026');
+    // 没有交集时保留查询自己的年份
+    expect(year('attention year:2010-2012')).toBe('2010-2012');
+  });
+
+  it('reports HTTP errors with their status', async () => {
+    await expect(
+      semanticScholarAdapter.search(parseQuery('attention'), {
+        fetch: async () => new Response('{"message":"Too Many Requests"}', { status: 429 }),
+        limit: 10,
+        baseUrl: 'http://localhost:8080/s2',
+      })
+    ).rejects.toMatchObject({ name: 'AdapterError', message: 'Request failed with status 429', status: 429 });
+  });
+});
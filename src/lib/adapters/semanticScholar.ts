@@ -0,0 +1,74 @@
+// Semantic Scholar Graph API: https://api.semanticscholar.org/api-docs/graph
+
+import type { SearchResult } from '../../types';
+import type { StructuredQuery } from '../queryLanguage';
+import { toPlainText } from '../queryTranslators';
+import { AdapterError } from './types';
+import type { RequestOptions, ResultAdapter } from './types';
+import { buildUrl, collapseWhitespace, fetchText, parseJson, restrictToRecent } from './http';
+
+export const SEMANTIC_SCHOLAR_API_URL = 'https://api.semanticscholar.org/graph/v1/paper/search';
+const SOURCE_ID = 'semantic_scholar';
+
+const FIELDS = 'title,authors,year,venue,abstract,externalIds,url';
+
+interface SemanticScholarPaper {
+  paperId: string;
+  title?: string;
+  authors?: { name?: string }[];
+  year?: number | null;
+  venue?: string | null;
+  abstract?: string | null;
+  externalIds?: { DOI?: string; ArXiv?: string; PubMed?: string } | null;
+  url?: string;
+}
+
+export const parseSemanticScholarResponse = (json: string): SearchResult[] => {
+  const data = parseJson(json) as { data?: SemanticScholarPaper[] };
+  // 没有结果时 API 不返回 data 字段
+  if (data.data !== undefined && !Array.isArray(data.data)) {
+    throw new AdapterError('Unexpected Semantic Scholar response');
+  }
+
+  return (data.data ?? []).map((paper, rank) => ({
+    id: `${SOURCE_ID}:${paper.paperId}`,
+    sourceId: SOURCE_ID,
+    rank,
+    title: collapseWhitespace(paper.title),
+    authors: (paper.authors ?? []).map(author => author.name ?? '').filter(Boolean),
+    year: paper.year ?? undefined,
+    venue: paper.venue || undefined,
+    doi: paper.externalIds?.DOI,
+    arxivId: paper.externalIds?.ArXiv,
+    pmid: paper.externalIds?.PubMed,
+    abstract: paper.abstract ?? undefined,
+    url: paper.url ?? `https://www.semanticscholar.org/paper/${paper.paperId}`,
+  }));
+};
+
+// 搜索 API 只按相关度排序, 只要最新结果时改用年份过滤
+const buildRequest = (query: StructuredQuery, options: RequestOptions) => {
+  const text = toPlainText(query);
+  if (!text) return null;
+
+  const { years } = restrictToRecent(query, options.recent);
+  const range = years ? `${years.from ?? ''}-${years.to ?? ''}` : undefined;
+  const year = years?.from !== undefined && years.from === years.to ? String(years.from) : range;
+  const url = buildUrl(options.baseUrl ?? SEMANTIC_SCHOLAR_API_URL, {
+    query: text,
+    year,
+    limit: options.limit,
+    fields: FIELDS,
+  });
+  return { query: text, ...(year && { params: { year } }), url };
+};
+
+export const semanticScholarAdapter: ResultAdapter = {
+  sourceId: SOURCE_ID,
+  buildRequest,
+  search: async (query, options) => {
+    const request = buildRequest(query, options);
+    if (!request) return [];
+    return parseSemanticScholarResponse(await fetchText(request.url, options));
+  },
+};
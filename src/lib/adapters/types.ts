@@ -0,0 +1,44 @@
+import type { SearchResult } from '../../types';
+import type { StructuredQuery } from '../queryLanguage';
+
+export interface AdapterOptions {
+  fetch: typeof fetch;
+  limit: number;
+  signal?: AbortSignal;
+  // 覆盖 API 地址, 用于本地模拟服务器
+  baseUrl?: string;
+  // 只要最新的结果 (检索提醒): 能按日期排序的 API 按日期从新到旧排序,
+  // 不能排序的 API 把年份限制在这个区间内
+  recent?: RecentYears;
+}
+
+export interface RecentYears {
+  from: number;
+  to: number;
+}
+
+export type RequestOptions = Pick<AdapterOptions, 'limit' | 'baseUrl' | 'recent'>;
+
+// 适配器实际发送的请求: 翻译后的查询、附加参数和 API 地址, 检索记录保存这些内容
+export interface AdapterRequest {
+  query: string;
+  params?: { [key: string]: string };
+  url: string;
+}
+
+export interface ResultAdapter {
+  sourceId: string;
+  // 查询翻译后为空时返回 null, 不发送请求
+  buildRequest: (query: StructuredQuery, options: RequestOptions) => AdapterRequest | null;
+  search: (query: StructuredQuery, options: AdapterOptions) => Promise<SearchResult[]>;
+}
+
+export class AdapterError extends Error {
+  status?: number;
+
+  constructor(message: string, status?: number) {
+    super(message);
+    this.name = 'AdapterError';
+    this.status = status;
+  }
+}
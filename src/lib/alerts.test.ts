@@ -0,0 +1,277 @@
+import { describe, expect, it } from 'vitest';
+import type { SearchResult, SearchSource } from '../types';
+import { defaultSearchSources } from '../searchSources';
+import {
+  ALERT_SOURCE_UNAVAILABLE,
+  alertIntervals,
+  completeAlertRun,
+  countUnread,
+  createAlert,
+  diffAlertResults,
+  isAlertDue,
+  mergeAlertRun,
+  runAlert,
+  updateAlert,
+} from './alerts';
+import type { SearchAlert } from './alerts';
+
+const DAY = 24 * 60 * 60 * 1000;
+const START = Date.UTC(2026, 0, 5, 9);
+
+const result = (sourceId: string, id: string, extra: Partial<SearchResult> = {}): SearchResult => ({
+  id: `${sourceId}:${id}`,
+  sourceId,
+  rank: 0,
+  title: `Paper ${id}`,
+  authors: [],
+  url: `https://example.org/${id}`,
+  ...extra,
+});
+
+const newAlert = (sourceIds = ['semantic_scholar', 'dblp']): SearchAlert =>
+  createAlert({ name: '', query: 'graph neural', sourceIds, frequency: 'weekly', notify: false }, START);
+
+// ---- 固定的 API 响应 ----
+
+const semanticScholarResponse = (papers: { paperId: string; doi?: string }[]) =>
+  JSON.stringify({
+    data: papers.map(({ paperId, doi }) => ({ paperId, title: `S2 ${paperId}`, externalIds: doi ? { DOI: doi } : null })),
+  });
+
+const dblpResponse = (hits: { key: string; doi?: string }[]) =>
+  JSON.stringify({ result: { hits: { hit: hits.map(({ key, doi }) => ({ info: { key, title: `DBLP ${key}`, doi } })) } } });
+
+type Responses = { [host: string]: string | number };
+
+// 按主机名返回固定响应; 数字表示 HTTP 错误状态
+const fakeFetch = (responses: Responses): typeof fetch => async input => {
+  const body = responses[new URL(String(input)).host];
+  if (body === undefined) throw new TypeError('Failed to fetch');
+  return typeof body === 'number' ? new Response('', { status: body }) : new Response(body);
+};
+
+const clock = (time: number) => () => time;
+
+describe('diffAlertResults', () => {
+  it('marks results from engines without a baseline as already seen', () => {
+    const alert = newAlert();
+    const items = diffAlertResults(alert, [], [{ sourceId: 'dblp', results: [result('dblp', 'a')] }], START);
+    expect(items).toEqual([
+      expect.objectContaining({ id: `${alert.id}|dblp:a`, baseline: true, read: true, foundAt: START }),
+    ]);
+    expect(countUnread(items)).toBe(0);
+  });
+
+  it('reports unseen results once a baseline exists', () => {
+    const alert = { ...newAlert(), baselineSources: ['dblp'] };
+    const items = diffAlertResults(alert, [], [{ sourceId: 'dblp', results: [result('dblp', 'b')] }], START + DAY);
+    expect(items).toEqual([expect.objectContaining({ baseline: false, read: false })]);
+    expect(countUnread(items, alert.id)).toBe(1);
+  });
+
+  it('skips results already seen by this alert, from any engine', () => {
+    const alert = { ...newAlert(), baselineSources: ['dblp', 'semantic_scholar'] };
+    const [known] = diffAlertResults(
+      { ...alert, baselineSources: [] },
+      [],
+      [{ sourceId: 'dblp', results: [result('dblp', 'a', { doi: '10.1000/X' })] }],
+      START
+    );
+    const items = diffAlertResults(
+      alert,
+      [known],
+      [
+        { sourceId: 'semantic_scholar', results: [result('semantic_scholar', 'p1', { doi: 'https://doi.org/10.1000/x' })] },
+        { sourceId: 'dblp', results: [result('dblp', 'a', { doi: '10.1000/X' })] },
+      ],
+      START + DAY
+    );
+    expect(items).toEqual([]);
+  });
+
+  it('ignores items that belong to other alerts', () => {
+    const alert = { ...newAlert(), baselineSources: ['dblp'] };
+    const other = { ...newAlert(), id: 'alert-other' };
+    const known = diffAlertResults(other, [], [{ sourceId: 'dblp', results: [result('dblp', 'a')] }], START);
+    expect(diffAlertResults(alert, known, [{ sourceId: 'dblp', results: [result('dblp', 'a')] }], START)).toHaveLength(1);
+  });
+
+  it('reports the same paper only once per run', () => {
+    const alert = { ...newAlert(), baselineSources: ['dblp', 'semantic_scholar'] };
+    const items = diffAlertResults(
+      alert,
+      [],
+      [
+        { sourceId: 'dblp', results: [result('dblp', 'a', { arxivId: '2401.01234v2' })] },
+        { sourceId: 'semantic_scholar', results: [result('semantic_scholar', 'p1', { arxivId: '2401.01234' })] },
+      ],
+      START
+    );
+    expect(items.map(item => item.result.sourceId)).toEqual(['dblp']);
+  });
+});
+
+describe('completeAlertRun', () => {
+  it('schedules the next check and adds successful engines to the baseline', () => {
+    const alert = newAlert();
+    const checked = completeAlertRun(
+      alert,
+      [
+        { sourceId: 'dblp', results: [] },
+        { sourceId: 'semantic_scholar', error: 'Request failed with status 429' },
+      ],
+      START + 1000
+    );
+    expect(checked).toMatchObject({
+      lastCheckedAt: START + 1000,
+      nextCheckAt: START + 1000 + alertIntervals.weekly,
+      baselineSources: ['dblp'],
+      errors: { semantic_scholar: 'Request failed with status 429' },
+    });
+    expect(isAlertDue(checked, START + 1000 + alertIntervals.weekly - 1)).toBe(false);
+    expect(isAlertDue(checked, START + 1000 + alertIntervals.weekly)).toBe(true);
+  });
+
+  it('clears errors from engines that recovered', () => {
+    const alert = { ...newAlert(), baselineSources: ['dblp'], errors: { dblp: 'timeout' } };
+    expect(completeAlertRun(alert, [{ sourceId: 'dblp', results: [] }], START).errors).toEqual({});
+  });
+});
+
+describe('runAlert', () => {
+  const sources = defaultSearchSources;
+
+  it('builds a baseline on the first run and reports only new papers afterwards', async () => {
+    const alert = newAlert();
+    const first = await runAlert(alert, sources, [], {
+      fetch: fakeFetch({
+        'api.semanticscholar.org': semanticScholarResponse([{ paperId: 'p1', doi: '10.1/a' }]),
+        'dblp.org': dblpResponse([{ key: 'conf/x/A', doi: '10.1/A' }]),
+      }),
+      now: clock(START),
+    });
+    expect(first.newItems.every(item => item.baseline)).toBe(true);
+    // DBLP 返回的是同一篇文献
+    expect(first.newItems).toHaveLength(1);
+    expect(first.alert.baselineSources.sort()).toEqual(['dblp', 'semantic_scholar']);
+
+    const second = await runAlert(first.alert, sources, first.newItems, {
+      fetch: fakeFetch({
+        'api.semanticscholar.org': semanticScholarResponse([{ paperId: 'p1', doi: '10.1/a' }, { paperId: 'p2' }]),
+        'dblp.org': dblpResponse([{ key: 'conf/x/A', doi: '10.1/A' }]),
+      }),
+      now: clock(START + 7 * DAY),
+    });
+    expect(second.newItems.map(item => [item.result.id, item.baseline])).toEqual([['semantic_scholar:p2', false]]);
+    expect(second.alert.lastCheckedAt).toBe(START + 7 * DAY);
+    expect(second.alert.nextCheckAt).toBe(START + 14 * DAY);
+  });
+
+  it('compares the newest papers, so relevance shifts between runs do not matter', async () => {
+    // 模拟 Semantic Scholar: 按 year 参数过滤, 再按相关度取前 limit 条
+    type Paper = { paperId: string; year: number; score: number };
+    const requested: string[] = [];
+    const server = (papers: Paper[]): typeof fetch => async input => {
+      const url = new URL(String(input));
+      requested.push(url.searchParams.get('year') ?? '');
+      const [from, to = from] = (url.searchParams.get('year') ?? '0-9999').split('-').map(Number);
+      const hits = papers
+        .filter(paper => paper.year >= from && paper.year <= to)
+        .sort((a, b) => b.score - a.score)
+        .slice(0, Number(url.searchParams.get('limit')));
+      return new Response(semanticScholarResponse(hits));
+    };
+    const options = { limit: 3 };
+
+    const corpus: Paper[] = [
+      { paperId: 'classic', year: 2010, score: 9 },
+      { paperId: 'old', year: 2015, score: 1 },
+      { paperId: 'a', year: 2025, score: 5 },
+      { paperId: 'b', year: 2026, score: 4 },
+    ];
+    const first = await runAlert(newAlert(['semantic_scholar']), sources, [], {
+      ...options,
+      fetch: server(corpus),
+      now: clock(START),
+    });
+    expect(requested).toEqual(['2025-2026']);
+
+    // 第二次检查前: 旧文献的相关度跃升到最前, 新文献相关度最低
+    const shifted = corpus.map(paper => (paper.paperId === 'old' ? { ...paper, score: 10 } : paper));
+    const second = await runAlert(first.alert, sources, first.newItems, {
+      ...options,
+      fetch: server([...shifted, { paperId: 'fresh', year: 2026, score: 0.5 }]),
+      now: clock(START + 7 * DAY),
+    });
+    expect(second.newItems.map(item => item.result.id)).toEqual(['semantic_scholar:fresh']);
+  });
+
+  it('records failing engines without adding them to the baseline', async () => {
+    const run = await runAlert(newAlert(), sources, [], {
+      fetch: fakeFetch({ 'api.semanticscholar.org': 500, 'dblp.org': 'not json' }),
+      now: clock(START),
+    });
+    expect(run.alert.baselineSources).toEqual([]);
+    expect(run.alert.errors).toEqual({
+      semantic_scholar: 'Request failed with status 500',
+      dblp: 'Response is not valid JSON',
+    });
+    expect(run.newItems).toEqual([]);
+  });
+
+  it('reports engines that can no longer be used for alerts', async () => {
+    const custom: SearchSource = { id: 'mine', name: 'Mine', url: 'https://example.org/?q={query}', description: '', isCustom: true };
+    const run = await runAlert(newAlert(['mine', 'gone']), [...sources, custom], [], {
+      fetch: fakeFetch({}),
+      now: clock(START),
+    });
+    expect(run.alert.errors).toEqual({ mine: ALERT_SOURCE_UNAVAILABLE, gone: ALERT_SOURCE_UNAVAILABLE });
+  });
+
+  it('rejects when the check is aborted', async () => {
+    const controller = new AbortController();
+    const aborting: typeof fetch = async () => {
+      controller.abort();
+      throw new DOMException('Aborted', 'AbortError');
+    };
+    await expect(
+      runAlert(newAlert(['dblp']), sources, [], { fetch: aborting, signal: controller.signal, now: clock(START) })
+    ).rejects.toThrow('Aborted');
+  });
+});
+
+describe('mergeAlertRun', () => {
+  const checked = (alert: SearchAlert) =>
+    completeAlertRun(alert, [{ sourceId: 'dblp', results: [] }, { sourceId: 'semantic_scholar', error: 'timeout' }], START + 1000);
+
+  it('keeps edits made while the check was running', () => {
+    const alert = newAlert();
+    const edited = { ...updateAlert(alert, { name: 'GNN', frequency: 'daily', notify: true }, START), paused: true };
+    expect(mergeAlertRun(edited, checked(alert))).toEqual({
+      ...edited,
+      lastCheckedAt: START + 1000,
+      nextCheckAt: START + 1000 + alertIntervals.daily,
+      baselineSources: ['dblp'],
+      errors: { semantic_scholar: 'timeout' },
+    });
+  });
+
+  it('discards the run when the query changed', () => {
+    const alert = newAlert();
+    expect(mergeAlertRun(updateAlert(alert, { query: 'transformers' }, START), checked(alert))).toBeNull();
+  });
+
+  it('keeps the alert due when engines were added during the check', () => {
+    const alert = newAlert(['dblp']);
+    const edited = updateAlert(alert, { sourceIds: ['dblp', 'arxiv'] }, START + 500);
+    const merged = mergeAlertRun(edited, completeAlertRun(alert, [{ sourceId: 'dblp', results: [] }], START + 1000));
+    expect(merged?.nextCheckAt).toBe(START + 500);
+    expect(merged?.baselineSources).toEqual(['dblp']);
+  });
+
+  it('drops errors for engines removed during the check', () => {
+    const alert = newAlert();
+    const edited = updateAlert(alert, { sourceIds: ['dblp'] }, START);
+    expect(mergeAlertRun(edited, checked(alert))?.errors).toEqual({});
+  });
+});
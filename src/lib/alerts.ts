@@ -0,0 +1,286 @@
+// 检索提醒: 按计划重新执行保存的查询, 只显示上次检查之后新出现的结果
+//
+// 提醒只能使用有开放 API 的搜索源 (arXiv、PubMed、DBLP、Semantic Scholar), 在应用打开期间按计划检查.
+// 还没有实现 Service Worker 中的后台检查: 页面关闭期间到期的检查在下次打开页面时执行.
+// 每个搜索源第一次检查时建立基线: 已有的结果记为已见, 不算新结果. 之后出现的结果作为未读的新结果.
+// 同一文献按 DOI / arXiv ID / PMID 识别, 从另一个搜索源再次返回时不重复提醒.
+// 检查获取的是最新的结果而不是相关度最高的: arXiv 和 PubMed 按日期从新到旧排序, Semantic Scholar 和 DBLP
+// 只能按相关度排序, 改为只取去年和今年的结果. 否则相关度排名的变化会漏掉新文献, 或把旧文献当成新的.
+// 检查逻辑不依赖界面, fetch 和时钟都可以注入, 便于用固定的响应数据测试.
+// 提醒定义和已见结果保存在 IndexedDB (见 db.ts).
+
+import type { SearchResult, SearchSource } from '../types';
+import { fetchSourceResults, getResultAdapter } from './adapters';
+import type { RecentYears } from './adapters';
+import { identityKeys } from './dedup';
+import { parseQuery } from './queryLanguage';
+import { get, getAll, getAllByIndex, put, remove } from './db';
+import { createId } from './storage';
+import type { MessageKey, Translate } from './i18n';
+
+export type AlertFrequency = 'daily' | 'weekly';
+
+const DAY = 24 * 60 * 60 * 1000;
+
+export const alertIntervals: { [key in AlertFrequency]: number } = {
+  daily: DAY,
+  weekly: 7 * DAY,
+};
+
+// 频率的界面文本键
+export const frequencyLabels: { [key in AlertFrequency]: MessageKey } = {
+  daily: 'alerts.frequency.daily',
+  weekly: 'alerts.frequency.weekly',
+};
+
+// 搜索源已删除或不再有结果适配器时记录的错误, 由界面翻译
+export const ALERT_SOURCE_UNAVAILABLE = 'source-unavailable';
+
+// 每个搜索源每次检查获取的结果数
+export const ALERT_RESULT_LIMIT = 50;
+
+// 检查时的 "最新": 去年和今年, 跨年时不会漏掉年底发表的文献
+export const recentYears = (time: number): RecentYears => {
+  const year = new Date(time).getUTCFullYear();
+  return { from: year - 1, to: year };
+};
+
+export interface SearchAlert {
+  id: string;
+  name: string;
+  query: string;
+  sourceIds: string[];
+  frequency: AlertFrequency;
+  // 发现新结果时显示浏览器通知
+  notify: boolean;
+  paused: boolean;
+  createdAt: number;
+  lastCheckedAt?: number;
+  nextCheckAt: number;
+  // 已建立基线的搜索源
+  baselineSources: string[];
+  // 上次检查失败的搜索源及错误信息
+  errors: { [sourceId: string]: string };
+}
+
+export interface AlertItem {
+  // `${提醒 ID}|${第一个识别键}`
+  id: string;
+  alertId: string;
+  // 识别键, 见 resultKeys
+  keys: string[];
+  result: SearchResult;
+  foundAt: number;
+  // 建立基线时已存在的结果, 不显示
+  baseline: boolean;
+  read: boolean;
+}
+
+export interface AlertDraft {
+  name: string;
+  query: string;
+  sourceIds: string[];
+  frequency: AlertFrequency;
+  notify: boolean;
+}
+
+export interface AlertRun {
+  alert: SearchAlert;
+  newItems: AlertItem[];
+}
+
+// 新建的提醒立即检查一次以建立基线
+export const createAlert = (draft: AlertDraft, now = Date.now()): SearchAlert => ({
+  id: createId('alert'),
+  name: draft.name.trim() || draft.query.trim(),
+  query: draft.query.trim(),
+  sourceIds: [...draft.sourceIds],
+  frequency: draft.frequency,
+  notify: draft.notify,
+  paused: false,
+  createdAt: now,
+  nextCheckAt: now,
+  baselineSources: [],
+  errors: {},
+});
+
+// 修改查询后重新建立基线; 新增的搜索源立即检查以建立各自的基线
+export const updateAlert = (alert: SearchAlert, changes: Partial<AlertDraft>, now = Date.now()): SearchAlert => {
+  const updated = { ...alert, ...changes, name: changes.name?.trim() || alert.name };
+  if (changes.query !== undefined && changes.query.trim() !== alert.query) {
+    return { ...updated, query: changes.query.trim(), baselineSources: [], nextCheckAt: now };
+  }
+  if (changes.sourceIds?.some(id => !alert.sourceIds.includes(id))) {
+    updated.nextCheckAt = now;
+  } else if (changes.frequency && changes.frequency !== alert.frequency) {
+    updated.nextCheckAt = (alert.lastCheckedAt ?? now) + alertIntervals[changes.frequency];
+  }
+  return updated;
+};
+
+// 恢复后过期的检查立即执行
+export const setAlertPaused = (alert: SearchAlert, paused: boolean): SearchAlert => ({ ...alert, paused });
+
+export const isAlertDue = (alert: SearchAlert, now = Date.now()) => !alert.paused && now >= alert.nextCheckAt;
+
+// 只有带结果适配器的搜索源可以用于提醒
+export const isAlertSource = (source: SearchSource) => getResultAdapter(source) !== undefined;
+
+// 识别键: 先用 DOI / arXiv ID / PMID, 最后是搜索源内的结果 ID
+export const resultKeys = (result: SearchResult) => [...identityKeys(result), result.id];
+
+export const isUnread = (item: AlertItem) => !item.baseline && !item.read;
+
+export const countUnread = (items: AlertItem[], alertId?: string) =>
+  items.filter(item => isUnread(item) && (alertId === undefined || item.alertId === alertId)).length;
+
+// ---- 比较 ----
+
+export interface SourceOutcome {
+  sourceId: string;
+  results?: SearchResult[];
+  error?: string;
+}
+
+// 找出之前没有见过的结果. 还没有建立基线的搜索源返回的结果标记为基线
+export const diffAlertResults = (
+  alert: SearchAlert,
+  knownItems: AlertItem[],
+  outcomes: SourceOutcome[],
+  now: number
+): AlertItem[] => {
+  const seen = new Set(knownItems.filter(item => item.alertId === alert.id).flatMap(item => item.keys));
+  const found: AlertItem[] = [];
+
+  outcomes.forEach(outcome => {
+    const baseline = !alert.baselineSources.includes(outcome.sourceId);
+    (outcome.results ?? []).forEach(result => {
+      const keys = resultKeys(result);
+      if (keys.some(key => seen.has(key))) return;
+      keys.forEach(key => seen.add(key));
+      found.push({
+        id: `${alert.id}|${keys[0]}`,
+        alertId: alert.id,
+        keys,
+        result,
+        foundAt: now,
+        baseline,
+        read: baseline,
+      });
+    });
+  });
+  return found;
+};
+
+// 记录一次检查的结果: 成功的搜索源加入基线, 安排下次检查
+export const completeAlertRun = (alert: SearchAlert, outcomes: SourceOutcome[], now: number): SearchAlert => {
+  const succeeded = outcomes.filter(outcome => outcome.results).map(outcome => outcome.sourceId);
+  const errors: { [sourceId: string]: string } = {};
+  outcomes.forEach(outcome => {
+    if (outcome.error !== undefined) errors[outcome.sourceId] = outcome.error;
+  });
+  return {
+    ...alert,
+    lastCheckedAt: now,
+    nextCheckAt: now + alertIntervals[alert.frequency],
+    baselineSources: Array.from(new Set([...alert.baselineSources, ...succeeded])),
+    errors,
+  };
+};
+
+// 把检查结果合并到最新的提醒: 检查期间用户可能修改了名称、频率、搜索源或暂停状态,
+// 这里只更新检查相关的字段. 检查期间查询被修改时返回 null, 结果属于旧查询, 应丢弃
+export const mergeAlertRun = (current: SearchAlert, checked: SearchAlert): SearchAlert | null => {
+  if (current.query !== checked.query || checked.lastCheckedAt === undefined) return null;
+  // 检查期间新增的搜索源还没有检查, 保持到期
+  const uncovered = current.sourceIds.some(id => !checked.sourceIds.includes(id));
+  return {
+    ...current,
+    lastCheckedAt: checked.lastCheckedAt,
+    nextCheckAt: uncovered ? current.nextCheckAt : checked.lastCheckedAt + alertIntervals[current.frequency],
+    baselineSources: Array.from(new Set([...current.baselineSources, ...checked.baselineSources])),
+    errors: Object.fromEntries(Object.entries(checked.errors).filter(([sourceId]) => current.sourceIds.includes(sourceId))),
+  };
+};
+
+// ---- 执行 ----
+
+export interface RunAlertOptions {
+  fetch?: typeof fetch;
+  signal?: AbortSignal;
+  now?: () => number;
+  limit?: number;
+}
+
+export const runAlert = async (
+  alert: SearchAlert,
+  sources: SearchSource[],
+  knownItems: AlertItem[],
+  options: RunAlertOptions = {}
+): Promise<AlertRun> => {
+  const now = options.now ?? Date.now;
+  const query = parseQuery(alert.query);
+  const recent = recentYears(now());
+
+  const outcomes = await Promise.all(
+    alert.sourceIds.map(async (sourceId): Promise<SourceOutcome> => {
+      const source = sources.find(s => s.id === sourceId);
+      if (!source || !isAlertSource(source)) {
+        return { sourceId, error: ALERT_SOURCE_UNAVAILABLE };
+      }
+      try {
+        const results = await fetchSourceResults(source, query, {
+          fetch: options.fetch,
+          signal: options.signal,
+          limit: options.limit ?? ALERT_RESULT_LIMIT,
+          recent,
+        });
+        return { sourceId, results };
+      } catch (error) {
+        if (options.signal?.aborted) throw error;
+        return { sourceId, error: error instanceof Error ? error.message : String(error) };
+      }
+    })
+  );
+
+  const checkedAt = now();
+  return {
+    alert: completeAlertRun(alert, outcomes, checkedAt),
+    newItems: diffAlertResults(alert, knownItems, outcomes, checkedAt),
+  };
+};
+
+// 浏览器通知的内容
+export const alertNotification = (alert: SearchAlert, newItems: AlertItem[], t: Translate) => {
+  const visible = newItems.filter(item => !item.baseline);
+  return {
+    title: t(visible.length === 1 ? 'alerts.notification.one' : 'alerts.notification', {
+      name: alert.name,
+      count: visible.length,
+    }),
+    body: visible.slice(0, 3).map(item => item.result.title).join('\n'),
+  };
+};
+
+// ---- 存储 ----
+
+export const loadAlerts = async () => {
+  const [alerts, items] = await Promise.all([getAll<SearchAlert>('alerts'), getAll<AlertItem>('alertItems')]);
+  return {
+    alerts: alerts.sort((a, b) => a.createdAt - b.createdAt),
+    items: items.sort((a, b) => b.foundAt - a.foundAt || a.result.rank - b.result.rank),
+  };
+};
+
+// 多个标签页同时打开时, 检查前重新读取, 跳过已被其他标签页检查过的提醒
+export const getStoredAlert = (alertId: string) => get<SearchAlert>('alerts', alertId);
+
+export const saveAlert = (alert: SearchAlert) => put('alerts', alert);
+
+export const saveAlertItems = (items: AlertItem[]) => Promise.all(items.map(item => put('alertItems', item)));
+
+export const deleteAlert = async (alertId: string) => {
+  const items = await getAllByIndex<AlertItem>('alertItems', 'alertId', alertId);
+  await Promise.all(items.map(item => remove('alertItems', item.id)));
+  await remove('alerts', alertId);
+};
@@ -0,0 +1,98 @@
+import { describe, expect, it } from 'vitest';
+import type { SearchSource } from '../types';
+import { buildBangIndex, normalizeBang, parseBangList, parseBangs, slugifyBang, validateBangs } from './bangs';
+import type { BangGroup } from './bangs';
+
+const source = (id: string, bangs?: string[]): SearchSource => ({
+  id,
+  name: id,
+  url: `https://example.org/${id}?q={query}`,
+  description: '',
+  category: 'academic',
+  ...(bangs && { bangs }),
+});
+
+const sources = [source('pubmed', ['pm']), source('arxiv', ['ax']), source('semantic_scholar', ['ss'])];
+const groups: BangGroup[] = [{ id: 'academic', name: 'Academic Search', sourceIds: ['pubmed', 'arxiv'] }];
+const index = buildBangIndex(sources, groups);
+
+describe('parseBangs', () => {
+  it('returns the query unchanged when there are no bangs', () => {
+    expect(parseBangs('crispr cas9', index)).toEqual({ query: 'crispr cas9', sourceIds: null, bangs: [], unknown: [] });
+  });
+
+  it('strips bangs anywhere in the query and collects their engines', () => {
+    expect(parseBangs('!pm crispr !AX', index)).toEqual({
+      query: 'crispr',
+      sourceIds: ['pubmed', 'arxiv'],
+      bangs: ['pm', 'ax'],
+      unknown: [],
+    });
+  });
+
+  it('resolves source IDs, category IDs and category names', () => {
+    expect(parseBangs('!semantic_scholar x', index).sourceIds).toEqual(['semantic_scholar']);
+    expect(parseBangs('!academic x', index).sourceIds).toEqual(['pubmed', 'arxiv']);
+    expect(parseBangs('!academic-search x', index).sourceIds).toEqual(['pubmed', 'arxiv']);
+  });
+
+  it('does not list an engine twice', () => {
+    expect(parseBangs('!pm !academic x', index).sourceIds).toEqual(['pubmed', 'arxiv']);
+  });
+
+  it('reports unknown bangs and removes them from the query', () => {
+    expect(parseBangs('!nope crispr', index)).toEqual({ query: 'crispr', sourceIds: null, bangs: [], unknown: ['nope'] });
+  });
+
+  it('ignores ! inside quotes and inside words', () => {
+    expect(parseBangs('"!pm exact" wow!pm', index)).toEqual({
+      query: '"!pm exact" wow!pm',
+      sourceIds: null,
+      bangs: [],
+      unknown: [],
+    });
+  });
+});
+
+describe('buildBangIndex', () => {
+  it('prefers explicit bangs over IDs and category aliases', () => {
+    const clashing = buildBangIndex([source('pubmed', ['arxiv']), source('arxiv')]);
+    expect(clashing.get('arxiv')).toEqual(['pubmed']);
+  });
+
+  it('skips empty groups', () => {
+    expect(buildBangIndex([], [{ id: 'empty', name: 'Empty', sourceIds: [] }]).has('empty')).toBe(false);
+  });
+});
+
+describe('validateBangs', () => {
+  it('accepts free, well-formed aliases', () => {
+    expect(validateBangs(['med', 'pm'], 'pubmed', sources, groups)).toEqual([]);
+  });
+
+  it('rejects malformed aliases', () => {
+    expect(validateBangs(['bad alias', '-x'], 'pubmed', sources)).toEqual([
+      { key: 'bangs.invalid', params: { bang: '!bad alias' } },
+      { key: 'bangs.invalid', params: { bang: '!-x' } },
+    ]);
+  });
+
+  it('rejects aliases used by other engines or categories', () => {
+    expect(validateBangs(['!AX', 'semantic_scholar', 'academic'], 'pubmed', sources, groups)).toEqual([
+      { key: 'bangs.taken', params: { bang: '!ax' } },
+      { key: 'bangs.taken', params: { bang: '!semantic_scholar' } },
+      { key: 'bangs.taken', params: { bang: '!academic' } },
+    ]);
+  });
+});
+
+describe('bang helpers', () => {
+  it('normalizes aliases', () => {
+    expect(normalizeBang(' !PM ')).toBe('pm');
+    expect(slugifyBang('Chinese Databases (CN)')).toBe('chinese-databases-cn');
+  });
+
+  it('parses a comma or space separated list without duplicates', () => {
+    expect(parseBangList('!foo, bar baz  !Foo')).toEqual(['foo', 'bar', 'baz']);
+  });
+});
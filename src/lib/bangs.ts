@@ -0,0 +1,116 @@
+// 搜索框中的 "bang" 快捷方式
+//
+//   !pm crispr             只搜 PubMed
+//   !ax !ss transformer    arXiv + Semantic Scholar
+//   !academic graph        整个分类
+//
+// 别名来源 (优先级从高到低): SearchSource.bangs、搜索源 ID、分类 ID、分类名称 (小写, 空格换成 -).
+// 引号内的 ! 不视为 bang.
+
+import type { SearchSource } from '../types';
+import { message } from './i18n';
+import type { Message } from './i18n';
+
+export interface BangGroup {
+  id: string;
+  name: string;
+  sourceIds: string[];
+}
+
+// 小写别名 -> 搜索源 ID 列表
+export type BangIndex = Map<string, string[]>;
+
+export interface ParsedBangs {
+  // 去掉 bang 后的查询
+  query: string;
+  // 没有 bang 时为 null, 表示使用当前选择
+  sourceIds: string[] | null;
+  bangs: string[];
+  unknown: string[];
+}
+
+const BANG_PATTERN = /^[a-z0-9][a-z0-9_.-]*$/;
+const BANG_TOKEN = /(^|\s)!([^\s!"]+)(?=\s|$)/g;
+
+export const normalizeBang = (alias: string) => alias.trim().replace(/^!/, '').toLowerCase();
+
+export const slugifyBang = (name: string) =>
+  name
+    .trim()
+    .toLowerCase()
+    .replace(/\s+/g, '-')
+    .replace(/[^a-z0-9_.-]/g, '');
+
+export const buildBangIndex = (sources: SearchSource[], groups: BangGroup[] = []): BangIndex => {
+  const index: BangIndex = new Map();
+  const add = (alias: string, sourceIds: string[]) => {
+    const key = normalizeBang(alias);
+    if (key && !index.has(key) && sourceIds.length > 0) index.set(key, sourceIds);
+  };
+
+  sources.forEach(source => source.bangs?.forEach(bang => add(bang, [source.id])));
+  sources.forEach(source => add(source.id, [source.id]));
+  groups.forEach(group => add(group.id, group.sourceIds));
+  groups.forEach(group => add(slugifyBang(group.name), group.sourceIds));
+  return index;
+};
+
+// 按引号切分, 只在引号外替换
+const mapOutsideQuotes = (input: string, replace: (segment: string) => string) =>
+  input
+    .split(/("[^"]*"?)/)
+    .map((segment, i) => (i % 2 === 1 ? segment : replace(segment)))
+    .join('');
+
+export const parseBangs = (input: string, index: BangIndex): ParsedBangs => {
+  const bangs: string[] = [];
+  const unknown: string[] = [];
+  const sourceIds: string[] = [];
+
+  const query = mapOutsideQuotes(input, segment =>
+    segment.replace(BANG_TOKEN, (_, leading: string, alias: string) => {
+      const key = alias.toLowerCase();
+      const target = index.get(key);
+      if (target) {
+        bangs.push(key);
+        target.forEach(id => {
+          if (!sourceIds.includes(id)) sourceIds.push(id);
+        });
+      } else {
+        unknown.push(key);
+      }
+      return leading;
+    })
+  )
+    .replace(/\s+/g, ' ')
+    .trim();
+
+  return { query, sourceIds: bangs.length > 0 ? sourceIds : null, bangs, unknown };
+};
+
+// 自定义别名: 格式正确且不与其他搜索源冲突; 返回错误信息列表
+export const validateBangs = (
+  aliases: string[],
+  sourceId: string,
+  sources: SearchSource[],
+  groups: BangGroup[] = []
+): Message[] => {
+  const errors: Message[] = [];
+  const others = buildBangIndex(
+    sources.filter(source => source.id !== sourceId),
+    groups
+  );
+  aliases.forEach(alias => {
+    const key = normalizeBang(alias);
+    if (!BANG_PATTERN.test(key)) {
+      errors.push(message('bangs.invalid', { bang: `!${key}` }));
+    } else if (others.has(key)) {
+      errors.push(message('bangs.taken', { bang: `!${key}` }));
+    }
+  });
+  return errors;
+};
+
+// 表单输入 "!foo, bar baz" -> ['foo', 'bar', 'baz']
+export const parseBangList = (text: string) =>
+  Array.from(new Set(text.split(/[\s,]+/).map(normalizeBang).filter(Boolean)));
@@ -0,0 +1,205 @@
+import { describe, expect, it } from 'vitest';
+import type { CollectionItem } from './collections';
+import {
+  assignCitationKeys,
+  baseCitationKey,
+  escapeBibtex,
+  splitName,
+  toBibTeX,
+  toCslItems,
+  toCslJson,
+  toRIS,
+} from './citationExport';
+
+const item = (id: string, extra: Partial<CollectionItem> = {}): CollectionItem => ({
+  id,
+  collectionId: 'c1',
+  addedAt: 1000,
+  title: 'Attention Is All You Need',
+  authors: ['Ashish Vaswani', 'Noam Shazeer'],
+  year: 2017,
+  url: `https://example.org/${id}`,
+  tags: [],
+  note: '',
+  status: 'unread',
+  ...extra,
+});
+
+const ATTENTION = item('i1', {
+  venue: 'Advances in Neural Information Processing Systems',
+  doi: '10.5555/3295222.3295349',
+  tags: ['transformers', 'nlp'],
+  note: 'Read section 3',
+});
+
+const PREPRINT = item('i2', {
+  addedAt: 2000,
+  title: 'The Unreasonable Effectiveness of Data_Sets & {Braces}',
+  authors: ['Müller, José'],
+  year: undefined,
+  venue: 'arXiv',
+  arxivId: '2401.01234',
+  abstract: 'Costs 100% of $5 ~ 2^3\nover two lines',
+});
+
+describe('baseCitationKey', () => {
+  it('combines the first author, year and first significant title word', () => {
+    expect(baseCitationKey(ATTENTION)).toBe('vaswani2017attention');
+    expect(baseCitationKey(PREPRINT)).toBe('mullerndunreasonable');
+    expect(baseCitationKey(item('x', { authors: [], title: 'On the Origin' }))).toBe('anon2017origin');
+  });
+});
+
+describe('assignCitationKeys', () => {
+  const first = item('a1', { addedAt: 1000 });
+  const second = item('a2', { addedAt: 2000, title: 'Attention please' });
+  const third = item('a3', { addedAt: 3000, title: 'Attention, again' });
+  const other = item('b1', { addedAt: 1500, title: 'Graph networks' });
+
+  it('adds suffixes in the order items were added, whatever the input order', () => {
+    const expected = { a1: 'vaswani2017attentiona', a2: 'vaswani2017attentionb', b1: 'vaswani2017graph' };
+    expect(Object.fromEntries(assignCitationKeys([first, second, other]))).toEqual(expected);
+    expect(Object.fromEntries(assignCitationKeys([other, second, first]))).toEqual(expected);
+  });
+
+  it('keeps existing keys when a later item joins the group', () => {
+    const keys = assignCitationKeys([third, first, second]);
+    expect([keys.get('a1'), keys.get('a2'), keys.get('a3')]).toEqual([
+      'vaswani2017attentiona',
+      'vaswani2017attentionb',
+      'vaswani2017attentionc',
+    ]);
+  });
+
+  it('breaks ties on the same time by item ID', () => {
+    const keys = assignCitationKeys([item('z', { addedAt: 5 }), item('m', { addedAt: 5 })]);
+    expect([keys.get('m'), keys.get('z')]).toEqual(['vaswani2017attentiona', 'vaswani2017attentionb']);
+  });
+
+  it('continues past z with two letters', () => {
+    const many = Array.from({ length: 28 }, (_, i) => item(`n${i}`, { addedAt: i }));
+    const keys = assignCitationKeys(many);
+    expect([keys.get('n25'), keys.get('n26'), keys.get('n27')]).toEqual([
+      'vaswani2017attentionz',
+      'vaswani2017attentionaa',
+      'vaswani2017attentionab',
+    ]);
+  });
+});
+
+describe('splitName', () => {
+  it('reads "Family, Given" and "Given Family"', () => {
+    expect(splitName('Vaswani, Ashish')).toEqual({ family: 'Vaswani', given: 'Ashish' });
+    expect(splitName('Yann Le Cun')).toEqual({ family: 'Cun', given: 'Yann Le' });
+    expect(splitName('Plato')).toEqual({ family: 'Plato', given: undefined });
+  });
+});
+
+describe('escapeBibtex', () => {
+  it('escapes special characters and braces', () => {
+    expect(escapeBibtex('a_b & {c} 100% $5 #1 ~ ^ \\')).toBe(
+      'a\\_b \\& \\{c\\} 100\\% \\$5 \\#1 \\textasciitilde{} \\textasciicircum{} \\textbackslash{}'
+    );
+  });
+});
+
+describe('toBibTeX', () => {
+  it('writes journal articles and preprints', () => {
+    expect(toBibTeX([PREPRINT, ATTENTION])).toBe(
+      [
+        '@article{vaswani2017attention,',
+        '  title = {{Attention Is All You Need}},',
+        '  author = {Vaswani, Ashish and Shazeer, Noam},',
+        '  year = {2017},',
+        '  journal = {Advances in Neural Information Processing Systems},',
+        '  doi = {10.5555/3295222.3295349},',
+        '  url = {https://example.org/i1},',
+        '  keywords = {transformers, nlp},',
+        '  annote = {Read section 3}',
+        '}',
+        '',
+        '@misc{mullerndunreasonable,',
+        '  title = {{The Unreasonable Effectiveness of Data\\_Sets \\& \\{Braces\\}}},',
+        '  author = {Müller, José},',
+        '  howpublished = {arXiv},',
+        '  eprint = {2401.01234},',
+        '  archiveprefix = {arXiv},',
+        '  url = {https://example.org/i2},',
+        '  abstract = {Costs 100\\% of \\$5 \\textasciitilde{} 2\\textasciicircum{}3\nover two lines}',
+        '}',
+        '',
+      ].join('\n')
+    );
+  });
+
+  it('is empty for an empty collection', () => {
+    expect(toBibTeX([])).toBe('');
+  });
+});
+
+describe('toRIS', () => {
+  it('writes one record per item with CRLF line ends', () => {
+    expect(toRIS([ATTENTION, PREPRINT]).split('\r\n')).toEqual([
+      'TY  - JOUR',
+      'ID  - vaswani2017attention',
+      'TI  - Attention Is All You Need',
+      'AU  - Vaswani, Ashish',
+      'AU  - Shazeer, Noam',
+      'PY  - 2017',
+      'JO  - Advances in Neural Information Processing Systems',
+      'DO  - 10.5555/3295222.3295349',
+      'UR  - https://example.org/i1',
+      'KW  - transformers',
+      'KW  - nlp',
+      'N1  - Read section 3',
+      'ER  - ',
+      'TY  - GEN',
+      'ID  - mullerndunreasonable',
+      'TI  - The Unreasonable Effectiveness of Data_Sets & {Braces}',
+      'AU  - Müller, José',
+      'JO  - arXiv',
+      'UR  - https://example.org/i2',
+      // 换行会破坏 RIS 的行格式, 替换为空格
+      'AB  - Costs 100% of $5 ~ 2^3 over two lines',
+      'ER  - ',
+      '',
+    ]);
+  });
+});
+
+describe('toCslItems', () => {
+  it('maps items to CSL-JSON with the citation keys as IDs', () => {
+    expect(toCslItems([PREPRINT, ATTENTION])).toEqual([
+      {
+        id: 'vaswani2017attention',
+        type: 'article-journal',
+        title: 'Attention Is All You Need',
+        author: [
+          { family: 'Vaswani', given: 'Ashish' },
+          { family: 'Shazeer', given: 'Noam' },
+        ],
+        issued: { 'date-parts': [[2017]] },
+        'container-title': 'Advances in Neural Information Processing Systems',
+        DOI: '10.5555/3295222.3295349',
+        URL: 'https://example.org/i1',
+        keyword: 'transformers, nlp',
+        note: 'Read section 3',
+      },
+      {
+        id: 'mullerndunreasonable',
+        type: 'article',
+        title: 'The Unreasonable Effectiveness of Data_Sets & {Braces}',
+        author: [{ family: 'Müller', given: 'José' }],
+        'container-title': 'arXiv',
+        URL: 'https://example.org/i2',
+        abstract: 'Costs 100% of $5 ~ 2^3\nover two lines',
+        note: 'arXiv: 2401.01234',
+      },
+    ]);
+  });
+
+  it('serializes the same items to identical JSON on every export', () => {
+    expect(toCslJson([ATTENTION, PREPRINT])).toBe(toCslJson([PREPRINT, ATTENTION]));
+    expect(JSON.parse(toCslJson([ATTENTION]))).toEqual(toCslItems([ATTENTION]));
+  });
+});
@@ -0,0 +1,198 @@
+// 收藏集导出: BibTeX、RIS、CSL-JSON
+//
+// 引用键由第一作者姓氏 + 年份 + 标题第一个实词组成 (例如 vaswani2017attention).
+// 重复的键按加入时间依次加后缀 a、b、c..., 所以同一批条目每次导出的键都相同.
+
+import type { CollectionItem } from './collections';
+import { familyName, normalizeTitle } from './dedup';
+
+const STOP_WORDS = new Set([
+  'a', 'an', 'the', 'on', 'of', 'in', 'for', 'to', 'and', 'with', 'towards', 'toward', 'via', 'from', 'by', 'at', 'is',
+]);
+
+const asciiWord = (text: string) => normalizeTitle(text).replace(/ /g, '');
+
+export const baseCitationKey = (item: CollectionItem) => {
+  const author = asciiWord(familyName(item.authors[0]) ?? '') || 'anon';
+  const year = item.year ? String(item.year) : 'nd';
+  const titleWord = item.title
+    .split(/\s+/)
+    .map(asciiWord)
+    .find(word => word && !STOP_WORDS.has(word)) ?? '';
+  return `${author}${year}${titleWord}`;
+};
+
+const byAddedOrder = (a: CollectionItem, b: CollectionItem) => a.addedAt - b.addedAt || a.id.localeCompare(b.id);
+
+// 0 -> a, 25 -> z, 26 -> aa
+const suffix = (index: number): string =>
+  (index >= 26 ? suffix(Math.floor(index / 26) - 1) : '') + String.fromCharCode(97 + (index % 26));
+
+// 返回条目 ID 到引用键的映射
+export const assignCitationKeys = (items: CollectionItem[]): Map<string, string> => {
+  const groups = new Map<string, CollectionItem[]>();
+  [...items].sort(byAddedOrder).forEach(item => {
+    const key = baseCitationKey(item);
+    groups.set(key, [...(groups.get(key) ?? []), item]);
+  });
+
+  const keys = new Map<string, string>();
+  groups.forEach((group, key) => {
+    group.forEach((item, i) => {
+      keys.set(item.id, group.length === 1 ? key : `${key}${suffix(i)}`);
+    });
+  });
+  return keys;
+};
+
+export const splitName = (name: string): { family: string; given?: string } => {
+  if (name.includes(',')) {
+    const [family, ...given] = name.split(',');
+    return { family: family.trim(), given: given.join(',').trim() || undefined };
+  }
+  const parts = name.trim().split(/\s+/);
+  const family = parts.pop() ?? '';
+  return { family, given: parts.join(' ') || undefined };
+};
+
+const PREPRINT_VENUE = /^(arxiv|corr|biorxiv|medrxiv)\b/i;
+const isJournalArticle = (item: CollectionItem) => Boolean(item.venue && !PREPRINT_VENUE.test(item.venue));
+
+const sortedItems = (items: CollectionItem[]) => [...items].sort(byAddedOrder);
+
+// ---- BibTeX ----
+
+const BIBTEX_COMMANDS: { [char: string]: string } = {
+  '\\': '\\textbackslash{}',
+  '~': '\\textasciitilde{}',
+  '^': '\\textasciicircum{}',
+};
+
+// 一次替换完成, 以免替换结果中的花括号再被转义
+export const escapeBibtex = (text: string) =>
+  text.replace(/[\\~^{}&%$#_]/g, char => BIBTEX_COMMANDS[char] ?? `\\${char}`);
+
+export const toBibTeX = (items: CollectionItem[]) => {
+  const keys = assignCitationKeys(items);
+  return sortedItems(items)
+    .map(item => {
+      const fields: [string, string | undefined][] = [
+        // 双层花括号保留标题大小写
+        ['title', `{${escapeBibtex(item.title)}}`],
+        ['author', item.authors.length > 0
+          ? item.authors
+              .map(splitName)
+              .map(name => escapeBibtex(name.given ? `${name.family}, ${name.given}` : name.family))
+              .join(' and ')
+          : undefined],
+        ['year', item.year ? String(item.year) : undefined],
+        [isJournalArticle(item) ? 'journal' : 'howpublished', item.venue ? escapeBibtex(item.venue) : undefined],
+        ['doi', item.doi],
+        ['eprint', item.arxivId],
+        ['archiveprefix', item.arxivId ? 'arXiv' : undefined],
+        ['pmid', item.pmid],
+        ['url', item.url],
+        ['abstract', item.abstract ? escapeBibtex(item.abstract) : undefined],
+        ['keywords', item.tags.length > 0 ? escapeBibtex(item.tags.join(', ')) : undefined],
+        ['annote', item.note ? escapeBibtex(item.note) : undefined],
+      ];
+      const body = fields
+        .filter(([, value]) => value)
+        .map(([name, value]) => `  ${name} = {${value}}`)
+        .join(',\n');
+      return `@${isJournalArticle(item) ? 'article' : 'misc'}{${keys.get(item.id)},\n${body}\n}`;
+    })
+    .join('\n\n')
+    .concat(items.length > 0 ? '\n' : '');
+};
+
+// ---- RIS ----
+
+const RIS_LINE_END = '\r\n';
+
+export const toRIS = (items: CollectionItem[]) => {
+  const keys = assignCitationKeys(items);
+  return sortedItems(items)
+    .map(item => {
+      const lines: [string, string | undefined][] = [
+        ['TY', isJournalArticle(item) ? 'JOUR' : 'GEN'],
+        ['ID', keys.get(item.id)],
+        ['TI', item.title],
+        ...item.authors.map(author => {
+          const name = splitName(author);
+          return ['AU', name.given ? `${name.family}, ${name.given}` : name.family] as [string, string];
+        }),
+        ['PY', item.year ? String(item.year) : undefined],
+        ['JO', item.venue],
+        ['DO', item.doi],
+        ['UR', item.url],
+        ['AB', item.abstract],
+        ...item.tags.map(tag => ['KW', tag] as [string, string]),
+        ['N1', item.note || undefined],
+        ['ER', ''],
+      ];
+      return lines
+        .filter(([tag, value]) => value !== undefined && (value !== '' || tag === 'ER'))
+        .map(([tag, value]) => `${tag}  - ${(value ?? '').replace(/\r?\n/g, ' ')}`)
+        .join(RIS_LINE_END);
+    })
+    .join(RIS_LINE_END)
+    .concat(items.length > 0 ? RIS_LINE_END : '');
+};
+
+// ---- CSL-JSON ----
+
+export interface CslItem {
+  id: string;
+  type: string;
+  title: string;
+  author?: { family: string; given?: string }[];
+  issued?: { 'date-parts': number[][] };
+  'container-title'?: string;
+  DOI?: string;
+  PMID?: string;
+  URL?: string;
+  abstract?: string;
+  keyword?: string;
+  note?: string;
+}
+
+export const toCslItems = (items: CollectionItem[]): CslItem[] => {
+  const keys = assignCitationKeys(items);
+  return sortedItems(items).map(item => {
+    const csl: CslItem = {
+      id: keys.get(item.id) ?? item.id,
+      type: isJournalArticle(item) ? 'article-journal' : 'article',
+      title: item.title,
+    };
+    if (item.authors.length > 0) csl.author = item.authors.map(splitName);
+    if (item.year) csl.issued = { 'date-parts': [[item.year]] };
+    if (item.venue) csl['container-title'] = item.venue;
+    if (item.doi) csl.DOI = item.doi;
+    if (item.pmid) csl.PMID = item.pmid;
+    csl.URL = item.url;
+    if (item.abstract) csl.abstract = item.abstract;
+    if (item.tags.length > 0) csl.keyword = item.tags.join(', ');
+    // CSL 没有 arXiv 字段, 放在 note 中 (citeproc 会识别 "arXiv: ..." 形式)
+    const notes = [item.arxivId ? `arXiv: ${item.arxivId}` : '', item.note].filter(Boolean);
+    if (notes.length > 0) csl.note = notes.join('\n');
+    return csl;
+  });
+};
+
+export const toCslJson = (items: CollectionItem[]) => `${JSON.stringify(toCslItems(items), null, 2)}\n`;
+
+export type ExportFormat = 'bibtex' | 'ris' | 'csl-json';
+
+interface ExportFormatSpec {
+  label: string;
+  extension: string;
+  mimeType: string;
+  render: (items: CollectionItem[]) => string;
+}
+
+export const exportFormats: { [key in ExportFormat]: ExportFormatSpec } = {
+  bibtex: { label: 'BibTeX', extension: 'bib', mimeType: 'application/x-bibtex', render: toBibTeX },
+  ris: { label: 'RIS', extension: 'ris', mimeType: 'application/x-research-info-systems', render: toRIS },
+  'csl-json': { label: 'CSL-JSON', extension: 'json', mimeType: 'application/vnd.citationstyles.csl+json', render: toCslJson },
+};
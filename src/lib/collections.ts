@@ -0,0 +1,137 @@
+// 收藏集: 保存检索结果或手动添加的文献, 支持标签、批注和阅读状态
+// 数据存放在 IndexedDB (见 db.ts)
+
+import type { SearchResult } from '../types';
+import type { MergedResult } from './dedup';
+import { getAll, getAllByIndex, put, remove } from './db';
+import { detectIdentifier } from './identifiers';
+import type { MessageKey } from './i18n';
+import { createId } from './storage';
+
+export type ReadStatus = 'unread' | 'reading' | 'read';
+
+export interface Collection {
+  id: string;
+  name: string;
+  createdAt: number;
+}
+
+export interface CollectionItem {
+  id: string;
+  collectionId: string;
+  addedAt: number;
+  title: string;
+  authors: string[];
+  year?: number;
+  venue?: string;
+  doi?: string;
+  arxivId?: string;
+  pmid?: string;
+  abstract?: string;
+  url: string;
+  tags: string[];
+  note: string;
+  status: ReadStatus;
+}
+
+// 阅读状态的界面文本键
+export const readStatusLabels: { [key in ReadStatus]: MessageKey } = {
+  unread: 'collections.status.unread',
+  reading: 'collections.status.reading',
+  read: 'collections.status.read',
+};
+
+export type SavableResult = Pick<
+  SearchResult | MergedResult,
+  'title' | 'authors' | 'year' | 'venue' | 'doi' | 'arxivId' | 'pmid' | 'abstract' | 'url'
+>;
+
+// 名称由界面提供, 空名称在界面中就被拒绝
+export const createCollection = (name: string): Collection => ({
+  id: createId('collection'),
+  name: name.trim(),
+  createdAt: Date.now(),
+});
+
+export const createItemFromResult = (collectionId: string, result: SavableResult): CollectionItem => ({
+  id: createId('item'),
+  collectionId,
+  addedAt: Date.now(),
+  title: result.title,
+  authors: [...result.authors],
+  year: result.year,
+  venue: result.venue,
+  doi: result.doi,
+  arxivId: result.arxivId,
+  pmid: result.pmid,
+  abstract: result.abstract,
+  url: result.url,
+  tags: [],
+  note: '',
+  status: 'unread',
+});
+
+// 手动粘贴的 DOI / arXiv ID / PMID / ISBN / URL, 无法识别时返回 null
+export const createItemFromIdentifier = (collectionId: string, input: string, title = ''): CollectionItem | null => {
+  const identifier = detectIdentifier(input);
+  if (!identifier) return null;
+
+  const base = { title: title.trim() || identifier.value, authors: [] as string[] };
+  switch (identifier.type) {
+    case 'doi':
+      return createItemFromResult(collectionId, { ...base, doi: identifier.value, url: `https://doi.org/${identifier.value}` });
+    case 'arxiv':
+      return createItemFromResult(collectionId, {
+        ...base,
+        arxivId: identifier.value,
+        url: `https://arxiv.org/abs/${identifier.value}`,
+      });
+    case 'pmid':
+      return createItemFromResult(collectionId, {
+        ...base,
+        pmid: identifier.value,
+        url: `https://pubmed.ncbi.nlm.nih.gov/${identifier.value}/`,
+      });
+    case 'isbn':
+      return createItemFromResult(collectionId, { ...base, url: `https://openlibrary.org/isbn/${identifier.value}` });
+    case 'url':
+      return createItemFromResult(collectionId, { ...base, url: identifier.value });
+  }
+};
+
+// 同一收藏集中已有相同 DOI / arXiv ID / PMID / URL 的条目
+export const findDuplicateItem = (items: CollectionItem[], item: CollectionItem) =>
+  items.find(
+    existing =>
+      existing.collectionId === item.collectionId &&
+      ((item.doi && existing.doi?.toLowerCase() === item.doi.toLowerCase()) ||
+        (item.arxivId && existing.arxivId === item.arxivId) ||
+        (item.pmid && existing.pmid === item.pmid) ||
+        existing.url === item.url)
+  );
+
+export const parseTags = (text: string) =>
+  Array.from(new Set(text.split(',').map(tag => tag.trim()).filter(Boolean)));
+
+export const loadCollections = async () => {
+  const [collections, items] = await Promise.all([
+    getAll<Collection>('collections'),
+    getAll<CollectionItem>('collectionItems'),
+  ]);
+  return {
+    collections: collections.sort((a, b) => a.createdAt - b.createdAt),
+    items: items.sort((a, b) => a.addedAt - b.addedAt),
+  };
+};
+
+export const saveCollection = (collection: Collection) => put('collections', collection);
+
+export const deleteCollection = async (collectionId: string) => {
+  const items = await getAllByIndex<CollectionItem>('collectionItems', 'collectionId', collectionId);
+  await Promise.all(items.map(item => remove('collectionItems', item.id)));
+  await remove('collections', collectionId);
+};
+
+export const saveItem = (item: CollectionItem) => put('collectionItems', item);
+
+export const deleteItem = (itemId: string) => remove('collectionItems', itemId);
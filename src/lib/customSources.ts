@@ -0,0 +1,10 @@
+import type { SearchSource } from '../types';
+import { createStorageSlot } from './storage';
+
+// 旧版本直接保存 SearchSource 数组, 迁移时原样保留
+export const customSourcesStorage = createStorageSlot<SearchSource[]>({
+  key: 'customSearchSources',
+  version: 1,
+  defaultValue: () => [],
+  migrate: (data, fromVersion) => (fromVersion === 0 && Array.isArray(data) ? data : undefined),
+});
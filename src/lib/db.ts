@@ -0,0 +1,105 @@
+// IndexedDB 封装
+//
+// 数据量可能很大的数据 (收藏集等) 存在 IndexedDB 中, 其余设置仍使用 localStorage.
+// 新增对象仓库时在 migrations 末尾追加一项, 数据库版本号随之增加.
+
+export const DB_NAME = 'literesearch';
+
+type Migration = (db: IDBDatabase) => void;
+
+const migrations: Migration[] = [
+  // v1: 收藏集
+  db => {
+    db.createObjectStore('collections', { keyPath: 'id' });
+    const items = db.createObjectStore('collectionItems', { keyPath: 'id' });
+    items.createIndex('collectionId', 'collectionId');
+  },
+  // v2: 系统综述检索日志
+  db => {
+    db.createObjectStore('reviewProjects', { keyPath: 'id' });
+    const entries = db.createObjectStore('reviewEntries', { keyPath: 'id' });
+    entries.createIndex('projectId', 'projectId');
+    const amendments = db.createObjectStore('reviewAmendments', { keyPath: 'id' });
+    amendments.createIndex('projectId', 'projectId');
+  },
+  // v3: 检索提醒
+  db => {
+    db.createObjectStore('alerts', { keyPath: 'id' });
+    const items = db.createObjectStore('alertItems', { keyPath: 'id' });
+    items.createIndex('alertId', 'alertId');
+  },
+];
+
+export type StoreName =
+  | 'collections'
+  | 'collectionItems'
+  | 'reviewProjects'
+  | 'reviewEntries'
+  | 'reviewAmendments'
+  | 'alerts'
+  | 'alertItems';
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const promisify = <T>(request: IDBRequest<T>): Promise<T> =>
+  new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+export const openDatabase = (): Promise<IDBDatabase> => {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, migrations.length);
+      request.onupgradeneeded = event => {
+        const db = request.result;
+        for (let version = event.oldVersion; version < migrations.length; version++) {
+          migrations[version](db);
+        }
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+      request.onblocked = () => reject(new Error('Database upgrade blocked by another open tab'));
+    });
+    // 打开失败后允许重试
+    dbPromise.catch(() => {
+      dbPromise = null;
+    });
+  }
+  return dbPromise;
+};
+
+const withStore = async <T>(
+  storeName: StoreName,
+  mode: IDBTransactionMode,
+  run: (store: IDBObjectStore) => IDBRequest<T>
+): Promise<T> => {
+  const db = await openDatabase();
+  const transaction = db.transaction(storeName, mode);
+  const result = await promisify(run(transaction.objectStore(storeName)));
+  await new Promise<void>((resolve, reject) => {
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () => reject(transaction.error);
+  });
+  return result;
+};
+
+export const getAll = <T>(storeName: StoreName) =>
+  withStore<T[]>(storeName, 'readonly', store => store.getAll());
+
+export const get = <T>(storeName: StoreName, key: IDBValidKey) =>
+  withStore<T | undefined>(storeName, 'readonly', store => store.get(key));
+
+export const getAllByIndex = <T>(storeName: StoreName, index: string, key: IDBValidKey) =>
+  withStore<T[]>(storeName, 'readonly', store => store.index(index).getAll(key));
+
+export const put = <T>(storeName: StoreName, value: T) =>
+  withStore(storeName, 'readwrite', store => store.put(value)).then(() => value);
+
+// 只插入, 主键已存在时失败 (用于不可修改的记录)
+export const add = <T>(storeName: StoreName, value: T) =>
+  withStore(storeName, 'readwrite', store => store.add(value)).then(() => value);
+
+export const remove = (storeName: StoreName, key: IDBValidKey) =>
+  withStore(storeName, 'readwrite', store => store.delete(key)).then(() => undefined);
@@ -0,0 +1,178 @@
+import { describe, expect, it } from 'vitest';
+import type { SearchResult } from '../types';
+import {
+  clusterResults,
+  defaultDedupOptions,
+  fusionScore,
+  hasConflictingIdentity,
+  identityKeys,
+  isFuzzyMatch,
+  mergeCluster,
+  mergeResults,
+  titleSimilarity,
+} from './dedup';
+
+const TITLE = 'Attention Is All You Need';
+
+const result = (sourceId: string, id: string, extra: Partial<SearchResult> = {}): SearchResult => ({
+  id: `${sourceId}:${id}`,
+  sourceId,
+  rank: 0,
+  title: TITLE,
+  authors: ['Ashish Vaswani', 'Noam Shazeer'],
+  year: 2017,
+  url: `https://example.org/${sourceId}/${id}`,
+  ...extra,
+});
+
+// 每个搜索源返回 size 条互不相同的结果 (第一作者不同, 不会按标题合并)
+const ranked = (sourceId: string, size: number) =>
+  Array.from({ length: size }, (_, rank) =>
+    result(sourceId, `r${rank}`, { rank, title: `${sourceId} ${rank}`, authors: [`Author ${sourceId}${rank}`] })
+  );
+
+describe('identityKeys', () => {
+  it('normalizes DOIs and treats arXiv DOIs as arXiv IDs', () => {
+    expect(identityKeys(result('a', '1', { doi: 'https://doi.org/10.1000/ABC', pmid: ' 123 ' }))).toEqual([
+      'doi:10.1000/abc',
+      'pmid:123',
+    ]);
+    expect(identityKeys(result('a', '1', { doi: '10.48550/arXiv.1706.03762', arxivId: 'arXiv:1706.03762v5' }))).toEqual([
+      'arxiv:1706.03762',
+      'arxiv:1706.03762',
+    ]);
+  });
+});
+
+describe('hasConflictingIdentity', () => {
+  it('conflicts only when the same kind of ID has no common value', () => {
+    expect(hasConflictingIdentity(['doi:10.1/a'], ['doi:10.1/b'])).toBe(true);
+    expect(hasConflictingIdentity(['doi:10.1/a', 'pmid:1'], ['doi:10.1/a', 'pmid:2'])).toBe(true);
+    expect(hasConflictingIdentity(['doi:10.1/a', 'arxiv:1706.03762'], ['doi:10.1/a'])).toBe(false);
+    expect(hasConflictingIdentity(['doi:10.1/a'], ['pmid:1'])).toBe(false);
+    expect(hasConflictingIdentity([], ['doi:10.1/a'])).toBe(false);
+  });
+});
+
+describe('titleSimilarity', () => {
+  it('ignores case, punctuation, markup and accents', () => {
+    expect(titleSimilarity(TITLE, 'attention is all you need.')).toBe(1);
+    expect(titleSimilarity('<i>Café</i> society', 'Cafe Society')).toBe(1);
+    expect(titleSimilarity('', TITLE)).toBe(0);
+  });
+
+  it('scores small spelling differences above the default threshold', () => {
+    expect(titleSimilarity(TITLE, 'Attention is all you needs')).toBeGreaterThanOrEqual(defaultDedupOptions.titleThreshold);
+    expect(titleSimilarity(TITLE, 'Attention is not all you need')).toBeLessThan(defaultDedupOptions.titleThreshold);
+  });
+});
+
+describe('isFuzzyMatch', () => {
+  const preprint = result('arxiv', '1706.03762', { year: 2017 });
+
+  it('matches near-identical titles by the same first author within the year tolerance', () => {
+    expect(isFuzzyMatch(preprint, result('dblp', 'x', { title: 'Attention is all you need.', year: 2018 }))).toBe(true);
+    expect(isFuzzyMatch(preprint, result('dblp', 'x', { authors: [] }))).toBe(true);
+  });
+
+  it('rejects other authors, distant years and titles below the threshold', () => {
+    expect(isFuzzyMatch(preprint, result('dblp', 'x', { authors: ['Vaswani, A.'] }))).toBe(true);
+    expect(isFuzzyMatch(preprint, result('dblp', 'x', { authors: ['Jakob Uszkoreit'] }))).toBe(false);
+    expect(isFuzzyMatch(preprint, result('dblp', 'x', { year: 2019 }))).toBe(false);
+    expect(isFuzzyMatch(preprint, result('dblp', 'x', { year: 2019 }), { ...defaultDedupOptions, yearTolerance: 2 })).toBe(true);
+
+    const similar = result('dblp', 'x', { title: 'Attention is all you needs' });
+    expect(isFuzzyMatch(preprint, similar)).toBe(true);
+    expect(isFuzzyMatch(preprint, similar, { ...defaultDedupOptions, titleThreshold: 1 })).toBe(false);
+  });
+
+  it('rejects records whose IDs of the same kind differ', () => {
+    const a = result('crossref', 'a', { doi: '10.1000/a' });
+    expect(isFuzzyMatch(a, result('crossref', 'b', { doi: '10.1000/b' }))).toBe(false);
+    expect(isFuzzyMatch(a, result('pubmed', '1', { pmid: '1' }))).toBe(true);
+  });
+});
+
+describe('clusterResults', () => {
+  it('groups records that share an ID even when their titles differ', () => {
+    const clusters = clusterResults([
+      result('arxiv', '1', { arxivId: '1706.03762v5', title: 'Transformer' }),
+      result('semantic_scholar', '2', { doi: '10.48550/arXiv.1706.03762' }),
+      result('dblp', '3', { title: 'Something else', authors: ['Other'] }),
+    ]);
+    expect(clusters.map(cluster => cluster.map(member => member.id))).toEqual([
+      ['arxiv:1', 'semantic_scholar:2'],
+      ['dblp:3'],
+    ]);
+  });
+
+  it('does not join papers with different DOIs through a record without one', () => {
+    const clusters = clusterResults([
+      result('crossref', 'a', { doi: '10.1000/a' }),
+      result('google', 'x'),
+      result('crossref', 'b', { doi: '10.1000/b' }),
+    ]);
+    expect(clusters.map(cluster => cluster.map(member => member.id))).toEqual([
+      ['crossref:a', 'google:x'],
+      ['crossref:b'],
+    ]);
+  });
+});
+
+describe('mergeCluster', () => {
+  it('prefers the published version for venue and DOI and the top-ranked record for the link', () => {
+    const merged = mergeCluster([
+      result('dblp', 'conf', { rank: 3, venue: 'NeurIPS', doi: '10.5555/3295222' }),
+      result('arxiv', '1706.03762', { rank: 0, venue: 'arXiv', arxivId: '1706.03762v5', doi: '10.48550/arXiv.1706.03762', abstract: 'The dominant models' }),
+      result('arxiv', 'dup', { rank: 4 }),
+    ]);
+    expect(merged).toMatchObject({
+      id: 'arxiv:1706.03762',
+      venue: 'NeurIPS',
+      doi: '10.5555/3295222',
+      arxivId: '1706.03762',
+      abstract: 'The dominant models',
+      url: 'https://example.org/arxiv/1706.03762',
+      sources: [
+        { sourceId: 'arxiv', rank: 0, url: 'https://example.org/arxiv/1706.03762' },
+        { sourceId: 'dblp', rank: 3, url: 'https://example.org/dblp/conf' },
+      ],
+    });
+  });
+});
+
+describe('fusion', () => {
+  it('scores ranks with RRF and Borda', () => {
+    expect(fusionScore(0, 10)).toBeCloseTo(1 / 61);
+    expect(fusionScore(4, 10, { fusion: 'rrf', rrfK: 10 })).toBeCloseTo(1 / 15);
+    expect(fusionScore(0, 10, { fusion: 'borda', rrfK: 60 })).toBe(1);
+    expect(fusionScore(2, 10, { fusion: 'borda', rrfK: 60 })).toBeCloseTo(0.8);
+    expect(fusionScore(0, 0, { fusion: 'borda', rrfK: 60 })).toBe(0);
+  });
+
+  it('ranks papers found by several engines first', () => {
+    const dblp = ranked('dblp', 3);
+    const arxiv = ranked('arxiv', 3);
+    dblp[2] = result('dblp', 'shared', { rank: 2 });
+    arxiv[2] = result('arxiv', 'shared', { rank: 2 });
+
+    const merged = mergeResults([dblp, arxiv]);
+    expect(merged).toHaveLength(5);
+    expect(merged[0].sources.map(source => source.sourceId)).toEqual(['dblp', 'arxiv']);
+    expect(merged[0].score).toBeCloseTo(2 / 63);
+  });
+
+  it('orders by RRF or Borda depending on the option', () => {
+    // 短列表中排第 2 的结果 vs 长列表中排第 3 的结果
+    const short = ranked('short', 2);
+    const long = ranked('long', 10);
+    const position = (merged: ReturnType<typeof mergeResults>, id: string) => merged.findIndex(item => item.id === id);
+
+    const rrf = mergeResults([short, long]);
+    expect(position(rrf, 'short:r1')).toBeLessThan(position(rrf, 'long:r2'));
+
+    const borda = mergeResults([short, long], { fusion: 'borda' });
+    expect(position(borda, 'long:r2')).toBeLessThan(position(borda, 'short:r1'));
+    expect(borda.find(item => item.id === 'short:r1')?.score).toBeCloseTo(0.5);
+  });
+});
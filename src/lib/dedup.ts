@@ -0,0 +1,265 @@
+// 跨搜索源去重与排名融合
+//
+// 匹配规则 (任一满足即视为同一篇论文):
+//   1. DOI、arXiv ID 或 PMID 相同 (arXiv 的 10.48550/arXiv.* DOI 视为 arXiv ID)
+//   2. 规范化标题相似度 >= titleThreshold, 第一作者姓氏相同, 年份相差不超过 yearTolerance
+// 缺少作者或年份时只比较其余条件. 匹配关系可传递 (A~B, B~C 则 A、B、C 合并).
+// 两边都有同类 ID 但互不相同 (例如两个不同的 DOI) 时是不同的论文, 不按标题合并.
+
+import type { SearchResult } from '../types';
+
+export type FusionMethod = 'rrf' | 'borda';
+
+export interface DedupOptions {
+  titleThreshold: number;
+  // 预印本和正式发表的年份常常相差一年
+  yearTolerance: number;
+  fusion: FusionMethod;
+  // RRF 常数, 越大排名靠后的结果权重下降越慢
+  rrfK: number;
+}
+
+export const defaultDedupOptions: DedupOptions = {
+  titleThreshold: 0.9,
+  yearTolerance: 1,
+  fusion: 'rrf',
+  rrfK: 60,
+};
+
+export interface MergedResult {
+  id: string;
+  title: string;
+  authors: string[];
+  year?: number;
+  venue?: string;
+  doi?: string;
+  arxivId?: string;
+  pmid?: string;
+  abstract?: string;
+  url: string;
+  // 返回这篇论文的搜索源及其排名, 按排名从高到低
+  sources: { sourceId: string; rank: number; url: string }[];
+  score: number;
+  members: SearchResult[];
+}
+
+export const normalizeDoi = (doi: string | undefined) =>
+  doi
+    ?.trim()
+    .toLowerCase()
+    .replace(/^(https?:\/\/(dx\.)?doi\.org\/|doi:)/, '') || undefined;
+
+export const normalizeArxivId = (id: string | undefined) =>
+  id
+    ?.trim()
+    .toLowerCase()
+    .replace(/^arxiv:/, '')
+    .replace(/v\d+$/, '') || undefined;
+
+const ARXIV_DOI_PREFIX = '10.48550/arxiv.';
+
+// 跨搜索源标识同一文献的 ID (DOI / arXiv ID / PMID)
+export const identityKeys = (result: SearchResult): string[] => {
+  const keys: string[] = [];
+  const doi = normalizeDoi(result.doi);
+  if (doi?.startsWith(ARXIV_DOI_PREFIX)) {
+    keys.push(`arxiv:${normalizeArxivId(doi.slice(ARXIV_DOI_PREFIX.length))}`);
+  } else if (doi) {
+    keys.push(`doi:${doi}`);
+  }
+  const arxivId = normalizeArxivId(result.arxivId);
+  if (arxivId) keys.push(`arxiv:${arxivId}`);
+  if (result.pmid?.trim()) keys.push(`pmid:${result.pmid.trim()}`);
+  return keys;
+};
+
+const keyKind = (key: string) => key.slice(0, key.indexOf(':'));
+
+// 两组识别键中存在同类但没有共同值的 ID
+export const hasConflictingIdentity = (a: string[], b: string[]) => {
+  const kinds = new Set(a.map(keyKind));
+  return Array.from(new Set(b.map(keyKind))).some(
+    kind => kinds.has(kind) && !a.some(key => keyKind(key) === kind && b.includes(key))
+  );
+};
+
+export const normalizeTitle = (title: string) =>
+  title
+    .normalize('NFKD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .replace(/<[^>]+>/g, ' ')
+    .replace(/[^a-z0-9]+/g, ' ')
+    .trim();
+
+// 姓氏: "Vaswani, Ashish" 取逗号前, 否则取最后一个词
+export const familyName = (author: string | undefined) => {
+  if (!author) return undefined;
+  const name = author.includes(',') ? author.split(',')[0] : author.trim().split(/\s+/).pop();
+  return name ? normalizeTitle(name) || undefined : undefined;
+};
+
+const bigrams = (text: string) => {
+  const compact = text.replace(/ /g, '');
+  const grams = new Map<string, number>();
+  for (let i = 0; i < compact.length - 1; i++) {
+    const gram = compact.slice(i, i + 2);
+    grams.set(gram, (grams.get(gram) ?? 0) + 1);
+  }
+  return grams;
+};
+
+// Dice 系数 (字符二元组), 对轻微的拼写和标点差异不敏感
+export const titleSimilarity = (a: string, b: string) => {
+  const na = normalizeTitle(a);
+  const nb = normalizeTitle(b);
+  if (!na || !nb) return 0;
+  if (na === nb) return 1;
+
+  const ga = bigrams(na);
+  const gb = bigrams(nb);
+  let overlap = 0;
+  ga.forEach((count, gram) => {
+    overlap += Math.min(count, gb.get(gram) ?? 0);
+  });
+  const total = [...ga.values(), ...gb.values()].reduce((sum, count) => sum + count, 0);
+  return total === 0 ? 0 : (2 * overlap) / total;
+};
+
+export const isFuzzyMatch = (a: SearchResult, b: SearchResult, options: DedupOptions = defaultDedupOptions) => {
+  if (hasConflictingIdentity(identityKeys(a), identityKeys(b))) return false;
+  if (a.year !== undefined && b.year !== undefined && Math.abs(a.year - b.year) > options.yearTolerance) {
+    return false;
+  }
+  const authorA = familyName(a.authors[0]);
+  const authorB = familyName(b.authors[0]);
+  if (authorA && authorB && authorA !== authorB) return false;
+  return titleSimilarity(a.title, b.title) >= options.titleThreshold;
+};
+
+// 把结果分成若干组, 每组是同一篇论文
+export const clusterResults = (results: SearchResult[], options: DedupOptions = defaultDedupOptions): SearchResult[][] => {
+  const parent = results.map((_, i) => i);
+  const find = (i: number): number => (parent[i] === i ? i : (parent[i] = find(parent[i])));
+  const union = (i: number, j: number) => {
+    parent[find(j)] = find(i);
+  };
+
+  const byKey = new Map<string, number>();
+  results.forEach((result, i) => {
+    identityKeys(result).forEach(key => {
+      const existing = byKey.get(key);
+      if (existing === undefined) byKey.set(key, i);
+      else union(existing, i);
+    });
+  });
+
+  // 每组已有的识别键: 按标题合并时整组都不能有冲突的 ID, 否则传递关系会把不同的论文连在一起
+  const groupKeys = new Map<number, string[]>();
+  results.forEach((result, i) => {
+    const root = find(i);
+    groupKeys.set(root, [...(groupKeys.get(root) ?? []), ...identityKeys(result)]);
+  });
+
+  for (let i = 0; i < results.length; i++) {
+    for (let j = i + 1; j < results.length; j++) {
+      const rootI = find(i);
+      const rootJ = find(j);
+      if (
+        rootI !== rootJ &&
+        !hasConflictingIdentity(groupKeys.get(rootI) ?? [], groupKeys.get(rootJ) ?? []) &&
+        isFuzzyMatch(results[i], results[j], options)
+      ) {
+        union(i, j);
+        groupKeys.set(rootI, [...(groupKeys.get(rootI) ?? []), ...(groupKeys.get(rootJ) ?? [])]);
+      }
+    }
+  }
+
+  const clusters = new Map<number, SearchResult[]>();
+  results.forEach((result, i) => {
+    const root = find(i);
+    clusters.set(root, [...(clusters.get(root) ?? []), result]);
+  });
+  return [...clusters.values()];
+};
+
+const PREPRINT_VENUE = /^(arxiv|corr|biorxiv|medrxiv)\b/i;
+const isPublished = (result: SearchResult) => Boolean(result.venue && !PREPRINT_VENUE.test(result.venue));
+
+const firstDefined = <T>(values: (T | undefined)[]) => values.find(value => value !== undefined && value !== '');
+const longest = (values: (string | undefined)[]) =>
+  values.reduce<string | undefined>((best, value) => (value && value.length > (best?.length ?? 0) ? value : best), undefined);
+
+// 合并同一篇论文的多条结果:
+// 标题/链接取排名最高的一条, 出版信息优先取正式发表版本, 作者列表和摘要取最完整的
+export const mergeCluster = (members: SearchResult[]): Omit<MergedResult, 'score'> => {
+  const byRank = [...members].sort((a, b) => a.rank - b.rank);
+  const published = byRank.filter(isPublished);
+  const preferred = published.length > 0 ? [...published, ...byRank] : byRank;
+  const best = byRank[0];
+
+  const sources = byRank
+    .filter((member, i) => byRank.findIndex(other => other.sourceId === member.sourceId) === i)
+    .map(member => ({ sourceId: member.sourceId, rank: member.rank, url: member.url }));
+
+  return {
+    id: best.id,
+    title: best.title,
+    authors: byRank.reduce((most, member) => (member.authors.length > most.length ? member.authors : most), best.authors),
+    year: firstDefined(preferred.map(member => member.year)),
+    venue: firstDefined(preferred.map(member => member.venue)),
+    doi: firstDefined(
+      preferred
+        .map(member => normalizeDoi(member.doi))
+        .filter(doi => !doi?.startsWith(ARXIV_DOI_PREFIX))
+    ) ?? firstDefined(byRank.map(member => normalizeDoi(member.doi))),
+    arxivId: firstDefined(byRank.map(member => normalizeArxivId(member.arxivId))),
+    pmid: firstDefined(byRank.map(member => member.pmid)),
+    abstract: longest(byRank.map(member => member.abstract)),
+    url: best.url,
+    sources,
+    members,
+  };
+};
+
+// 单个搜索源对融合分数的贡献
+export const fusionScore = (
+  rank: number,
+  sourceSize: number,
+  options: Pick<DedupOptions, 'fusion' | 'rrfK'> = defaultDedupOptions
+) => {
+  if (options.fusion === 'borda') {
+    return sourceSize > 0 ? (sourceSize - rank) / sourceSize : 0;
+  }
+  return 1 / (options.rrfK + rank + 1);
+};
+
+export const mergeResults = (
+  groups: SearchResult[][],
+  overrides: Partial<DedupOptions> = {}
+): MergedResult[] => {
+  const options = { ...defaultDedupOptions, ...overrides };
+  const sourceSizes = new Map<string, number>();
+  groups.forEach(group => group.forEach(result => {
+    sourceSizes.set(result.sourceId, Math.max(sourceSizes.get(result.sourceId) ?? 0, result.rank + 1));
+  }));
+
+  return clusterResults(groups.flat(), options)
+    .map(cluster => {
+      const merged = mergeCluster(cluster);
+      // 同一搜索源内的重复只计一次
+      const score = merged.sources.reduce(
+        (sum, source) => sum + fusionScore(source.rank, sourceSizes.get(source.sourceId) ?? 0, options),
+        0
+      );
+      return { ...merged, score };
+    })
+    .sort(
+      (a, b) =>
+        b.score - a.score ||
+        b.sources.length - a.sources.length ||
+        a.sources[0].rank - b.sources[0].rank ||
+        a.title.localeCompare(b.title)
+    );
+};
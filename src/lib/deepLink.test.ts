@@ -0,0 +1,99 @@
+import { describe, expect, it } from 'vitest';
+import type { SearchSource } from '../types';
+import { defaultSearchSources } from '../searchSources';
+import { message } from './i18n';
+import type { SearchProfile } from './profiles';
+import { buildDeepLink, parseDeepLink, stripDeepLinkParams } from './deepLink';
+
+const BASE = 'https://search.example.org/';
+
+const profiles: SearchProfile[] = [
+  { id: 'default', name: 'Default', engines: {} },
+  { id: 'profile_1700000000000_ab12', name: 'Biomed & Genes', engines: {} },
+];
+
+const search = (link: string) => new URL(link).search;
+
+describe('buildDeepLink / parseDeepLink', () => {
+  it('round-trips a shared search', () => {
+    const link = buildDeepLink(BASE, {
+      query: '!pm crispr "base editing"',
+      engines: ['pubmed', 'arxiv'],
+      profile: 'Biomed & Genes',
+      autorun: true,
+    });
+    expect(link).toBe(
+      `${BASE}?q=!pm%20crispr%20%22base%20editing%22&engines=pubmed,arxiv&profile=Biomed%20%26%20Genes&run=1`
+    );
+    expect(parseDeepLink(search(link), defaultSearchSources, profiles)).toEqual({
+      link: {
+        query: '!pm crispr "base editing"',
+        engines: ['pubmed', 'arxiv'],
+        profileId: 'profile_1700000000000_ab12',
+        autorun: true,
+      },
+      issues: [],
+    });
+  });
+
+  it('finds the profile by name in another browser, whatever its local ID', () => {
+    const theirs: SearchProfile[] = [{ id: 'profile_1800000000000_zz99', name: 'biomed & genes', engines: {} }];
+    const link = buildDeepLink(BASE, { query: 'crispr', profile: 'Biomed & Genes' });
+    expect(parseDeepLink(search(link), defaultSearchSources, theirs).link?.profileId).toBe('profile_1800000000000_zz99');
+  });
+
+  it('leaves out empty parts', () => {
+    expect(buildDeepLink(BASE, {})).toBe(BASE);
+    expect(buildDeepLink(BASE, { query: 'crispr', engines: null })).toBe(`${BASE}?q=crispr`);
+    expect(parseDeepLink('?q=crispr', defaultSearchSources, profiles).link).toEqual({
+      query: 'crispr',
+      engines: null,
+      profileId: null,
+      autorun: false,
+    });
+  });
+
+  it('keeps commas inside engine IDs', () => {
+    const custom: SearchSource = { id: 'lab,1', name: 'Lab', url: 'https://lab.example/?q={query}', description: '', isCustom: true };
+    const link = buildDeepLink(BASE, { engines: ['lab,1', 'dblp'] });
+    expect(link).toBe(`${BASE}?engines=lab%2C1,dblp`);
+    expect(parseDeepLink(search(link), [...defaultSearchSources, custom], profiles).link?.engines).toEqual(['lab,1', 'dblp']);
+  });
+
+  it('reports unknown engines and profiles', () => {
+    const link = buildDeepLink(BASE, { query: 'crispr', engines: ['pubmed', 'mine'], profile: 'Oncology' });
+    expect(parseDeepLink(search(link), defaultSearchSources, profiles)).toEqual({
+      link: { query: 'crispr', engines: ['pubmed'], profileId: null, autorun: false },
+      issues: [
+        message('deepLink.unknownEngine', { id: 'mine' }),
+        message('deepLink.unknownProfile', { profile: 'Oncology' }),
+      ],
+    });
+  });
+
+  it('keeps hidden engines but warns about them', () => {
+    const parsed = parseDeepLink('?q=a&engines=google,bing', defaultSearchSources, profiles, ['bing']);
+    expect(parsed.link?.engines).toEqual(['google', 'bing']);
+    expect(parsed.issues).toEqual([message('deepLink.hiddenEngine', { id: 'bing' })]);
+  });
+
+  it('reports invalid run values and empty searches', () => {
+    expect(parseDeepLink('?q=a&run=maybe', defaultSearchSources, profiles).issues).toEqual([
+      message('deepLink.invalidRun', { value: 'maybe' }),
+    ]);
+    expect(parseDeepLink('?run=1&engines=', defaultSearchSources, profiles).issues).toEqual([
+      message('deepLink.noEngines'),
+      message('deepLink.noQuery'),
+    ]);
+  });
+
+  it('ignores URLs without link parameters', () => {
+    expect(parseDeepLink('?utm_source=mail', defaultSearchSources, profiles)).toEqual({ link: null, issues: [] });
+  });
+});
+
+describe('stripDeepLinkParams', () => {
+  it('keeps other parameters and the hash', () => {
+    expect(stripDeepLinkParams(`${BASE}app?q=a&engines=pubmed&lang=en&run=1#top`)).toBe('/app?lang=en#top');
+  });
+});
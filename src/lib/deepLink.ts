@@ -0,0 +1,123 @@
+// 可分享的搜索链接
+//
+//   ?q=crispr&engines=pubmed,arxiv&profile=biomed&run=1
+//
+// q 预填搜索框 (可以包含 bang), engines 在本次访问中代替配置的搜索引擎选择 (不写入配置), profile 按 ID 或名称切换配置,
+// run=1 在页面加载后立即搜索 (浏览器地址栏搜索也使用这个参数, 见 vite.config.ts 生成的 opensearch.xml).
+// 无法识别的参数值会逐条报告, 不会被静默忽略.
+
+import type { SearchSource } from '../types';
+import type { SearchProfile } from './profiles';
+import { message } from './i18n';
+import type { Message } from './i18n';
+
+export interface DeepLink {
+  query: string;
+  // 未指定 engines 时为 null, 使用配置中的选择
+  engines: string[] | null;
+  profileId: string | null;
+  autorun: boolean;
+}
+
+export interface ParsedDeepLink {
+  // 地址中没有任何相关参数时为 null
+  link: DeepLink | null;
+  issues: Message[];
+}
+
+export const DEEP_LINK_PARAMS = ['q', 'engines', 'profile', 'run'];
+
+const TRUE_VALUES = ['1', 'true', 'yes'];
+
+// engines 在解码前按逗号拆分, ID 中编码过的逗号 (%2C) 不会被当成分隔符
+const readEngineIds = (search: string): string[] => {
+  const raw = search
+    .replace(/^\?/, '')
+    .split('&')
+    .filter(part => part === 'engines' || part.startsWith('engines='))
+    .pop()
+    ?.slice('engines='.length);
+  return (raw ?? '').split(',').map(id => {
+    try {
+      return decodeURIComponent(id.replace(/\+/g, ' ')).trim();
+    } catch {
+      return id.trim();
+    }
+  });
+};
+
+export const parseDeepLink = (
+  search: string,
+  sources: SearchSource[],
+  profiles: SearchProfile[],
+  hiddenSources: string[] = []
+): ParsedDeepLink => {
+  const params = new URLSearchParams(search);
+  if (!DEEP_LINK_PARAMS.some(name => params.has(name))) return { link: null, issues: [] };
+
+  const issues: Message[] = [];
+
+  let engines: string[] | null = null;
+  if (params.has('engines')) {
+    const ids = Array.from(new Set(readEngineIds(search).filter(Boolean)));
+    engines = [];
+    ids.forEach(id => {
+      if (!sources.some(source => source.id === id)) {
+        issues.push(message('deepLink.unknownEngine', { id }));
+      } else if (hiddenSources.includes(id)) {
+        issues.push(message('deepLink.hiddenEngine', { id }));
+        engines?.push(id);
+      } else {
+        engines?.push(id);
+      }
+    });
+    if (ids.length === 0) issues.push(message('deepLink.noEngines'));
+  }
+
+  let profileId: string | null = null;
+  const profileParam = params.get('profile')?.trim();
+  if (profileParam) {
+    const profile =
+      profiles.find(p => p.id === profileParam) ??
+      profiles.find(p => p.name.toLowerCase() === profileParam.toLowerCase());
+    if (profile) profileId = profile.id;
+    else issues.push(message('deepLink.unknownProfile', { profile: profileParam }));
+  }
+
+  const runParam = params.get('run');
+  const autorun = runParam !== null && TRUE_VALUES.includes(runParam.toLowerCase());
+  if (runParam !== null && !autorun && !['0', 'false', 'no'].includes(runParam.toLowerCase())) {
+    issues.push(message('deepLink.invalidRun', { value: runParam }));
+  }
+
+  const query = params.get('q') ?? '';
+  if (autorun && !query.trim()) issues.push(message('deepLink.noQuery'));
+
+  return { link: { query, engines, profileId, autorun }, issues };
+};
+
+// 分享链接的内容; 配置写名称而不是 ID, ID 是本地生成的, 在别人的浏览器中不存在
+export interface SharedSearch {
+  query?: string;
+  engines?: string[] | null;
+  profile?: string;
+  autorun?: boolean;
+}
+
+// 生成分享链接; base 通常是当前页面地址 (不含查询参数)
+export const buildDeepLink = (base: string, link: SharedSearch) => {
+  const params: string[] = [];
+  if (link.query) params.push(`q=${encodeURIComponent(link.query)}`);
+  // 搜索源 ID 中的逗号会被编码, 分隔用的逗号保持原样便于阅读
+  if (link.engines) params.push(`engines=${link.engines.map(encodeURIComponent).join(',')}`);
+  if (link.profile) params.push(`profile=${encodeURIComponent(link.profile)}`);
+  if (link.autorun) params.push('run=1');
+  return params.length > 0 ? `${base}?${params.join('&')}` : base;
+};
+
+// 应用链接后从地址栏移除这些参数, 刷新页面不会再次搜索
+export const stripDeepLinkParams = (href: string) => {
+  const url = new URL(href);
+  DEEP_LINK_PARAMS.forEach(name => url.searchParams.delete(name));
+  return `${url.pathname}${url.search}${url.hash}`;
+};
@@ -0,0 +1,75 @@
+// 搜索源能否嵌入 iframe (工作区窗格)
+//
+// 站点通过 X-Frame-Options 或 CSP frame-ancestors 拒绝被嵌入时, 浏览器不会把结果告诉嵌入方页面,
+// 所以只能在运行时学习: 超时仍未加载、或用户报告 "无法显示" 时记为不可嵌入.
+// load 事件不能证明可以嵌入 (被拒绝的 iframe 在多数浏览器中同样会触发 load), 所以只记录失败.
+// 结果按站点 (origin) 缓存, 同一站点的自定义搜索源共用. 记录过期后重新尝试, 以便站点改变策略.
+// 已知拒绝嵌入的内置搜索源用 embeddable: false 直接声明.
+
+import type { SearchSource } from '../types';
+import { createStorageSlot } from './storage';
+
+export type Embeddability = 'yes' | 'no' | 'unknown';
+
+export type EmbedEvidence = 'timeout' | 'reported';
+
+// 站点拒绝嵌入的记录
+export interface EmbedCapability {
+  evidence: EmbedEvidence;
+  checkedAt: number;
+}
+
+export interface EmbedCapabilities {
+  [origin: string]: EmbedCapability;
+}
+
+export const EMBED_LOAD_TIMEOUT = 8000;
+// 记录 30 天后过期
+export const EMBED_RETRY_AFTER = 30 * 24 * 60 * 60 * 1000;
+
+export const embedCapabilitiesStorage = createStorageSlot<EmbedCapabilities>({
+  key: 'embedCapabilities',
+  version: 1,
+  defaultValue: () => ({}),
+});
+
+export const sourceOrigin = (url: string): string | null => {
+  try {
+    return new URL(url.replace(/\{query(:\w+)?\}|%s/g, 'x')).origin;
+  } catch {
+    return null;
+  }
+};
+
+export const getEmbeddability = (source: SearchSource, capabilities: EmbedCapabilities, now = Date.now()): Embeddability => {
+  if (source.embeddable === false) return 'no';
+  const origin = sourceOrigin(source.url);
+  const capability = origin ? capabilities[origin] : undefined;
+  if (capability && now - capability.checkedAt <= EMBED_RETRY_AFTER) return 'no';
+  return source.embeddable ? 'yes' : 'unknown';
+};
+
+// 记录站点拒绝嵌入. 用户报告的 "无法显示" 不会被之后的超时覆盖
+export const recordEmbedFailure = (
+  capabilities: EmbedCapabilities,
+  source: SearchSource,
+  evidence: EmbedEvidence,
+  now = Date.now()
+): EmbedCapabilities => {
+  const origin = sourceOrigin(source.url);
+  if (!origin) return capabilities;
+  const existing = capabilities[origin];
+  if (existing && now - existing.checkedAt <= EMBED_RETRY_AFTER && (existing.evidence === evidence || existing.evidence === 'reported')) {
+    return capabilities;
+  }
+  return { ...capabilities, [origin]: { evidence, checkedAt: now } };
+};
+
+// 清除某个站点的记录, 下次搜索时重新尝试嵌入
+export const forgetEmbedResult = (capabilities: EmbedCapabilities, source: SearchSource): EmbedCapabilities => {
+  const origin = sourceOrigin(source.url);
+  if (!origin || !capabilities[origin]) return capabilities;
+  const rest = { ...capabilities };
+  delete rest[origin];
+  return rest;
+};
@@ -0,0 +1,42 @@
+import { describe, expect, it } from 'vitest';
+import { fuzzyFilter, fuzzyScore } from './fuzzyMatch';
+
+describe('fuzzyScore', () => {
+  it('matches characters in order and rejects everything else', () => {
+    expect(fuzzyScore('pbmd', 'PubMed')).not.toBeNull();
+    expect(fuzzyScore('dmbp', 'PubMed')).toBeNull();
+    expect(fuzzyScore('pubmedx', 'PubMed')).toBeNull();
+  });
+
+  it('scores an empty query as zero', () => {
+    expect(fuzzyScore('  ', 'anything')).toBe(0);
+  });
+
+  it('ignores spaces in the query', () => {
+    expect(fuzzyScore('se sc', 'Semantic Scholar')).toBe(fuzzyScore('sesc', 'Semantic Scholar'));
+  });
+
+  it('prefers consecutive matches and word starts', () => {
+    const consecutive = fuzzyScore('sch', 'Scholar') as number;
+    const scattered = fuzzyScore('sch', 'Search History') as number;
+    expect(consecutive).toBeGreaterThan(scattered);
+    expect(fuzzyScore('gs', 'Google Scholar') as number).toBeGreaterThan(fuzzyScore('gs', 'Bugs') as number);
+  });
+
+  it('prefers the shorter text when scores tie', () => {
+    expect(fuzzyScore('arxiv', 'arXiv') as number).toBeGreaterThan(fuzzyScore('arxiv', 'arXiv listing') as number);
+  });
+});
+
+describe('fuzzyFilter', () => {
+  const commands = ['Search arXiv', 'Switch to Default', 'Search PubMed', 'Toggle dark mode'];
+
+  it('drops non-matches and sorts by score', () => {
+    expect(fuzzyFilter(commands, 'pub', text => text)).toEqual(['Search PubMed']);
+    expect(fuzzyFilter(commands, 'sw', text => text)[0]).toBe('Switch to Default');
+  });
+
+  it('keeps the original order for an empty query', () => {
+    expect(fuzzyFilter(commands, '', text => text)).toEqual(commands);
+  });
+});
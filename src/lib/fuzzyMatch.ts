@@ -0,0 +1,33 @@
+// 命令面板的模糊匹配: 查询字符按顺序出现在文本中即匹配.
+// 连续命中、命中单词开头得分更高; 不匹配返回 null.
+
+const isWordStart = (text: string, index: number) => index === 0 || /[\s_\-/:.]/.test(text[index - 1]);
+
+export const fuzzyScore = (query: string, text: string): number | null => {
+  const needle = query.trim().toLowerCase();
+  if (!needle) return 0;
+  const haystack = text.toLowerCase();
+
+  let score = 0;
+  let position = 0;
+  let previous = -2;
+  for (const char of needle) {
+    if (char === ' ') continue;
+    const index = haystack.indexOf(char, position);
+    if (index === -1) return null;
+    score += 1;
+    if (index === previous + 1) score += 2;
+    if (isWordStart(haystack, index)) score += 3;
+    previous = index;
+    position = index + 1;
+  }
+  // 同分时较短的文本优先
+  return score - haystack.length / 1000;
+};
+
+export const fuzzyFilter = <T>(items: T[], query: string, text: (item: T) => string): T[] =>
+  items
+    .map((item, order) => ({ item, order, score: fuzzyScore(query, text(item)) }))
+    .filter((entry): entry is { item: T; order: number; score: number } => entry.score !== null)
+    .sort((a, b) => b.score - a.score || a.order - b.order)
+    .map(entry => entry.item);
@@ -0,0 +1,67 @@
+// 搜索历史与保存的搜索
+//
+// 每次搜索记录查询、时间和使用的搜索引擎. 置顶 (pinned) 的条目就是 "保存的搜索",
+// 带有名称, 不受清空和数量上限影响.
+
+import { createId, createStorageSlot } from './storage';
+
+export interface SearchHistoryEntry {
+  id: string;
+  query: string;
+  timestamp: number;
+  engines: string[];
+  pinned?: boolean;
+  name?: string;
+}
+
+// 未置顶条目的最大数量
+export const MAX_HISTORY_ENTRIES = 200;
+
+export const historyStorage = createStorageSlot<SearchHistoryEntry[]>({
+  key: 'searchHistory',
+  version: 1,
+  defaultValue: () => [],
+});
+
+const sameSearch = (a: SearchHistoryEntry, b: { query: string; engines: string[] }) =>
+  a.query === b.query &&
+  a.engines.length === b.engines.length &&
+  a.engines.every(engine => b.engines.includes(engine));
+
+// 新记录放在最前面; 与已有未置顶记录完全相同的搜索只保留最新一条
+export const addHistoryEntry = (
+  entries: SearchHistoryEntry[],
+  search: { query: string; engines: string[] },
+  timestamp = Date.now()
+): SearchHistoryEntry[] => {
+  const entry: SearchHistoryEntry = {
+    id: createId('history'),
+    query: search.query,
+    engines: [...search.engines],
+    timestamp,
+  };
+  const rest = entries.filter(existing => existing.pinned || !sameSearch(existing, search));
+
+  let unpinned = 0;
+  return [entry, ...rest].filter(existing => existing.pinned || ++unpinned <= MAX_HISTORY_ENTRIES);
+};
+
+export const deleteHistoryEntry = (entries: SearchHistoryEntry[], id: string) =>
+  entries.filter(entry => entry.id !== id);
+
+// 清空历史, 保存的搜索不受影响
+export const clearHistory = (entries: SearchHistoryEntry[]) => entries.filter(entry => entry.pinned);
+
+export const pinHistoryEntry = (entries: SearchHistoryEntry[], id: string, name: string) =>
+  entries.map(entry => (entry.id === id ? { ...entry, pinned: true, name: name.trim() || entry.query } : entry));
+
+export const unpinHistoryEntry = (entries: SearchHistoryEntry[], id: string) =>
+  entries.map(entry => (entry.id === id ? { ...entry, pinned: false, name: undefined } : entry));
+
+export const filterHistory = (entries: SearchHistoryEntry[], term: string) => {
+  const needle = term.trim().toLowerCase();
+  if (!needle) return entries;
+  return entries.filter(
+    entry => entry.query.toLowerCase().includes(needle) || entry.name?.toLowerCase().includes(needle)
+  );
+};
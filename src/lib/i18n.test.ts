@@ -0,0 +1,44 @@
+import { describe, expect, it } from 'vitest';
+import { catalogues, createTranslator, englishMessage, formatMessage, message } from './i18n';
+import type { Locale } from './i18n';
+import { en } from '../locales/en';
+
+const placeholders = (text: string) => Array.from(text.matchAll(/\{(\w+)\}/g), match => match[1]).sort();
+
+const locales = Object.keys(catalogues) as Locale[];
+
+describe('message catalogues', () => {
+  it.each(locales)('%s has exactly the English keys', locale => {
+    const keys = Object.keys(catalogues[locale]);
+    expect(Object.keys(en).filter(key => !keys.includes(key))).toEqual([]);
+    expect(keys.filter(key => !(key in en))).toEqual([]);
+  });
+
+  it.each(locales)('%s has no empty messages', locale => {
+    const empty = Object.entries(catalogues[locale]).filter(([, text]) => !text.trim());
+    expect(empty.map(([key]) => key)).toEqual([]);
+  });
+
+  it.each(locales)('%s uses the same placeholders as English', locale => {
+    const mismatched = Object.entries(catalogues[locale])
+      .filter(([key, text]) => placeholders(text).join() !== placeholders(en[key as keyof typeof en]).join())
+      .map(([key]) => key);
+    expect(mismatched).toEqual([]);
+  });
+});
+
+describe('formatMessage', () => {
+  it('replaces known placeholders and keeps the others', () => {
+    expect(formatMessage('{name} uses {query}', { name: 'Bing' })).toBe('Bing uses {query}');
+    expect(formatMessage('{count} results', { count: 0 })).toBe('0 results');
+  });
+});
+
+describe('translators', () => {
+  it('translate library messages in the chosen language', () => {
+    const detail = message('bangs.taken', { bang: '!pm' });
+    expect(createTranslator('en')(detail.key, detail.params)).toBe('"!pm" is already used');
+    expect(createTranslator('zh-CN')('common.save')).toBe('保存');
+    expect(englishMessage(detail)).toBe('"!pm" is already used');
+  });
+});
@@ -0,0 +1,93 @@
+// 界面文本的多语言支持
+//
+// 每种语言一个消息目录 (src/locales), 英文目录定义全部键, 其他目录的类型为 Messages,
+// 缺少或多出键时类型检查 (tsc -b) 失败.
+// 没有保存语言偏好时按浏览器语言选择.
+
+import type { SearchSource } from '../types';
+import { en } from '../locales/en';
+import type { MessageKey, Messages } from '../locales/en';
+import { zhCN } from '../locales/zhCN';
+import { builtInCategories } from './sourceLayout';
+import type { SourceCategory } from './sourceLayout';
+import { DEFAULT_PROFILE_ID, DEFAULT_PROFILE_NAME } from './profiles';
+import type { SearchProfile } from './profiles';
+
+export type Locale = 'en' | 'zh-CN';
+
+export type { MessageKey, Messages };
+
+export const catalogues: { [key in Locale]: Messages } = {
+  en,
+  'zh-CN': zhCN,
+};
+
+// 语言切换菜单中的名称, 使用各自的语言
+export const localeNames: { [key in Locale]: string } = {
+  en: 'English',
+  'zh-CN': '简体中文',
+};
+
+export const isLocale = (value: unknown): value is Locale =>
+  typeof value === 'string' && Object.prototype.hasOwnProperty.call(catalogues, value);
+
+// 浏览器语言中第一个支持的语言; 任何中文变体都使用简体中文
+export const detectLocale = (languages: readonly string[] = navigator.languages ?? [navigator.language]): Locale => {
+  for (const language of languages) {
+    if (/^zh\b/i.test(language)) return 'zh-CN';
+    if (/^en\b/i.test(language)) return 'en';
+  }
+  return 'en';
+};
+
+export const resolveLocale = (preferred: Locale | undefined): Locale => preferred ?? detectLocale();
+
+export type MessageParams = { [name: string]: string | number };
+
+export type Translate = (key: MessageKey, params?: MessageParams) => string;
+
+// 库函数返回给界面的消息 (校验错误、健康检查问题等): 只保存键和参数, 显示时按当前语言翻译
+export interface Message {
+  key: MessageKey;
+  params?: MessageParams;
+}
+
+export const message = (key: MessageKey, params?: MessageParams): Message => (params ? { key, params } : { key });
+
+export const translateMessage = (t: Translate, { key, params }: Message) => t(key, params);
+
+// 替换 {name} 占位符, 没有提供的参数保持原样
+export const formatMessage = (template: string, params?: MessageParams) =>
+  template.replace(/\{(\w+)\}/g, (match, name: string) =>
+    params && Object.prototype.hasOwnProperty.call(params, name) ? String(params[name]) : match
+  );
+
+// 异常的 message 和导出文件中的校验结果使用英文
+export const englishMessage = ({ key, params }: Message) => formatMessage(en[key], params);
+
+export const createTranslator = (locale: Locale): Translate => {
+  const messages = catalogues[locale];
+  return (key, params) => formatMessage(messages[key], params);
+};
+
+const isMessageKey = (key: string): key is MessageKey => Object.prototype.hasOwnProperty.call(en, key);
+
+// 内置搜索源使用当前语言的描述, 自定义搜索源保持用户填写的内容
+export const localizeSources = (sources: SearchSource[], t: Translate): SearchSource[] =>
+  sources.map(source => {
+    const key = `source.${source.id}.description`;
+    return !source.isCustom && isMessageKey(key) ? { ...source, description: t(key) } : source;
+  });
+
+// 内置分类在用户改名之前使用当前语言的名称
+export const localizeCategory = (category: SourceCategory, t: Translate): SourceCategory => {
+  const builtIn = builtInCategories.find(c => c.id === category.id);
+  const key = `category.${category.id}`;
+  return builtIn && builtIn.name === category.name && isMessageKey(key) ? { ...category, name: t(key) } : category;
+};
+
+// 默认配置没有改名时显示当前语言的名称
+export const localizeProfile = (profile: SearchProfile, t: Translate): SearchProfile =>
+  profile.id === DEFAULT_PROFILE_ID && profile.name === DEFAULT_PROFILE_NAME
+    ? { ...profile, name: t('profiles.defaultName') }
+    : profile;
@@ -0,0 +1,76 @@
+import { describe, expect, it } from 'vitest';
+import { detectIdentifier, extractIdentifier, isValidIsbn } from './identifiers';
+
+describe('detectIdentifier', () => {
+  it.each([
+    ['10.1038/nature14539', { type: 'doi', value: '10.1038/nature14539' }],
+    ['doi: 10.1038/Nature14539.', { type: 'doi', value: '10.1038/nature14539' }],
+    ['https://doi.org/10.1145/3295222.3295349', { type: 'doi', value: '10.1145/3295222.3295349' }],
+    ['arXiv:1706.03762v5', { type: 'arxiv', value: '1706.03762' }],
+    ['https://arxiv.org/pdf/2401.01234v2.pdf', { type: 'arxiv', value: '2401.01234' }],
+    ['hep-th/9901001', { type: 'arxiv', value: 'hep-th/9901001' }],
+    ['PMID: 31452104', { type: 'pmid', value: '31452104' }],
+    ['pmid31452104', { type: 'pmid', value: '31452104' }],
+    ['https://pubmed.ncbi.nlm.nih.gov/31452104/', { type: 'pmid', value: '31452104' }],
+    ['978-0-306-40615-7', { type: 'isbn', value: '9780306406157' }],
+    ['979 10 90636 07 1', { type: 'isbn', value: '9791090636071' }],
+    ['ISBN 0-306-40615-2', { type: 'isbn', value: '0306406152' }],
+    ['isbn-10: 080442957x', { type: 'isbn', value: '080442957X' }],
+    ['https://example.org/paper', { type: 'url', value: 'https://example.org/paper' }],
+  ])('detects %s', (input, expected) => {
+    expect(detectIdentifier(input)).toEqual(expected);
+  });
+
+  it.each([
+    // 能通过 ISBN-10 校验的 10 位数字, 没有前缀时不是 ISBN
+    '0306406152',
+    '030-640-6152',
+    // 校验位错误
+    '978-0-306-40615-8',
+    'ISBN 0-306-40615-3',
+    // 不以 978/979 开头的 13 位数字
+    '1234567890128',
+    // 没有前缀的数字和带多余字符的 PMID
+    '31452104',
+    '1234567/',
+    'PMID: 1234567/',
+    'PMID: 123456789',
+    '2020',
+    'graph neural networks',
+    '',
+  ])('does not detect %j', input => {
+    expect(detectIdentifier(input)).toBeNull();
+  });
+});
+
+describe('extractIdentifier', () => {
+  it('finds a prefixed identifier inside a citation', () => {
+    expect(
+      extractIdentifier('LeCun Y, Bengio Y, Hinton G. Deep learning. Nature. 2015;521:436-444. doi:10.1038/nature14539.')
+    ).toEqual({ type: 'doi', value: '10.1038/nature14539' });
+    expect(extractIdentifier('Vaswani et al. Attention is all you need. arXiv:1706.03762 [cs.CL]')).toEqual({
+      type: 'arxiv',
+      value: '1706.03762',
+    });
+    expect(extractIdentifier('Esteva A, et al. Nat Med. 2019. PMID: 30617335')).toEqual({ type: 'pmid', value: '30617335' });
+    expect(extractIdentifier('Hamming. Coding and Information Theory. ISBN 0-306-40615-2')).toEqual({
+      type: 'isbn',
+      value: '0306406152',
+    });
+  });
+
+  it('ignores bare numbers and invalid ISBNs in running text', () => {
+    expect(extractIdentifier('Call 0306406152 for details')).toBeNull();
+    expect(extractIdentifier('Some book, ISBN 0-306-40615-3')).toBeNull();
+  });
+});
+
+describe('isValidIsbn', () => {
+  it('checks ISBN-10 and ISBN-13 check digits', () => {
+    expect(isValidIsbn('0306406152')).toBe(true);
+    expect(isValidIsbn('080442957X')).toBe(true);
+    expect(isValidIsbn('9780306406157')).toBe(true);
+    expect(isValidIsbn('9780306406158')).toBe(false);
+    expect(isValidIsbn('030640615')).toBe(false);
+  });
+});
@@ -0,0 +1,88 @@
+// 文献标识符识别: DOI、arXiv ID、PMID、ISBN、URL
+
+export type IdentifierType = 'doi' | 'arxiv' | 'pmid' | 'isbn' | 'url';
+
+export interface Identifier {
+  type: IdentifierType;
+  // 规范化后的值: DOI 小写且不带前缀, arXiv ID 不带版本号, ISBN 只保留数字和 X
+  value: string;
+}
+
+const DOI_PATTERN = /^(?:doi:\s*|https?:\/\/(?:dx\.)?doi\.org\/)?(10\.\d{4,9}\/\S+)$/i;
+// 新格式 2401.01234 (可带版本号) 或旧格式 hep-th/9901001
+const ARXIV_PATTERN =
+  /^(?:arxiv:\s*|https?:\/\/(?:www\.)?arxiv\.org\/(?:abs|pdf)\/)?(\d{4}\.\d{4,5}|[a-z-]+(?:\.[A-Z]{2})?\/\d{7})(?:v\d+)?(?:\.pdf)?$/i;
+// 纯数字只有带 PMID 前缀或 PubMed 链接时才识别, 避免把年份之类的数字当成 PMID; 结尾的 "/" 只出现在链接中
+const PMID_PATTERN = /^(?:pmid:?\s*(\d{1,8})|https?:\/\/pubmed\.ncbi\.nlm\.nih\.gov\/(\d{1,8})\/?)$/i;
+const ISBN_PATTERN = /^(isbn(?:-1[03])?:?\s*)?((?:97[89][\s-]?)?\d[\d\s-]{7,}[\dx])$/i;
+
+// 文本中嵌入的标识符 (例如粘贴的整条参考文献)
+const EMBEDDED_PATTERNS: { type: IdentifierType; pattern: RegExp }[] = [
+  { type: 'doi', pattern: /\b(10\.\d{4,9}\/[^\s"<>]+)/i },
+  { type: 'arxiv', pattern: /\barxiv:\s*(\d{4}\.\d{4,5}|[a-z-]+(?:\.[A-Z]{2})?\/\d{7})(?:v\d+)?/i },
+  { type: 'pmid', pattern: /\bpmid:?\s*(\d{1,8})\b/i },
+  { type: 'isbn', pattern: /\bisbn(?:-1[03])?:?\s*((?:97[89][\s-]?)?\d[\d\s-]{7,}[\dx])/i },
+];
+
+// 句末标点通常不属于 DOI
+const trimDoi = (doi: string) => doi.toLowerCase().replace(/[.,;:)\]]+$/, '');
+
+export const isValidIsbn = (isbn: string) => {
+  const digits = isbn.toUpperCase();
+  if (/^\d{9}[\dX]$/.test(digits)) {
+    const sum = [...digits].reduce((total, char, i) => total + (char === 'X' ? 10 : Number(char)) * (10 - i), 0);
+    return sum % 11 === 0;
+  }
+  if (/^\d{13}$/.test(digits)) {
+    const sum = [...digits].reduce((total, char, i) => total + Number(char) * (i % 2 === 0 ? 1 : 3), 0);
+    return sum % 10 === 0;
+  }
+  return false;
+};
+
+const normalizeIsbn = (text: string) => {
+  const value = text.replace(/[\s-]/g, '').toUpperCase();
+  return isValidIsbn(value) ? value : null;
+};
+
+export const detectIdentifier = (input: string): Identifier | null => {
+  const text = input.trim();
+  if (!text) return null;
+
+  const doi = DOI_PATTERN.exec(text);
+  if (doi) return { type: 'doi', value: trimDoi(doi[1]) };
+
+  const arxiv = ARXIV_PATTERN.exec(text);
+  if (arxiv) return { type: 'arxiv', value: arxiv[1] };
+
+  const pmid = PMID_PATTERN.exec(text);
+  if (pmid) return { type: 'pmid', value: pmid[1] ?? pmid[2] };
+
+  // 没有 ISBN 前缀时只识别 978/979 开头的 ISBN-13: 随便一个 10 位数字 (例如电话号码) 也有约 1/11 的机会通过 ISBN-10 校验
+  const isbn = ISBN_PATTERN.exec(text);
+  const isbnValue = isbn && normalizeIsbn(isbn[2]);
+  if (isbnValue && (isbn[1] || /^97[89]\d{10}$/.test(isbnValue))) return { type: 'isbn', value: isbnValue };
+
+  if (/^https?:\/\/\S+$/i.test(text)) return { type: 'url', value: text };
+
+  return null;
+};
+
+// 整段输入不是标识符时, 在其中查找第一个带明确前缀的标识符 (DOI 本身自带 10. 前缀)
+export const extractIdentifier = (input: string): Identifier | null => {
+  const exact = detectIdentifier(input);
+  if (exact) return exact;
+
+  for (const { type, pattern } of EMBEDDED_PATTERNS) {
+    const match = pattern.exec(input);
+    if (!match) continue;
+    if (type === 'doi') return { type, value: trimDoi(match[1]) };
+    if (type === 'isbn') {
+      const value = normalizeIsbn(match[1]);
+      if (value) return { type, value };
+      continue;
+    }
+    return { type, value: match[1] };
+  }
+  return null;
+};
@@ -0,0 +1,97 @@
+// @vitest-environment jsdom
+import { describe, expect, it } from 'vitest';
+import { message } from './i18n';
+import { convertOpenSearchTemplate, looksLikeOpenSearch, OpenSearchError, parseOpenSearchDescription } from './openSearch';
+
+const description = (url: string, extra = '') => `<?xml version="1.0" encoding="UTF-8"?>
+<OpenSearchDescription xmlns="http://a9.com/-/spec/opensearch/1.1/">
+  <ShortName>Campus Library</ShortName>
+  <Description>Search the campus catalogue</Description>
+  ${url}
+  ${extra}
+</OpenSearchDescription>`;
+
+const detailOf = (xml: string) => {
+  try {
+    parseOpenSearchDescription(xml);
+  } catch (error) {
+    if (error instanceof OpenSearchError) return error.detail;
+    throw error;
+  }
+  return null;
+};
+
+describe('convertOpenSearchTemplate', () => {
+  it('turns {searchTerms} into {query} and fills standard parameters', () => {
+    expect(convertOpenSearchTemplate('https://lib.example/?q={searchTerms}&n={count}&p={startPage}&lang={language}')).toBe(
+      'https://lib.example/?q={query}&n=20&p=1&lang=*'
+    );
+  });
+
+  it('drops optional parameters together with their query parameter', () => {
+    expect(convertOpenSearchTemplate('https://lib.example/?q={searchTerms}&page={startPage?}&n={count?}')).toBe(
+      'https://lib.example/?q={query}'
+    );
+    expect(convertOpenSearchTemplate('https://lib.example/?page={startPage?}&q={searchTerms}')).toBe(
+      'https://lib.example/?q={query}'
+    );
+    expect(convertOpenSearchTemplate('https://lib.example/{searchTerms}/{geo:box?}')).toBe('https://lib.example/{query}/');
+  });
+
+  it('rejects unknown required parameters', () => {
+    expect(() => convertOpenSearchTemplate('https://lib.example/?q={searchTerms}&k={apiKey}')).toThrow(
+      new OpenSearchError(message('openSearch.unsupportedParameter', { parameter: '{apiKey}' }))
+    );
+  });
+});
+
+describe('parseOpenSearchDescription', () => {
+  it('reads the HTML search URL', () => {
+    const xml = description(`
+      <Url type="application/rss+xml" template="https://lib.example/rss?q={searchTerms}"/>
+      <Url type="text/html; charset=UTF-8" template="https://lib.example/search?q={searchTerms}&amp;page={startPage?}">
+        <Param name="scope" value="all"/>
+      </Url>`);
+    expect(parseOpenSearchDescription(xml)).toEqual({
+      id: '',
+      name: 'Campus Library',
+      url: 'https://lib.example/search?q={query}&scope=all',
+      description: 'Search the campus catalogue',
+      category: 'general',
+      isCustom: true,
+    });
+  });
+
+  it('falls back to the host name without a ShortName', () => {
+    const xml = `<OpenSearchDescription xmlns="http://a9.com/-/spec/opensearch/1.1/">
+      <Url type="text/html" template="https://lib.example/?q={searchTerms}"/>
+    </OpenSearchDescription>`;
+    expect(parseOpenSearchDescription(xml).name).toBe('lib.example');
+  });
+
+  it('explains why a description cannot be used', () => {
+    expect(detailOf('<OpenSearchDescription>')).toEqual(message('openSearch.invalidXml'));
+    expect(detailOf('<feed/>')).toEqual(message('openSearch.notOpenSearch'));
+    expect(detailOf(description('<Url type="application/json" template="https://lib.example/?q={searchTerms}"/>'))).toEqual(
+      message('openSearch.noHtmlUrl')
+    );
+    expect(detailOf(description('<Url type="text/html" method="post" template="https://lib.example/"/>'))).toEqual(
+      message('openSearch.unsupportedMethod', { method: 'post' })
+    );
+    expect(detailOf(description('<Url type="text/html"/>'))).toEqual(message('openSearch.noTemplate'));
+    expect(detailOf(description('<Url type="text/html" template="https://lib.example/"/>'))).toEqual(
+      message('openSearch.noSearchTerms')
+    );
+    // 浏览器会丢弃相对地址的描述文件, 这里同样拒绝
+    expect(detailOf(description('<Url type="text/html" template="/?q={searchTerms}"/>'))).toEqual(
+      message('urlTemplate.notAbsolute')
+    );
+  });
+});
+
+describe('looksLikeOpenSearch', () => {
+  it('detects description files', () => {
+    expect(looksLikeOpenSearch(description('<Url/>'))).toBe(true);
+    expect(looksLikeOpenSearch('{"format":"literesearch-settings"}')).toBe(false);
+  });
+});
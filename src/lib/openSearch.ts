@@ -0,0 +1,105 @@
+// OpenSearch 描述文件 (https://github.com/dewitt/opensearch) 转换为 SearchSource
+//
+// 只支持 GET 方式的 text/html 结果页. {searchTerms} 转换为 {query},
+// 可选参数 ({name?}) 连同所在的查询参数一起去掉, 其余标准参数填入默认值.
+
+import type { SearchSource } from '../types';
+import { englishMessage, message } from './i18n';
+import type { Message } from './i18n';
+import { validateUrlTemplate } from './urlTemplate';
+
+// detail 供界面按当前语言显示, message 为英文
+export class OpenSearchError extends Error {
+  constructor(readonly detail: Message) {
+    super(englishMessage(detail));
+    this.name = 'OpenSearchError';
+  }
+}
+
+const OPENSEARCH_DEFAULTS: { [key: string]: string } = {
+  count: '20',
+  startIndex: '1',
+  startPage: '1',
+  language: '*',
+  inputEncoding: 'UTF-8',
+  outputEncoding: 'UTF-8',
+};
+
+const PARAMETER_PATTERN = /\{([a-zA-Z:]+)(\?)?\}/g;
+
+// 去掉值为可选参数的查询参数, 例如 "&page={startPage?}"; 连续多个时逐个去掉, 最后整理 "?" 和 "&"
+const stripOptionalParams = (template: string) =>
+  template
+    .replace(/[?&][^=&#?]*=\{[a-zA-Z:]+\?\}(?=[&#]|$)/g, match => (match.startsWith('?') ? '?' : ''))
+    .replace('?&', '?')
+    .replace(/\?(?=#|$)/, '');
+
+export const convertOpenSearchTemplate = (template: string): string => {
+  return stripOptionalParams(template).replace(PARAMETER_PATTERN, (match, name: string, optional?: string) => {
+    if (name === 'searchTerms') return '{query}';
+    if (optional) return '';
+    if (Object.prototype.hasOwnProperty.call(OPENSEARCH_DEFAULTS, name)) return OPENSEARCH_DEFAULTS[name];
+    throw new OpenSearchError(message('openSearch.unsupportedParameter', { parameter: match }));
+  });
+};
+
+const childText = (parent: Element, tagName: string) =>
+  parent.getElementsByTagNameNS('*', tagName)[0]?.textContent?.trim() ?? '';
+
+export const parseOpenSearchDescription = (xml: string): SearchSource => {
+  const doc = new DOMParser().parseFromString(xml, 'application/xml');
+  if (doc.getElementsByTagName('parsererror').length > 0) {
+    throw new OpenSearchError(message('openSearch.invalidXml'));
+  }
+
+  const root = doc.documentElement;
+  if (root.localName !== 'OpenSearchDescription') {
+    throw new OpenSearchError(message('openSearch.notOpenSearch'));
+  }
+
+  const urls = Array.from(root.getElementsByTagNameNS('*', 'Url'));
+  const htmlUrl = urls.find(url => (url.getAttribute('type') ?? '').split(';')[0].trim() === 'text/html');
+  if (!htmlUrl) {
+    throw new OpenSearchError(message('openSearch.noHtmlUrl'));
+  }
+
+  const method = (htmlUrl.getAttribute('method') ?? 'get').toLowerCase();
+  if (method !== 'get') {
+    throw new OpenSearchError(message('openSearch.unsupportedMethod', { method }));
+  }
+
+  const template = htmlUrl.getAttribute('template');
+  if (!template) {
+    throw new OpenSearchError(message('openSearch.noTemplate'));
+  }
+  if (!template.includes('{searchTerms}')) {
+    throw new OpenSearchError(message('openSearch.noSearchTerms'));
+  }
+
+  // OpenSearch 1.1 参数扩展: <Param name="..." value="..."/>
+  const params = Array.from(htmlUrl.getElementsByTagNameNS('*', 'Param'))
+    .map(param => `${encodeURIComponent(param.getAttribute('name') ?? '')}=${param.getAttribute('value') ?? ''}`)
+    .filter(param => !param.startsWith('='));
+  const withParams = params.length > 0
+    ? `${template}${template.includes('?') ? '&' : '?'}${params.join('&')}`
+    : template;
+
+  const url = convertOpenSearchTemplate(withParams);
+  const urlError = validateUrlTemplate(url);
+  if (urlError) {
+    throw new OpenSearchError(urlError);
+  }
+
+  const name = childText(root, 'ShortName') || new URL(url.replace('{query}', '')).hostname;
+  return {
+    id: '',
+    name,
+    url,
+    description: childText(root, 'Description'),
+    category: 'general',
+    isCustom: true,
+  };
+};
+
+// 粗略判断导入的文本是否为 OpenSearch 描述文件
+export const looksLikeOpenSearch = (text: string) => /<OpenSearchDescription[\s>]/.test(text);
@@ -0,0 +1,22 @@
+import { createStorageSlot } from './storage';
+import type { ResultsView } from './results';
+import type { Locale } from './i18n';
+
+export interface AppPreferences {
+  // 有开放 API 的搜索源在页面内显示结果, 而不是打开新窗口
+  fetchResults: boolean;
+  resultsView: ResultsView;
+  // 可嵌入的搜索源在页面内的工作区窗格中打开, 见 lib/workspaceLayout.ts
+  workspace?: boolean;
+  // 界面语言, 未设置时按浏览器语言选择
+  locale?: Locale;
+}
+
+export const preferencesStorage = createStorageSlot<AppPreferences>({
+  key: 'appPreferences',
+  version: 1,
+  defaultValue: () => ({
+    fetchResults: false,
+    resultsView: 'grouped',
+  }),
+});
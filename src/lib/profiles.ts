@@ -0,0 +1,130 @@
+// 研究配置 (profile): 每个配置保存自己的搜索引擎选择和可选的默认查询后缀
+//
+// 旧版本只有一个全局的 searchEnginePreferences, 首次加载时迁移为 "Default" 配置.
+
+import { defaultSearchSources } from '../searchSources';
+import { createId, createStorageSlot } from './storage';
+
+export type EngineSelection = { [key: string]: boolean };
+
+export interface SearchProfile {
+  id: string;
+  name: string;
+  engines: EngineSelection;
+  // 搜索时追加在查询后面, 例如 "year:2020-" 或 "humans[mh]"
+  querySuffix?: string;
+}
+
+export interface ProfileState {
+  activeProfileId: string;
+  profiles: SearchProfile[];
+}
+
+export const DEFAULT_PROFILE_ID = 'default';
+// 保存的名称; 没有改名时界面显示当前语言的名称 (见 i18n.ts 的 localizeProfile)
+export const DEFAULT_PROFILE_NAME = 'Default';
+export const LEGACY_PREFERENCES_KEY = 'searchEnginePreferences';
+
+const selectAllDefaults = (): EngineSelection =>
+  defaultSearchSources.reduce((acc, source) => {
+    acc[source.id] = true;
+    return acc;
+  }, {} as EngineSelection);
+
+const readLegacyPreferences = (): EngineSelection | null => {
+  const saved = localStorage.getItem(LEGACY_PREFERENCES_KEY);
+  if (!saved) return null;
+  try {
+    const parsed = JSON.parse(saved);
+    return typeof parsed === 'object' && parsed !== null ? parsed : null;
+  } catch {
+    return null;
+  }
+};
+
+const createInitialState = (): ProfileState => ({
+  activeProfileId: DEFAULT_PROFILE_ID,
+  profiles: [
+    {
+      id: DEFAULT_PROFILE_ID,
+      name: DEFAULT_PROFILE_NAME,
+      engines: readLegacyPreferences() ?? selectAllDefaults(),
+    },
+  ],
+});
+
+export const profilesStorage = createStorageSlot<ProfileState>({
+  key: 'searchProfiles',
+  version: 1,
+  defaultValue: createInitialState,
+});
+
+export const loadProfileState = (): ProfileState => {
+  const isFirstLoad = localStorage.getItem(profilesStorage.key) === null;
+  const state = profilesStorage.load();
+  if (isFirstLoad) {
+    // 迁移完成后旧数据不再使用
+    profilesStorage.save(state);
+    localStorage.removeItem(LEGACY_PREFERENCES_KEY);
+  }
+  return state;
+};
+
+export const getActiveProfile = (state: ProfileState): SearchProfile =>
+  state.profiles.find(profile => profile.id === state.activeProfileId) ?? state.profiles[0];
+
+const updateProfile = (state: ProfileState, id: string, update: (profile: SearchProfile) => SearchProfile) => ({
+  ...state,
+  profiles: state.profiles.map(profile => (profile.id === id ? update(profile) : profile)),
+});
+
+// 名称由界面提供, 空名称在界面中就被拒绝
+export const createProfile = (state: ProfileState, name: string, engines: EngineSelection): ProfileState => {
+  const profile: SearchProfile = { id: createId('profile'), name: name.trim(), engines: { ...engines } };
+  return { activeProfileId: profile.id, profiles: [...state.profiles, profile] };
+};
+
+export const duplicateProfile = (state: ProfileState, id: string, name: string): ProfileState => {
+  const original = state.profiles.find(profile => profile.id === id);
+  if (!original) return state;
+  const copy: SearchProfile = {
+    ...original,
+    id: createId('profile'),
+    name,
+    engines: { ...original.engines },
+  };
+  return { activeProfileId: copy.id, profiles: [...state.profiles, copy] };
+};
+
+export const renameProfile = (state: ProfileState, id: string, name: string): ProfileState =>
+  name.trim() ? updateProfile(state, id, profile => ({ ...profile, name: name.trim() })) : state;
+
+// 至少保留一个配置; 删除当前配置时切换到第一个
+export const deleteProfile = (state: ProfileState, id: string): ProfileState => {
+  if (state.profiles.length <= 1) return state;
+  const profiles = state.profiles.filter(profile => profile.id !== id);
+  const activeProfileId = state.activeProfileId === id ? profiles[0].id : state.activeProfileId;
+  return { activeProfileId, profiles };
+};
+
+export const setActiveProfile = (state: ProfileState, id: string): ProfileState =>
+  state.profiles.some(profile => profile.id === id) ? { ...state, activeProfileId: id } : state;
+
+export const setProfileEngines = (state: ProfileState, id: string, engines: EngineSelection): ProfileState =>
+  updateProfile(state, id, profile => ({ ...profile, engines }));
+
+export const setProfileQuerySuffix = (state: ProfileState, id: string, querySuffix: string): ProfileState =>
+  updateProfile(state, id, profile => ({ ...profile, querySuffix: querySuffix || undefined }));
+
+// 从所有配置中移除某个搜索源 (删除自定义搜索源时调用)
+export const removeEngineFromProfiles = (state: ProfileState, sourceId: string): ProfileState => ({
+  ...state,
+  profiles: state.profiles.map(profile => {
+    const engines = { ...profile.engines };
+    delete engines[sourceId];
+    return { ...profile, engines };
+  }),
+});
+
+export const applyQuerySuffix = (query: string, profile: SearchProfile) =>
+  profile.querySuffix?.trim() ? `${query.trim()} ${profile.querySuffix.trim()}` : query;
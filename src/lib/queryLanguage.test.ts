@@ -0,0 +1,103 @@
+import { describe, expect, it } from 'vitest';
+import { isPlainQuery, parseQuery } from './queryLanguage';
+
+const term = (value: string, field: 'any' | 'author' | 'title' = 'any', phrase = false) => ({
+  type: 'term',
+  field,
+  value,
+  phrase,
+});
+
+describe('parseQuery', () => {
+  it('joins keywords with an implicit AND', () => {
+    expect(parseQuery('graph neural').root).toEqual({ type: 'and', children: [term('graph'), term('neural')] });
+  });
+
+  it('reads phrases and field prefixes', () => {
+    expect(parseQuery('au:"J Smith" title:graph "deep learning"').root).toEqual({
+      type: 'and',
+      children: [term('J Smith', 'author', true), term('graph', 'title'), term('deep learning', 'any', true)],
+    });
+  });
+
+  it('binds AND tighter than OR and respects parentheses', () => {
+    expect(parseQuery('a b OR c').root).toEqual({
+      type: 'or',
+      children: [{ type: 'and', children: [term('a'), term('b')] }, term('c')],
+    });
+    expect(parseQuery('a (b OR c)').root).toEqual({
+      type: 'and',
+      children: [term('a'), { type: 'or', children: [term('b'), term('c')] }],
+    });
+  });
+
+  it('treats -term and NOT as exclusions', () => {
+    expect(parseQuery('a -b NOT c').root).toEqual({
+      type: 'and',
+      children: [term('a'), { type: 'not', child: term('b') }, { type: 'not', child: term('c') }],
+    });
+  });
+
+  it('keeps lowercase operators and a lone dash as keywords', () => {
+    expect(parseQuery('cats and dogs').root).toEqual({
+      type: 'and',
+      children: [term('cats'), term('and'), term('dogs')],
+    });
+    expect(parseQuery('a - b').root).toEqual({ type: 'and', children: [term('a'), term('-'), term('b')] });
+  });
+
+  it('ignores unbalanced parentheses and stray operators', () => {
+    expect(parseQuery('(a OR b').root).toEqual({ type: 'or', children: [term('a'), term('b')] });
+    expect(parseQuery('a) b').root).toEqual({ type: 'and', children: [term('a'), term('b')] });
+    expect(parseQuery('AND a OR').root).toEqual(term('a'));
+    expect(parseQuery('NOT').root).toBeNull();
+    expect(parseQuery('()').root).toBeNull();
+  });
+
+  it('reads an unterminated phrase to the end of the input', () => {
+    expect(parseQuery('"open ended').root).toEqual(term('open ended', 'any', true));
+  });
+
+  it('extracts year ranges as a filter', () => {
+    expect(parseQuery('graph year:2020').years).toEqual({ from: 2020, to: 2020 });
+    expect(parseQuery('year:2020-2023').years).toEqual({ from: 2020, to: 2023 });
+    expect(parseQuery('year:2020-').years).toEqual({ from: 2020, to: undefined });
+    expect(parseQuery('py:-2023').years).toEqual({ from: undefined, to: 2023 });
+    expect(parseQuery('year:2023-2020').years).toEqual({ from: 2020, to: 2023 });
+    expect(parseQuery('graph year:2020').root).toEqual(term('graph'));
+  });
+
+  it('keeps an unrecognised year as a keyword', () => {
+    const query = parseQuery('year:recent');
+    expect(query.years).toBeNull();
+    expect(query.root).toEqual(term('year:recent'));
+  });
+
+  it('keeps unknown field prefixes as keywords', () => {
+    expect(parseQuery('doi:10.1000/xyz').root).toEqual(term('doi:10.1000/xyz'));
+  });
+
+  it('returns an empty tree for blank input', () => {
+    expect(parseQuery('   ')).toEqual({ raw: '   ', root: null, years: null });
+  });
+});
+
+describe('isPlainQuery', () => {
+  it('accepts keywords and phrases', () => {
+    expect(isPlainQuery(parseQuery('graph neural networks'))).toBe(true);
+    expect(isPlainQuery(parseQuery('"deep learning" survey'))).toBe(true);
+  });
+
+  it('ignores operator words inside phrases', () => {
+    expect(isPlainQuery(parseQuery('"research AND development"'))).toBe(true);
+    expect(isPlainQuery(parseQuery('"pros (and) cons"'))).toBe(true);
+  });
+
+  it('rejects fields, operators, groups, exclusions and years', () => {
+    expect(isPlainQuery(parseQuery('author:Smith'))).toBe(false);
+    expect(isPlainQuery(parseQuery('a OR b'))).toBe(false);
+    expect(isPlainQuery(parseQuery('(a b)'))).toBe(false);
+    expect(isPlainQuery(parseQuery('a -b'))).toBe(false);
+    expect(isPlainQuery(parseQuery('a year:2020'))).toBe(false);
+  });
+});
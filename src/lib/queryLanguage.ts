@@ -0,0 +1,252 @@
+// 结构化查询语言
+//
+// 语法:
+//   machine learning            关键词 (隐式 AND)
+//   "exact phrase"              精确短语
+//   author:Smith  au:"J Smith"  作者
+//   title:graph   ti:"..."      标题
+//   year:2020  year:2020-2023  year:2020-  year:-2023   年份范围
+//   a AND b, a OR b, NOT a      布尔运算 (运算符需大写), 支持括号分组
+//   -term  -"phrase"            排除
+//
+// 解析是宽松的: 不匹配的括号和多余的运算符会被忽略, 任何输入都能得到一个结果.
+
+export type TermField = 'any' | 'author' | 'title';
+
+export interface TermNode {
+  type: 'term';
+  field: TermField;
+  value: string;
+  phrase: boolean;
+}
+
+export type QueryNode =
+  | TermNode
+  | { type: 'and'; children: QueryNode[] }
+  | { type: 'or'; children: QueryNode[] }
+  | { type: 'not'; child: QueryNode };
+
+export interface YearRange {
+  from?: number;
+  to?: number;
+}
+
+export interface StructuredQuery {
+  raw: string;
+  root: QueryNode | null;
+  years: YearRange | null;
+}
+
+type Token =
+  | { type: 'lparen' }
+  | { type: 'rparen' }
+  | { type: 'and' }
+  | { type: 'or' }
+  | { type: 'not' }
+  | { type: 'term'; term: TermNode; negated: boolean }
+  | { type: 'year'; range: YearRange };
+
+const FIELD_ALIASES: { [key: string]: TermField | 'year' } = {
+  author: 'author',
+  au: 'author',
+  title: 'title',
+  ti: 'title',
+  year: 'year',
+  py: 'year',
+};
+
+const YEAR_PATTERN = /^(\d{4})?(?:(-)(\d{4})?)?$/;
+
+const parseYearRange = (value: string): YearRange | null => {
+  const match = YEAR_PATTERN.exec(value);
+  if (!match || (!match[1] && !match[3])) return null;
+
+  const from = match[1] ? Number(match[1]) : undefined;
+  // "2020" 表示单一年份, "2020-" 表示开放区间
+  const to = match[3] ? Number(match[3]) : match[2] ? undefined : from;
+  if (from !== undefined && to !== undefined && from > to) {
+    return { from: to, to: from };
+  }
+  return { from, to };
+};
+
+const isBoundary = (char: string) => /\s/.test(char) || char === '(' || char === ')';
+
+const tokenize = (input: string): Token[] => {
+  const tokens: Token[] = [];
+  let i = 0;
+
+  // 读取引号内的短语, 缺少结束引号时读到末尾
+  const readQuoted = (): string => {
+    const end = input.indexOf('"', i + 1);
+    const value = input.slice(i + 1, end === -1 ? input.length : end);
+    i = end === -1 ? input.length : end + 1;
+    return value.trim();
+  };
+
+  const readWord = (): string => {
+    const start = i;
+    while (i < input.length && !isBoundary(input[i])) i++;
+    return input.slice(start, i);
+  };
+
+  while (i < input.length) {
+    const char = input[i];
+
+    if (/\s/.test(char)) {
+      i++;
+      continue;
+    }
+    if (char === '(') {
+      tokens.push({ type: 'lparen' });
+      i++;
+      continue;
+    }
+    if (char === ')') {
+      tokens.push({ type: 'rparen' });
+      i++;
+      continue;
+    }
+
+    let negated = false;
+    if (char === '-' && i + 1 < input.length && !isBoundary(input[i + 1])) {
+      negated = true;
+      i++;
+    }
+
+    if (input[i] === '"') {
+      const value = readQuoted();
+      if (value) {
+        tokens.push({ type: 'term', term: { type: 'term', field: 'any', value, phrase: true }, negated });
+      }
+      continue;
+    }
+
+    // 字段前缀, 例如 author: 或 ti:
+    const fieldMatch = /^([a-zA-Z]+):/.exec(input.slice(i));
+    const field = fieldMatch ? FIELD_ALIASES[fieldMatch[1].toLowerCase()] : undefined;
+    if (fieldMatch && field) {
+      const prefixStart = i;
+      i += fieldMatch[0].length;
+      const phrase = input[i] === '"';
+      const value = phrase ? readQuoted() : readWord();
+
+      if (field === 'year') {
+        const range = parseYearRange(value);
+        if (range) {
+          tokens.push({ type: 'year', range });
+          continue;
+        }
+        // 无法识别的年份按普通关键词处理
+        tokens.push({
+          type: 'term',
+          term: { type: 'term', field: 'any', value: input.slice(prefixStart, i), phrase: false },
+          negated,
+        });
+        continue;
+      }
+
+      if (value) {
+        tokens.push({ type: 'term', term: { type: 'term', field, value, phrase }, negated });
+      }
+      continue;
+    }
+
+    const word = readWord();
+    if (!negated && (word === 'AND' || word === 'OR' || word === 'NOT')) {
+      tokens.push({ type: word.toLowerCase() as 'and' | 'or' | 'not' });
+      continue;
+    }
+    if (word) {
+      tokens.push({ type: 'term', term: { type: 'term', field: 'any', value: word, phrase: false }, negated });
+    }
+  }
+
+  return tokens;
+};
+
+const combine = (type: 'and' | 'or', nodes: QueryNode[]): QueryNode | null => {
+  // 展开同类型的嵌套节点
+  const children = nodes.flatMap(node => (node.type === type ? node.children : [node]));
+  if (children.length === 0) return null;
+  if (children.length === 1) return children[0];
+  return { type, children };
+};
+
+export const parseQuery = (raw: string): StructuredQuery => {
+  const allTokens = tokenize(raw);
+
+  // 年份是过滤条件而不是布尔子句, 单独提取
+  let years: YearRange | null = null;
+  const tokens: Token[] = [];
+  for (const token of allTokens) {
+    if (token.type === 'year') {
+      years = token.range;
+    } else {
+      tokens.push(token);
+    }
+  }
+
+  let pos = 0;
+  const peek = () => tokens[pos];
+
+  const parseOr = (): QueryNode | null => {
+    const nodes: QueryNode[] = [];
+    const first = parseAnd();
+    if (first) nodes.push(first);
+    while (peek()?.type === 'or') {
+      pos++;
+      const next = parseAnd();
+      if (next) nodes.push(next);
+    }
+    return combine('or', nodes);
+  };
+
+  const parseAnd = (): QueryNode | null => {
+    const nodes: QueryNode[] = [];
+    for (let token = peek(); token && token.type !== 'or' && token.type !== 'rparen'; token = peek()) {
+      if (token.type === 'and') {
+        pos++;
+        continue;
+      }
+      const node = parseUnary();
+      if (node) nodes.push(node);
+    }
+    return combine('and', nodes);
+  };
+
+  const parseUnary = (): QueryNode | null => {
+    const token = tokens[pos++];
+    switch (token.type) {
+      case 'not': {
+        const child = peek() && peek().type !== 'or' && peek().type !== 'rparen' ? parseUnary() : null;
+        return child ? { type: 'not', child } : null;
+      }
+      case 'lparen': {
+        const node = parseOr();
+        if (peek()?.type === 'rparen') pos++;
+        return node;
+      }
+      case 'term':
+        return token.negated ? { type: 'not', child: token.term } : token.term;
+      default:
+        return null;
+    }
+  };
+
+  // 顶层遇到多余的右括号时跳过并继续解析
+  const nodes: QueryNode[] = [];
+  while (pos < tokens.length) {
+    const node = parseOr();
+    if (node) nodes.push(node);
+    if (peek()?.type === 'rparen') pos++;
+  }
+
+  return { raw, root: combine('and', nodes), years };
+};
+
+// 只包含普通关键词和短语 (隐式 AND), 没有字段/布尔运算/括号/排除/年份.
+// 按词法单元判断, 短语里的 "AND" 之类不算运算符
+export const isPlainQuery = (query: StructuredQuery): boolean =>
+  query.years === null &&
+  tokenize(query.raw).every(token => token.type === 'term' && !token.negated && token.term.field === 'any');
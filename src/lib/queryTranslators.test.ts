@@ -0,0 +1,188 @@
+import { describe, expect, it } from 'vitest';
+import type { SearchSource } from '../types';
+import { defaultSearchSources } from '../searchSources';
+import { parseQuery } from './queryLanguage';
+import { queryTranslators, translateArxivApi, translateQuery } from './queryTranslators';
+import { buildSourceSearchUrl } from './searchUrl';
+
+const translate = (sourceId: string, query: string) => {
+  const source = defaultSearchSources.find(s => s.id === sourceId) as SearchSource;
+  return translateQuery(source, parseQuery(query));
+};
+
+const COMPLEX_QUERY = 'author:Smith title:"graph networks" (GNN OR GCN) -survey year:2020-2022';
+
+// 每个内置搜索源对同一个复杂查询的翻译
+const expected: { [sourceId: string]: { query: string; params?: { [key: string]: string } } } = {
+  google: { query: '"Smith" intitle:"graph networks" (GNN OR GCN) -survey' },
+  bing: { query: '"Smith" intitle:"graph networks" (GNN OR GCN) -survey' },
+  google_scholar: {
+    query: 'author:Smith intitle:"graph networks" (GNN OR GCN) -survey',
+    params: { as_ylo: '2020', as_yhi: '2022' },
+  },
+  pubmed: { query: '(Smith[au] AND "graph networks"[ti] AND (GNN OR GCN) NOT survey) AND 2020:2022[dp]' },
+  semantic_scholar: {
+    query: 'Smith "graph networks" GNN GCN',
+    params: { 'year[0]': '2020', 'year[1]': '2022' },
+  },
+  arxiv: {
+    query: 'GNN',
+    params: {
+      'terms-1-operator': 'OR',
+      'terms-1-term': 'GCN',
+      'terms-1-field': 'all',
+      'terms-2-operator': 'AND',
+      'terms-2-term': 'Smith',
+      'terms-2-field': 'author',
+      'terms-3-operator': 'AND',
+      'terms-3-term': '"graph networks"',
+      'terms-3-field': 'title',
+      'terms-4-operator': 'NOT',
+      'terms-4-term': 'survey',
+      'terms-4-field': 'all',
+      'date-filter_by': 'date_range',
+      'date-from_date': '2020-01-01',
+      'date-to_date': '2022-12-31',
+      'date-date_type': 'submitted_date',
+    },
+  },
+  research_gate: { query: 'Smith "graph networks" (GNN OR GCN) -survey' },
+  dblp: { query: 'Smith graph networks GNN|GCN -survey year:2020:|year:2021:|year:2022:' },
+};
+
+describe('translateQuery', () => {
+  it.each(defaultSearchSources.map(source => [source.id, source] as const))('translates a structured query for %s', (id, source) => {
+    const result = translateQuery(source, parseQuery(COMPLEX_QUERY));
+    expect({ query: result.query, ...(result.params && Object.keys(result.params).length > 0 && { params: result.params }) }).toEqual(
+      expected[id]
+    );
+  });
+
+  it('has a translator for every built-in syntax', () => {
+    defaultSearchSources.forEach(source => {
+      if (source.syntax) expect(queryTranslators[source.syntax]).toBeTypeOf('function');
+    });
+  });
+
+  it('sends plain queries unchanged', () => {
+    expect(translate('google', '  graph "neural networks" ')).toEqual({ query: 'graph "neural networks"' });
+    expect(translate('pubmed', 'research AND')).toEqual({ query: 'research' });
+  });
+});
+
+describe('translateWeb', () => {
+  it('quotes authors and uses intitle: for titles', () => {
+    expect(translate('google', 'au:"J Smith" ti:graph').query).toBe('"J Smith" intitle:graph');
+  });
+
+  it('drops the year filter', () => {
+    expect(translate('bing', 'graph year:2020')).toEqual({ query: 'graph' });
+  });
+});
+
+describe('translateScholar', () => {
+  it('sends open year ranges as a single parameter', () => {
+    expect(translate('google_scholar', 'graph year:2020-').params).toEqual({ as_ylo: '2020' });
+    expect(translate('google_scholar', 'graph year:-2020').params).toEqual({ as_yhi: '2020' });
+  });
+});
+
+describe('translatePubmed', () => {
+  it('uses a single publication year', () => {
+    expect(translate('pubmed', 'cancer year:2021').query).toBe('cancer AND 2021[dp]');
+  });
+
+  it('fills open year ranges', () => {
+    expect(translate('pubmed', 'cancer year:2021-').query).toBe('cancer AND 2021:3000[dp]');
+  });
+
+  it('starts an exclusion-only query from all records', () => {
+    expect(translate('pubmed', '-mice').query).toBe('all[sb] NOT mice');
+  });
+});
+
+describe('translateArxiv', () => {
+  const arxiv = defaultSearchSources.find(s => s.id === 'arxiv') as SearchSource;
+
+  it('opens the advanced search page', () => {
+    expect(buildSourceSearchUrl(arxiv, 'graph "neural networks"')).toBe(
+      'https://arxiv.org/search/advanced?advanced=&terms-0-field=all&terms-0-term=graph%20%22neural%20networks%22'
+    );
+    expect(buildSourceSearchUrl(arxiv, 'au:Smith year:2020-')).toBe(
+      'https://arxiv.org/search/advanced?advanced=&terms-0-field=all&terms-0-term=' +
+        '&terms-1-operator=AND&terms-1-term=Smith&terms-1-field=author' +
+        '&date-filter_by=date_range&date-from_date=2020-01-01&date-date_type=submitted_date'
+    );
+  });
+
+  it('expands NOT (a OR b) into one row per term', () => {
+    expect(translate('arxiv', 'graph NOT (a OR b)')).toMatchObject({
+      query: 'graph',
+      params: { 'terms-1-operator': 'NOT', 'terms-1-term': 'a', 'terms-2-operator': 'NOT', 'terms-2-term': 'b' },
+    });
+  });
+
+  it('reports what the page cannot express', () => {
+    expect(translate('arxiv', '-survey')).toMatchObject({ query: '', unsupported: ['exclusion'] });
+    expect(translate('arxiv', '(a OR b) (c OR d)')).toMatchObject({
+      query: 'a',
+      params: { 'terms-1-operator': 'OR', 'terms-2-term': 'c', 'terms-3-term': 'd' },
+      unsupported: ['grouping'],
+    });
+    expect(translate('arxiv', 'title:graph -survey').unsupported).toBeUndefined();
+  });
+});
+
+describe('translateArxivApi', () => {
+  it('adds field prefixes to plain queries', () => {
+    expect(translateArxivApi(parseQuery('graph "neural networks"')).query).toBe('all:graph AND all:"neural networks"');
+  });
+
+  it('keeps an exclusion-only query valid', () => {
+    expect(translateArxivApi(parseQuery('-survey')).query).toBe(
+      'submittedDate:[000001010000 TO 999912312359] ANDNOT all:survey'
+    );
+    expect(translateArxivApi(parseQuery('NOT (a OR b)')).query).toBe(
+      'submittedDate:[000001010000 TO 999912312359] ANDNOT (all:a OR all:b)'
+    );
+  });
+});
+
+describe('translateDblp', () => {
+  it('skips year ranges that are too wide or open and reports them', () => {
+    expect(translate('dblp', 'graph year:2000-2020')).toEqual({ query: 'graph', unsupported: ['years'] });
+    expect(translate('dblp', 'graph year:2020-')).toEqual({ query: 'graph', unsupported: ['years'] });
+    expect(translate('dblp', 'graph year:2011-2020')).toEqual({
+      query: 'graph ' + Array.from({ length: 10 }, (_, i) => `year:${2011 + i}:`).join('|'),
+    });
+  });
+
+  it('reports dropped fields and phrases', () => {
+    expect(translate('dblp', 'author:Smith graph').unsupported).toEqual(['field']);
+    expect(translate('dblp', '"graph networks" -survey').unsupported).toEqual(['phrase']);
+    expect(translate('dblp', 'ti:"graph networks"')).toEqual({ query: 'graph networks', unsupported: ['field', 'phrase'] });
+  });
+
+  it('reports parentheses that change the meaning', () => {
+    expect(translate('dblp', '(a OR b) c')).toEqual({ query: 'a|b c', unsupported: ['grouping'] });
+    expect(translate('dblp', 'c NOT (a OR b)').unsupported).toEqual(['grouping']);
+    expect(translate('dblp', 'a OR b OR c').unsupported).toBeUndefined();
+    expect(translate('dblp', 'a b -c year:2020').unsupported).toBeUndefined();
+  });
+
+  it('reports everything lost from the complex query', () => {
+    expect(translate('dblp', COMPLEX_QUERY).unsupported).toEqual(['field', 'phrase', 'grouping']);
+  });
+});
+
+describe('translateSemanticScholar', () => {
+  it('reports dropped exclusions and OR', () => {
+    expect(translate('semantic_scholar', 'graph -survey').unsupported).toEqual(['exclusion']);
+    expect(translate('semantic_scholar', 'a OR b').unsupported).toEqual(['or']);
+    expect(translate('semantic_scholar', 'NOT (a OR b) c').unsupported).toEqual(['exclusion', 'or']);
+  });
+
+  it('reports nothing when the query is fully supported', () => {
+    expect(translate('semantic_scholar', 'title:graph year:2020').unsupported).toBeUndefined();
+  });
+});
@@ -0,0 +1,370 @@
+// 把结构化查询翻译成各搜索源的原生语法
+//
+// 翻译器都是纯函数: 输入 StructuredQuery, 输出查询字符串和需要附加的 URL 参数.
+// 普通关键词查询 (isPlainQuery) 原样发送, 只有用到字段/布尔运算/年份时才翻译.
+// 目标语法表达不了的部分 (例如 Semantic Scholar 的排除和 OR) 记录在 unsupported 中, 由界面提示用户.
+
+import type { QuerySyntax, SearchSource } from '../types';
+import type { MessageKey } from './i18n';
+import { isPlainQuery } from './queryLanguage';
+import type { QueryNode, StructuredQuery, TermNode, YearRange } from './queryLanguage';
+
+// 翻译时被丢弃的查询功能
+export type UnsupportedFeature = 'exclusion' | 'or' | 'grouping' | 'field' | 'phrase' | 'years';
+
+export interface TranslatedQuery {
+  query: string;
+  params?: { [key: string]: string };
+  unsupported?: UnsupportedFeature[];
+}
+
+export type QueryTranslator = (query: StructuredQuery) => TranslatedQuery;
+
+interface BooleanSyntax {
+  term: (node: TermNode) => string;
+  and: string;
+  or: string;
+  // 把排除项接在肯定项之后
+  exclude: (positive: string, negative: string) => string;
+  group: (expression: string) => string;
+}
+
+const quote = (value: string) => `"${value}"`;
+const quoteIfNeeded = (value: string, phrase: boolean) =>
+  phrase || /\s/.test(value) ? quote(value) : value;
+
+const isCompound = (node: QueryNode) => node.type === 'and' || node.type === 'or';
+
+const renderNode = (node: QueryNode, syntax: BooleanSyntax): string => {
+  const renderChild = (child: QueryNode) => {
+    const rendered = renderNode(child, syntax);
+    return rendered && isCompound(child) && child.type !== node.type ? syntax.group(rendered) : rendered;
+  };
+
+  switch (node.type) {
+    case 'term':
+      return syntax.term(node);
+    case 'or':
+      return node.children.map(renderChild).filter(Boolean).join(syntax.or);
+    case 'not':
+      return renderNode({ type: 'and', children: [node] }, syntax);
+    case 'and': {
+      const positive = node.children
+        .filter(child => child.type !== 'not')
+        .map(renderChild)
+        .filter(Boolean)
+        .join(syntax.and);
+      return node.children.reduce((result, child) => {
+        if (child.type !== 'not') return result;
+        const negative = renderNode(child.child, syntax);
+        if (!negative) return result;
+        return syntax.exclude(result, isCompound(child.child) ? syntax.group(negative) : negative);
+      }, positive);
+    }
+  }
+};
+
+const render = (query: StructuredQuery, syntax: BooleanSyntax) =>
+  query.root ? renderNode(query.root, syntax) : '';
+
+const hasNode = (node: QueryNode | null, type: QueryNode['type']): boolean => {
+  if (!node) return false;
+  if (node.type === type) return true;
+  if (node.type === 'not') return hasNode(node.child, type);
+  if (node.type === 'term') return false;
+  return node.children.some(child => hasNode(child, type));
+};
+
+const hasTerm = (node: QueryNode | null, test: (term: TermNode) => boolean): boolean => {
+  if (!node) return false;
+  if (node.type === 'term') return test(node);
+  if (node.type === 'not') return hasTerm(node.child, test);
+  return node.children.some(child => hasTerm(child, test));
+};
+
+// 渲染时是否需要括号: 不同运算符嵌套, 或排除的是一个组合
+const hasNestedGroup = (node: QueryNode | null): boolean => {
+  if (!node || node.type === 'term') return false;
+  if (node.type === 'not') return isCompound(node.child) || hasNestedGroup(node.child);
+  return node.children.some(
+    child => (isCompound(child) && child.type !== node.type) || hasNestedGroup(child)
+  );
+};
+
+const joinClauses = (...clauses: string[]) => clauses.filter(Boolean).join(' AND ');
+
+const parenthesize = (expression: string) => `(${expression})`;
+
+// 没有翻译器的搜索源: 去掉字段前缀和年份, 保留短语、OR 和排除
+const plainSyntax: BooleanSyntax = {
+  term: node => quoteIfNeeded(node.value, node.phrase),
+  and: ' ',
+  or: ' OR ',
+  exclude: (positive, negative) => `${positive} -${negative}`.trim(),
+  group: parenthesize,
+};
+
+export const toPlainText = (query: StructuredQuery): string => render(query, plainSyntax);
+
+// Google / Bing 网页搜索
+const webSyntax: BooleanSyntax = {
+  ...plainSyntax,
+  term: node => {
+    if (node.field === 'title') return `intitle:${quoteIfNeeded(node.value, node.phrase)}`;
+    if (node.field === 'author') return quote(node.value);
+    return quoteIfNeeded(node.value, node.phrase);
+  },
+};
+
+const translateWeb: QueryTranslator = query => ({ query: render(query, webSyntax) });
+
+// Google Scholar: author:/intitle:, 年份通过 as_ylo/as_yhi 参数
+const scholarSyntax: BooleanSyntax = {
+  ...plainSyntax,
+  term: node => {
+    if (node.field === 'author') return `author:${quoteIfNeeded(node.value, node.phrase)}`;
+    if (node.field === 'title') return `intitle:${quoteIfNeeded(node.value, node.phrase)}`;
+    return quoteIfNeeded(node.value, node.phrase);
+  },
+};
+
+const yearParams = (years: YearRange | null, fromKey: string, toKey: string) => {
+  const params: { [key: string]: string } = {};
+  if (years?.from !== undefined) params[fromKey] = String(years.from);
+  if (years?.to !== undefined) params[toKey] = String(years.to);
+  return params;
+};
+
+const translateScholar: QueryTranslator = query => ({
+  query: render(query, scholarSyntax),
+  params: yearParams(query.years, 'as_ylo', 'as_yhi'),
+});
+
+// PubMed: [au]/[ti] 字段标签, NOT 是二元运算符, 年份用 [dp]
+const pubmedSyntax: BooleanSyntax = {
+  term: node => {
+    const value = node.phrase ? quote(node.value) : node.value;
+    if (node.field === 'author') return `${value}[au]`;
+    if (node.field === 'title') return `${value}[ti]`;
+    return value;
+  },
+  and: ' AND ',
+  or: ' OR ',
+  exclude: (positive, negative) => `${positive || 'all[sb]'} NOT ${negative}`,
+  group: parenthesize,
+};
+
+const PUBMED_MIN_YEAR = 1800;
+const PUBMED_MAX_YEAR = 3000;
+
+const pubmedDateClause = (years: YearRange | null) => {
+  if (!years) return '';
+  if (years.from !== undefined && years.from === years.to) return `${years.from}[dp]`;
+  return `${years.from ?? PUBMED_MIN_YEAR}:${years.to ?? PUBMED_MAX_YEAR}[dp]`;
+};
+
+const translatePubmed: QueryTranslator = query => {
+  const expression = render(query, pubmedSyntax);
+  const dateClause = pubmedDateClause(query.years);
+  // 表达式带顶层 OR/NOT 时加括号, 避免和日期条件的优先级混淆
+  const needsGroup = dateClause && /\s(OR|NOT)\s/.test(expression) && query.root?.type !== 'term';
+  return { query: joinClauses(needsGroup ? parenthesize(expression) : expression, dateClause) };
+};
+
+const arxivDateClause = (years: YearRange | null) => {
+  if (!years) return '';
+  const from = years.from !== undefined ? `${years.from}01010000` : '000001010000';
+  const to = years.to !== undefined ? `${years.to}12312359` : '999912312359';
+  return `submittedDate:[${from} TO ${to}]`;
+};
+
+// arXiv API: au:/ti:/all: 前缀, ANDNOT, submittedDate 区间
+const arxivSyntax: BooleanSyntax = {
+  term: node => {
+    const value = quoteIfNeeded(node.value, node.phrase);
+    if (node.field === 'author') return `au:${value}`;
+    if (node.field === 'title') return `ti:${value}`;
+    return `all:${value}`;
+  },
+  and: ' AND ',
+  or: ' OR ',
+  // ANDNOT 前面必须有肯定子句; 只有排除项时用覆盖全部日期的区间代替
+  exclude: (positive, negative) => `${positive || arxivDateClause({})} ANDNOT ${negative}`,
+  group: parenthesize,
+};
+
+// 只供结果适配器使用; 纯关键词查询也需要 all: 前缀
+export const translateArxivApi: QueryTranslator = query => {
+  const expression = render(query, arxivSyntax);
+  const dateClause = arxivDateClause(query.years);
+  const needsGroup = dateClause && /\s(OR|ANDNOT)\s/.test(expression);
+  return { query: joinClauses(needsGroup ? parenthesize(expression) : expression, dateClause) };
+};
+
+// arXiv 高级检索网页: 每行一个 (运算符, 字段, 词), 从左到右依次结合, 不支持嵌套括号.
+// 第一行的词填入 URL 模板 (字段固定为 all), 其余行和日期区间作为参数追加; 空行会被网页忽略
+interface ArxivRow {
+  operator: 'AND' | 'OR' | 'NOT';
+  term: TermNode;
+}
+
+const arxivFields: { [field in TermNode['field']]: string } = { any: 'all', author: 'author', title: 'title' };
+
+const isTerm = (node: QueryNode): node is TermNode => node.type === 'term';
+
+const isTermGroup = (node: QueryNode): node is { type: 'or'; children: TermNode[] } =>
+  node.type === 'or' && node.children.every(isTerm);
+
+// 所有词, 用于表达不了的结构: 按同时出现搜索
+const collectTerms = (node: QueryNode): TermNode[] => {
+  if (node.type === 'term') return [node];
+  if (node.type === 'not') return collectTerms(node.child);
+  return node.children.flatMap(collectTerms);
+};
+
+const arxivRows = (root: QueryNode, unsupported: Set<UnsupportedFeature>): ArxivRow[] => {
+  const rows = (operator: ArxivRow['operator'], terms: TermNode[]) => terms.map(term => ({ operator, term }));
+
+  if (isTerm(root)) return rows('AND', [root]);
+  if (isTermGroup(root)) return rows('OR', root.children);
+  if (root.type !== 'and') {
+    unsupported.add(root.type === 'not' ? 'exclusion' : 'grouping');
+    return root.type === 'not' ? [] : rows('AND', collectTerms(root));
+  }
+
+  // 唯一的 OR 组放在最前面, 从左到右结合后等价于 (a OR b) AND ...
+  const groups = root.children.filter(isTermGroup);
+  const [leading] = groups;
+  const positive: TermNode[] = [];
+  const negative: TermNode[] = [];
+  root.children.forEach(child => {
+    if (child === leading) return;
+    if (isTerm(child)) positive.push(child);
+    else if (child.type === 'not' && (isTerm(child.child) || isTermGroup(child.child))) {
+      // NOT (a OR b) 等于 NOT a NOT b
+      negative.push(...collectTerms(child.child));
+    } else {
+      unsupported.add('grouping');
+      if (child.type !== 'not') positive.push(...collectTerms(child));
+    }
+  });
+
+  const result = [...(leading ? rows('OR', leading.children) : []), ...rows('AND', positive)];
+  if (result.length === 0 && negative.length > 0) {
+    // 网页不能只有排除项
+    unsupported.add('exclusion');
+    return [];
+  }
+  return [...result, ...rows('NOT', negative)];
+};
+
+const translateArxiv: QueryTranslator = query => {
+  const unsupported = new Set<UnsupportedFeature>();
+  const rows = query.root ? arxivRows(query.root, unsupported) : [];
+  const params: { [key: string]: string } = {};
+
+  // 第一行字段固定为 all, 不是任意字段的词从第二行开始
+  const first = rows[0]?.term.field === 'any' ? rows.shift() : undefined;
+  rows.forEach((row, i) => {
+    params[`terms-${i + 1}-operator`] = row.operator;
+    params[`terms-${i + 1}-term`] = quoteIfNeeded(row.term.value, row.term.phrase);
+    params[`terms-${i + 1}-field`] = arxivFields[row.term.field];
+  });
+
+  if (query.years) {
+    params['date-filter_by'] = 'date_range';
+    if (query.years.from !== undefined) params['date-from_date'] = `${query.years.from}-01-01`;
+    if (query.years.to !== undefined) params['date-to_date'] = `${query.years.to}-12-31`;
+    params['date-date_type'] = 'submitted_date';
+  }
+
+  return {
+    query: first ? quoteIfNeeded(first.term.value, first.term.phrase) : '',
+    params,
+    ...(unsupported.size > 0 && { unsupported: [...unsupported] }),
+  };
+};
+
+// DBLP: 不支持字段、短语和括号, OR 用 |, 排除用 -, 年份用 year:YYYY: 分面.
+// 丢掉的字段、引号、括号和年份都记录在 unsupported 中
+const dblpSyntax: BooleanSyntax = {
+  term: node => node.value,
+  and: ' ',
+  or: '|',
+  exclude: (positive, negative) => `${positive} -${negative}`.trim(),
+  group: expression => expression,
+};
+
+// 区间太大时 DBLP 的 OR 列表没有意义, 直接放弃年份过滤
+const DBLP_MAX_YEAR_SPAN = 10;
+
+const dblpYearClause = (years: YearRange | null) => {
+  if (!years || years.from === undefined || years.to === undefined) return '';
+  if (years.to - years.from >= DBLP_MAX_YEAR_SPAN) return '';
+  const clauses: string[] = [];
+  for (let year = years.from; year <= years.to; year++) {
+    clauses.push(`year:${year}:`);
+  }
+  return clauses.join('|');
+};
+
+const translateDblp: QueryTranslator = query => {
+  const yearClause = dblpYearClause(query.years);
+  const unsupported: UnsupportedFeature[] = [];
+  if (hasTerm(query.root, term => term.field !== 'any')) unsupported.push('field');
+  if (hasTerm(query.root, term => term.phrase || /\s/.test(term.value))) unsupported.push('phrase');
+  if (hasNestedGroup(query.root)) unsupported.push('grouping');
+  if (query.years && !yearClause) unsupported.push('years');
+  return {
+    query: [render(query, dblpSyntax), yearClause].filter(Boolean).join(' '),
+    ...(unsupported.length > 0 && { unsupported }),
+  };
+};
+
+// Semantic Scholar 网页搜索只支持关键词和短语, 年份通过 year[0]/year[1] 参数.
+// 排除项被丢弃, OR 变成普通关键词, 两者都记录在 unsupported 中
+const semanticScholarSyntax: BooleanSyntax = {
+  term: node => quoteIfNeeded(node.value, node.phrase),
+  and: ' ',
+  or: ' ',
+  exclude: positive => positive,
+  group: expression => expression,
+};
+
+const translateSemanticScholar: QueryTranslator = query => {
+  const unsupported: UnsupportedFeature[] = [];
+  if (hasNode(query.root, 'not')) unsupported.push('exclusion');
+  if (hasNode(query.root, 'or')) unsupported.push('or');
+  return {
+    query: render(query, semanticScholarSyntax),
+    params: yearParams(query.years, 'year[0]', 'year[1]'),
+    ...(unsupported.length > 0 && { unsupported }),
+  };
+};
+
+export const queryTranslators: { [key in QuerySyntax]: QueryTranslator } = {
+  web: translateWeb,
+  google_scholar: translateScholar,
+  pubmed: translatePubmed,
+  arxiv: translateArxiv,
+  dblp: translateDblp,
+  semantic_scholar: translateSemanticScholar,
+};
+
+// 语法名称的界面文本键
+export const querySyntaxLabels: { [key in QuerySyntax]: MessageKey } = {
+  web: 'syntax.web',
+  google_scholar: 'syntax.google_scholar',
+  pubmed: 'syntax.pubmed',
+  arxiv: 'syntax.arxiv',
+  dblp: 'syntax.dblp',
+  semantic_scholar: 'syntax.semantic_scholar',
+};
+
+export const translateQuery = (source: SearchSource, query: StructuredQuery): TranslatedQuery => {
+  if (isPlainQuery(query)) {
+    return { query: query.raw.trim() };
+  }
+  const translator = source.syntax ? queryTranslators[source.syntax] : undefined;
+  return translator ? translator(query) : { query: toPlainText(query) };
+};
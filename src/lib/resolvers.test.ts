@@ -0,0 +1,159 @@
+// @vitest-environment jsdom
+import { describe, expect, it } from 'vitest';
+import type { Identifier } from './identifiers';
+import { fetchIdentifierMetadata, isResolvable, metadataTargets, resolverTargets } from './resolvers';
+
+const CROSSREF_WORK = JSON.stringify({
+  status: 'ok',
+  message: {
+    DOI: '10.1038/NATURE14539',
+    title: ['Deep learning'],
+    author: [{ given: 'Yann', family: 'LeCun' }, { name: 'The Deep Learning Group' }],
+    'container-title': ['Nature'],
+    issued: { 'date-parts': [[2015, 5, 27]] },
+    abstract: '<jats:p>Deep learning allows\n computational models.</jats:p>',
+    publisher: 'Springer Science and Business Media LLC',
+    resource: { primary: { URL: 'https://www.nature.com/articles/nature14539' } },
+  },
+});
+
+const ARXIV_FEED = `<feed xmlns="http://www.w3.org/2005/Atom" xmlns:arxiv="http://arxiv.org/schemas/atom">
+  <entry>
+    <id>http://arxiv.org/abs/1706.03762v7</id>
+    <published>2017-06-12T17:57:34Z</published>
+    <title>Attention Is All You Need</title>
+    <author><name>Ashish Vaswani</name></author>
+    <arxiv:doi>10.5555/3295222.3295349</arxiv:doi>
+  </entry>
+</feed>`;
+
+const OPEN_LIBRARY = JSON.stringify({
+  'ISBN:9780306406157': {
+    title: 'Coding and information theory',
+    subtitle: 'second edition',
+    authors: [{ name: 'Richard W. Hamming' }],
+    publish_date: 'March 1986',
+    publishers: [{ name: 'Prentice-Hall' }],
+    url: 'https://openlibrary.org/books/OL2551571M',
+  },
+});
+
+// 按主机名返回固定响应并记录请求; 数字表示 HTTP 错误状态
+const fakeFetch = (responses: { [host: string]: string | number }, requested: string[] = []): typeof fetch =>
+  async input => {
+    const url = new URL(String(input));
+    requested.push(url.href);
+    const body = responses[url.host];
+    if (body === undefined) throw new TypeError('Failed to fetch');
+    return typeof body === 'number' ? new Response('', { status: body }) : new Response(body);
+  };
+
+const doi: Identifier = { type: 'doi', value: '10.1038/nature14539' };
+const arxiv: Identifier = { type: 'arxiv', value: '1706.03762' };
+const pmid: Identifier = { type: 'pmid', value: '31452104' };
+const isbn: Identifier = { type: 'isbn', value: '9780306406157' };
+
+describe('resolverTargets', () => {
+  it('links DOIs to the publisher and search services, keeping "/" in the path', () => {
+    const targets = resolverTargets({ type: 'doi', value: '10.1002/(sici)1097-4636' });
+    expect(targets.map(target => target.id)).toEqual(['doi', 'semantic_scholar', 'dblp', 'pubmed', 'crossref']);
+    expect(targets[0].url).toBe('https://doi.org/10.1002/(sici)1097-4636');
+    expect(targets[3].url).toBe('https://pubmed.ncbi.nlm.nih.gov/?term=10.1002%2F(sici)1097-4636%5Bdoi%5D');
+  });
+
+  it('links arXiv IDs, PMIDs and ISBNs to their landing pages', () => {
+    expect(resolverTargets(arxiv).map(target => target.url)).toContain('https://arxiv.org/abs/1706.03762');
+    expect(resolverTargets(arxiv).map(target => target.url)).toContain('https://doi.org/10.48550/arXiv.1706.03762');
+    expect(resolverTargets(pmid)[0].url).toBe('https://pubmed.ncbi.nlm.nih.gov/31452104/');
+    expect(resolverTargets(isbn)[0].url).toBe('https://openlibrary.org/isbn/9780306406157');
+  });
+
+  it('does not resolve plain URLs', () => {
+    expect(isResolvable({ type: 'url', value: 'https://example.org' })).toBe(false);
+    expect(isResolvable(null)).toBe(false);
+    expect(isResolvable(doi)).toBe(true);
+  });
+});
+
+describe('metadataTargets', () => {
+  it('adds the publisher link for the published version of a preprint', () => {
+    const targets = metadataTargets(arxiv, { title: 'Attention', authors: [], doi: '10.5555/3295222.3295349', url: '' });
+    expect(targets[targets.length - 1]).toEqual({
+      id: 'publisher',
+      label: 'resolver.publisher',
+      url: 'https://doi.org/10.5555/3295222.3295349',
+    });
+    expect(metadataTargets(arxiv, { title: 'Attention', authors: [], doi: '10.48550/arXiv.1706.03762', url: '' })).toEqual(
+      resolverTargets(arxiv)
+    );
+  });
+});
+
+describe('fetchIdentifierMetadata', () => {
+  it('reads DOI metadata from Crossref', async () => {
+    const requested: string[] = [];
+    const metadata = await fetchIdentifierMetadata(doi, { fetch: fakeFetch({ 'api.crossref.org': CROSSREF_WORK }, requested) });
+    expect(requested).toEqual(['https://api.crossref.org/works/10.1038/nature14539']);
+    expect(metadata).toEqual({
+      title: 'Deep learning',
+      authors: ['Yann LeCun', 'The Deep Learning Group'],
+      year: 2015,
+      venue: 'Nature',
+      doi: '10.1038/nature14539',
+      abstract: 'Deep learning allows computational models.',
+      publisher: 'Springer Science and Business Media LLC',
+      url: 'https://www.nature.com/articles/nature14539',
+    });
+  });
+
+  it('returns null for DOIs Crossref does not know and rethrows other errors', async () => {
+    await expect(fetchIdentifierMetadata(doi, { fetch: fakeFetch({ 'api.crossref.org': 404 }) })).resolves.toBeNull();
+    await expect(fetchIdentifierMetadata(doi, { fetch: fakeFetch({ 'api.crossref.org': 503 }) })).rejects.toMatchObject({
+      name: 'AdapterError',
+      status: 503,
+    });
+    await expect(fetchIdentifierMetadata(doi, { fetch: fakeFetch({ 'api.crossref.org': '{"status":"error"}' }) })).rejects.toThrow(
+      'Unexpected Crossref response'
+    );
+  });
+
+  it('reads arXiv metadata from the configured base URL', async () => {
+    const requested: string[] = [];
+    const metadata = await fetchIdentifierMetadata(arxiv, {
+      fetch: fakeFetch({ 'localhost:8080': ARXIV_FEED }, requested),
+      baseUrls: { arxiv: 'http://localhost:8080/arxiv' },
+    });
+    expect(requested).toEqual(['http://localhost:8080/arxiv?id_list=1706.03762&max_results=1']);
+    expect(metadata).toMatchObject({ title: 'Attention Is All You Need', year: 2017, doi: '10.5555/3295222.3295349' });
+  });
+
+  it('returns null when PubMed has no record', async () => {
+    const empty = '<?xml version="1.0" ?><PubmedArticleSet></PubmedArticleSet>';
+    await expect(
+      fetchIdentifierMetadata(pmid, { fetch: fakeFetch({ 'eutils.ncbi.nlm.nih.gov': empty }) })
+    ).resolves.toBeNull();
+  });
+
+  it('reads ISBN metadata from Open Library', async () => {
+    await expect(fetchIdentifierMetadata(isbn, { fetch: fakeFetch({ 'openlibrary.org': OPEN_LIBRARY }) })).resolves.toEqual({
+      title: 'Coding and information theory: second edition',
+      authors: ['Richard W. Hamming'],
+      year: 1986,
+      publisher: 'Prentice-Hall',
+      url: 'https://openlibrary.org/books/OL2551571M',
+    });
+    await expect(fetchIdentifierMetadata(isbn, { fetch: fakeFetch({ 'openlibrary.org': '{}' }) })).resolves.toBeNull();
+  });
+
+  it('rejects when the lookup is aborted', async () => {
+    const controller = new AbortController();
+    controller.abort();
+    const aborting: typeof fetch = async (_, init) => {
+      init?.signal?.throwIfAborted();
+      return new Response(OPEN_LIBRARY);
+    };
+    await expect(
+      fetchIdentifierMetadata(isbn, { fetch: aborting, signal: controller.signal })
+    ).rejects.toMatchObject({ name: 'AbortError' });
+  });
+});
@@ -0,0 +1,149 @@
+// 标识符解析: 给出各个落地页链接, 并从开放 API 获取元数据用于预览
+//
+// 元数据来源: DOI -> Crossref, arXiv -> arXiv API, PMID -> PubMed efetch, ISBN -> Open Library.
+// fetch 和 API 地址都可以注入, 便于离线模拟.
+
+import type { Identifier, IdentifierType } from './identifiers';
+import type { MessageKey } from './i18n';
+import { ARXIV_API_URL, parseArxivResponse } from './adapters/arxiv';
+import { CROSSREF_API_URL, parseCrossrefWork } from './adapters/crossref';
+import { OPEN_LIBRARY_API_URL, parseOpenLibraryResponse } from './adapters/openLibrary';
+import { PUBMED_API_URL, parseEfetchResponse } from './adapters/pubmed';
+import { buildUrl, fetchText } from './adapters/http';
+import { AdapterError } from './adapters/types';
+
+export type ResolvableType = Exclude<IdentifierType, 'url'>;
+
+export interface ResolverTarget {
+  id: string;
+  // 界面文本键
+  label: MessageKey;
+  url: string;
+}
+
+export interface IdentifierMetadata {
+  title: string;
+  authors: string[];
+  year?: number;
+  venue?: string;
+  doi?: string;
+  arxivId?: string;
+  pmid?: string;
+  abstract?: string;
+  publisher?: string;
+  // 最合适的落地页
+  url: string;
+}
+
+// 标识符类型名称的界面文本键
+export const identifierLabels: { [key in IdentifierType]: MessageKey } = {
+  doi: 'identifier.type.doi',
+  arxiv: 'identifier.type.arxiv',
+  pmid: 'identifier.type.pmid',
+  isbn: 'identifier.type.isbn',
+  url: 'identifier.type.url',
+};
+
+export const isResolvable = (identifier: Identifier | null): identifier is Identifier & { type: ResolvableType } =>
+  identifier !== null && identifier.type !== 'url';
+
+// DOI 中的 "/" 是路径的一部分, 只编码其余字符
+const encodeDoi = (doi: string) => doi.split('/').map(encodeURIComponent).join('/');
+
+const dblpSearch = (term: string) => `https://dblp.org/search?q=${encodeURIComponent(term)}`;
+
+export const resolverTargets = (identifier: Identifier): ResolverTarget[] => {
+  const { value } = identifier;
+  switch (identifier.type) {
+    case 'doi':
+      return [
+        { id: 'doi', label: 'resolver.publisher', url: `https://doi.org/${encodeDoi(value)}` },
+        { id: 'semantic_scholar', label: 'resolver.semanticScholar', url: `https://api.semanticscholar.org/DOI:${encodeDoi(value)}` },
+        { id: 'dblp', label: 'resolver.dblp', url: dblpSearch(value) },
+        { id: 'pubmed', label: 'resolver.pubmed', url: `https://pubmed.ncbi.nlm.nih.gov/?term=${encodeURIComponent(`${value}[doi]`)}` },
+        { id: 'crossref', label: 'resolver.crossref', url: `https://search.crossref.org/?q=${encodeURIComponent(value)}&from_ui=yes` },
+      ];
+    case 'arxiv':
+      return [
+        { id: 'arxiv', label: 'resolver.arxivAbstract', url: `https://arxiv.org/abs/${value}` },
+        { id: 'arxiv_pdf', label: 'resolver.arxivPdf', url: `https://arxiv.org/pdf/${value}` },
+        { id: 'semantic_scholar', label: 'resolver.semanticScholar', url: `https://api.semanticscholar.org/arXiv:${value}` },
+        { id: 'dblp', label: 'resolver.dblp', url: dblpSearch(value) },
+        { id: 'doi', label: 'resolver.dataciteDoi', url: `https://doi.org/10.48550/arXiv.${value}` },
+      ];
+    case 'pmid':
+      return [
+        { id: 'pubmed', label: 'resolver.pubmed', url: `https://pubmed.ncbi.nlm.nih.gov/${value}/` },
+        { id: 'semantic_scholar', label: 'resolver.semanticScholar', url: `https://api.semanticscholar.org/PMID:${value}` },
+        { id: 'europe_pmc', label: 'resolver.europePmc', url: `https://europepmc.org/article/MED/${value}` },
+      ];
+    case 'isbn':
+      return [
+        { id: 'open_library', label: 'resolver.openLibrary', url: `https://openlibrary.org/isbn/${value}` },
+        { id: 'worldcat', label: 'resolver.worldcat', url: `https://search.worldcat.org/search?q=bn:${value}` },
+        { id: 'google_books', label: 'resolver.googleBooks', url: `https://books.google.com/books?vid=ISBN${value}` },
+      ];
+    case 'url':
+      return [{ id: 'url', label: 'resolver.openLink', url: value }];
+  }
+};
+
+// arXiv 论文和 PubMed 记录的元数据中有正式发表版本的 DOI 时, 补充出版商链接
+export const metadataTargets = (identifier: Identifier, metadata: IdentifierMetadata | null): ResolverTarget[] => {
+  const targets = resolverTargets(identifier);
+  if (identifier.type === 'doi' || !metadata?.doi || metadata.doi.toLowerCase().startsWith('10.48550/')) return targets;
+  return [...targets, { id: 'publisher', label: 'resolver.publisher', url: `https://doi.org/${encodeDoi(metadata.doi)}` }];
+};
+
+export interface MetadataOptions {
+  fetch?: typeof fetch;
+  signal?: AbortSignal;
+  baseUrls?: Partial<{ crossref: string; arxiv: string; pubmed: string; openLibrary: string }>;
+}
+
+// 找不到记录时返回 null; 网络或格式错误时抛出 AdapterError
+export const fetchIdentifierMetadata = async (
+  identifier: Identifier,
+  options: MetadataOptions = {}
+): Promise<IdentifierMetadata | null> => {
+  const requestOptions = {
+    fetch: options.fetch ?? ((input: RequestInfo | URL, init?: RequestInit) => window.fetch(input, init)),
+    signal: options.signal,
+    limit: 1,
+  };
+  const baseUrls = options.baseUrls ?? {};
+  const { value } = identifier;
+
+  switch (identifier.type) {
+    case 'doi': {
+      const url = `${baseUrls.crossref ?? CROSSREF_API_URL}/${encodeDoi(value)}`;
+      try {
+        return parseCrossrefWork(await fetchText(url, requestOptions));
+      } catch (error) {
+        // Crossref 没有收录的 DOI (例如 DataCite 注册的) 返回 404
+        if (error instanceof AdapterError && error.status === 404) return null;
+        throw error;
+      }
+    }
+    case 'arxiv': {
+      const url = buildUrl(baseUrls.arxiv ?? ARXIV_API_URL, { id_list: value, max_results: 1 });
+      const [paper] = parseArxivResponse(await fetchText(url, requestOptions));
+      return paper ?? null;
+    }
+    case 'pmid': {
+      const url = buildUrl(`${baseUrls.pubmed ?? PUBMED_API_URL}/efetch.fcgi`, { db: 'pubmed', id: value, retmode: 'xml' });
+      const [paper] = parseEfetchResponse(await fetchText(url, requestOptions));
+      return paper ?? null;
+    }
+    case 'isbn': {
+      const url = buildUrl(baseUrls.openLibrary ?? OPEN_LIBRARY_API_URL, {
+        bibkeys: `ISBN:${value}`,
+        format: 'json',
+        jscmd: 'data',
+      });
+      return parseOpenLibraryResponse(await fetchText(url, requestOptions), value);
+    }
+    case 'url':
+      return null;
+  }
+};
@@ -0,0 +1,24 @@
+import type { SearchResult } from '../types';
+
+// 单个搜索源的获取状态
+export type SourceResults =
+  | { status: 'loading' }
+  | { status: 'done'; results: SearchResult[] }
+  | { status: 'error'; error: string };
+
+// merged: 跨搜索源去重并按融合分数排序
+export type ResultsView = 'grouped' | 'interleaved' | 'merged';
+
+export const resultsViews: ResultsView[] = ['grouped', 'interleaved', 'merged'];
+
+// 按排名交替合并各搜索源的结果: 各源第 1 条, 然后各源第 2 条, ...
+export const interleaveResults = (groups: SearchResult[][]): SearchResult[] => {
+  const merged: SearchResult[] = [];
+  const longest = Math.max(0, ...groups.map(group => group.length));
+  for (let i = 0; i < longest; i++) {
+    groups.forEach(group => {
+      if (i < group.length) merged.push(group[i]);
+    });
+  }
+  return merged;
+};
@@ -0,0 +1,56 @@
+import { describe, expect, it } from 'vitest';
+import type { SearchSource } from '../types';
+import { defaultSearchSources } from '../searchSources';
+import { ARXIV_API_URL } from './adapters/arxiv';
+import { PUBMED_API_URL } from './adapters/pubmed';
+import { SEMANTIC_SCHOLAR_API_URL } from './adapters/semanticScholar';
+import { parseQuery } from './queryLanguage';
+import { toPlainText, translateQuery } from './queryTranslators';
+import { createLogEntries } from './reviewLog';
+import { buildSourceSearchUrl } from './searchUrl';
+
+const source = (id: string) => defaultSearchSources.find(s => s.id === id) as SearchSource;
+
+const QUERY = 'title:"graph networks" (GNN OR GCN) year:2020-2022';
+
+describe('createLogEntries', () => {
+  it('records the API request that in-page searches actually sent', () => {
+    const structured = parseQuery(QUERY);
+    const [semanticScholar, pubmed, arxiv] = createLogEntries(
+      'review-1',
+      QUERY,
+      structured,
+      ['semantic_scholar', 'pubmed', 'arxiv'].map(id => ({ source: source(id), delivery: 'in-page' as const })),
+      1000
+    );
+
+    expect(semanticScholar.renderedQuery).toBe(toPlainText(structured));
+    expect(semanticScholar.params).toEqual({ year: '2020-2022' });
+    expect(semanticScholar.url.startsWith(`${SEMANTIC_SCHOLAR_API_URL}?`)).toBe(true);
+    expect(new URL(semanticScholar.url).searchParams.get('query')).toBe(semanticScholar.renderedQuery);
+
+    expect(pubmed.url.startsWith(`${PUBMED_API_URL}/esearch.fcgi?`)).toBe(true);
+    expect(new URL(pubmed.url).searchParams.get('term')).toBe(pubmed.renderedQuery);
+
+    expect(arxiv.url.startsWith(`${ARXIV_API_URL}?`)).toBe(true);
+    expect(new URL(arxiv.url).searchParams.get('search_query')).toBe(arxiv.renderedQuery);
+    expect(arxiv).toMatchObject({ projectId: 'review-1', query: QUERY, delivery: 'in-page', timestamp: 1000 });
+  });
+
+  it('records the search page URL for windows and workspace panes', () => {
+    const structured = parseQuery(QUERY);
+    const entries = createLogEntries('review-1', QUERY, structured, [
+      { source: source('semantic_scholar'), delivery: 'window' },
+      { source: source('google_scholar'), delivery: 'embedded' },
+    ]);
+
+    entries.forEach((entry, i) => {
+      const searched = source(entry.sourceId);
+      const translated = translateQuery(searched, structured);
+      expect(entry.url).toBe(buildSourceSearchUrl(searched, structured));
+      expect(entry.renderedQuery).toBe(translated.query);
+      expect(entry.params).toEqual(translated.params);
+      expect(entry.delivery).toBe(i === 0 ? 'window' : 'embedded');
+    });
+  });
+});
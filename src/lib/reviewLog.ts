@@ -0,0 +1,310 @@
+// 系统综述检索日志 (PRISMA 检索策略报告)
+//
+// 启用一个综述项目后, 每次搜索都为每个搜索源记录一条日志: 搜索源、实际发送的查询和 URL、时间.
+// 日志记录一旦写入不再修改; 检索结果数、备注以及更正都以追加的修订 (amendment) 记录,
+// 当前值取最新一条修订. 数据保存在 IndexedDB (见 db.ts).
+
+import type { SearchSource } from '../types';
+import type { MessageKey, Translate } from './i18n';
+import type { StructuredQuery } from './queryLanguage';
+import { translateQuery } from './queryTranslators';
+import { getSourceRequest } from './adapters';
+import { buildSourceSearchUrl } from './searchUrl';
+import { add, getAll, put } from './db';
+import { createId } from './storage';
+
+// window: 已打开窗口, blocked: 窗口被拦截 (URL 已生成), in-page: 通过 API 在页面内获取,
+// embedded: 在工作区窗格中打开
+export type SearchDelivery = 'window' | 'blocked' | 'in-page' | 'embedded';
+
+export interface ReviewProject {
+  id: string;
+  name: string;
+  createdAt: number;
+}
+
+export interface ReviewLogEntry {
+  id: string;
+  projectId: string;
+  timestamp: number;
+  sourceId: string;
+  sourceName: string;
+  // 用户提交的完整查询 (包含扩展词和配置后缀)
+  query: string;
+  // 翻译成搜索源原生语法后的查询字符串及附加参数
+  renderedQuery: string;
+  params?: { [key: string]: string };
+  url: string;
+  delivery: SearchDelivery;
+}
+
+export interface ReviewAmendment {
+  id: string;
+  projectId: string;
+  entryId: string;
+  timestamp: number;
+  hitCount?: number;
+  note?: string;
+}
+
+export interface ReviewEntryState {
+  entry: ReviewLogEntry;
+  // 按时间排列的序号, 从 1 开始
+  number: number;
+  hitCount?: number;
+  note?: string;
+  amendments: ReviewAmendment[];
+}
+
+// 打开方式的界面文本键
+export const deliveryLabels: { [key in SearchDelivery]: MessageKey } = {
+  window: 'reviewLog.delivery.window',
+  blocked: 'reviewLog.delivery.blocked',
+  'in-page': 'reviewLog.delivery.in-page',
+  embedded: 'reviewLog.delivery.embedded',
+};
+
+// 名称由界面提供, 空名称在界面中就被拒绝
+export const createReviewProject = (name: string, now = Date.now()): ReviewProject => ({
+  id: createId('review'),
+  name: name.trim(),
+  createdAt: now,
+});
+
+export const createLogEntries = (
+  projectId: string,
+  query: string,
+  structuredQuery: StructuredQuery,
+  sources: { source: SearchSource; delivery: SearchDelivery }[],
+  now = Date.now()
+): ReviewLogEntry[] =>
+  sources.map(({ source, delivery }) => {
+    // 页面内获取的结果记录 API 请求, 其他方式记录打开的搜索页面
+    const request = delivery === 'in-page' ? getSourceRequest(source, structuredQuery) : null;
+    const translated = request ?? {
+      ...translateQuery(source, structuredQuery),
+      url: buildSourceSearchUrl(source, structuredQuery),
+    };
+    return {
+      id: createId('log'),
+      projectId,
+      timestamp: now,
+      sourceId: source.id,
+      sourceName: source.name,
+      query,
+      renderedQuery: translated.query,
+      params: translated.params,
+      url: translated.url,
+      delivery,
+    };
+  });
+
+// 没有任何内容时返回 null
+export const createAmendment = (
+  entry: ReviewLogEntry,
+  changes: { hitCount?: number; note?: string },
+  now = Date.now()
+): ReviewAmendment | null => {
+  const note = changes.note?.trim();
+  if (changes.hitCount === undefined && !note) return null;
+  return {
+    id: createId('amendment'),
+    projectId: entry.projectId,
+    entryId: entry.id,
+    timestamp: now,
+    ...(changes.hitCount !== undefined && { hitCount: changes.hitCount }),
+    ...(note && { note }),
+  };
+};
+
+const byTime = <T extends { timestamp: number; id: string }>(a: T, b: T) =>
+  a.timestamp - b.timestamp || a.id.localeCompare(b.id);
+
+export const buildEntryStates = (entries: ReviewLogEntry[], amendments: ReviewAmendment[]): ReviewEntryState[] =>
+  [...entries].sort(byTime).map((entry, i) => {
+    const own = amendments.filter(amendment => amendment.entryId === entry.id).sort(byTime);
+    const latest = <K extends 'hitCount' | 'note'>(key: K) =>
+      [...own].reverse().find(amendment => amendment[key] !== undefined)?.[key];
+    return { entry, number: i + 1, hitCount: latest('hitCount'), note: latest('note'), amendments: own };
+  });
+
+// ---- 导出 ----
+// 导出文件使用当前界面语言; 时间统一为 UTC, 查询和 URL 原样输出
+
+const formatTimestamp = (timestamp: number) => new Date(timestamp).toISOString().replace('T', ' ').slice(0, 19) + ' UTC';
+
+const sentQuery = (entry: ReviewLogEntry) =>
+  [entry.renderedQuery, ...Object.entries(entry.params ?? {}).map(([key, value]) => `${key}=${value}`)].join(' ');
+
+const amendmentSummary = (amendment: ReviewAmendment, t: Translate) =>
+  [
+    formatTimestamp(amendment.timestamp),
+    amendment.hitCount !== undefined ? t('reviewExport.hits', { count: amendment.hitCount }) : '',
+    amendment.note ?? '',
+  ]
+    .filter(Boolean)
+    .join(': ');
+
+// 以 = + @ 开头的单元格会被电子表格当作公式. "-" 开头是排除语法, 很常见, 不做处理
+const csvCell = (value: string | number | undefined) => {
+  const text = value === undefined ? '' : String(value);
+  const safe = /^[=+@]/.test(text) ? `'${text}` : text;
+  return /[",\r\n]/.test(safe) || safe !== text ? `"${safe.replace(/"/g, '""')}"` : safe;
+};
+
+export const toReviewCsv = (states: ReviewEntryState[], t: Translate) => {
+  const header = [
+    '#',
+    t('reviewExport.date'),
+    t('reviewExport.database'),
+    t('reviewExport.queryEntered'),
+    t('reviewExport.querySent'),
+    'URL',
+    t('reviewExport.delivery'),
+    t('reviewExport.results'),
+    t('reviewExport.notes'),
+    t('reviewExport.amendments'),
+  ];
+  const rows = states.map(state => [
+    state.number,
+    formatTimestamp(state.entry.timestamp),
+    state.entry.sourceName,
+    state.entry.query,
+    sentQuery(state.entry),
+    state.entry.url,
+    t(deliveryLabels[state.entry.delivery]),
+    state.hitCount,
+    state.note,
+    state.amendments.map(amendment => amendmentSummary(amendment, t)).join(' | '),
+  ]);
+  return [header, ...rows].map(row => row.map(csvCell).join(',')).join('\r\n') + '\r\n';
+};
+
+const markdownCell = (text: string | number | undefined) =>
+  text === undefined || text === '' ? '—' : String(text).replace(/\|/g, '\\|').replace(/\r?\n/g, ' ');
+
+const databases = (states: ReviewEntryState[], t: Translate) =>
+  Array.from(new Set(states.map(state => state.entry.sourceName))).join(t('common.listSeparator'));
+
+// 方法部分的概述: 检索次数、日期范围和数据库
+const methodsSummary = (states: ReviewEntryState[], t: Translate) => {
+  if (states.length === 0) return t('reviewExport.noSearches');
+  const day = (timestamp: number) => new Date(timestamp).toISOString().slice(0, 10);
+  const first = day(states[0].entry.timestamp);
+  const last = day(states[states.length - 1].entry.timestamp);
+  const params = { count: states.length, first, last, databases: databases(states, t) };
+  if (states.length === 1) return t('reviewExport.summaryOne', params);
+  return t(first === last ? 'reviewExport.summaryOneDay' : 'reviewExport.summary', params);
+};
+
+export const toReviewMarkdown = (project: ReviewProject, states: ReviewEntryState[], t: Translate) => {
+  const lines = [
+    `# ${t('reviewExport.title', { name: project.name })}`,
+    '',
+    methodsSummary(states, t),
+    '',
+    `| # | ${t('reviewExport.date')} | ${t('reviewExport.database')} | ${t('reviewExport.searchString')} | ` +
+      `${t('reviewExport.results')} | ${t('reviewExport.notes')} |`,
+    '| --- | --- | --- | --- | --- | --- |',
+    ...states.map(state =>
+      `| ${state.number} | ${formatTimestamp(state.entry.timestamp)} | ${markdownCell(state.entry.sourceName)} | ` +
+      `\`${sentQuery(state.entry).replace(/`/g, "'").replace(/\|/g, '\\|')}\` | ${markdownCell(state.hitCount)} | ${markdownCell(state.note)} |`
+    ),
+  ];
+
+  const amended = states.filter(state => state.amendments.length > 0);
+  if (amended.length > 0) {
+    lines.push('', `## ${t('reviewExport.amendments')}`, '');
+    amended.forEach(state => {
+      state.amendments.forEach(amendment =>
+        lines.push(`- ${t('reviewExport.searchNumber', { number: state.number })}: ${amendmentSummary(amendment, t)}`)
+      );
+    });
+  }
+
+  lines.push('', `## ${t('reviewExport.urls')}`, '', ...states.map(state => `${state.number}. <${state.entry.url}>`), '');
+  return lines.join('\n');
+};
+
+const escapeHtml = (text: string | number | undefined) =>
+  text === undefined
+    ? ''
+    : String(text)
+        .replace(/&/g, '&amp;')
+        .replace(/</g, '&lt;')
+        .replace(/>/g, '&gt;')
+        .replace(/"/g, '&quot;');
+
+export const toReviewHtml = (project: ReviewProject, states: ReviewEntryState[], t: Translate) => {
+  const rows = states
+    .map(state => {
+      const amendments = state.amendments.length > 0
+        ? `<ul>${state.amendments.map(amendment => `<li>${escapeHtml(amendmentSummary(amendment, t))}</li>`).join('')}</ul>`
+        : '';
+      return `    <tr>
+      <td>${state.number}</td>
+      <td>${escapeHtml(formatTimestamp(state.entry.timestamp))}</td>
+      <td>${escapeHtml(state.entry.sourceName)}</td>
+      <td><code>${escapeHtml(sentQuery(state.entry))}</code><br><a href="${escapeHtml(state.entry.url)}">URL</a></td>
+      <td>${escapeHtml(state.hitCount ?? '—')}</td>
+      <td>${escapeHtml(state.note ?? '')}${amendments}</td>
+    </tr>`;
+    })
+    .join('\n');
+
+  const title = escapeHtml(t('reviewExport.title', { name: project.name }));
+  const headers = [
+    '#',
+    t('reviewExport.date'),
+    t('reviewExport.database'),
+    t('reviewExport.searchString'),
+    t('reviewExport.results'),
+    t('reviewExport.notesAndAmendments'),
+  ]
+    .map(header => `<th>${escapeHtml(header)}</th>`)
+    .join('');
+  return `<!doctype html>
+<html lang="${t('reviewExport.htmlLang')}">
+<head>
+  <meta charset="utf-8">
+  <title>${title}</title>
+  <style>
+    body { font-family: sans-serif; margin: 2rem; }
+    table { border-collapse: collapse; width: 100%; }
+    th, td { border: 1px solid #ccc; padding: 0.4rem; text-align: left; vertical-align: top; }
+    code { white-space: pre-wrap; word-break: break-all; }
+  </style>
+</head>
+<body>
+  <h1>${title}</h1>
+  <p>${escapeHtml(methodsSummary(states, t))}</p>
+  <table>
+    <thead>
+      <tr>${headers}</tr>
+    </thead>
+    <tbody>
+${rows}
+    </tbody>
+  </table>
+</body>
+</html>
+`;
+};
+
+// ---- 存储 ----
+
+export const loadReviewLog = async () => {
+  const [projects, entries, amendments] = await Promise.all([
+    getAll<ReviewProject>('reviewProjects'),
+    getAll<ReviewLogEntry>('reviewEntries'),
+    getAll<ReviewAmendment>('reviewAmendments'),
+  ]);
+  return { projects: projects.sort((a, b) => a.createdAt - b.createdAt), entries, amendments };
+};
+
+export const saveReviewProject = (project: ReviewProject) => put('reviewProjects', project);
+
+// 日志和修订只能追加
+export const appendLogEntry = (entry: ReviewLogEntry) => add('reviewEntries', entry);
+
+export const appendAmendment = (amendment: ReviewAmendment) => add('reviewAmendments', amendment);
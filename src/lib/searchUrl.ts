@@ -0,0 +1,26 @@
+import type { SearchSource } from '../types';
+import { parseQuery } from './queryLanguage';
+import type { StructuredQuery } from './queryLanguage';
+import { translateQuery } from './queryTranslators';
+import { buildSearchUrl } from './urlTemplate';
+
+// 把翻译器给出的额外参数追加到 URL 上
+// 直接拼接字符串而不是用 URLSearchParams, 以免重新编码模板已经填好的部分 (例如 {query:raw})
+export const appendQueryParams = (url: string, params?: { [key: string]: string }): string => {
+  const entries = Object.entries(params ?? {});
+  if (entries.length === 0) return url;
+
+  const hashIndex = url.indexOf('#');
+  const base = hashIndex === -1 ? url : url.slice(0, hashIndex);
+  const hash = hashIndex === -1 ? '' : url.slice(hashIndex);
+  const query = entries.map(([key, value]) => `${encodeURIComponent(key)}=${encodeURIComponent(value)}`).join('&');
+  const separator = !base.includes('?') ? '?' : /[?&]$/.test(base) ? '' : '&';
+  return `${base}${separator}${query}${hash}`;
+};
+
+// 生成某个搜索源的最终搜索地址: 解析查询 -> 翻译成原生语法 -> 填入 URL 模板
+export const buildSourceSearchUrl = (source: SearchSource, query: string | StructuredQuery): string => {
+  const structured = typeof query === 'string' ? parseQuery(query) : query;
+  const translated = translateQuery(source, structured);
+  return appendQueryParams(buildSearchUrl(source.url, translated.query), translated.params);
+};
@@ -0,0 +1,211 @@
+import { describe, expect, it } from 'vitest';
+import type { SearchSource } from '../types';
+import type { AppPreferences } from './preferences';
+import type { ProfileState } from './profiles';
+import {
+  applySettingsBundle,
+  BUNDLE_FORMAT,
+  BUNDLE_VERSION,
+  createSettingsBundle,
+  parseSettingsBundle,
+  SettingsImportError,
+} from './settingsBundle';
+import type { SettingsBundle } from './settingsBundle';
+import { createDefaultLayout } from './sourceLayout';
+
+const profiles = { activeProfileId: 'default', profiles: [{ id: 'default', name: 'Default', engines: {} }] };
+
+const current = (preferences: AppPreferences) => ({
+  customSources: [],
+  profiles,
+  layout: createDefaultLayout(),
+  thesaurus: [],
+  preferences,
+});
+
+const importedName = (name: string) => `${name} (imported)`;
+
+const exported: AppPreferences = { fetchResults: true, resultsView: 'merged', workspace: true, locale: 'zh-CN' };
+
+const issuesOf = (text: string) => {
+  try {
+    parseSettingsBundle(text);
+  } catch (error) {
+    if (error instanceof SettingsImportError) return error.issues;
+    throw error;
+  }
+  return [];
+};
+
+const source = (id: string, extra: Partial<SearchSource> = {}): SearchSource => ({
+  id,
+  name: `Engine ${id}`,
+  url: `https://${id}.example/search?q={query}`,
+  description: '',
+  isCustom: true,
+  ...extra,
+});
+
+const local = {
+  customSources: [source('custom_1'), source('custom_2', { name: 'Library' })],
+  profiles: {
+    activeProfileId: 'default',
+    profiles: [
+      { id: 'default', name: 'Default', engines: { google: true } },
+      { id: 'profile_bio', name: 'Biomed', engines: { pubmed: true } },
+    ],
+  } as ProfileState,
+  layout: { ...createDefaultLayout(), categories: [{ id: 'mine', name: 'Mine' }], hiddenSources: ['bing'] },
+  thesaurus: [],
+  preferences: { fetchResults: false, resultsView: 'grouped' as const },
+};
+
+const bundleOf = (extra: Partial<SettingsBundle>): SettingsBundle => ({
+  ...createSettingsBundle([], profiles, createDefaultLayout(), [], exported),
+  ...extra,
+});
+
+describe('parseSettingsBundle', () => {
+  it('round-trips an exported bundle', () => {
+    const bundle = createSettingsBundle(local.customSources, local.profiles, local.layout, local.thesaurus, local.preferences);
+    expect(parseSettingsBundle(JSON.stringify(bundle))).toEqual(bundle);
+  });
+
+  it('rejects other files and newer schema versions', () => {
+    expect(issuesOf('not json')).toEqual(['File is not valid JSON']);
+    expect(issuesOf('{"customSources":[]}')).toEqual([`Missing "format": "${BUNDLE_FORMAT}"`]);
+    expect(issuesOf(JSON.stringify({ format: BUNDLE_FORMAT, version: BUNDLE_VERSION + 1, customSources: [] }))).toEqual([
+      `Unsupported version ${BUNDLE_VERSION + 1} (expected ${BUNDLE_VERSION} or lower)`,
+    ]);
+    expect(issuesOf(JSON.stringify({ format: BUNDLE_FORMAT, customSources: [] }))).toEqual([
+      `Unsupported version undefined (expected ${BUNDLE_VERSION} or lower)`,
+    ]);
+  });
+
+  it('reports every invalid entry at once', () => {
+    const text = JSON.stringify({
+      format: BUNDLE_FORMAT,
+      version: BUNDLE_VERSION,
+      customSources: [source('ok'), { id: '', name: 'Bad', url: 'ftp://x.example/{query}', syntax: 'lucene' }],
+      profiles: { activeProfileId: 'default', profiles: [{ id: 'p', name: 'P', engines: { google: 'yes' } }] },
+      layout: [],
+    });
+    expect(issuesOf(text)).toEqual([
+      'customSources[1].id: must be a non-empty string',
+      'customSources[1].url: URL must start with http:// or https://',
+      'customSources[1].syntax: unknown query syntax "lucene"',
+      'profiles.profiles[0].engines: must map source IDs to booleans',
+      'layout: must be an object',
+    ]);
+  });
+});
+
+describe('applySettingsBundle', () => {
+  it('replaces everything the file contains and keeps the rest', () => {
+    const bundle = bundleOf({ customSources: [source('custom_9', { isCustom: undefined })], layout: undefined });
+    const result = applySettingsBundle(bundle, local, 'replace', importedName);
+    expect(result.customSources).toEqual([source('custom_9')]);
+    expect(result.profiles).toEqual(profiles);
+    expect(result.layout).toBe(local.layout);
+    expect(result.report).toEqual({ added: 1, skipped: 0, renamed: 0 });
+  });
+
+  it('merges sources, skipping duplicates and renaming conflicting IDs', () => {
+    const bundle = bundleOf({
+      customSources: [
+        // 同 ID 同内容
+        source('custom_1'),
+        // 不同 ID, 但名称和网址与现有的相同
+        source('custom_7', { name: 'Library', url: source('custom_2').url }),
+        // ID 与现有的冲突, 内容不同
+        source('custom_1', { name: 'Other' }),
+        // ID 与内置搜索源冲突
+        source('pubmed', { name: 'My PubMed' }),
+        source('custom_8'),
+      ],
+    });
+    const result = applySettingsBundle(bundle, local, 'merge', importedName);
+    expect(result.report).toEqual({ added: 3, skipped: 2, renamed: 2 });
+
+    const added = result.customSources.slice(local.customSources.length);
+    expect(added.map(s => s.name)).toEqual(['Other', 'My PubMed', 'Engine custom_8']);
+    expect(added[0].id).toMatch(/^custom_\d+_/);
+    expect(added[1].id).toMatch(/^custom_\d+_/);
+    expect(added[2].id).toBe('custom_8');
+    expect(new Set(result.customSources.map(s => s.id)).size).toBe(result.customSources.length);
+  });
+
+  it('merges profiles, remapping engine IDs and renaming clashes', () => {
+    const bundle = bundleOf({
+      customSources: [source('custom_1', { name: 'Other' }), source('custom_7', { name: 'Library', url: source('custom_2').url })],
+      profiles: {
+        activeProfileId: 'profile_bio',
+        profiles: [
+          // 同 ID 同名: 视为同一个配置
+          { id: 'profile_bio', name: 'Biomed', engines: {} },
+          // ID 冲突, 名称不同
+          { id: 'profile_bio', name: 'Physics', engines: { custom_1: true } },
+          // 名称冲突
+          { id: 'profile_x', name: 'Default', engines: { custom_7: true } },
+        ],
+      },
+    });
+    const result = applySettingsBundle(bundle, local, 'merge', importedName);
+    const renamedSource = result.customSources.find(s => s.name === 'Other');
+    const [physics, imported] = result.profiles.profiles.slice(local.profiles.profiles.length);
+
+    expect(result.profiles.profiles).toHaveLength(4);
+    expect(result.profiles.activeProfileId).toBe('default');
+    expect(physics.id).toMatch(/^profile_\d+_/);
+    expect(physics.engines).toEqual({ [renamedSource?.id ?? '']: true });
+    expect(imported).toEqual({ id: 'profile_x', name: 'Default (imported)', engines: { custom_2: true } });
+  });
+
+  it('adds new layout categories without touching the current order or hidden engines', () => {
+    const bundle = bundleOf({
+      layout: { ...createDefaultLayout(), categories: [{ id: 'mine', name: 'Renamed' }, { id: 'lab', name: 'Lab' }], hiddenSources: [] },
+    });
+    const { layout } = applySettingsBundle(bundle, local, 'merge', importedName);
+    expect(layout.categories).toEqual([
+      { id: 'mine', name: 'Mine' },
+      { id: 'lab', name: 'Lab' },
+    ]);
+    expect(layout.hiddenSources).toEqual(['bing']);
+  });
+});
+
+describe('settings bundle preferences', () => {
+  it('round-trips app preferences', () => {
+    const text = JSON.stringify(createSettingsBundle([], profiles, createDefaultLayout(), [], exported));
+    const bundle = parseSettingsBundle(text);
+    expect(bundle.preferences).toEqual(exported);
+
+    const local: AppPreferences = { fetchResults: false, resultsView: 'grouped' };
+    expect(applySettingsBundle(bundle, current(local), 'replace', importedName).preferences).toEqual(exported);
+    expect(applySettingsBundle(bundle, current(local), 'merge', importedName).preferences).toEqual(exported);
+  });
+
+  it('keeps local preferences missing from the file', () => {
+    const bundle = parseSettingsBundle(
+      JSON.stringify({ ...createSettingsBundle([], profiles, createDefaultLayout(), [], exported), preferences: undefined })
+    );
+    expect(applySettingsBundle(bundle, current(exported), 'replace', importedName).preferences).toEqual(exported);
+
+    const partial = { ...bundle, preferences: { fetchResults: false, resultsView: 'grouped' as const } };
+    expect(applySettingsBundle(partial, current(exported), 'merge', importedName).preferences).toEqual({
+      ...exported,
+      fetchResults: false,
+      resultsView: 'grouped',
+    });
+  });
+
+  it('rejects invalid preferences', () => {
+    const bundle = createSettingsBundle([], profiles, createDefaultLayout(), [], exported);
+    const text = JSON.stringify({ ...bundle, preferences: { fetchResults: 'yes', resultsView: 'list', locale: 'fr' } });
+    expect(issuesOf(text)).toEqual([
+      'preferences.fetchResults: must be a boolean',
+      'preferences.resultsView: must be one of grouped, interleaved, merged',
+      'preferences.locale: unknown locale "fr"',
+    ]);
+  });
+});
@@ -0,0 +1,321 @@
+// 设置的导入/导出
+//
+// 导出为带格式标识和版本号的 JSON, 包含自定义搜索源、研究配置、搜索源布局、自定义同义词和应用偏好
+// (页面内结果、结果视图、界面语言、工作区). 导入时先完整校验, 再按 "合并" 或 "替换" 应用.
+// 合并时与现有 ID 冲突的条目会分配新 ID.
+
+import type { QuerySyntax, SearchSource } from '../types';
+import { allBuiltInSources } from '../searchSources';
+import { querySyntaxLabels } from './queryTranslators';
+import { englishMessage, isLocale } from './i18n';
+import type { AppPreferences } from './preferences';
+import { createId } from './storage';
+import { validateUrlTemplate } from './urlTemplate';
+import type { EngineSelection, ProfileState, SearchProfile } from './profiles';
+import { resultsViews } from './results';
+import type { SourceLayout } from './sourceLayout';
+import { mergeThesaurusEntries } from './thesaurus';
+import type { ThesaurusEntry } from './thesaurus';
+
+export const BUNDLE_FORMAT = 'literesearch-settings';
+export const BUNDLE_VERSION = 1;
+
+export interface SettingsBundle {
+  format: typeof BUNDLE_FORMAT;
+  version: number;
+  exportedAt: string;
+  customSources: SearchSource[];
+  profiles?: ProfileState;
+  layout?: SourceLayout;
+  thesaurus?: ThesaurusEntry[];
+  preferences?: AppPreferences;
+}
+
+export type ImportMode = 'merge' | 'replace';
+
+export interface ImportReport {
+  added: number;
+  // 与现有条目完全相同而跳过的数量
+  skipped: number;
+  // 因 ID 冲突而重新分配 ID 的数量
+  renamed: number;
+}
+
+export interface ImportResult {
+  customSources: SearchSource[];
+  profiles: ProfileState;
+  layout: SourceLayout;
+  thesaurus: ThesaurusEntry[];
+  preferences: AppPreferences;
+  report: ImportReport;
+}
+
+export class SettingsImportError extends Error {
+  issues: string[];
+
+  constructor(issues: string[]) {
+    super(`Invalid settings file:\n${issues.join('\n')}`);
+    this.name = 'SettingsImportError';
+    this.issues = issues;
+  }
+}
+
+export const createSettingsBundle = (
+  customSources: SearchSource[],
+  profiles: ProfileState,
+  layout: SourceLayout,
+  thesaurus: ThesaurusEntry[],
+  preferences: AppPreferences
+): SettingsBundle => ({
+  format: BUNDLE_FORMAT,
+  version: BUNDLE_VERSION,
+  exportedAt: new Date().toISOString(),
+  customSources,
+  profiles,
+  layout,
+  thesaurus,
+  preferences,
+});
+
+const isObject = (value: unknown): value is { [key: string]: unknown } =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const isQuerySyntax = (value: unknown): value is QuerySyntax =>
+  typeof value === 'string' && Object.prototype.hasOwnProperty.call(querySyntaxLabels, value);
+
+const isStringArray = (value: unknown) => Array.isArray(value) && value.every(item => typeof item === 'string');
+
+// 校验单个搜索源, 返回问题列表
+export const validateSearchSource = (value: unknown, path: string): string[] => {
+  if (!isObject(value)) return [`${path}: must be an object`];
+
+  const issues: string[] = [];
+  if (typeof value.id !== 'string' || !value.id) issues.push(`${path}.id: must be a non-empty string`);
+  if (typeof value.name !== 'string' || !value.name) issues.push(`${path}.name: must be a non-empty string`);
+  if (typeof value.url !== 'string') {
+    issues.push(`${path}.url: must be a string`);
+  } else {
+    const urlError = validateUrlTemplate(value.url);
+    if (urlError) issues.push(`${path}.url: ${englishMessage(urlError)}`);
+  }
+  if (value.description !== undefined && typeof value.description !== 'string') {
+    issues.push(`${path}.description: must be a string`);
+  }
+  if (value.category !== undefined && (typeof value.category !== 'string' || !value.category)) {
+    issues.push(`${path}.category: must be a non-empty string`);
+  }
+  if (value.syntax !== undefined && !isQuerySyntax(value.syntax)) {
+    issues.push(`${path}.syntax: unknown query syntax "${String(value.syntax)}"`);
+  }
+  if (value.bangs !== undefined && !isStringArray(value.bangs)) {
+    issues.push(`${path}.bangs: must be an array of strings`);
+  }
+  if (value.embeddable !== undefined && typeof value.embeddable !== 'boolean') {
+    issues.push(`${path}.embeddable: must be a boolean`);
+  }
+  return issues;
+};
+
+const validateProfile = (value: unknown, path: string): string[] => {
+  if (!isObject(value)) return [`${path}: must be an object`];
+
+  const issues: string[] = [];
+  if (typeof value.id !== 'string' || !value.id) issues.push(`${path}.id: must be a non-empty string`);
+  if (typeof value.name !== 'string') issues.push(`${path}.name: must be a string`);
+  if (!isObject(value.engines) || Object.values(value.engines).some(v => typeof v !== 'boolean')) {
+    issues.push(`${path}.engines: must map source IDs to booleans`);
+  }
+  if (value.querySuffix !== undefined && typeof value.querySuffix !== 'string') {
+    issues.push(`${path}.querySuffix: must be a string`);
+  }
+  return issues;
+};
+
+const THESAURUS_KINDS = ['mesh', 'synonym', 'acronym'];
+
+const validateThesaurusEntry = (value: unknown, path: string): string[] => {
+  if (!isObject(value)) return [`${path}: must be an object`];
+
+  const issues: string[] = [];
+  if (typeof value.id !== 'string' || !value.id) issues.push(`${path}.id: must be a non-empty string`);
+  if (typeof value.kind !== 'string' || !THESAURUS_KINDS.includes(value.kind)) {
+    issues.push(`${path}.kind: must be one of ${THESAURUS_KINDS.join(', ')}`);
+  }
+  if (!isStringArray(value.terms) || (value.terms as string[]).length < 2) {
+    issues.push(`${path}.terms: must be an array of at least two strings`);
+  }
+  return issues;
+};
+
+const validateLayout = (value: unknown): string[] => {
+  if (!isObject(value)) return ['layout: must be an object'];
+
+  const issues: string[] = [];
+  if (
+    !Array.isArray(value.categories) ||
+    value.categories.some(category => !isObject(category) || typeof category.id !== 'string' || typeof category.name !== 'string')
+  ) {
+    issues.push('layout.categories: must be an array of { id, name }');
+  }
+  if (!isStringArray(value.order)) issues.push('layout.order: must be an array of source IDs');
+  if (!isStringArray(value.hiddenSources)) issues.push('layout.hiddenSources: must be an array of source IDs');
+  if (!isObject(value.categoryOverrides) || Object.values(value.categoryOverrides).some(v => typeof v !== 'string')) {
+    issues.push('layout.categoryOverrides: must map source IDs to category IDs');
+  }
+  return issues;
+};
+
+const validatePreferences = (value: unknown): string[] => {
+  if (!isObject(value)) return ['preferences: must be an object'];
+
+  const issues: string[] = [];
+  if (typeof value.fetchResults !== 'boolean') issues.push('preferences.fetchResults: must be a boolean');
+  if (!resultsViews.includes(value.resultsView as AppPreferences['resultsView'])) {
+    issues.push(`preferences.resultsView: must be one of ${resultsViews.join(', ')}`);
+  }
+  if (value.workspace !== undefined && typeof value.workspace !== 'boolean') {
+    issues.push('preferences.workspace: must be a boolean');
+  }
+  if (value.locale !== undefined && !isLocale(value.locale)) {
+    issues.push(`preferences.locale: unknown locale "${String(value.locale)}"`);
+  }
+  return issues;
+};
+
+export const parseSettingsBundle = (text: string): SettingsBundle => {
+  let data: unknown;
+  try {
+    data = JSON.parse(text);
+  } catch {
+    throw new SettingsImportError(['File is not valid JSON']);
+  }
+
+  if (!isObject(data) || data.format !== BUNDLE_FORMAT) {
+    throw new SettingsImportError([`Missing "format": "${BUNDLE_FORMAT}"`]);
+  }
+  if (typeof data.version !== 'number' || data.version > BUNDLE_VERSION) {
+    throw new SettingsImportError([`Unsupported version ${String(data.version)} (expected ${BUNDLE_VERSION} or lower)`]);
+  }
+
+  const issues: string[] = [];
+  if (!Array.isArray(data.customSources)) {
+    issues.push('customSources: must be an array');
+  } else {
+    data.customSources.forEach((source, i) => issues.push(...validateSearchSource(source, `customSources[${i}]`)));
+  }
+
+  if (data.profiles !== undefined) {
+    const profiles = data.profiles;
+    if (!isObject(profiles) || !Array.isArray(profiles.profiles) || profiles.profiles.length === 0) {
+      issues.push('profiles.profiles: must be a non-empty array');
+    } else {
+      profiles.profiles.forEach((profile, i) => issues.push(...validateProfile(profile, `profiles.profiles[${i}]`)));
+      if (typeof profiles.activeProfileId !== 'string') issues.push('profiles.activeProfileId: must be a string');
+    }
+  }
+
+  if (data.layout !== undefined) issues.push(...validateLayout(data.layout));
+
+  if (data.thesaurus !== undefined) {
+    if (!Array.isArray(data.thesaurus)) issues.push('thesaurus: must be an array');
+    else data.thesaurus.forEach((entry, i) => issues.push(...validateThesaurusEntry(entry, `thesaurus[${i}]`)));
+  }
+
+  if (data.preferences !== undefined) issues.push(...validatePreferences(data.preferences));
+
+  if (issues.length > 0) throw new SettingsImportError(issues);
+  return data as unknown as SettingsBundle;
+};
+
+const sameSource = (a: SearchSource, b: SearchSource) => a.name === b.name && a.url === b.url;
+
+const remapEngines = (engines: EngineSelection, idMap: Map<string, string>): EngineSelection =>
+  Object.entries(engines).reduce((acc, [id, selected]) => {
+    acc[idMap.get(id) ?? id] = selected;
+    return acc;
+  }, {} as EngineSelection);
+
+export const applySettingsBundle = (
+  bundle: SettingsBundle,
+  current: {
+    customSources: SearchSource[];
+    profiles: ProfileState;
+    layout: SourceLayout;
+    thesaurus: ThesaurusEntry[];
+    preferences: AppPreferences;
+  },
+  mode: ImportMode,
+  // 与现有配置重名时的新名称, 由界面按当前语言生成
+  importedName: (name: string) => string
+): ImportResult => {
+  const report: ImportReport = { added: 0, skipped: 0, renamed: 0 };
+  const importedSources = bundle.customSources.map(source => ({ ...source, isCustom: true }));
+
+  if (mode === 'replace') {
+    report.added = importedSources.length;
+    return {
+      customSources: importedSources,
+      profiles: bundle.profiles ?? current.profiles,
+      layout: bundle.layout ?? current.layout,
+      thesaurus: bundle.thesaurus?.map(entry => ({ ...entry, isCustom: true })) ?? current.thesaurus,
+      preferences: bundle.preferences ?? current.preferences,
+      report,
+    };
+  }
+
+  // 合并: 默认搜索源的 ID 也视为已占用
+  const takenIds = new Set([...allBuiltInSources, ...current.customSources].map(source => source.id));
+  const idMap = new Map<string, string>();
+  const customSources = [...current.customSources];
+
+  importedSources.forEach(source => {
+    const existing = customSources.find(s => s.id === source.id);
+    if (existing && sameSource(existing, source)) {
+      report.skipped++;
+      return;
+    }
+    const duplicate = customSources.find(s => sameSource(s, source));
+    if (duplicate) {
+      idMap.set(source.id, duplicate.id);
+      report.skipped++;
+      return;
+    }
+    if (takenIds.has(source.id)) {
+      const id = createId('custom');
+      idMap.set(source.id, id);
+      source = { ...source, id };
+      report.renamed++;
+    }
+    takenIds.add(source.id);
+    customSources.push(source);
+    report.added++;
+  });
+
+  const profiles = { ...current.profiles, profiles: [...current.profiles.profiles] };
+  bundle.profiles?.profiles.forEach(imported => {
+    // 同 ID 同名的配置视为同一个, 不重复导入
+    if (profiles.profiles.some(p => p.id === imported.id && p.name === imported.name)) return;
+
+    const profile: SearchProfile = { ...imported, engines: remapEngines(imported.engines, idMap) };
+    if (profiles.profiles.some(p => p.id === profile.id)) {
+      profile.id = createId('profile');
+    }
+    if (profiles.profiles.some(p => p.name === profile.name)) {
+      profile.name = importedName(profile.name);
+    }
+    profiles.profiles.push(profile);
+  });
+
+  // 布局只合并新的分类, 现有的排序和隐藏设置保持不变
+  const newCategories = (bundle.layout?.categories ?? []).filter(
+    category => !current.layout.categories.some(existing => existing.id === category.id)
+  );
+  const layout = { ...current.layout, categories: [...current.layout.categories, ...newCategories] };
+
+  const thesaurus = mergeThesaurusEntries(current.thesaurus, bundle.thesaurus ?? []).entries;
+
+  // 偏好是单个开关而不是列表, 以导入的值为准; 文件里没有的项保留现有设置
+  const preferences = { ...current.preferences, ...bundle.preferences };
+
+  return { customSources, profiles, layout, thesaurus, preferences, report };
+};
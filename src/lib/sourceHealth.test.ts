@@ -0,0 +1,138 @@
+import { describe, expect, it } from 'vitest';
+import type { SearchSource } from '../types';
+import { message } from './i18n';
+import { PROBE_CANARY, probeSource, summarizeHealth, validateSource, validateSources } from './sourceHealth';
+
+const source = (url: string, extra: Partial<SearchSource> = {}): SearchSource => ({
+  id: 'lib',
+  name: 'Library',
+  url,
+  description: '',
+  isCustom: true,
+  ...extra,
+});
+
+const LIBRARY = source('https://library.example.edu/search?q={query}');
+
+// 跟随重定向后的响应; url 和 redirected 在真实 Response 上只读
+const fakeResponse = (status: number, finalUrl?: string): Response =>
+  ({ ok: status >= 200 && status < 300, status, url: finalUrl ?? '', redirected: finalUrl !== undefined }) as Response;
+
+const respond = (response: Response, requested: string[] = []): typeof fetch => async input => {
+  requested.push(String(input));
+  return response;
+};
+
+const codes = (issues: { code: string; severity: string }[]) => issues.map(issue => [issue.code, issue.severity]);
+
+describe('validateSource', () => {
+  it('accepts an https URL that carries the query', () => {
+    expect(validateSource(LIBRARY)).toEqual([]);
+    expect(validateSource(source('https://library.example.edu/search/{query}'))).toEqual([]);
+  });
+
+  it('treats plain http as an error', () => {
+    expect(validateSource(source('http://library.example.edu/search?q={query}'))).toEqual([
+      { code: 'insecure', severity: 'error', message: message('health.insecure') },
+    ]);
+  });
+
+  it('flags queries that never reach the server', () => {
+    expect(codes(validateSource(source('https://{query}.example.edu/')))).toEqual([['query-not-injected', 'error']]);
+    expect(codes(validateSource(source('https://library.example.edu/#q={query}')))).toEqual([['query-in-fragment', 'warning']]);
+  });
+
+  it('marks every duplicate ID and name', () => {
+    const result = validateSources([
+      LIBRARY,
+      { ...LIBRARY, url: 'https://other.example/?q={query}' },
+      source(LIBRARY.url, { id: 'x', name: ' library ' }),
+    ]);
+    expect(codes(result.lib)).toEqual([
+      ['duplicate-id', 'error'],
+      ['duplicate-name', 'warning'],
+    ]);
+    expect(codes(result.x)).toEqual([['duplicate-name', 'warning']]);
+  });
+});
+
+describe('probeSource', () => {
+  it('requests the search page with a test query', async () => {
+    const requested: string[] = [];
+    const probe = await probeSource(LIBRARY, { fetch: respond(fakeResponse(200), requested), now: () => 1000 });
+    expect(requested).toEqual([`https://library.example.edu/search?q=${PROBE_CANARY}`]);
+    expect(probe).toEqual({
+      url: LIBRARY.url,
+      checkedAt: 1000,
+      status: 200,
+      finalUrl: requested[0],
+      issues: [],
+    });
+    expect(summarizeHealth([], probe)).toEqual({ status: 'ok', issues: [], reachable: true });
+  });
+
+  it('separates broken URLs from refused requests', async () => {
+    const notFound = await probeSource(LIBRARY, { fetch: respond(fakeResponse(404)) });
+    expect(notFound.issues).toEqual([
+      { code: 'http-status', severity: 'error', message: message('health.httpError', { status: 404 }) },
+    ]);
+    const limited = await probeSource(LIBRARY, { fetch: respond(fakeResponse(429)) });
+    expect(codes(limited.issues)).toEqual([['http-status', 'warning']]);
+  });
+
+  it('detects redirects that drop the query', async () => {
+    const home = await probeSource(LIBRARY, { fetch: respond(fakeResponse(200, 'https://library.example.edu/')) });
+    expect(home.issues).toEqual([
+      { code: 'redirected-home', severity: 'error', message: message('health.redirectedHome', { host: 'library.example.edu' }) },
+    ]);
+    const dropped = await probeSource(LIBRARY, { fetch: respond(fakeResponse(200, 'https://library.example.edu/catalog?page=1')) });
+    expect(codes(dropped.issues)).toEqual([['query-dropped', 'warning']]);
+    const kept = await probeSource(LIBRARY, {
+      fetch: respond(fakeResponse(200, `https://www.library.example.edu/search?query=${PROBE_CANARY}`)),
+    });
+    expect(kept.issues).toEqual([]);
+  });
+
+  it('reports blocked and slow requests as unconfirmed, not as errors', async () => {
+    const blocked = await probeSource(LIBRARY, {
+      fetch: async () => {
+        throw new TypeError('Failed to fetch');
+      },
+    });
+    expect(blocked.issues).toEqual([
+      { code: 'unreachable', severity: 'info', message: message('health.unreachable') },
+    ]);
+    expect(summarizeHealth([], blocked)).toMatchObject({ status: 'ok', reachable: false });
+
+    const hanging: typeof fetch = (_, init) =>
+      new Promise((_resolve, reject) => init?.signal?.addEventListener('abort', () => reject(new DOMException('Aborted', 'AbortError'))));
+    const slow = await probeSource(LIBRARY, { fetch: hanging, timeoutMs: 10 });
+    expect(slow.issues).toEqual([{ code: 'unreachable', severity: 'info', message: message('health.timedOut') }]);
+  });
+
+  it('rejects when the caller cancels', async () => {
+    const controller = new AbortController();
+    const cancelling: typeof fetch = async () => {
+      controller.abort();
+      throw new DOMException('Aborted', 'AbortError');
+    };
+    await expect(probeSource(LIBRARY, { fetch: cancelling, signal: controller.signal })).rejects.toMatchObject({
+      name: 'AbortError',
+    });
+  });
+
+  it('does not request invalid templates', async () => {
+    const failing: typeof fetch = async () => {
+      throw new Error('unexpected request');
+    };
+    await expect(probeSource(source('not a url'), { fetch: failing })).resolves.toMatchObject({ issues: [] });
+  });
+});
+
+describe('summarizeHealth', () => {
+  it('reports the worst severity', () => {
+    const insecure = validateSource(source('http://library.example.edu/?q={query}'));
+    expect(summarizeHealth(insecure).status).toBe('error');
+    expect(summarizeHealth(validateSource(source('https://library.example.edu/#q={query}'))).status).toBe('warning');
+  });
+});
@@ -0,0 +1,207 @@
+// 搜索源健康检查
+//
+// 静态校验 (每次渲染都会执行, 不发请求):
+//   - URL 模板能解析, 是合法的 https 地址 (http 地址明文发送检索词, 视为错误)
+//   - 查询词确实被填入 URL (不在域名里, 也不只在 # 片段里)
+//   - 没有重复的 ID 或名称
+// 探测 (手动触发): 用一个无意义的测试查询请求搜索页, 检查状态码以及是否被重定向到首页.
+// 跨域请求常被浏览器拦截, 这种情况只记为无法确认, 不算错误. fetch 可以注入, 便于用本地模拟服务器测试.
+
+import type { SearchSource } from '../types';
+import { message } from './i18n';
+import type { Message } from './i18n';
+import { buildSourceSearchUrl } from './searchUrl';
+import { validateUrlTemplate } from './urlTemplate';
+
+export type HealthSeverity = 'error' | 'warning' | 'info';
+
+export type SourceIssueCode =
+  | 'invalid-url'
+  | 'insecure'
+  | 'query-not-injected'
+  | 'query-in-fragment'
+  | 'duplicate-id'
+  | 'duplicate-name'
+  | 'http-status'
+  | 'redirected-home'
+  | 'query-dropped'
+  | 'unreachable';
+
+export interface SourceIssue {
+  code: SourceIssueCode;
+  severity: HealthSeverity;
+  message: Message;
+}
+
+export interface ProbeResult {
+  // 探测时的 URL 模板, 模板修改后结果作废
+  url: string;
+  checkedAt: number;
+  status?: number;
+  finalUrl?: string;
+  issues: SourceIssue[];
+}
+
+export type HealthStatus = 'ok' | 'warning' | 'error';
+
+export interface SourceHealth {
+  status: HealthStatus;
+  issues: SourceIssue[];
+  // 探测通过 (没有任何问题) 时为 true, 未探测或无法确认时为 false
+  reachable: boolean;
+}
+
+// 只含字母数字, 各种编码方式下都保持原样
+export const PROBE_CANARY = 'zqxprobe7381';
+
+const containsCanary = (text: string) => {
+  try {
+    return decodeURIComponent(text).includes(PROBE_CANARY);
+  } catch {
+    return text.includes(PROBE_CANARY);
+  }
+};
+
+const issue = (code: SourceIssueCode, severity: HealthSeverity, detail: Message): SourceIssue => ({
+  code,
+  severity,
+  message: detail,
+});
+
+// 单个搜索源的静态校验
+export const validateSource = (source: SearchSource): SourceIssue[] => {
+  const templateError = validateUrlTemplate(source.url);
+  if (templateError) return [issue('invalid-url', 'error', templateError)];
+
+  const issues: SourceIssue[] = [];
+  const rendered = new URL(buildSourceSearchUrl(source, PROBE_CANARY));
+  if (rendered.protocol !== 'https:') {
+    issues.push(issue('insecure', 'error', message('health.insecure')));
+  }
+
+  if (containsCanary(rendered.host)) {
+    issues.push(issue('query-not-injected', 'error', message('health.queryInHost')));
+  } else if (!containsCanary(rendered.pathname) && !containsCanary(rendered.search)) {
+    issues.push(
+      containsCanary(rendered.hash)
+        ? issue('query-in-fragment', 'warning', message('health.queryInFragment'))
+        : issue('query-not-injected', 'error', message('health.queryMissing'))
+    );
+  }
+  return issues;
+};
+
+const nameKey = (name: string) => name.trim().toLowerCase();
+
+// 校验全部搜索源, 重复的 ID 和名称标记在每个重复项上
+export const validateSources = (sources: SearchSource[]): { [sourceId: string]: SourceIssue[] } => {
+  const countBy = (key: (source: SearchSource) => string) => {
+    const counts = new Map<string, number>();
+    sources.forEach(source => counts.set(key(source), (counts.get(key(source)) ?? 0) + 1));
+    return counts;
+  };
+  const idCounts = countBy(source => source.id);
+  const nameCounts = countBy(source => nameKey(source.name));
+
+  const result: { [sourceId: string]: SourceIssue[] } = {};
+  sources.forEach(source => {
+    const issues = [...(result[source.id] ?? []), ...validateSource(source)];
+    if ((idCounts.get(source.id) ?? 0) > 1 && !issues.some(existing => existing.code === 'duplicate-id')) {
+      issues.push(issue('duplicate-id', 'error', message('health.duplicateId', { id: source.id })));
+    }
+    if ((nameCounts.get(nameKey(source.name)) ?? 0) > 1 && !issues.some(existing => existing.code === 'duplicate-name')) {
+      issues.push(issue('duplicate-name', 'warning', message('health.duplicateName', { name: source.name.trim() })));
+    }
+    result[source.id] = issues;
+  });
+  return result;
+};
+
+// ---- 探测 ----
+
+export interface ProbeOptions {
+  fetch?: typeof fetch;
+  signal?: AbortSignal;
+  timeoutMs?: number;
+  now?: () => number;
+}
+
+export const DEFAULT_PROBE_TIMEOUT = 10000;
+
+const isHomepage = (url: URL) => /^\/(index\.\w+|home)?\/?$/i.test(url.pathname) && !url.search;
+
+// 401/403/429 多半是反爬虫或限流, 不代表 URL 失效
+const isBlockedStatus = (status: number) => status === 401 || status === 403 || status === 429;
+
+export const probeSource = async (source: SearchSource, options: ProbeOptions = {}): Promise<ProbeResult> => {
+  const fetchImpl = options.fetch ?? ((input: RequestInfo | URL, init?: RequestInit) => window.fetch(input, init));
+  const now = options.now ?? Date.now;
+  const result = (fields: Omit<ProbeResult, 'url' | 'checkedAt'>): ProbeResult => ({
+    url: source.url,
+    checkedAt: now(),
+    ...fields,
+  });
+
+  if (validateUrlTemplate(source.url)) {
+    return result({ issues: [] });
+  }
+  const url = buildSourceSearchUrl(source, PROBE_CANARY);
+
+  // 超时和外部取消都通过同一个 AbortController
+  const controller = new AbortController();
+  const abort = () => controller.abort();
+  options.signal?.addEventListener('abort', abort);
+  const timer = setTimeout(abort, options.timeoutMs ?? DEFAULT_PROBE_TIMEOUT);
+
+  try {
+    const response = await fetchImpl(url, { signal: controller.signal, redirect: 'follow', credentials: 'omit' });
+    const finalUrl = response.url || url;
+    const issues: SourceIssue[] = [];
+
+    if (!response.ok) {
+      issues.push(
+        isBlockedStatus(response.status)
+          ? issue('http-status', 'warning', message('health.refused', { status: response.status }))
+          : issue('http-status', 'error', message('health.httpError', { status: response.status }))
+      );
+    }
+
+    if (response.redirected && finalUrl !== url) {
+      const final = new URL(finalUrl);
+      if (!containsCanary(final.href)) {
+        issues.push(
+          isHomepage(final)
+            ? issue('redirected-home', 'error', message('health.redirectedHome', { host: final.host }))
+            : issue('query-dropped', 'warning', message('health.queryDropped', { url: final.href }))
+        );
+      }
+    }
+
+    return result({ status: response.status, finalUrl, issues });
+  } catch (error) {
+    if (options.signal?.aborted) throw error;
+    const timedOut = controller.signal.aborted;
+    return result({
+      issues: [
+        issue('unreachable', 'info', message(timedOut ? 'health.timedOut' : 'health.unreachable')),
+      ],
+    });
+  } finally {
+    clearTimeout(timer);
+    options.signal?.removeEventListener('abort', abort);
+  }
+};
+
+// ---- 汇总 ----
+
+const severityRank: { [key in HealthSeverity]: number } = { info: 0, warning: 1, error: 2 };
+
+export const summarizeHealth = (issues: SourceIssue[], probe?: ProbeResult): SourceHealth => {
+  const all = [...issues, ...(probe?.issues ?? [])];
+  const worst = all.reduce((rank, current) => Math.max(rank, severityRank[current.severity]), 0);
+  return {
+    status: worst === 2 ? 'error' : worst === 1 ? 'warning' : 'ok',
+    issues: all,
+    reachable: probe !== undefined && probe.issues.length === 0 && probe.status !== undefined,
+  };
+};
@@ -0,0 +1,145 @@
+// 搜索源的分类、排序与隐藏
+//
+// 自定义搜索源的分类保存在 SearchSource.category 上; 内置搜索源不可修改,
+// 拖到其他分类时记录在 categoryOverrides 里. order 是所有搜索源的全局显示顺序,
+// 不在其中的搜索源按原有顺序排在最后.
+
+import type { SearchSource } from '../types';
+import { createId, createStorageSlot } from './storage';
+
+export interface SourceCategory {
+  id: string;
+  name: string;
+  // 内置分类不能删除
+  builtIn?: boolean;
+}
+
+export interface SourceLayout {
+  categories: SourceCategory[];
+  order: string[];
+  hiddenSources: string[];
+  categoryOverrides: { [sourceId: string]: string };
+}
+
+export interface SourceGroup {
+  category: SourceCategory;
+  sources: SearchSource[];
+}
+
+export const FALLBACK_CATEGORY_ID = 'general';
+
+export const builtInCategories: SourceCategory[] = [
+  { id: 'general', name: 'General Search', builtIn: true },
+  { id: 'academic', name: 'Academic Search', builtIn: true },
+];
+
+export const createDefaultLayout = (): SourceLayout => ({
+  categories: builtInCategories,
+  order: [],
+  hiddenSources: [],
+  categoryOverrides: {},
+});
+
+export const sourceLayoutStorage = createStorageSlot<SourceLayout>({
+  key: 'sourceLayout',
+  version: 1,
+  defaultValue: createDefaultLayout,
+});
+
+// 搜索源实际所在的分类, 分类已被删除时归入 general
+export const getSourceCategory = (source: SearchSource, layout: SourceLayout): string => {
+  const categoryId = layout.categoryOverrides[source.id] ?? source.category ?? FALLBACK_CATEGORY_ID;
+  return layout.categories.some(category => category.id === categoryId) ? categoryId : FALLBACK_CATEGORY_ID;
+};
+
+export const sortSources = (sources: SearchSource[], layout: SourceLayout): SearchSource[] => {
+  const rank = (source: SearchSource) => {
+    const index = layout.order.indexOf(source.id);
+    return index === -1 ? layout.order.length + sources.indexOf(source) : index;
+  };
+  return [...sources].sort((a, b) => rank(a) - rank(b));
+};
+
+export const arrangeSources = (sources: SearchSource[], layout: SourceLayout): SourceGroup[] => {
+  const visible = sortSources(
+    sources.filter(source => !layout.hiddenSources.includes(source.id)),
+    layout
+  );
+  return layout.categories.map(category => ({
+    category,
+    sources: visible.filter(source => getSourceCategory(source, layout) === category.id),
+  }));
+};
+
+// 把搜索源移动到目标分类中 beforeId 之前; beforeId 为 null 时放在该分类末尾
+// 返回新的布局, 调用方负责更新自定义搜索源的 category
+export const moveSource = (
+  layout: SourceLayout,
+  sources: SearchSource[],
+  sourceId: string,
+  categoryId: string,
+  beforeId: string | null
+): SourceLayout => {
+  const ordered = sortSources(sources, layout).map(source => source.id).filter(id => id !== sourceId);
+
+  let index = beforeId ? ordered.indexOf(beforeId) : -1;
+  if (index === -1) {
+    // 插到目标分类最后一个搜索源之后
+    const lastInCategory = ordered
+      .map(id => sources.find(source => source.id === id))
+      .reduce((last, source, i) => (source && getSourceCategory(source, layout) === categoryId ? i : last), -1);
+    index = lastInCategory === -1 ? ordered.length : lastInCategory + 1;
+  }
+  ordered.splice(index, 0, sourceId);
+
+  const source = sources.find(s => s.id === sourceId);
+  const categoryOverrides = { ...layout.categoryOverrides };
+  if (source && !source.isCustom && source.category !== categoryId) {
+    categoryOverrides[sourceId] = categoryId;
+  } else {
+    delete categoryOverrides[sourceId];
+  }
+
+  return { ...layout, order: ordered, categoryOverrides };
+};
+
+export const addCategory = (layout: SourceLayout, name: string): SourceLayout =>
+  name.trim()
+    ? { ...layout, categories: [...layout.categories, { id: createId('category'), name: name.trim() }] }
+    : layout;
+
+export const renameCategory = (layout: SourceLayout, id: string, name: string): SourceLayout =>
+  name.trim()
+    ? {
+        ...layout,
+        categories: layout.categories.map(category => (category.id === id ? { ...category, name: name.trim() } : category)),
+      }
+    : layout;
+
+// 删除分类后其中的搜索源由 getSourceCategory 归入 general
+export const deleteCategory = (layout: SourceLayout, id: string): SourceLayout => {
+  if (layout.categories.find(category => category.id === id)?.builtIn) return layout;
+  const categoryOverrides = Object.fromEntries(
+    Object.entries(layout.categoryOverrides).filter(([, categoryId]) => categoryId !== id)
+  );
+  return { ...layout, categories: layout.categories.filter(category => category.id !== id), categoryOverrides };
+};
+
+export const setSourceHidden = (layout: SourceLayout, sourceId: string, hidden: boolean): SourceLayout => ({
+  ...layout,
+  hiddenSources: hidden
+    ? [...layout.hiddenSources.filter(id => id !== sourceId), sourceId]
+    : layout.hiddenSources.filter(id => id !== sourceId),
+});
+
+// 删除自定义搜索源时清理布局中的引用
+export const removeSourceFromLayout = (layout: SourceLayout, sourceId: string): SourceLayout => {
+  const categoryOverrides = { ...layout.categoryOverrides };
+  delete categoryOverrides[sourceId];
+  return {
+    ...layout,
+    order: layout.order.filter(id => id !== sourceId),
+    hiddenSources: layout.hiddenSources.filter(id => id !== sourceId),
+    categoryOverrides,
+  };
+};
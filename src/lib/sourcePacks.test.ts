@@ -0,0 +1,236 @@
+import { describe, expect, it } from 'vitest';
+import type { SearchSource } from '../types';
+import { defaultSearchSources } from '../searchSources';
+import { message } from './i18n';
+import {
+  applySourcePack,
+  diffSourcePack,
+  fetchSourcePack,
+  hasPackChanges,
+  installedSourceId,
+  parseSourcePack,
+  SourcePackError,
+  unsubscribeSourcePack,
+} from './sourcePacks';
+import type { PackSubscription, SourcePackManifest } from './sourcePacks';
+
+const manifest = (version: string, sources: SearchSource[]): SourcePackManifest => ({
+  format: 'literesearch-source-pack',
+  formatVersion: 1,
+  id: 'lab',
+  name: 'Lab engines',
+  version,
+  author: 'Lab',
+  sources,
+});
+
+const packSource = (id: string, extra: Partial<SearchSource> = {}): SearchSource => ({
+  id,
+  name: `Engine ${id}`,
+  url: `https://${id}.example/search?q={query}`,
+  description: '',
+  ...extra,
+});
+
+const subscribe = (pack: SourcePackManifest, customSources: SearchSource[] = [], subscriptions: PackSubscription[] = []) =>
+  applySourcePack(pack, diffSourcePack(pack, customSources), customSources, subscriptions, 'https://lab.example/pack.json', 1000);
+
+const issuesOf = (run: () => unknown) => {
+  try {
+    run();
+  } catch (error) {
+    if (error instanceof SourcePackError) return error.issues;
+    throw error;
+  }
+  return [];
+};
+
+describe('parseSourcePack', () => {
+  it('accepts a valid manifest', () => {
+    const pack = manifest('1.0.0', [packSource('a', { bangs: ['lab-a'] })]);
+    expect(parseSourcePack(JSON.stringify(pack))).toEqual(pack);
+  });
+
+  it('reports every problem at once', () => {
+    const text = JSON.stringify({
+      format: 'literesearch-source-pack',
+      id: 'bad id',
+      name: '',
+      version: '1',
+      sources: [packSource('a'), { id: 'a', name: 'Dup', url: 'https://dup.example/?q={query}' }, { id: 'b', url: 5 }],
+    });
+    expect(issuesOf(() => parseSourcePack(text))).toEqual([
+      'id: must contain only letters, digits, ".", "_" and "-"',
+      'name: must be a non-empty string',
+      'author: must be a non-empty string',
+      'sources[2].name: must be a non-empty string',
+      'sources[2].url: must be a string',
+      'sources[1].id: duplicate ID "a"',
+    ]);
+  });
+
+  it('rejects other files and newer format versions', () => {
+    expect(issuesOf(() => parseSourcePack('not json'))).toEqual(['File is not valid JSON']);
+    expect(issuesOf(() => parseSourcePack('{"sources":[]}'))).toEqual(['Missing "format": "literesearch-source-pack"']);
+    expect(issuesOf(() => parseSourcePack(JSON.stringify({ ...manifest('1', []), formatVersion: 2 })))).toEqual([
+      'Unsupported formatVersion 2 (expected 1 or lower)',
+    ]);
+  });
+});
+
+describe('fetchSourcePack', () => {
+  it('reports HTTP and network errors as pack errors', async () => {
+    await expect(
+      fetchSourcePack('https://lab.example/pack.json', { fetch: async () => new Response('', { status: 404 }) })
+    ).rejects.toMatchObject({ issues: ['Request failed with status 404'] });
+    await expect(
+      fetchSourcePack('https://lab.example/pack.json', {
+        fetch: async () => {
+          throw new TypeError('Failed to fetch');
+        },
+      })
+    ).rejects.toBeInstanceOf(SourcePackError);
+  });
+
+  it('parses the downloaded manifest', async () => {
+    const pack = manifest('1.0.0', [packSource('a')]);
+    await expect(
+      fetchSourcePack('https://lab.example/pack.json', { fetch: async () => new Response(JSON.stringify(pack)) })
+    ).resolves.toEqual(pack);
+  });
+});
+
+describe('diffSourcePack', () => {
+  const v1 = manifest('1.0.0', [
+    packSource('a', { bangs: ['la'] }),
+    packSource('b', { category: 'academic' }),
+    packSource('c'),
+  ]);
+  const installed = subscribe(v1);
+  const [subscription] = installed.subscriptions;
+
+  it('installs every source of a new pack with prefixed IDs', () => {
+    const diff = diffSourcePack(v1, []);
+    expect(diff.added.map(change => change.installedId)).toEqual(['pack:lab:a', 'pack:lab:b', 'pack:lab:c']);
+    expect(installed.customSources[0]).toEqual({
+      id: 'pack:lab:a',
+      name: 'Engine a',
+      url: 'https://a.example/search?q={query}',
+      description: '',
+      isCustom: true,
+      packId: 'lab',
+      bangs: ['la'],
+    });
+    expect(subscription).toMatchObject({ url: 'https://lab.example/pack.json', subscribedAt: 1000, updatedAt: 1000 });
+  });
+
+  it('reports nothing to do when the pack and local sources are unchanged', () => {
+    const diff = diffSourcePack(v1, installed.customSources, subscription);
+    expect(hasPackChanges(diff)).toBe(false);
+    expect(diff.unchanged).toBe(3);
+  });
+
+  it('applies remote changes and keeps fields edited locally', () => {
+    // 本地改了 a 的名称和 b 的网址
+    const local = installed.customSources.map(source =>
+      source.id === installedSourceId('lab', 'a')
+        ? { ...source, name: 'My A' }
+        : source.id === installedSourceId('lab', 'b')
+          ? { ...source, url: 'https://mirror.example/b?q={query}' }
+          : source
+    );
+    const v2 = manifest('2.0.0', [
+      packSource('a', { name: 'Engine A v2', description: 'Updated', bangs: ['la'] }),
+      packSource('b', { url: 'https://b.example/v2?q={query}', category: 'general' }),
+      packSource('c'),
+    ]);
+
+    const diff = diffSourcePack(v2, local, subscription);
+    expect(diff).toMatchObject({ fromVersion: '1.0.0', toVersion: '2.0.0', unchanged: 1 });
+    expect(diff.changed.map(change => [change.sourceId, change.fields, change.preserved])).toEqual([
+      ['a', ['description'], ['name']],
+      ['b', ['category'], ['url']],
+    ]);
+
+    const result = applySourcePack(v2, diff, local, installed.subscriptions, undefined, 2000);
+    const byId = (id: string) => result.customSources.find(source => source.id === installedSourceId('lab', id));
+    expect(byId('a')).toMatchObject({ name: 'My A', description: 'Updated' });
+    expect(byId('b')).toMatchObject({ url: 'https://mirror.example/b?q={query}', category: 'general' });
+    expect(result.subscriptions).toEqual([
+      { manifest: v2, url: 'https://lab.example/pack.json', subscribedAt: 1000, updatedAt: 2000 },
+    ]);
+  });
+
+  it('removes dropped sources unless they were customized', () => {
+    const local = installed.customSources.map(source =>
+      source.id === installedSourceId('lab', 'b') ? { ...source, description: 'Notes' } : source
+    );
+    const v2 = manifest('2.0.0', [packSource('a', { bangs: ['la'] })]);
+    const diff = diffSourcePack(v2, local, subscription);
+    expect(diff.removed.map(change => [change.sourceId, change.keptAsCustom])).toEqual([
+      ['b', true],
+      ['c', false],
+    ]);
+
+    const result = applySourcePack(v2, diff, local, installed.subscriptions);
+    expect(result.removedIds).toEqual(['pack:lab:c']);
+    const kept = result.customSources.find(source => source.id === 'pack:lab:b');
+    expect(kept).toMatchObject({ description: 'Notes', isCustom: true });
+    expect(kept?.packId).toBeUndefined();
+  });
+
+  it('does not re-add sources the user deleted', () => {
+    const local = installed.customSources.filter(source => source.id !== installedSourceId('lab', 'c'));
+    const v2 = manifest('2.0.0', [...v1.sources, packSource('d')]);
+    const diff = diffSourcePack(v2, local, subscription);
+    expect(diff.added.map(change => change.sourceId)).toEqual(['d']);
+  });
+
+  it('skips bangs that are already taken', () => {
+    const mine: SearchSource = { ...packSource('mine'), id: 'custom_1', isCustom: true, bangs: ['mine'] };
+    const sources = [...defaultSearchSources, mine];
+    const groups = [{ id: 'academic', name: 'Academic', sourceIds: ['pubmed'] }];
+    const pack = manifest('1.0.0', [
+      packSource('a', { bangs: ['pm', 'lab', 'Mine'] }),
+      packSource('b', { bangs: ['lab', 'academic', 'b!'] }),
+      packSource('c', { bangs: ['gs'] }),
+    ]);
+
+    const diff = diffSourcePack(pack, [mine], undefined, sources, groups);
+    expect(diff.added.map(change => [change.sourceId, change.after?.bangs, change.bangIssues])).toEqual([
+      ['a', ['lab'], [message('bangs.taken', { bang: '!pm' }), message('bangs.taken', { bang: '!mine' })]],
+      [
+        'b',
+        undefined,
+        [
+          message('bangs.taken', { bang: '!lab' }),
+          message('bangs.taken', { bang: '!academic' }),
+          message('bangs.invalid', { bang: '!b!' }),
+        ],
+      ],
+      ['c', undefined, [message('bangs.taken', { bang: '!gs' })]],
+    ]);
+  });
+
+  it('lets an update reuse bangs freed by the same update', () => {
+    const v2 = manifest('2.0.0', [packSource('b', { bangs: ['la'] }), packSource('c')]);
+    const diff = diffSourcePack(v2, installed.customSources, subscription, [...defaultSearchSources, ...installed.customSources]);
+    expect(diff.changed.map(change => [change.sourceId, change.after?.bangs, change.bangIssues])).toEqual([
+      ['b', ['la'], undefined],
+    ]);
+  });
+});
+
+describe('unsubscribeSourcePack', () => {
+  it('removes untouched sources and keeps customized ones', () => {
+    const pack = manifest('1.0.0', [packSource('a'), packSource('b')]);
+    const installed = subscribe(pack);
+    const local = installed.customSources.map(source =>
+      source.id === 'pack:lab:b' ? { ...source, name: 'Renamed' } : source
+    );
+    const result = unsubscribeSourcePack('lab', local, installed.subscriptions);
+    expect(result.removedIds).toEqual(['pack:lab:a']);
+    expect(result.customSources.map(source => [source.id, source.packId])).toEqual([['pack:lab:b', undefined]]);
+    expect(result.subscriptions).toEqual([]);
+  });
+});
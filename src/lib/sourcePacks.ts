@@ -0,0 +1,371 @@
+// 搜索源包: 团队共享的一组搜索源定义, 带名称、版本和作者, 可以从 URL 或本地文件加载
+//
+// 订阅后包中的搜索源作为自定义搜索源安装, ID 为 pack:<包 ID>:<源 ID>.
+// 订阅记录保存上一次接受的清单, 更新时三方比较:
+//   基准 (上次接受的清单) / 本地 (当前的自定义搜索源) / 远端 (新清单)
+// 本地改过的字段保留本地值, 其余字段跟随新清单. 用户先预览差异, 接受后才应用.
+// 本地删除的包内搜索源不会被更新重新添加.
+// 包中的 bang 和其他搜索源 (内置、自定义、其他包)、分类或同一包中靠前的搜索源冲突时不安装, 在预览中列出.
+
+import type { SearchSource } from '../types';
+import { validateBangs } from './bangs';
+import type { BangGroup } from './bangs';
+import type { Message } from './i18n';
+import { createStorageSlot } from './storage';
+import { validateSearchSource } from './settingsBundle';
+
+export const PACK_FORMAT = 'literesearch-source-pack';
+export const PACK_FORMAT_VERSION = 1;
+
+export interface SourcePackManifest {
+  format: typeof PACK_FORMAT;
+  formatVersion?: number;
+  id: string;
+  name: string;
+  // 包自己的版本号, 例如 "1.2.0"
+  version: string;
+  author: string;
+  description?: string;
+  homepage?: string;
+  // 源 ID 在包内唯一, 安装后加上包 ID 前缀
+  sources: SearchSource[];
+}
+
+export interface PackSubscription {
+  // 上一次接受的清单, 作为下次更新的比较基准
+  manifest: SourcePackManifest;
+  // 从 URL 加载时记录地址, 用于检查更新
+  url?: string;
+  subscribedAt: number;
+  updatedAt: number;
+}
+
+// 可以由包定义、也可以在本地修改的字段
+export const PACK_FIELDS = ['name', 'url', 'description', 'category', 'syntax', 'bangs'] as const;
+export type PackField = (typeof PACK_FIELDS)[number];
+
+export interface PackSourceChange {
+  // 包内 ID
+  sourceId: string;
+  // 安装后的 ID
+  installedId: string;
+  kind: 'added' | 'changed' | 'removed';
+  // 本地当前值 (added 时为空)
+  before?: SearchSource;
+  // 应用后的值 (removed 时为空)
+  after?: SearchSource;
+  // 包中有变化并将被应用的字段
+  fields: PackField[];
+  // 本地改过而保留本地值的字段; 包中也修改了这些字段时同样保留本地值
+  preserved: PackField[];
+  // removed: 本地改过的搜索源保留为普通自定义搜索源
+  keptAsCustom?: boolean;
+  // 因冲突或格式错误而没有安装的 bang 别名
+  bangIssues?: Message[];
+}
+
+export interface PackDiff {
+  packId: string;
+  fromVersion?: string;
+  toVersion: string;
+  added: PackSourceChange[];
+  changed: PackSourceChange[];
+  removed: PackSourceChange[];
+  unchanged: number;
+}
+
+export class SourcePackError extends Error {
+  issues: string[];
+
+  constructor(issues: string[]) {
+    super(`Invalid source pack:\n${issues.join('\n')}`);
+    this.name = 'SourcePackError';
+    this.issues = issues;
+  }
+}
+
+export const sourcePacksStorage = createStorageSlot<PackSubscription[]>({
+  key: 'sourcePacks',
+  version: 1,
+  defaultValue: () => [],
+});
+
+export const installedSourceId = (packId: string, sourceId: string) => `pack:${packId}:${sourceId}`;
+
+// ---- 解析 ----
+
+const isObject = (value: unknown): value is { [key: string]: unknown } =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const PACK_ID_PATTERN = /^[a-z0-9][a-z0-9._-]*$/i;
+
+export const parseSourcePack = (text: string): SourcePackManifest => {
+  let data: unknown;
+  try {
+    data = JSON.parse(text);
+  } catch {
+    throw new SourcePackError(['File is not valid JSON']);
+  }
+
+  if (!isObject(data) || data.format !== PACK_FORMAT) {
+    throw new SourcePackError([`Missing "format": "${PACK_FORMAT}"`]);
+  }
+  if (data.formatVersion !== undefined && (typeof data.formatVersion !== 'number' || data.formatVersion > PACK_FORMAT_VERSION)) {
+    throw new SourcePackError([
+      `Unsupported formatVersion ${String(data.formatVersion)} (expected ${PACK_FORMAT_VERSION} or lower)`,
+    ]);
+  }
+
+  const issues: string[] = [];
+  if (typeof data.id !== 'string' || !PACK_ID_PATTERN.test(data.id)) {
+    issues.push('id: must contain only letters, digits, ".", "_" and "-"');
+  }
+  (['name', 'version', 'author'] as const).forEach(key => {
+    if (typeof data[key] !== 'string' || !(data[key] as string).trim()) issues.push(`${key}: must be a non-empty string`);
+  });
+  (['description', 'homepage'] as const).forEach(key => {
+    if (data[key] !== undefined && typeof data[key] !== 'string') issues.push(`${key}: must be a string`);
+  });
+
+  if (!Array.isArray(data.sources)) {
+    issues.push('sources: must be an array');
+  } else {
+    data.sources.forEach((source, i) => issues.push(...validateSearchSource(source, `sources[${i}]`)));
+    const seen = new Set<string>();
+    data.sources.forEach((source, i) => {
+      if (!isObject(source) || typeof source.id !== 'string') return;
+      if (seen.has(source.id)) issues.push(`sources[${i}].id: duplicate ID "${source.id}"`);
+      seen.add(source.id);
+    });
+  }
+
+  if (issues.length > 0) throw new SourcePackError(issues);
+  return data as unknown as SourcePackManifest;
+};
+
+export interface FetchPackOptions {
+  fetch?: typeof fetch;
+  signal?: AbortSignal;
+}
+
+export const fetchSourcePack = async (url: string, options: FetchPackOptions = {}): Promise<SourcePackManifest> => {
+  const fetchImpl = options.fetch ?? ((input: RequestInfo | URL, init?: RequestInit) => window.fetch(input, init));
+  let response: Response;
+  try {
+    response = await fetchImpl(url, { signal: options.signal });
+  } catch (error) {
+    if (options.signal?.aborted) throw error;
+    throw new SourcePackError([`Could not download ${url} (network error or the server does not allow cross-origin requests)`]);
+  }
+  if (!response.ok) {
+    throw new SourcePackError([`Request failed with status ${response.status}`]);
+  }
+  return parseSourcePack(await response.text());
+};
+
+// ---- 差异和合并 ----
+
+const fieldValue = (source: SearchSource, field: PackField) =>
+  field === 'bangs' ? (source.bangs ?? []).join(' ') : source[field] ?? '';
+
+const sameField = (a: SearchSource, b: SearchSource, field: PackField) => fieldValue(a, field) === fieldValue(b, field);
+
+// 包中的定义转换为安装后的自定义搜索源
+const installSource = (packId: string, source: SearchSource): SearchSource => {
+  const installed: SearchSource = {
+    id: installedSourceId(packId, source.id),
+    name: source.name,
+    url: source.url,
+    description: source.description ?? '',
+    isCustom: true,
+    packId,
+  };
+  if (source.category) installed.category = source.category;
+  if (source.syntax) installed.syntax = source.syntax;
+  if (source.bangs?.length) installed.bangs = source.bangs;
+  return installed;
+};
+
+const assignField = (target: SearchSource, from: SearchSource, field: PackField) => {
+  const value = from[field];
+  if (value === undefined || (Array.isArray(value) && value.length === 0)) {
+    if (field === 'description') target.description = '';
+    else delete target[field];
+  } else {
+    Object.assign(target, { [field]: value });
+  }
+};
+
+const detachFromPack = (source: SearchSource): SearchSource => {
+  const detached = { ...source };
+  delete detached.packId;
+  return detached;
+};
+
+// 本地修改过的字段
+export const customizedFields = (base: SearchSource, local: SearchSource): PackField[] =>
+  PACK_FIELDS.filter(field => !sameField(base, local, field));
+
+// sources 和 groups 是现有的全部搜索源和分类, 用于检查 bang 冲突
+export const diffSourcePack = (
+  manifest: SourcePackManifest,
+  customSources: SearchSource[],
+  subscription?: PackSubscription,
+  sources: SearchSource[] = customSources,
+  groups: BangGroup[] = []
+): PackDiff => {
+  const packId = manifest.id;
+  const baseSources = subscription?.manifest.sources ?? [];
+  const diff: PackDiff = {
+    packId,
+    fromVersion: subscription?.manifest.version,
+    toVersion: manifest.version,
+    added: [],
+    changed: [],
+    removed: [],
+    unchanged: 0,
+  };
+
+  manifest.sources.forEach(source => {
+    const installedId = installedSourceId(packId, source.id);
+    const remote = installSource(packId, source);
+    const local = customSources.find(s => s.id === installedId);
+    const baseDefinition = baseSources.find(s => s.id === source.id);
+
+    if (!local) {
+      // 基准中有而本地没有: 用户删除了这个搜索源
+      if (baseDefinition) return;
+      diff.added.push({ sourceId: source.id, installedId, kind: 'added', after: remote, fields: [...PACK_FIELDS], preserved: [] });
+      return;
+    }
+
+    // 还没有基准时 (例如本地已有同 ID 的搜索源) 把包中的定义视为基准
+    const base = baseDefinition ? installSource(packId, baseDefinition) : remote;
+    const preserved = customizedFields(base, local);
+    const fields = PACK_FIELDS.filter(field => !preserved.includes(field) && !sameField(local, remote, field));
+    if (fields.length === 0) {
+      diff.unchanged++;
+      return;
+    }
+    const after: SearchSource = { ...local };
+    fields.forEach(field => assignField(after, remote, field));
+    diff.changed.push({ sourceId: source.id, installedId, kind: 'changed', before: local, after, fields, preserved });
+  });
+
+  baseSources.forEach(source => {
+    if (manifest.sources.some(s => s.id === source.id)) return;
+    const installedId = installedSourceId(packId, source.id);
+    const local = customSources.find(s => s.id === installedId);
+    if (!local) return;
+    const preserved = customizedFields(installSource(packId, source), local);
+    diff.removed.push({
+      sourceId: source.id,
+      installedId,
+      kind: 'removed',
+      before: local,
+      fields: [],
+      preserved,
+      keptAsCustom: preserved.length > 0,
+    });
+  });
+
+  checkPackBangs(diff, sources, groups);
+  return diff;
+};
+
+// 逐个检查将要安装的搜索源的 bang, 去掉冲突的别名. 更新后会被替换或删除的搜索源不参与比较
+const checkPackBangs = (diff: PackDiff, sources: SearchSource[], groups: BangGroup[]) => {
+  const installing = [...diff.added, ...diff.changed];
+  const replaced = [...installing, ...diff.removed.filter(change => !change.keptAsCustom)].map(change => change.installedId);
+  const accepted = sources.filter(source => !replaced.includes(source.id));
+
+  installing.forEach(change => {
+    const after = change.after as SearchSource;
+    const bangs = after.bangs ?? [];
+    const issues = validateBangs(bangs, after.id, accepted, groups);
+    if (issues.length > 0) {
+      const kept = bangs.filter(bang => validateBangs([bang], after.id, accepted, groups).length === 0);
+      if (kept.length > 0) after.bangs = kept;
+      else delete after.bangs;
+      change.bangIssues = issues;
+      if (change.before && sameField(change.before, after, 'bangs')) {
+        change.fields = change.fields.filter(field => field !== 'bangs');
+      }
+    }
+    accepted.push(after);
+  });
+};
+
+export const hasPackChanges = (diff: PackDiff) =>
+  diff.added.length + diff.changed.length + diff.removed.length > 0;
+
+export interface PackApplyResult {
+  customSources: SearchSource[];
+  subscriptions: PackSubscription[];
+  // 已删除的搜索源 ID, 调用方负责从配置和布局中清理
+  removedIds: string[];
+}
+
+export const applySourcePack = (
+  manifest: SourcePackManifest,
+  diff: PackDiff,
+  customSources: SearchSource[],
+  subscriptions: PackSubscription[],
+  url?: string,
+  now = Date.now()
+): PackApplyResult => {
+  const changedById = new Map(diff.changed.map(change => [change.installedId, change.after as SearchSource]));
+  const removedIds = diff.removed.filter(change => !change.keptAsCustom).map(change => change.installedId);
+  const detachedIds = diff.removed.filter(change => change.keptAsCustom).map(change => change.installedId);
+
+  const updatedSources = customSources
+    .filter(source => !removedIds.includes(source.id))
+    .map(source => {
+      if (detachedIds.includes(source.id)) return detachFromPack(source);
+      return changedById.get(source.id) ?? source;
+    });
+  updatedSources.push(...diff.added.map(change => change.after as SearchSource));
+
+  const existing = subscriptions.find(subscription => subscription.manifest.id === manifest.id);
+  const subscription: PackSubscription = {
+    manifest,
+    url: url ?? existing?.url,
+    subscribedAt: existing?.subscribedAt ?? now,
+    updatedAt: now,
+  };
+  return {
+    customSources: updatedSources,
+    subscriptions: existing
+      ? subscriptions.map(s => (s === existing ? subscription : s))
+      : [...subscriptions, subscription],
+    removedIds,
+  };
+};
+
+// 取消订阅: 没有本地修改的包内搜索源一并删除, 改过的保留为普通自定义搜索源
+export const unsubscribeSourcePack = (
+  packId: string,
+  customSources: SearchSource[],
+  subscriptions: PackSubscription[]
+): PackApplyResult => {
+  const subscription = subscriptions.find(s => s.manifest.id === packId);
+  const removedIds: string[] = [];
+  const updatedSources: SearchSource[] = [];
+  customSources.forEach(source => {
+    if (source.packId !== packId) {
+      updatedSources.push(source);
+      return;
+    }
+    const definition = subscription?.manifest.sources.find(s => installedSourceId(packId, s.id) === source.id);
+    if (definition && customizedFields(installSource(packId, definition), source).length === 0) {
+      removedIds.push(source.id);
+      return;
+    }
+    updatedSources.push(detachFromPack(source));
+  });
+  return {
+    customSources: updatedSources,
+    subscriptions: subscriptions.filter(s => s.manifest.id !== packId),
+    removedIds,
+  };
+};
@@ -0,0 +1,73 @@
+// 带版本号的 localStorage 存储
+//
+// 数据以 { version, data } 的形式保存. 读取时版本不一致 (或是没有版本号的旧数据, 视为 version 0)
+// 会交给 migrate 升级, 升级后的结果立即写回. 解析失败或无法迁移时返回默认值, 不会抛出异常.
+
+interface VersionedPayload {
+  version: number;
+  data: unknown;
+}
+
+export interface StorageSlot<T> {
+  key: string;
+  load: () => T;
+  save: (data: T) => void;
+  remove: () => void;
+}
+
+export interface StorageSlotOptions<T> {
+  key: string;
+  version: number;
+  defaultValue: () => T;
+  // 返回 undefined 表示无法迁移, 使用默认值
+  migrate?: (data: unknown, fromVersion: number) => T | undefined;
+  storage?: () => Storage;
+}
+
+const isVersionedPayload = (value: unknown): value is VersionedPayload =>
+  typeof value === 'object' &&
+  value !== null &&
+  typeof (value as VersionedPayload).version === 'number' &&
+  'data' in value;
+
+export const createStorageSlot = <T>({
+  key,
+  version,
+  defaultValue,
+  migrate,
+  storage = () => window.localStorage,
+}: StorageSlotOptions<T>): StorageSlot<T> => {
+  const save = (data: T) => {
+    const payload: VersionedPayload = { version, data };
+    storage().setItem(key, JSON.stringify(payload));
+  };
+
+  const load = (): T => {
+    const raw = storage().getItem(key);
+    if (raw === null) return defaultValue();
+
+    let parsed: unknown;
+    try {
+      parsed = JSON.parse(raw);
+    } catch {
+      return defaultValue();
+    }
+
+    const payload = isVersionedPayload(parsed) ? parsed : { version: 0, data: parsed };
+    if (payload.version === version) return payload.data as T;
+    // 比当前版本还新的数据来自更新的应用版本, 不覆盖
+    if (payload.version > version || !migrate) return defaultValue();
+
+    const migrated = migrate(payload.data, payload.version);
+    if (migrated === undefined) return defaultValue();
+    save(migrated);
+    return migrated;
+  };
+
+  const remove = () => storage().removeItem(key);
+
+  return { key, load, save, remove };
+};
+
+export const createId = (prefix: string) =>
+  `${prefix}_${Date.now()}_${Math.random().toString(36).slice(2, 8)}`;
@@ -0,0 +1,158 @@
+import { describe, expect, it } from 'vitest';
+import { createTabManager, windowName } from './tabManager';
+import type { TabRequest } from './tabManager';
+
+interface FakeWindow {
+  closed: boolean;
+  opener: unknown;
+  url: string;
+  focused: number;
+  location: { replace: (url: string) => void };
+  focus: () => void;
+  close: () => void;
+}
+
+const fakeWindow = (url: string): FakeWindow => {
+  const win: FakeWindow = {
+    closed: false,
+    opener: 'app',
+    url,
+    focused: 0,
+    location: { replace: next => (win.url = next) },
+    focus: () => (win.focused += 1),
+    close: () => (win.closed = true),
+  };
+  return win;
+};
+
+// 模拟浏览器的弹出窗口拦截: allow 返回 false 时按 blockedAs 的方式拦截
+const fakeOpen = (allow: (url: string) => boolean, blockedAs: 'null' | 'closed' | 'throw' = 'null') => {
+  const calls: { url: string; target: string }[] = [];
+  const windows: FakeWindow[] = [];
+  const open = (url: string, target: string) => {
+    calls.push({ url, target });
+    if (!allow(url)) {
+      if (blockedAs === 'throw') throw new Error('Blocked');
+      return blockedAs === 'closed' ? ({ ...fakeWindow(url), closed: true } as unknown as Window) : null;
+    }
+    const win = fakeWindow(url);
+    windows.push(win);
+    return win as unknown as Window;
+  };
+  return { open, calls, windows };
+};
+
+const request = (sourceId: string, query = 'crispr'): TabRequest => ({
+  sourceId,
+  url: `https://${sourceId}.example/?q=${query}`,
+  query,
+});
+
+describe('createTabManager', () => {
+  it('opens every requested window and drops the opener', () => {
+    const { open, calls, windows } = fakeOpen(() => true);
+    const manager = createTabManager({ open, now: () => 1000 });
+    expect(manager.openTabs([request('a'), request('b')])).toEqual({ opened: ['a', 'b'], blocked: [] });
+    expect(calls.map(call => call.target)).toEqual([windowName('a'), windowName('b')]);
+    expect(windows.map(win => win.opener)).toEqual([null, null]);
+    expect(manager.getRecord('a')).toMatchObject({ status: 'open', updatedAt: 1000 });
+  });
+
+  it.each(['null', 'closed', 'throw'] as const)('records windows blocked by returning %s', blockedAs => {
+    const { open } = fakeOpen(url => url.includes('a.example'), blockedAs);
+    const manager = createTabManager({ open });
+    expect(manager.openTabs([request('a'), request('b'), request('c')])).toEqual({ opened: ['a'], blocked: ['b', 'c'] });
+    expect(manager.getRecords().map(record => [record.sourceId, record.status])).toEqual([
+      ['a', 'open'],
+      ['b', 'blocked'],
+      ['c', 'blocked'],
+    ]);
+  });
+
+  it('retries every blocked window in search order, opening at least one per click', () => {
+    // 模拟浏览器: 每次点击只放行一个窗口
+    let allowance = 0;
+    const { open, calls } = fakeOpen(() => allowance-- > 0);
+    const manager = createTabManager({ open });
+    manager.openTabs([request('a'), request('b'), request('c')]);
+
+    allowance = 1;
+    expect(manager.retryBlocked()).toEqual({ opened: ['a'], blocked: ['b', 'c'] });
+    allowance = 1;
+    expect(manager.retryBlocked()).toEqual({ opened: ['b'], blocked: ['c'] });
+    expect(calls.slice(3).map(call => call.url)).toEqual([
+      request('a').url,
+      request('b').url,
+      request('c').url,
+      request('b').url,
+      request('c').url,
+    ]);
+    expect(manager.getRecord('c')?.status).toBe('blocked');
+
+    allowance = 1;
+    manager.retryBlocked();
+    expect(manager.retryBlocked()).toEqual({ opened: [], blocked: [] });
+  });
+
+  it('opens all blocked windows at once when pop-ups are allowed', () => {
+    let allowed = false;
+    const { open } = fakeOpen(() => allowed);
+    const manager = createTabManager({ open });
+    manager.openTabs([request('a'), request('b'), request('c')]);
+
+    allowed = true;
+    expect(manager.retryBlocked()).toEqual({ opened: ['a', 'b', 'c'], blocked: [] });
+  });
+
+  it('keeps a window blocked when the retry is blocked too', () => {
+    const { open } = fakeOpen(() => false);
+    const manager = createTabManager({ open });
+    manager.openTabs([request('a')]);
+    expect(manager.retryBlocked()).toEqual({ opened: [], blocked: ['a'] });
+    expect(manager.getRecord('a')?.status).toBe('blocked');
+  });
+
+  it('reuses an open window for the next search', () => {
+    const { open, calls, windows } = fakeOpen(() => true);
+    const manager = createTabManager({ open });
+    manager.openTabs([request('a')]);
+    manager.openTabs([request('a', 'cas9')]);
+    expect(calls).toHaveLength(1);
+    expect(windows[0]).toMatchObject({ url: request('a', 'cas9').url, focused: 1 });
+    expect(manager.getRecord('a')?.query).toBe('cas9');
+  });
+
+  it('notices windows closed by the user', () => {
+    const { open, windows } = fakeOpen(() => true);
+    let changes = 0;
+    const manager = createTabManager({ open, onChange: () => (changes += 1) });
+    manager.openTabs([request('a'), request('b')]);
+    windows[0].closed = true;
+
+    expect(manager.refresh()).toBe(true);
+    expect(manager.getRecord('a')?.status).toBe('closed');
+    expect(manager.refresh()).toBe(false);
+    expect(manager.focus('a')).toBe(false);
+    expect(manager.focus('b')).toBe(true);
+    expect(changes).toBe(2);
+  });
+
+  it('dismisses blocked windows one at a time or all together', () => {
+    const { open } = fakeOpen(url => url.includes('a.example'));
+    const manager = createTabManager({ open });
+    manager.openTabs([request('a'), request('b'), request('c')]);
+    manager.dismissBlocked('b');
+    expect(manager.getRecords().map(record => record.sourceId)).toEqual(['a', 'c']);
+    manager.dismissBlocked();
+    expect(manager.getRecords().map(record => record.sourceId)).toEqual(['a']);
+  });
+
+  it('closes every open window', () => {
+    const { open, windows } = fakeOpen(() => true);
+    const manager = createTabManager({ open });
+    manager.openTabs([request('a'), request('b')]);
+    manager.closeAll();
+    expect(windows.every(win => win.closed)).toBe(true);
+    expect(manager.getRecords().map(record => record.status)).toEqual(['closed', 'closed']);
+  });
+});
@@ -0,0 +1,174 @@
+// 搜索窗口管理
+//
+// 浏览器只允许在用户手势 (点击、回车) 内同步打开弹出窗口, 通常每个手势只放行一个,
+// 所以所有窗口都在调用方的事件处理函数里同步打开, 被拦截的记录下来, 由用户逐个点击
+// 链接或点 "Open all" 重试. "Open all" 在一次点击内重试全部: 浏览器至少放行第一个,
+// 用户允许本站弹出窗口后一次全部打开.
+//
+// window.open 带 noopener 时总是返回 null, 无法区分 "已打开" 和 "被拦截".
+// 因此不带 noopener 打开, 拿到句柄后再把 opener 置空, 效果相同.
+
+export type TabStatus = 'open' | 'blocked' | 'closed';
+
+export interface TabRequest {
+  sourceId: string;
+  url: string;
+  // 显示在搜索源卡片上的查询
+  query: string;
+}
+
+export interface TabRecord extends TabRequest {
+  status: TabStatus;
+  updatedAt: number;
+}
+
+export interface OpenReport {
+  opened: string[];
+  blocked: string[];
+}
+
+type OpenWindow = (url: string, target: string, features?: string) => Window | null;
+
+export interface TabManagerOptions {
+  open?: OpenWindow;
+  now?: () => number;
+  // 任何记录变化后调用
+  onChange?: () => void;
+}
+
+export interface TabManager {
+  openTabs: (requests: TabRequest[]) => OpenReport;
+  // 按搜索顺序重试所有被拦截的窗口
+  retryBlocked: () => OpenReport;
+  dismissBlocked: (sourceId?: string) => void;
+  focus: (sourceId: string) => boolean;
+  // 重新检查窗口是否已被用户关闭, 有变化时返回 true
+  refresh: () => boolean;
+  closeAll: () => void;
+  getRecords: () => TabRecord[];
+  getRecord: (sourceId: string) => TabRecord | undefined;
+}
+
+export const windowName = (sourceId: string) => `search_${sourceId}`;
+
+const isAlive = (win: Window | null | undefined): win is Window => {
+  try {
+    return win != null && !win.closed;
+  } catch {
+    return false;
+  }
+};
+
+export const createTabManager = ({
+  open = (url, target, features) => window.open(url, target, features),
+  now = Date.now,
+  onChange,
+}: TabManagerOptions = {}): TabManager => {
+  const handles = new Map<string, Window>();
+  const records = new Map<string, TabRecord>();
+
+  const setRecord = (request: TabRequest, status: TabStatus) => {
+    records.set(request.sourceId, { ...request, status, updatedAt: now() });
+  };
+
+  // 已有窗口时直接跳转, 否则新开; 返回是否成功
+  const openOne = (request: TabRequest): boolean => {
+    const existing = handles.get(request.sourceId);
+    if (isAlive(existing)) {
+      try {
+        existing.location.replace(request.url);
+        existing.focus();
+        return true;
+      } catch {
+        // 跨源限制等异常时按新窗口处理; 同名 target 会复用原窗口
+      }
+    }
+
+    let win: Window | null = null;
+    try {
+      win = open(request.url, windowName(request.sourceId), '');
+    } catch {
+      win = null;
+    }
+    // 部分浏览器拦截时返回一个立即关闭的窗口而不是 null
+    if (!isAlive(win)) {
+      handles.delete(request.sourceId);
+      return false;
+    }
+    try {
+      win.opener = null;
+    } catch {
+      // 某些环境下 opener 只读, 忽略
+    }
+    handles.set(request.sourceId, win);
+    return true;
+  };
+
+  const openTabs = (requests: TabRequest[]): OpenReport => {
+    const report: OpenReport = { opened: [], blocked: [] };
+    requests.forEach(request => {
+      const ok = openOne(request);
+      setRecord(request, ok ? 'open' : 'blocked');
+      report[ok ? 'opened' : 'blocked'].push(request.sourceId);
+    });
+    onChange?.();
+    return report;
+  };
+
+  const retryBlocked = (): OpenReport => {
+    const blocked = [...records.values()].filter(record => record.status === 'blocked');
+    return blocked.length > 0 ? openTabs(blocked) : { opened: [], blocked: [] };
+  };
+
+  const dismissBlocked = (sourceId?: string) => {
+    records.forEach((record, id) => {
+      if (record.status === 'blocked' && (sourceId === undefined || id === sourceId)) records.delete(id);
+    });
+    onChange?.();
+  };
+
+  const refresh = () => {
+    let changed = false;
+    records.forEach(record => {
+      if (record.status === 'open' && !isAlive(handles.get(record.sourceId))) {
+        handles.delete(record.sourceId);
+        setRecord(record, 'closed');
+        changed = true;
+      }
+    });
+    if (changed) onChange?.();
+    return changed;
+  };
+
+  const focus = (sourceId: string) => {
+    const win = handles.get(sourceId);
+    if (!isAlive(win)) {
+      refresh();
+      return false;
+    }
+    win.focus();
+    return true;
+  };
+
+  const closeAll = () => {
+    handles.forEach(win => {
+      if (isAlive(win)) win.close();
+    });
+    handles.clear();
+    records.forEach(record => {
+      if (record.status === 'open') setRecord(record, 'closed');
+    });
+    onChange?.();
+  };
+
+  return {
+    openTabs,
+    retryBlocked,
+    dismissBlocked,
+    focus,
+    refresh,
+    closeAll,
+    getRecords: () => [...records.values()],
+    getRecord: sourceId => records.get(sourceId),
+  };
+};
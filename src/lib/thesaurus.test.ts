@@ -0,0 +1,115 @@
+import { describe, expect, it } from 'vitest';
+import {
+  createThesaurusEntry,
+  expandQuery,
+  mergeThesaurusEntries,
+  normalizeTerm,
+  pruneSelection,
+  spellingVariant,
+  suggestExpansions,
+} from './thesaurus';
+import type { ThesaurusEntry } from './thesaurus';
+
+const entries: ThesaurusEntry[] = [
+  { id: 'mi', kind: 'mesh', terms: ['Myocardial Infarction', 'heart attack', 'MI'], meshId: 'D009203' },
+  { id: 'ml', kind: 'synonym', terms: ['machine learning', 'statistical learning'] },
+  { id: 'llm', kind: 'acronym', terms: ['LLM', 'large language model'] },
+];
+
+const keys = (raw: string) => suggestExpansions(raw, entries).map(suggestion => suggestion.key);
+
+describe('suggestExpansions', () => {
+  it('suggests the other terms of every matching group', () => {
+    expect(suggestExpansions('heart attack in mice', entries)).toEqual([
+      {
+        key: 'heart attack',
+        text: 'heart attack',
+        expansions: [
+          { text: 'Myocardial Infarction', kind: 'mesh', heading: 'Myocardial Infarction' },
+          { text: 'MI', kind: 'mesh', heading: 'Myocardial Infarction' },
+        ],
+      },
+    ]);
+    expect(keys('LLM for machine learning')).toEqual(['LLM', 'machine learning']);
+  });
+
+  it('adds British and American spellings', () => {
+    expect(spellingVariant('Tumor')).toBe('Tumour');
+    expect(suggestExpansions('tumor growth', [])).toEqual([
+      { key: 'tumor', text: 'tumor', expansions: [{ text: 'tumour', kind: 'spelling' }] },
+    ]);
+  });
+
+  it('matches acronyms only in capitals', () => {
+    expect(keys('mi and llm')).toEqual([]);
+    expect(keys('MI outcomes')).toEqual(['MI']);
+  });
+
+  it('prefers the longest term and matches quoted phrases only as a whole', () => {
+    expect(keys('statistical learning theory')).toEqual(['statistical learning']);
+    expect(keys('"heart attack"')).toEqual(['heart attack']);
+    expect(keys('"acute heart attack"')).toEqual([]);
+  });
+
+  it('skips excluded and field-qualified terms', () => {
+    expect(keys('-"heart attack" -LLM')).toEqual([]);
+    expect(keys('title:"machine learning" ti:LLM author:MI')).toEqual([]);
+  });
+
+  it('never suggests the term itself', () => {
+    const [suggestion] = suggestExpansions('Heart Attack', entries);
+    expect(suggestion.expansions.map(expansion => normalizeTerm(expansion.text))).not.toContain('heart attack');
+  });
+});
+
+describe('expandQuery', () => {
+  it('writes the selected terms back as OR groups', () => {
+    expect(
+      expandQuery('heart attack AND LLM', { 'heart attack': ['Myocardial Infarction', 'MI'], LLM: ['large language model'] })
+    ).toBe('("heart attack" OR "Myocardial Infarction" OR MI) AND (LLM OR "large language model")');
+  });
+
+  it('keeps the query unchanged without a selection', () => {
+    expect(expandQuery('heart attack', {})).toBe('heart attack');
+    expect(expandQuery('heart attack', { 'heart attack': [] })).toBe('heart attack');
+  });
+
+  it('does not repeat the original term', () => {
+    expect(expandQuery('MI risk', { MI: ['MI', 'heart attack'] })).toBe('(MI OR "heart attack") risk');
+    expect(expandQuery('"heart attack"', { 'heart attack': ['Heart  Attack', 'MI'] })).toBe('("heart attack" OR MI)');
+  });
+
+  it('leaves excluded and field-qualified terms alone', () => {
+    expect(expandQuery('-MI ti:MI MI', { MI: ['heart attack'] })).toBe('-MI ti:MI (MI OR "heart attack")');
+  });
+});
+
+describe('pruneSelection', () => {
+  it('drops selections for terms no longer in the query', () => {
+    const suggestions = suggestExpansions('MI', entries);
+    expect(pruneSelection({ MI: ['heart attack'], LLM: ['large language model'], tumor: [] }, suggestions)).toEqual({
+      MI: ['heart attack'],
+    });
+  });
+});
+
+describe('custom entries', () => {
+  it('creates an entry from a term list', () => {
+    expect(createThesaurusEntry('CRISPR;  gene  editing\nCRISPR', 'synonym')).toMatchObject({
+      kind: 'synonym',
+      terms: ['CRISPR', 'gene editing'],
+      isCustom: true,
+    });
+    expect(createThesaurusEntry('only one', 'synonym')).toBeNull();
+  });
+
+  it('skips imported entries with the same terms', () => {
+    const { entries: merged, added } = mergeThesaurusEntries(entries, [
+      { id: 'x', kind: 'synonym', terms: ['Statistical Learning', 'machine learning'] },
+      { id: 'ml', kind: 'synonym', terms: ['deep learning', 'DL'] },
+    ]);
+    expect(added).toBe(1);
+    expect(merged).toHaveLength(4);
+    expect(merged[3].id).not.toBe('ml');
+  });
+});
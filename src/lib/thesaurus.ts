@@ -0,0 +1,218 @@
+// 查询扩展: 根据同义词表为查询中的词建议同义词、缩写全称和英式/美式拼写
+//
+// 用户勾选的扩展以 OR 分组写回查询, 例如 heart attack -> ("heart attack" OR "myocardial infarction" OR MI),
+// 之后和普通查询一样由各搜索源的翻译器转换成原生语法.
+// 只扩展没有字段前缀、没有被排除的词; 引号短语整体匹配时才扩展.
+
+import { defaultThesaurus, spellingVariants } from '../defaultThesaurus';
+import type { MessageKey } from './i18n';
+import { createId, createStorageSlot } from './storage';
+
+export type ThesaurusKind = 'mesh' | 'synonym' | 'acronym';
+export type ExpansionKind = ThesaurusKind | 'spelling';
+
+export interface ThesaurusEntry {
+  id: string;
+  kind: ThesaurusKind;
+  // mesh 条目的第一个词是主题词
+  terms: string[];
+  meshId?: string;
+  isCustom?: boolean;
+}
+
+export interface Expansion {
+  text: string;
+  kind: ExpansionKind;
+  // 来自 MeSH 条目时的主题词
+  heading?: string;
+}
+
+export interface ExpansionSuggestion {
+  // 选择状态的键, 见 normalizeTerm
+  key: string;
+  // 查询中的原文
+  text: string;
+  expansions: Expansion[];
+}
+
+// 键 -> 勾选的扩展词
+export interface ExpansionSelection {
+  [key: string]: string[];
+}
+
+// 扩展类型名称的界面文本键
+export const expansionKindLabels: { [key in ExpansionKind]: MessageKey } = {
+  mesh: 'expansion.kind.mesh',
+  synonym: 'expansion.kind.synonym',
+  acronym: 'expansion.kind.acronym',
+  spelling: 'expansion.kind.spelling',
+};
+
+export const customThesaurusStorage = createStorageSlot<ThesaurusEntry[]>({
+  key: 'customThesaurus',
+  version: 1,
+  defaultValue: () => [],
+});
+
+// 全大写的短缩写 (MI, LLMs) 区分大小写, 避免匹配到普通单词
+const isAcronym = (term: string) => /^[A-Z][A-Z0-9]{1,5}s?$/.test(term);
+
+export const normalizeTerm = (term: string) => {
+  const collapsed = term.trim().replace(/\s+/g, ' ');
+  return isAcronym(collapsed) ? collapsed : collapsed.toLowerCase();
+};
+
+export const createThesaurusEntry = (termsText: string, kind: ThesaurusKind): ThesaurusEntry | null => {
+  const terms = Array.from(new Set(termsText.split(/[,;\n]/).map(term => term.trim().replace(/\s+/g, ' ')).filter(Boolean)));
+  if (terms.length < 2) return null;
+  return { id: createId('thesaurus'), kind, terms, isCustom: true };
+};
+
+// ---- 拼写变体 ----
+
+const spellingMap = new Map<string, string>(
+  spellingVariants.flatMap(([british, american]) => [
+    [british, american],
+    [american, british],
+  ])
+);
+
+// 逐词替换, 没有变体时返回 null
+export const spellingVariant = (term: string): string | null => {
+  let changed = false;
+  const variant = term.replace(/[A-Za-z]+/g, word => {
+    const replacement = spellingMap.get(word.toLowerCase());
+    if (!replacement) return word;
+    changed = true;
+    return word[0] === word[0].toUpperCase() ? replacement[0].toUpperCase() + replacement.slice(1) : replacement;
+  });
+  return changed ? variant : null;
+};
+
+// ---- 在查询中定位可扩展的词 ----
+
+interface TermSpan {
+  start: number;
+  end: number;
+  text: string;
+  key: string;
+}
+
+const escapeRegExp = (text: string) => text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+const termPattern = (term: string) =>
+  new RegExp(
+    `(^|[\\s(])(${term.trim().split(/\s+/).map(escapeRegExp).join('\\s+')})(?=$|[\\s)])`,
+    isAcronym(term) ? 'g' : 'gi'
+  );
+
+// 按长度从长到短匹配, 已匹配的位置不再参与较短词的匹配
+const findTermSpans = (raw: string, terms: string[]): TermSpan[] => {
+  const spans: TermSpan[] = [];
+  const overlaps = (start: number, end: number) => spans.some(span => start < span.end && end > span.start);
+
+  // 引号短语: 整个短语与词条相同时才匹配
+  const quoted = /"([^"]*)"/g;
+  const quotedRanges: [number, number][] = [];
+  let match: RegExpExecArray | null;
+  while ((match = quoted.exec(raw))) {
+    const start = match.index;
+    const end = start + match[0].length;
+    quotedRanges.push([start, end]);
+    const key = normalizeTerm(match[1]);
+    const preceding = raw[start - 1];
+    if (terms.some(term => normalizeTerm(term) === key) && (start === 0 || /[\s(]/.test(preceding))) {
+      spans.push({ start, end, text: match[1].trim(), key });
+    }
+  }
+  const inQuotes = (index: number) => quotedRanges.some(([start, end]) => index >= start && index < end);
+
+  const sorted = [...new Set(terms)].sort(
+    (a, b) => b.split(/\s+/).length - a.split(/\s+/).length || b.length - a.length
+  );
+  sorted.forEach(term => {
+    const pattern = termPattern(term);
+    while ((match = pattern.exec(raw))) {
+      const start = match.index + match[1].length;
+      const end = start + match[2].length;
+      if (!inQuotes(start) && !overlaps(start, end)) {
+        spans.push({ start, end, text: match[2], key: normalizeTerm(match[2]) });
+      }
+    }
+  });
+
+  return spans.sort((a, b) => a.start - b.start);
+};
+
+const entryHeading = (entry: ThesaurusEntry) => (entry.kind === 'mesh' ? entry.terms[0] : undefined);
+
+export const suggestExpansions = (raw: string, entries: ThesaurusEntry[] = defaultThesaurus): ExpansionSuggestion[] => {
+  const thesaurusTerms = entries.flatMap(entry => entry.terms);
+  // 查询中出现的、有拼写变体的单词
+  const spellingTerms = (raw.match(/[A-Za-z]+/g) ?? []).filter(word => spellingMap.has(word.toLowerCase()));
+  const spans = findTermSpans(raw, [...thesaurusTerms, ...spellingTerms]);
+
+  const suggestions: ExpansionSuggestion[] = [];
+  spans.forEach(span => {
+    if (suggestions.some(suggestion => suggestion.key === span.key)) return;
+
+    const expansions: Expansion[] = [];
+    const add = (expansion: Expansion) => {
+      const key = normalizeTerm(expansion.text);
+      if (key !== span.key && !expansions.some(existing => normalizeTerm(existing.text) === key)) {
+        expansions.push(expansion);
+      }
+    };
+    entries
+      .filter(entry => entry.terms.some(term => normalizeTerm(term) === span.key))
+      .forEach(entry => entry.terms.forEach(text => add({ text, kind: entry.kind, heading: entryHeading(entry) })));
+    const variant = spellingVariant(span.text);
+    if (variant) add({ text: variant, kind: 'spelling' });
+
+    if (expansions.length > 0) suggestions.push({ key: span.key, text: span.text, expansions });
+  });
+  return suggestions;
+};
+
+// ---- 写回查询 ----
+
+const quoteIfNeeded = (term: string) => (/[\s():"]/.test(term) ? `"${term.replace(/"/g, '')}"` : term);
+
+export const expandQuery = (raw: string, selection: ExpansionSelection): string => {
+  const keys = Object.keys(selection).filter(key => selection[key].length > 0);
+  if (keys.length === 0) return raw;
+
+  let result = '';
+  let position = 0;
+  findTermSpans(raw, keys).forEach(span => {
+    const selected = selection[span.key];
+    if (!selected?.length) return;
+    const alternatives = [span.text, ...selected.filter(text => normalizeTerm(text) !== span.key)];
+    result += raw.slice(position, span.start) + `(${alternatives.map(quoteIfNeeded).join(' OR ')})`;
+    position = span.end;
+  });
+  return result + raw.slice(position);
+};
+
+// 只保留当前查询中仍然出现的词的选择
+export const pruneSelection = (selection: ExpansionSelection, suggestions: ExpansionSuggestion[]): ExpansionSelection =>
+  Object.fromEntries(
+    Object.entries(selection).filter(([key, selected]) => selected.length > 0 && suggestions.some(s => s.key === key))
+  );
+
+// 导入的自定义条目: 词完全相同的视为重复
+export const mergeThesaurusEntries = (current: ThesaurusEntry[], imported: ThesaurusEntry[]) => {
+  const signature = (entry: ThesaurusEntry) => entry.terms.map(normalizeTerm).sort().join('|');
+  const merged = [...current];
+  let added = 0;
+  imported.forEach(entry => {
+    if (merged.some(existing => signature(existing) === signature(entry))) return;
+    merged.push({
+      ...entry,
+      id: merged.some(existing => existing.id === entry.id) ? createId('thesaurus') : entry.id,
+      isCustom: true,
+    });
+    added++;
+  });
+  return { entries: merged, added };
+};
@@ -0,0 +1,100 @@
+import { describe, expect, it } from 'vitest';
+import { message } from './i18n';
+import { buildSearchUrl, encodeQuery, parseUrlTemplate, UrlTemplateError, validateUrlTemplate } from './urlTemplate';
+
+const QUERY = 'graph & "neural nets"/café';
+
+describe('parseUrlTemplate', () => {
+  it('splits text and placeholders', () => {
+    expect(parseUrlTemplate('https://x.example/s/{query:raw}?q={query}&f={query:plus}')).toEqual({
+      parts: [
+        { type: 'text', value: 'https://x.example/s/' },
+        { type: 'query', encoding: 'raw' },
+        { type: 'text', value: '?q=' },
+        { type: 'query', encoding: 'component' },
+        { type: 'text', value: '&f=' },
+        { type: 'query', encoding: 'plus' },
+      ],
+      isPrefix: false,
+    });
+  });
+
+  it('treats URLs without a placeholder as prefixes', () => {
+    expect(parseUrlTemplate('https://x.example/?q=')).toEqual({
+      parts: [
+        { type: 'text', value: 'https://x.example/?q=' },
+        { type: 'query', encoding: 'component' },
+      ],
+      isPrefix: true,
+    });
+  });
+
+  it('keeps other braces as text', () => {
+    expect(parseUrlTemplate('https://x.example/{lang}/?q={query}').parts[0]).toEqual({
+      type: 'text',
+      value: 'https://x.example/{lang}/?q=',
+    });
+  });
+
+  it('rejects broken placeholders', () => {
+    const detail = (url: string) => {
+      try {
+        parseUrlTemplate(url);
+      } catch (error) {
+        if (error instanceof UrlTemplateError) return error.detail;
+        throw error;
+      }
+      return null;
+    };
+    expect(detail('https://x.example/?q={query')).toEqual(message('urlTemplate.unclosed', { position: 21 }));
+    expect(detail('https://x.example/?q={queryx}')).toEqual(
+      message('urlTemplate.unknownPlaceholder', { placeholder: '{queryx}' })
+    );
+    expect(detail('https://x.example/?q={query:url}')).toEqual(
+      message('urlTemplate.unknownEncoding', { encoding: 'url', placeholder: '{query:url}' })
+    );
+    expect(detail('https://x.example/?q={query:}')).toEqual(
+      message('urlTemplate.unknownEncoding', { encoding: '', placeholder: '{query:}' })
+    );
+  });
+});
+
+describe('encodeQuery', () => {
+  it('encodes the query for each placeholder', () => {
+    expect(encodeQuery(QUERY, 'component')).toBe('graph%20%26%20%22neural%20nets%22%2Fcaf%C3%A9');
+    expect(encodeQuery(QUERY, 'plus')).toBe('graph+%26+%22neural+nets%22%2Fcaf%C3%A9');
+    expect(encodeQuery(QUERY, 'raw')).toBe(QUERY);
+  });
+});
+
+describe('buildSearchUrl', () => {
+  it('fills every placeholder', () => {
+    expect(buildSearchUrl('https://x.example/?q={query:plus}&again={query}', 'a b')).toBe(
+      'https://x.example/?q=a+b&again=a%20b'
+    );
+  });
+
+  it('appends the query to prefix URLs', () => {
+    expect(buildSearchUrl('https://scholar.google.com/scholar?q=', 'a b')).toBe('https://scholar.google.com/scholar?q=a%20b');
+  });
+
+  it('leaves a literal %s in saved prefix URLs alone', () => {
+    expect(buildSearchUrl('https://x.example/%s/search?q=', 'a b')).toBe('https://x.example/%s/search?q=a%20b');
+  });
+});
+
+describe('validateUrlTemplate', () => {
+  it('accepts http and https templates', () => {
+    expect(validateUrlTemplate(' https://x.example/?q={query} ')).toBeNull();
+    expect(validateUrlTemplate('http://x.example/search/')).toBeNull();
+  });
+
+  it('reports what is wrong', () => {
+    expect(validateUrlTemplate('  ')).toEqual(message('urlTemplate.required'));
+    expect(validateUrlTemplate('x.example/?q={query}')).toEqual(message('urlTemplate.notAbsolute'));
+    expect(validateUrlTemplate('ftp://x.example/{query}')).toEqual(message('urlTemplate.badProtocol'));
+    expect(validateUrlTemplate('https://x.example/?q={query:url}')).toEqual(
+      message('urlTemplate.unknownEncoding', { encoding: 'url', placeholder: '{query:url}' })
+    );
+  });
+});
@@ -0,0 +1,133 @@
+// 搜索 URL 模板解析
+//
+// 支持的占位符:
+//   {query}       encodeURIComponent 编码 (空格 -> %20)
+//   {query:plus}  表单编码 (空格 -> +)
+//   {query:raw}   不编码, 原样插入
+// 兼容旧格式: 没有任何占位符的 URL 视为前缀, 查询词追加在末尾 (URL 中的 `%s` 等内容原样保留).
+// 不以 `{query` 开头的花括号按普通文本处理, 以免破坏已保存的自定义搜索源.
+
+import { englishMessage, message } from './i18n';
+import type { Message } from './i18n';
+
+export type QueryEncoding = 'component' | 'plus' | 'raw';
+
+export type TemplatePart =
+  | { type: 'text'; value: string }
+  | { type: 'query'; encoding: QueryEncoding };
+
+export interface UrlTemplate {
+  parts: TemplatePart[];
+  // 模板中没有占位符, 查询词追加在末尾
+  isPrefix: boolean;
+}
+
+// detail 供界面按当前语言显示, message 为英文
+export class UrlTemplateError extends Error {
+  constructor(readonly detail: Message) {
+    super(englishMessage(detail));
+    this.name = 'UrlTemplateError';
+  }
+}
+
+const ENCODINGS = new Map<string, QueryEncoding>([
+  ['', 'component'],
+  ['plus', 'plus'],
+  ['raw', 'raw'],
+]);
+
+const PLACEHOLDER_START = '{query';
+
+export const parseUrlTemplate = (url: string): UrlTemplate => {
+  const parts: TemplatePart[] = [];
+  let text = '';
+  let i = 0;
+
+  const pushText = () => {
+    if (text) {
+      parts.push({ type: 'text', value: text });
+      text = '';
+    }
+  };
+
+  while (i < url.length) {
+    if (url.startsWith(PLACEHOLDER_START, i)) {
+      const end = url.indexOf('}', i);
+      if (end === -1) {
+        throw new UrlTemplateError(message('urlTemplate.unclosed', { position: i }));
+      }
+      const body = url.slice(i + PLACEHOLDER_START.length, end);
+      if (body !== '' && !body.startsWith(':')) {
+        throw new UrlTemplateError(message('urlTemplate.unknownPlaceholder', { placeholder: url.slice(i, end + 1) }));
+      }
+      const encoding = ENCODINGS.get(body.slice(1));
+      if (!encoding || body === ':') {
+        throw new UrlTemplateError(
+          message('urlTemplate.unknownEncoding', { encoding: body.slice(1), placeholder: url.slice(i, end + 1) })
+        );
+      }
+      pushText();
+      parts.push({ type: 'query', encoding });
+      i = end + 1;
+      continue;
+    }
+
+    text += url[i];
+    i++;
+  }
+  pushText();
+
+  const isPrefix = !parts.some(part => part.type === 'query');
+  if (isPrefix) {
+    parts.push({ type: 'query', encoding: 'component' });
+  }
+
+  return { parts, isPrefix };
+};
+
+export const encodeQuery = (query: string, encoding: QueryEncoding): string => {
+  switch (encoding) {
+    case 'component':
+      return encodeURIComponent(query);
+    case 'plus':
+      return encodeURIComponent(query).replace(/%20/g, '+');
+    case 'raw':
+      return query;
+  }
+};
+
+export const renderUrlTemplate = (template: UrlTemplate, query: string): string => {
+  return template.parts
+    .map(part => (part.type === 'text' ? part.value : encodeQuery(query, part.encoding)))
+    .join('');
+};
+
+// 根据搜索源的 URL 模板生成最终搜索地址
+export const buildSearchUrl = (url: string, query: string): string => {
+  return renderUrlTemplate(parseUrlTemplate(url), query);
+};
+
+// 校验模板, 返回错误信息; 合法时返回 null
+export const validateUrlTemplate = (url: string): Message | null => {
+  if (!url.trim()) return message('urlTemplate.required');
+
+  let template: UrlTemplate;
+  try {
+    template = parseUrlTemplate(url.trim());
+  } catch (error) {
+    if (error instanceof UrlTemplateError) return error.detail;
+    throw error;
+  }
+
+  let parsed: URL;
+  try {
+    parsed = new URL(renderUrlTemplate(template, 'test'));
+  } catch {
+    return message('urlTemplate.notAbsolute');
+  }
+  if (parsed.protocol !== 'http:' && parsed.protocol !== 'https:') {
+    return message('urlTemplate.badProtocol');
+  }
+
+  return null;
+};
@@ -0,0 +1,119 @@
+// 工作区布局: 在页面内并排 (或以标签页) 显示可嵌入的搜索源
+//
+// 每个研究配置各自保存一份布局: 停靠的搜索源及顺序、各窗格的相对宽度、显示方式和当前标签.
+// 窗格当前显示的 URL 只保存在内存中.
+
+import { createStorageSlot } from './storage';
+
+export type WorkspaceMode = 'panes' | 'tabs';
+
+export interface WorkspaceLayout {
+  mode: WorkspaceMode;
+  // 停靠的搜索源 ID, 按显示顺序
+  docked: string[];
+  // 窗格宽度权重, 缺省为 1
+  sizes: { [sourceId: string]: number };
+  activeTab: string | null;
+}
+
+// 窗格当前显示的搜索
+export interface PaneSearch {
+  url: string;
+  query: string;
+}
+
+// 研究配置 ID -> 布局
+export interface WorkspaceLayouts {
+  [profileId: string]: WorkspaceLayout;
+}
+
+export const MIN_PANE_SIZE = 0.2;
+export const MAX_PANE_SIZE = 5;
+// 键盘调整一次的步长
+export const PANE_RESIZE_STEP = 0.1;
+
+export const createWorkspaceLayout = (): WorkspaceLayout => ({
+  mode: 'panes',
+  docked: [],
+  sizes: {},
+  activeTab: null,
+});
+
+export const workspaceLayoutsStorage = createStorageSlot<WorkspaceLayouts>({
+  key: 'workspaceLayouts',
+  version: 1,
+  defaultValue: () => ({}),
+});
+
+export const getWorkspaceLayout = (layouts: WorkspaceLayouts, profileId: string): WorkspaceLayout =>
+  layouts[profileId] ?? createWorkspaceLayout();
+
+export const paneSize = (layout: WorkspaceLayout, sourceId: string) => layout.sizes[sourceId] ?? 1;
+
+// 新停靠的搜索源追加到末尾, 已停靠的保持原位; 标签页模式下切换到第一个
+export const dockSources = (layout: WorkspaceLayout, sourceIds: string[]): WorkspaceLayout => {
+  if (sourceIds.length === 0) return layout;
+  const added = sourceIds.filter(id => !layout.docked.includes(id));
+  return {
+    ...layout,
+    docked: [...layout.docked, ...added],
+    activeTab: sourceIds[0],
+  };
+};
+
+export const undockSource = (layout: WorkspaceLayout, sourceId: string): WorkspaceLayout => {
+  const index = layout.docked.indexOf(sourceId);
+  if (index === -1) return layout;
+  const docked = layout.docked.filter(id => id !== sourceId);
+  const sizes = { ...layout.sizes };
+  delete sizes[sourceId];
+  const activeTab = layout.activeTab === sourceId ? docked[Math.min(index, docked.length - 1)] ?? null : layout.activeTab;
+  return { ...layout, docked, sizes, activeTab };
+};
+
+// 向前 (-1) 或向后 (+1) 移动一个位置
+export const movePane = (layout: WorkspaceLayout, sourceId: string, offset: -1 | 1): WorkspaceLayout => {
+  const index = layout.docked.indexOf(sourceId);
+  const target = index + offset;
+  if (index === -1 || target < 0 || target >= layout.docked.length) return layout;
+  const docked = [...layout.docked];
+  [docked[index], docked[target]] = [docked[target], docked[index]];
+  return { ...layout, docked };
+};
+
+// 调整两个相邻窗格之间的分隔条: 左侧窗格增加 delta, 右侧窗格相应减少, 总宽度不变
+export const resizePanes = (layout: WorkspaceLayout, leftId: string, rightId: string, delta: number): WorkspaceLayout => {
+  const left = paneSize(layout, leftId);
+  const right = paneSize(layout, rightId);
+  const clamped = Math.max(
+    MIN_PANE_SIZE - left,
+    right - MAX_PANE_SIZE,
+    Math.min(delta, right - MIN_PANE_SIZE, MAX_PANE_SIZE - left)
+  );
+  if (clamped === 0) return layout;
+  const round = (value: number) => Math.round(value * 1000) / 1000;
+  return {
+    ...layout,
+    sizes: { ...layout.sizes, [leftId]: round(left + clamped), [rightId]: round(right - clamped) },
+  };
+};
+
+export const setWorkspaceMode = (layout: WorkspaceLayout, mode: WorkspaceMode): WorkspaceLayout => ({
+  ...layout,
+  mode,
+  activeTab: layout.activeTab ?? layout.docked[0] ?? null,
+});
+
+export const setActiveTab = (layout: WorkspaceLayout, sourceId: string): WorkspaceLayout =>
+  layout.docked.includes(sourceId) ? { ...layout, activeTab: sourceId } : layout;
+
+// 删除搜索源时从所有配置的布局中移除
+export const removeSourceFromWorkspaces = (layouts: WorkspaceLayouts, sourceId: string): WorkspaceLayouts =>
+  Object.fromEntries(Object.entries(layouts).map(([profileId, layout]) => [profileId, undockSource(layout, sourceId)]));
+
+export const removeProfileWorkspace = (layouts: WorkspaceLayouts, profileId: string): WorkspaceLayouts => {
+  if (!layouts[profileId]) return layouts;
+  const rest = { ...layouts };
+  delete rest[profileId];
+  return rest;
+};
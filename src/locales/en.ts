@@ -0,0 +1,447 @@
+// 英文界面文本, 也是所有语言的键列表: 其他语言的目录必须提供完全相同的键 (见 lib/i18n.ts)
+// {name} 形式的占位符在翻译时替换
+export const en = {
+  'app.title': 'LiteResearch Search || WeChat: 正经人王同学',
+  'language.label': 'Language',
+
+  'search.placeholder': 'Enter your search query... (Ctrl+K for commands)',
+  'search.syntaxHint':
+    'Supports "exact phrase", author:Name, title:word, year:2020-2023, AND / OR / NOT, -exclude, and bangs such as !pm or !academic',
+  'search.submit': 'Search Selected',
+  'search.unknownBang': 'Unknown bang: {bangs}',
+  'search.fetchResults': 'Show results in page for arXiv, PubMed, Semantic Scholar and DBLP (other engines open in windows)',
+  'search.workspace': 'Open engines in the workspace',
+  'search.workspaceHint': 'Engines that allow it are shown side by side or as tabs in this page; the others still open in windows',
+  'search.expand': 'Expand query',
+  'search.hideExpansion': 'Hide expansion',
+  'search.expansionCount': ' ({count} added)',
+  'search.expandHint': 'Suggest synonyms, acronyms and spelling variants for the query',
+  'search.copyLink': 'Copy search link',
+  'search.linkCopied': 'Link copied',
+  'search.copyLinkHint': 'Copy a link that runs this query on the selected engines',
+  'search.copyLinkPrompt': 'Copy this link:',
+  'search.linkIssues': 'Some parts of the link could not be applied:',
+  'search.linkEngines': 'The engines from the link are selected for this visit only. Profile "{profile}" is unchanged.',
+  'search.linkEngines.keep': 'Save to profile',
+  'search.linkEngines.reset': 'Use profile engines',
+  'search.unsupported': '{name} does not support {features}; they were left out of its search.',
+  'search.unsupported.exclusion': 'exclusions (-term, NOT)',
+  'search.unsupported.or': 'OR (terms are searched together)',
+  'search.unsupported.grouping': 'nested parentheses (their terms are searched together)',
+  'search.unsupported.field': 'author and title fields (searched as keywords)',
+  'search.unsupported.phrase': 'exact phrases (words are searched separately)',
+  'search.unsupported.years': 'open or wide year ranges (10 years or more)',
+  'common.dismiss': 'Dismiss',
+  'common.cancel': 'Cancel',
+  'common.listSeparator': ', ',
+  'common.save': 'Save',
+  'common.edit': 'Edit',
+  'common.delete': 'Delete',
+  'common.rename': 'Rename',
+  'common.create': 'Create',
+  'common.add': 'Add',
+  'common.remove': 'Remove',
+  'common.clear': 'Clear',
+  'common.close': 'Close',
+  'common.loading': 'Loading…',
+  'common.export': 'Export:',
+  'common.storageError': 'Could not access browser storage: {error}',
+
+  'toolbar.history': 'History ({count})',
+  'toolbar.hideHistory': 'Hide History',
+  'toolbar.collections': 'Collections',
+  'toolbar.hideCollections': 'Hide Collections',
+  'toolbar.searchLog': 'Search Log',
+  'toolbar.searchLogActive': 'Search Log ●',
+  'toolbar.hideSearchLog': 'Hide Search Log',
+  'toolbar.alerts': 'Alerts',
+  'toolbar.alertsUnread': 'Alerts ({count} new)',
+  'toolbar.hideAlerts': 'Hide Alerts',
+  'toolbar.checkSources': 'Check Sources',
+  'toolbar.checkingSources': 'Checking ({count})… Stop',
+  'toolbar.checkSourcesHint': 'Run a test search on every visible engine',
+  'toolbar.sourcePacks': 'Source Packs',
+  'toolbar.importExport': 'Import / Export',
+  'toolbar.addSource': 'Add Custom Search Engine',
+
+  'category.general': 'General Search',
+  'category.academic': 'Academic Search',
+  'category.empty': 'Drag search engines here.',
+  'category.newPlaceholder': 'New category (e.g. Patents)',
+  'category.add': 'Add Category',
+  'hidden.list': 'Hidden search engines ({count})',
+  'hidden.hideList': 'Hide list',
+  'hidden.show': 'Show',
+
+  'sourceForm.addTitle': 'Add Custom Search Engine',
+  'sourceForm.editTitle': 'Edit Custom Search Engine',
+  'sourceForm.name': 'Name',
+  'sourceForm.url': 'Search URL (use {query}, {query:plus} or {query:raw} where the search term should go)',
+  'sourceForm.description': 'Description',
+  'sourceForm.category': 'Category',
+  'sourceForm.syntax': 'Query Syntax',
+  'sourceForm.plainText': 'Plain text',
+  'sourceForm.bangs': 'Bang aliases (optional, e.g. "pat" to search with !pat)',
+  'sourceForm.bangsPlaceholder': 'Separate several aliases with spaces',
+  'sourceForm.save': 'Save Changes',
+  'sourceForm.add': 'Add Search Engine',
+
+  'palette.group.action': 'Action',
+  'palette.group.engine': 'Engine',
+  'palette.group.profile': 'Profile',
+  'palette.group.history': 'History',
+  'palette.group.saved': 'Saved search',
+  'palette.focusSearch': 'Focus search box',
+  'palette.showHistory': 'Show history',
+  'palette.hideHistory': 'Hide history',
+  'palette.showCollections': 'Show collections',
+  'palette.hideCollections': 'Hide collections',
+  'palette.showSearchLog': 'Show search log',
+  'palette.hideSearchLog': 'Hide search log',
+  'palette.showAlerts': 'Show alerts',
+  'palette.hideAlerts': 'Hide alerts',
+  'palette.showWorkspace': 'Open engines in the workspace',
+  'palette.hideWorkspace': 'Close the workspace',
+  'palette.checkSources': 'Check search engines',
+  'palette.sourcePacks': 'Manage source packs',
+  'palette.importExport': 'Import / export settings',
+  'palette.addSource': 'Add custom search engine',
+  'palette.selectEngine': 'Select {name}',
+  'palette.deselectEngine': 'Deselect {name}',
+  'palette.searchEngine': 'Search {name}',
+  'palette.switchProfile': 'Switch to {name}',
+
+  'collections.defaultName': 'Reading List',
+
+  'footer.hint':
+    'Click "Search Selected" to search in selected engines, or use individual search buttons. Press Ctrl+K (⌘K) for the command palette, or start a query with a bang such as !pm or !academic.',
+  'footer.contact': 'Contact: WeChat official account 正经人王同学',
+  'footer.github': 'GitHub Open Source',
+
+  'urlTemplate.required': 'URL is required',
+  'urlTemplate.unclosed': 'Unclosed placeholder at position {position}',
+  'urlTemplate.unknownPlaceholder': 'Unknown placeholder "{placeholder}"',
+  'urlTemplate.unknownEncoding':
+    'Unknown encoding "{encoding}" in "{placeholder}" (use {query}, {query:plus} or {query:raw})',
+  'urlTemplate.notAbsolute': 'Not a valid absolute URL',
+  'urlTemplate.badProtocol': 'URL must start with http:// or https://',
+  'bangs.invalid': '"{bang}" may only contain letters, digits, "_", "." and "-"',
+  'bangs.taken': '"{bang}" is already used',
+
+  'health.insecure': 'Uses http://; searches would be sent unencrypted. Use an https:// address.',
+  'health.queryInHost': 'The query ends up in the domain name; add a {query} placeholder.',
+  'health.queryInFragment': 'The query is only in the # fragment, which is not sent to the server.',
+  'health.queryMissing': 'The query does not appear in the search URL.',
+  'health.duplicateId': 'Another search engine uses the ID "{id}".',
+  'health.duplicateName': 'Another search engine is also called "{name}".',
+  'health.refused': 'The site refused the test search (HTTP {status}); it may block automated requests.',
+  'health.httpError': 'The search page returned HTTP {status}.',
+  'health.redirectedHome': 'The search was redirected to the homepage ({host}).',
+  'health.queryDropped': 'The search was redirected to {url} and the query was dropped.',
+  'health.timedOut': 'The test search timed out.',
+  'health.unreachable':
+    'Could not check from the browser (the site does not allow cross-origin requests, or the network failed).',
+
+  'openSearch.unsupportedParameter': 'Unsupported required parameter {parameter}',
+  'openSearch.invalidXml': 'File is not valid XML',
+  'openSearch.notOpenSearch': 'Not an OpenSearch description (missing <OpenSearchDescription>)',
+  'openSearch.noHtmlUrl': 'No <Url type="text/html"> element found',
+  'openSearch.unsupportedMethod': 'Unsupported method "{method}" (only GET is supported)',
+  'openSearch.noTemplate': '<Url> element has no template attribute',
+  'openSearch.noSearchTerms': 'Template does not contain {searchTerms}',
+
+  'syntax.web': 'Web (Google / Bing)',
+  'syntax.google_scholar': 'Google Scholar',
+  'syntax.pubmed': 'PubMed',
+  'syntax.arxiv': 'arXiv',
+  'syntax.dblp': 'DBLP',
+  'syntax.semantic_scholar': 'Semantic Scholar',
+
+  'profiles.label': 'Profile',
+  'profiles.defaultName': 'Default',
+  'profiles.copyName': '{name} (copy)',
+  'profiles.importedName': '{name} (imported)',
+  'profiles.namePlaceholder': 'Profile name',
+  'profiles.new': 'New',
+  'profiles.duplicate': 'Duplicate',
+  'profiles.confirmDelete': 'Delete profile "{name}"?',
+  'profiles.suffixPlaceholder': 'Default query suffix (optional)',
+  'profiles.suffixHint': 'Appended to every query run with this profile',
+  'profiles.searchWithHint': 'Run the current query with another profile without switching to it',
+  'profiles.searchWith': 'Search with profile…',
+
+  'category.confirmDelete': 'Delete category "{name}"? Its search engines move to General Search.',
+  'sourceCard.search': 'Search',
+  'sourceCard.hide': 'Hide',
+  'sourceCard.hideHint': 'Hide this search engine',
+  'sourceCard.windowOpen': 'Window is open - "{query}"',
+  'sourceCard.focusWindow': '↗ Focus window',
+  'health.checking': 'Checking…',
+  'health.broken': '✕ Broken',
+  'health.warning': '⚠ Check',
+  'health.working': '✓ Working',
+  'health.unverified': '? Unverified',
+
+  'palette.title': 'Command palette',
+  'palette.placeholder': 'Search engines, profiles, history and actions…',
+  'palette.noMatches': 'No matching commands',
+  'palette.keys': '↑↓ to navigate · Enter to run · Esc to close',
+
+  'blocked.messageOne':
+    'Your browser blocked 1 search window. Click the engine to open it, or allow pop-ups for this site.',
+  'blocked.message':
+    'Your browser blocked {count} search windows. "Open all" opens at least one per click, and all of them once pop-ups are allowed for this site. You can also click each engine.',
+  'blocked.openAll': 'Open all ({count})',
+
+  'history.title': 'Search History',
+  'history.filterPlaceholder': 'Filter history...',
+  'history.confirmClear': 'Clear search history? Saved searches are kept.',
+  'history.saved': 'Saved Searches',
+  'history.recent': 'Recent',
+  'history.noMatches': 'No matching searches.',
+  'history.empty': 'No searches yet.',
+  'history.noEngines': 'No engines',
+  'history.namePlaceholder': 'Saved search name',
+  'history.run': 'Run',
+  'history.pin': 'Pin',
+  'history.unpin': 'Unpin',
+
+  'expansion.title': 'Query Expansion',
+  'expansion.clearSelection': 'Clear selection',
+  'expansion.none': 'No synonyms, acronyms or spelling variants found for the current query.',
+  'expansion.meshHeading': 'MeSH: {heading}',
+  'expansion.expandedQuery': 'Expanded query',
+  'expansion.myThesaurus': 'My thesaurus ({count})',
+  'expansion.entryError': 'Enter at least two terms separated by commas.',
+  'expansion.entryPlaceholder': 'e.g. single-cell RNA sequencing, scRNA-seq',
+  'expansion.exportNote': 'Your entries are included in Import / Export.',
+  'expansion.kind.mesh': 'MeSH',
+  'expansion.kind.synonym': 'Synonym',
+  'expansion.kind.acronym': 'Acronym',
+  'expansion.kind.spelling': 'Spelling',
+  'expansion.kind.synonyms': 'Synonyms',
+  'expansion.kind.meshStyle': 'MeSH-style (first term is the heading)',
+
+  'results.title': 'Results',
+  'results.view.grouped': 'By source',
+  'results.view.interleaved': 'Interleaved',
+  'results.view.merged': 'Merged',
+  'results.failed': 'Failed: {error}',
+  'results.count': '{count} results',
+  'results.etAl': '{authors} et al.',
+  'results.untitled': '(untitled)',
+  'results.abstract': 'Abstract',
+
+  'identifier.type.doi': 'DOI',
+  'identifier.type.arxiv': 'arXiv',
+  'identifier.type.pmid': 'PMID',
+  'identifier.type.isbn': 'ISBN',
+  'identifier.type.url': 'URL',
+  'identifier.searchAnyway': 'Search engines for this text instead',
+  'identifier.loading': 'Loading metadata…',
+  'identifier.error': 'Could not load metadata: {error}',
+  'identifier.notFound': 'No metadata found for this identifier.',
+  'resolver.publisher': 'Publisher (doi.org)',
+  'resolver.semanticScholar': 'Semantic Scholar',
+  'resolver.dblp': 'DBLP',
+  'resolver.pubmed': 'PubMed',
+  'resolver.crossref': 'Crossref record',
+  'resolver.arxivAbstract': 'arXiv abstract',
+  'resolver.arxivPdf': 'arXiv PDF',
+  'resolver.dataciteDoi': 'DataCite DOI',
+  'resolver.europePmc': 'Europe PMC',
+  'resolver.openLibrary': 'Open Library',
+  'resolver.worldcat': 'WorldCat',
+  'resolver.googleBooks': 'Google Books',
+  'resolver.openLink': 'Open link',
+
+  'collections.title': 'Collections',
+  'collections.newPlaceholder': 'New collection',
+  'collections.emptyHint': 'Create a collection to start saving papers from the results list.',
+  'collections.confirmDelete': 'Delete "{name}" and all of its items?',
+  'collections.identifierPlaceholder': 'DOI, arXiv ID, PMID, ISBN or URL',
+  'collections.titlePlaceholder': 'Title (optional)',
+  'collections.unrecognised': 'Not a recognised DOI, arXiv ID, PMID, ISBN or URL.',
+  'collections.duplicate': 'Already in this collection.',
+  'collections.tag': 'Tag:',
+  'collections.allTags': 'All',
+  'collections.empty': 'No items in this collection yet.',
+  'collections.tagsPlaceholder': 'Tags, comma separated',
+  'collections.notesPlaceholder': 'Notes',
+  'collections.status.unread': 'Unread',
+  'collections.status.reading': 'Reading',
+  'collections.status.read': 'Read',
+
+  'reviewLog.title': 'Search Log',
+  'reviewLog.logging': 'Logging searches to "{name}"',
+  'reviewLog.notLogging': 'Not logging',
+  'reviewLog.newPlaceholder': 'New review',
+  'reviewLog.intro':
+    'Select or create a review to record every search you run: the engine, the exact query and URL sent, and the time. Entries cannot be edited; result counts and corrections are appended as amendments.',
+  'reviewLog.stop': 'Stop logging',
+  'reviewLog.empty': 'No searches logged yet. Run a search to add entries.',
+  'reviewLog.results': 'Results: {count}',
+  'reviewLog.note': 'Note: {note}',
+  'reviewLog.amend': 'Amend',
+  'reviewLog.recordResults': 'Record results',
+  'reviewLog.history': 'History ({count})',
+  'reviewLog.amendedCount': 'results = {count}',
+  'reviewLog.resultsPlaceholder': 'Results',
+  'reviewLog.notePlaceholder': 'Note or correction',
+  'reviewLog.append': 'Append',
+  'reviewLog.countError': 'Result count must be a whole number.',
+  'reviewLog.emptyAmendment': 'Enter a result count or a note.',
+  'reviewLog.delivery.window': 'Opened',
+  'reviewLog.delivery.blocked': 'Pop-up blocked',
+  'reviewLog.delivery.in-page': 'In-page results',
+  'reviewLog.delivery.embedded': 'Workspace pane',
+
+  'reviewExport.htmlLang': 'en',
+  'reviewExport.title': 'Search methods: {name}',
+  'reviewExport.noSearches': 'No searches have been logged yet.',
+  'reviewExport.summaryOne':
+    '1 search was run on {first} in: {databases}. Query strings are reproduced exactly as submitted to each database.',
+  'reviewExport.summaryOneDay':
+    '{count} searches were run on {first} in: {databases}. Query strings are reproduced exactly as submitted to each database.',
+  'reviewExport.summary':
+    '{count} searches were run between {first} and {last} in: {databases}. Query strings are reproduced exactly as submitted to each database.',
+  'reviewExport.date': 'Date (UTC)',
+  'reviewExport.database': 'Database',
+  'reviewExport.queryEntered': 'Query entered',
+  'reviewExport.querySent': 'Query sent',
+  'reviewExport.searchString': 'Search string',
+  'reviewExport.delivery': 'Delivery',
+  'reviewExport.results': 'Results',
+  'reviewExport.notes': 'Notes',
+  'reviewExport.amendments': 'Amendments',
+  'reviewExport.notesAndAmendments': 'Notes and amendments',
+  'reviewExport.searchNumber': 'Search {number}',
+  'reviewExport.hits': 'hits = {count}',
+  'reviewExport.urls': 'Search URLs',
+
+  'alerts.title': 'Alerts',
+  'alerts.intro':
+    'Alerts re-run a query on arXiv, PubMed, DBLP or Semantic Scholar while this page is open, and list only papers that were not there before. Checks that fell due while the page was closed run when you next open it.',
+  'alerts.new': 'New alert',
+  'alerts.create': 'Create alert',
+  'alerts.error': 'Could not check alerts or access browser storage: {error}',
+  'alerts.noUnread': 'No new results',
+  'alerts.unread.one': '1 new result',
+  'alerts.unread': '{count} new results',
+  'alerts.fromSaved': 'Start from a saved search…',
+  'alerts.namePlaceholder': 'Alert name (optional)',
+  'alerts.queryPlaceholder': 'Query, e.g. title:"graph neural" year:2024-',
+  'alerts.check': 'Check',
+  'alerts.frequency.daily': 'Daily',
+  'alerts.frequency.weekly': 'Weekly',
+  'alerts.notify': 'Browser notification for new results',
+  'alerts.queryRequired': 'Enter a query.',
+  'alerts.enginesRequired': 'Select at least one engine.',
+  'alerts.notificationsUnsupported': 'This browser does not support notifications; new results are still counted here.',
+  'alerts.notificationsBlocked': 'Notifications are blocked for this site; new results are still counted here.',
+  'alerts.paused': 'Paused',
+  'alerts.notChecked': 'Not checked yet',
+  'alerts.checked': 'Checked {last} · next check {next}',
+  'alerts.checking': 'Checking…',
+  'alerts.newCount': '{count} new',
+  'alerts.newBadge': 'New',
+  'alerts.notificationsOn': 'notifications on',
+  'alerts.checkNow': 'Check now',
+  'alerts.markAllRead': 'Mark all read',
+  'alerts.pause': 'Pause',
+  'alerts.resume': 'Resume',
+  'alerts.confirmDelete': 'Delete the alert "{name}"?',
+  'alerts.sourceUnavailable': 'This search engine is no longer available for alerts',
+  'alerts.found': 'New since the alert was created ({count})',
+  'alerts.nothingNew': 'Nothing new yet. Results that existed at the first check are not listed.',
+  'alerts.notification.one': '{name}: 1 new result',
+  'alerts.notification': '{name}: {count} new results',
+
+  'workspace.title': 'Workspace',
+  'workspace.empty':
+    'The workspace is empty. Engines that allow it open here when you search; the others still open in windows.',
+  'workspace.layout': 'Workspace layout',
+  'workspace.mode.panes': 'Side by side',
+  'workspace.mode.tabs': 'Tabs',
+  'workspace.engines': 'Workspace engines',
+  'workspace.emptyPane': 'No search in this pane yet. Search with {name} selected to load it here.',
+  'workspace.frameTitle': '{name} search results',
+  'workspace.resize': 'Resize {left} and {right}',
+  'workspace.moveLeft': 'Move {name} left',
+  'workspace.moveRight': 'Move {name} right',
+  'workspace.close': 'Close {name}',
+  'workspace.openWindow': 'Open in window',
+  'workspace.notLoading': 'Not loading?',
+  'workspace.notLoadingHint':
+    'Some sites refuse to be shown inside other pages. This engine will open in a window from now on.',
+  'workspace.timedOut': '{name} did not load. The site may refuse to be shown inside other pages.',
+  'workspace.openTab': 'Open in new tab',
+
+  'packs.title': 'Source Packs',
+  'packs.intro':
+    'A source pack is a shared list of search engines, for example your library catalogue and institutional repositories. Subscribe to one to install its engines and receive updates.',
+  'packs.subscriptionInfo': 'by {author} · {count} engine(s) · updated {date}',
+  'packs.checkUpdates': 'Check for updates',
+  'packs.unsubscribe': 'Unsubscribe',
+  'packs.confirmUnsubscribe': 'Unsubscribe from "{name}"? Engines you have not customized will be removed.',
+  'packs.loadLabel': 'Load a pack from a URL or file',
+  'packs.load': 'Load',
+  'packs.applied': '{name} {version} applied.',
+  'packs.update': 'by {author}: v{from} → v{to}',
+  'packs.newPack': 'by {author}: v{to}, not subscribed yet',
+  'packs.noChanges': 'No changes to your search engines.',
+  'packs.noChangesCount': 'No changes to your search engines ({count} up to date).',
+  'packs.added': 'Added ({count})',
+  'packs.changed': 'Changed ({count})',
+  'packs.removed': 'Removed ({count})',
+  'packs.unchanged': '{count} engine(s) unchanged.',
+  'packs.keptAsCustom': 'You customized this engine, so it is kept as your own custom engine.',
+  'packs.preserved': 'Keeping your changes to: {fields}',
+  'packs.bangIssues': 'Bangs not installed: {issues}',
+  'packs.acceptUpdate': 'Accept update',
+  'packs.subscribe': 'Subscribe',
+  'packs.field.name': 'Name',
+  'packs.field.url': 'URL',
+  'packs.field.description': 'Description',
+  'packs.field.category': 'Category',
+  'packs.field.syntax': 'Query syntax',
+  'packs.field.bangs': 'Bangs',
+
+  'transfer.title': 'Import / Export Settings',
+  'transfer.exportHint': 'Export custom search engines, profiles and your thesaurus as a JSON file.',
+  'transfer.export': 'Export',
+  'transfer.importLabel': 'Import a settings file or an OpenSearch description (.xml)',
+  'transfer.pastePlaceholder': '…or paste the file contents here',
+  'transfer.sources': '{count} custom search engine(s)',
+  'transfer.profiles': '{count} profile(s)',
+  'transfer.thesaurus': '{count} thesaurus entries',
+  'transfer.exportedAt': ', exported {date}.',
+  'transfer.merge': 'Merge with existing',
+  'transfer.replace': 'Replace existing',
+  'transfer.report': 'Imported: {added} added, {skipped} already present, {renamed} given new IDs.',
+  'transfer.import': 'Import',
+  'transfer.check': 'Check',
+
+  'deepLink.unknownEngine': 'Unknown engine "{id}"',
+  'deepLink.hiddenEngine': 'Engine "{id}" is hidden and will not be searched',
+  'deepLink.noEngines': 'The engines parameter is empty',
+  'deepLink.unknownProfile': 'Unknown profile "{profile}"',
+  'deepLink.invalidRun': 'Invalid run value "{value}" (use run=1)',
+  'deepLink.noQuery': 'Nothing to search: the q parameter is empty',
+
+
+  // 内置搜索源的描述, 键为 source.<ID>.description
+  'source.google.description': 'General web search',
+  'source.bing.description': 'Microsoft search engine',
+  'source.google_scholar.description': 'Academic papers and citations',
+  'source.pubmed.description': 'Biomedical literature',
+  'source.semantic_scholar.description': 'AI-powered research tool',
+  'source.arxiv.description': 'Scientific paper repository',
+  'source.research_gate.description': 'Scientific network and papers',
+  'source.dblp.description': 'Computer Science Bibliography',
+  'source.cnki.description': 'Chinese journals, theses and conference papers',
+  'source.baidu_scholar.description': 'Chinese and English academic search',
+};
+
+export type MessageKey = keyof typeof en;
+export type Messages = { [key in MessageKey]: string };
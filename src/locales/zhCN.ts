@@ -0,0 +1,434 @@
+import type { Messages } from './en';
+
+// 简体中文界面文本. 类型为 Messages, 缺少或多出键时类型检查会失败
+export const zhCN: Messages = {
+  'app.title': 'LiteResearch 文献检索 || 公众号: 正经人王同学',
+  'language.label': '语言',
+
+  'search.placeholder': '输入检索词… (Ctrl+K 打开命令面板)',
+  'search.syntaxHint':
+    '支持 "精确短语"、author:作者、title:标题词、year:2020-2023、AND / OR / NOT、-排除词, 以及 !pm、!academic 等 bang',
+  'search.submit': '搜索选中',
+  'search.unknownBang': '未知的 bang: {bangs}',
+  'search.fetchResults': '在页面内显示 arXiv、PubMed、Semantic Scholar 和 DBLP 的结果 (其他搜索引擎在新窗口打开)',
+  'search.workspace': '在工作区中打开搜索引擎',
+  'search.workspaceHint': '允许嵌入的搜索引擎在本页面内并排或以标签页显示, 其他搜索引擎仍在新窗口打开',
+  'search.expand': '扩展查询',
+  'search.hideExpansion': '收起扩展',
+  'search.expansionCount': ' (已添加 {count} 个)',
+  'search.expandHint': '为查询推荐同义词、缩写和拼写变体',
+  'search.copyLink': '复制搜索链接',
+  'search.linkCopied': '链接已复制',
+  'search.copyLinkHint': '复制一个在选中搜索引擎上执行此查询的链接',
+  'search.copyLinkPrompt': '复制此链接:',
+  'search.linkIssues': '链接中有部分内容无法应用:',
+  'search.linkEngines': '链接中的搜索引擎只在本次访问中选中, 配置 "{profile}" 没有改变.',
+  'search.linkEngines.keep': '保存到配置',
+  'search.linkEngines.reset': '使用配置的搜索引擎',
+  'search.unsupported': '{name} 不支持{features}, 这些部分没有发送给它.',
+  'search.unsupported.exclusion': '排除 (-词, NOT)',
+  'search.unsupported.or': 'OR (各词按同时出现搜索)',
+  'search.unsupported.grouping': '嵌套括号 (括号内各词按同时出现搜索)',
+  'search.unsupported.field': '作者和标题字段 (按关键词搜索)',
+  'search.unsupported.phrase': '精确短语 (各词分开搜索)',
+  'search.unsupported.years': '开放或过宽的年份区间 (10 年及以上)',
+  'common.dismiss': '关闭',
+  'common.cancel': '取消',
+  'common.listSeparator': '、',
+  'common.save': '保存',
+  'common.edit': '编辑',
+  'common.delete': '删除',
+  'common.rename': '重命名',
+  'common.create': '创建',
+  'common.add': '添加',
+  'common.remove': '移除',
+  'common.clear': '清空',
+  'common.close': '关闭',
+  'common.loading': '加载中…',
+  'common.export': '导出:',
+  'common.storageError': '无法访问浏览器存储: {error}',
+
+  'toolbar.history': '历史记录 ({count})',
+  'toolbar.hideHistory': '隐藏历史记录',
+  'toolbar.collections': '收藏集',
+  'toolbar.hideCollections': '隐藏收藏集',
+  'toolbar.searchLog': '检索日志',
+  'toolbar.searchLogActive': '检索日志 ●',
+  'toolbar.hideSearchLog': '隐藏检索日志',
+  'toolbar.alerts': '检索提醒',
+  'toolbar.alertsUnread': '检索提醒 ({count} 条新结果)',
+  'toolbar.hideAlerts': '隐藏检索提醒',
+  'toolbar.checkSources': '检查搜索源',
+  'toolbar.checkingSources': '检查中 ({count})… 停止',
+  'toolbar.checkSourcesHint': '在每个可见的搜索引擎上执行一次测试搜索',
+  'toolbar.sourcePacks': '搜索源包',
+  'toolbar.importExport': '导入 / 导出',
+  'toolbar.addSource': '添加自定义搜索引擎',
+
+  'category.general': '通用搜索',
+  'category.academic': '学术搜索',
+  'category.empty': '把搜索引擎拖到这里.',
+  'category.newPlaceholder': '新分类 (例如 专利)',
+  'category.add': '添加分类',
+  'hidden.list': '已隐藏的搜索引擎 ({count})',
+  'hidden.hideList': '收起列表',
+  'hidden.show': '显示',
+
+  'sourceForm.addTitle': '添加自定义搜索引擎',
+  'sourceForm.editTitle': '编辑自定义搜索引擎',
+  'sourceForm.name': '名称',
+  'sourceForm.url': '搜索 URL (在检索词的位置使用 {query}、{query:plus} 或 {query:raw})',
+  'sourceForm.description': '描述',
+  'sourceForm.category': '分类',
+  'sourceForm.syntax': '查询语法',
+  'sourceForm.plainText': '纯文本',
+  'sourceForm.bangs': 'Bang 别名 (可选, 例如 "pat" 表示用 !pat 搜索)',
+  'sourceForm.bangsPlaceholder': '多个别名用空格分隔',
+  'sourceForm.save': '保存修改',
+  'sourceForm.add': '添加搜索引擎',
+
+  'palette.group.action': '操作',
+  'palette.group.engine': '搜索引擎',
+  'palette.group.profile': '配置',
+  'palette.group.history': '历史',
+  'palette.group.saved': '已保存的搜索',
+  'palette.focusSearch': '聚焦搜索框',
+  'palette.showHistory': '显示历史记录',
+  'palette.hideHistory': '隐藏历史记录',
+  'palette.showCollections': '显示收藏集',
+  'palette.hideCollections': '隐藏收藏集',
+  'palette.showSearchLog': '显示检索日志',
+  'palette.hideSearchLog': '隐藏检索日志',
+  'palette.showAlerts': '显示检索提醒',
+  'palette.hideAlerts': '隐藏检索提醒',
+  'palette.showWorkspace': '在工作区中打开搜索引擎',
+  'palette.hideWorkspace': '关闭工作区',
+  'palette.checkSources': '检查搜索引擎',
+  'palette.sourcePacks': '管理搜索源包',
+  'palette.importExport': '导入 / 导出设置',
+  'palette.addSource': '添加自定义搜索引擎',
+  'palette.selectEngine': '选中 {name}',
+  'palette.deselectEngine': '取消选中 {name}',
+  'palette.searchEngine': '搜索 {name}',
+  'palette.switchProfile': '切换到 {name}',
+
+  'collections.defaultName': '阅读列表',
+
+  'footer.hint':
+    '点击 "搜索选中" 在选中的搜索引擎中搜索, 或使用各搜索引擎的单独搜索按钮. 按 Ctrl+K (⌘K) 打开命令面板, 或以 !pm、!academic 等 bang 开头输入查询.',
+  'footer.contact': '联系方式: 微信公众号: 正经人王同学',
+  'footer.github': 'GitHub 开源地址',
+
+  'urlTemplate.required': '请填写 URL',
+  'urlTemplate.unclosed': '第 {position} 个字符处的占位符没有闭合',
+  'urlTemplate.unknownPlaceholder': '未知的占位符 "{placeholder}"',
+  'urlTemplate.unknownEncoding': '"{placeholder}" 中的编码方式 "{encoding}" 未知 (请使用 {query}、{query:plus} 或 {query:raw})',
+  'urlTemplate.notAbsolute': '不是有效的完整 URL',
+  'urlTemplate.badProtocol': 'URL 必须以 http:// 或 https:// 开头',
+  'bangs.invalid': '"{bang}" 只能包含字母、数字、"_"、"." 和 "-"',
+  'bangs.taken': '"{bang}" 已被使用',
+
+  'health.insecure': '使用 http://, 检索词会以明文发送. 请使用 https:// 地址.',
+  'health.queryInHost': '检索词被填进了域名; 请添加 {query} 占位符.',
+  'health.queryInFragment': '检索词只出现在 # 片段中, 不会发送给服务器.',
+  'health.queryMissing': '搜索地址中没有检索词.',
+  'health.duplicateId': '另一个搜索引擎也使用 ID "{id}".',
+  'health.duplicateName': '另一个搜索引擎也叫 "{name}".',
+  'health.refused': '网站拒绝了测试搜索 (HTTP {status}); 它可能会拦截自动请求.',
+  'health.httpError': '搜索页面返回 HTTP {status}.',
+  'health.redirectedHome': '搜索被重定向到首页 ({host}).',
+  'health.queryDropped': '搜索被重定向到 {url}, 检索词丢失.',
+  'health.timedOut': '测试搜索超时.',
+  'health.unreachable': '无法在浏览器中检查 (网站不允许跨域请求, 或网络故障).',
+
+  'openSearch.unsupportedParameter': '不支持必填参数 {parameter}',
+  'openSearch.invalidXml': '文件不是有效的 XML',
+  'openSearch.notOpenSearch': '不是 OpenSearch 描述文件 (缺少 <OpenSearchDescription>)',
+  'openSearch.noHtmlUrl': '没有找到 <Url type="text/html"> 元素',
+  'openSearch.unsupportedMethod': '不支持 "{method}" 请求方式 (只支持 GET)',
+  'openSearch.noTemplate': '<Url> 元素没有 template 属性',
+  'openSearch.noSearchTerms': '模板中没有 {searchTerms}',
+
+  'syntax.web': '网页 (Google / Bing)',
+  'syntax.google_scholar': 'Google Scholar',
+  'syntax.pubmed': 'PubMed',
+  'syntax.arxiv': 'arXiv',
+  'syntax.dblp': 'DBLP',
+  'syntax.semantic_scholar': 'Semantic Scholar',
+
+  'profiles.label': '配置',
+  'profiles.defaultName': '默认',
+  'profiles.copyName': '{name} (副本)',
+  'profiles.importedName': '{name} (导入)',
+  'profiles.namePlaceholder': '配置名称',
+  'profiles.new': '新建',
+  'profiles.duplicate': '复制',
+  'profiles.confirmDelete': '删除配置 "{name}"?',
+  'profiles.suffixPlaceholder': '默认查询后缀 (可选)',
+  'profiles.suffixHint': '使用此配置搜索时附加到每个查询之后',
+  'profiles.searchWithHint': '用另一个配置执行当前查询, 不切换配置',
+  'profiles.searchWith': '使用配置搜索…',
+
+  'category.confirmDelete': '删除分类 "{name}"? 其中的搜索引擎将移到通用搜索.',
+  'sourceCard.search': '搜索',
+  'sourceCard.hide': '隐藏',
+  'sourceCard.hideHint': '隐藏此搜索引擎',
+  'sourceCard.windowOpen': '窗口已打开 - "{query}"',
+  'sourceCard.focusWindow': '↗ 切换到窗口',
+  'health.checking': '检查中…',
+  'health.broken': '✕ 不可用',
+  'health.warning': '⚠ 需检查',
+  'health.working': '✓ 正常',
+  'health.unverified': '? 未验证',
+
+  'palette.title': '命令面板',
+  'palette.placeholder': '搜索引擎、配置、历史记录和操作…',
+  'palette.noMatches': '没有匹配的命令',
+  'palette.keys': '↑↓ 选择 · Enter 执行 · Esc 关闭',
+
+  'blocked.messageOne': '浏览器拦截了 1 个搜索窗口. 点击搜索引擎打开它, 或允许本站弹出窗口.',
+  'blocked.message':
+    '浏览器拦截了 {count} 个搜索窗口. "全部打开" 每次点击至少打开一个, 允许本站弹出窗口后一次全部打开. 也可以逐个点击搜索引擎.',
+  'blocked.openAll': '全部打开 ({count})',
+
+  'history.title': '搜索历史',
+  'history.filterPlaceholder': '筛选历史记录...',
+  'history.confirmClear': '清空搜索历史? 保存的搜索会保留.',
+  'history.saved': '保存的搜索',
+  'history.recent': '最近',
+  'history.noMatches': '没有匹配的搜索.',
+  'history.empty': '还没有搜索记录.',
+  'history.noEngines': '没有搜索引擎',
+  'history.namePlaceholder': '保存的搜索名称',
+  'history.run': '执行',
+  'history.pin': '固定',
+  'history.unpin': '取消固定',
+
+  'expansion.title': '查询扩展',
+  'expansion.clearSelection': '清除选择',
+  'expansion.none': '没有找到当前查询的同义词、缩写或拼写变体.',
+  'expansion.meshHeading': 'MeSH: {heading}',
+  'expansion.expandedQuery': '扩展后的查询',
+  'expansion.myThesaurus': '我的词表 ({count})',
+  'expansion.entryError': '请输入至少两个用逗号分隔的词.',
+  'expansion.entryPlaceholder': '例如 single-cell RNA sequencing, scRNA-seq',
+  'expansion.exportNote': '你的词条包含在导入 / 导出中.',
+  'expansion.kind.mesh': 'MeSH',
+  'expansion.kind.synonym': '同义词',
+  'expansion.kind.acronym': '缩写',
+  'expansion.kind.spelling': '拼写',
+  'expansion.kind.synonyms': '同义词',
+  'expansion.kind.meshStyle': 'MeSH 式 (第一个词为主题词)',
+
+  'results.title': '结果',
+  'results.view.grouped': '按来源',
+  'results.view.interleaved': '交替排列',
+  'results.view.merged': '合并',
+  'results.failed': '失败: {error}',
+  'results.count': '{count} 条结果',
+  'results.etAl': '{authors} 等',
+  'results.untitled': '(无标题)',
+  'results.abstract': '摘要',
+
+  'identifier.type.doi': 'DOI',
+  'identifier.type.arxiv': 'arXiv',
+  'identifier.type.pmid': 'PMID',
+  'identifier.type.isbn': 'ISBN',
+  'identifier.type.url': 'URL',
+  'identifier.searchAnyway': '改为用搜索引擎搜索这段文本',
+  'identifier.loading': '正在加载元数据…',
+  'identifier.error': '无法加载元数据: {error}',
+  'identifier.notFound': '没有找到此标识符的元数据.',
+  'resolver.publisher': '出版商 (doi.org)',
+  'resolver.semanticScholar': 'Semantic Scholar',
+  'resolver.dblp': 'DBLP',
+  'resolver.pubmed': 'PubMed',
+  'resolver.crossref': 'Crossref 记录',
+  'resolver.arxivAbstract': 'arXiv 摘要页',
+  'resolver.arxivPdf': 'arXiv PDF',
+  'resolver.dataciteDoi': 'DataCite DOI',
+  'resolver.europePmc': 'Europe PMC',
+  'resolver.openLibrary': 'Open Library',
+  'resolver.worldcat': 'WorldCat',
+  'resolver.googleBooks': 'Google 图书',
+  'resolver.openLink': '打开链接',
+
+  'collections.title': '收藏集',
+  'collections.newPlaceholder': '新收藏集',
+  'collections.emptyHint': '创建一个收藏集, 就可以从结果列表中保存文献.',
+  'collections.confirmDelete': '删除 "{name}" 及其中的全部条目?',
+  'collections.identifierPlaceholder': 'DOI、arXiv ID、PMID、ISBN 或 URL',
+  'collections.titlePlaceholder': '标题 (可选)',
+  'collections.unrecognised': '无法识别为 DOI、arXiv ID、PMID、ISBN 或 URL.',
+  'collections.duplicate': '已在此收藏集中.',
+  'collections.tag': '标签:',
+  'collections.allTags': '全部',
+  'collections.empty': '此收藏集中还没有条目.',
+  'collections.tagsPlaceholder': '标签, 用逗号分隔',
+  'collections.notesPlaceholder': '笔记',
+  'collections.status.unread': '未读',
+  'collections.status.reading': '在读',
+  'collections.status.read': '已读',
+
+  'reviewLog.title': '检索记录',
+  'reviewLog.logging': '正在记录检索到 "{name}"',
+  'reviewLog.notLogging': '未记录',
+  'reviewLog.newPlaceholder': '新综述',
+  'reviewLog.intro': '选择或创建一个综述来记录每次检索: 搜索引擎、实际发送的查询和 URL 以及时间. 记录不能修改, 结果数和更正以修订的形式追加.',
+  'reviewLog.stop': '停止记录',
+  'reviewLog.empty': '还没有检索记录. 执行一次搜索即可添加.',
+  'reviewLog.results': '结果数: {count}',
+  'reviewLog.note': '备注: {note}',
+  'reviewLog.amend': '修订',
+  'reviewLog.recordResults': '记录结果数',
+  'reviewLog.history': '修订历史 ({count})',
+  'reviewLog.amendedCount': '结果数 = {count}',
+  'reviewLog.resultsPlaceholder': '结果数',
+  'reviewLog.notePlaceholder': '备注或更正',
+  'reviewLog.append': '追加',
+  'reviewLog.countError': '结果数必须是整数.',
+  'reviewLog.emptyAmendment': '请输入结果数或备注.',
+  'reviewLog.delivery.window': '已打开',
+  'reviewLog.delivery.blocked': '弹出窗口被拦截',
+  'reviewLog.delivery.in-page': '页内结果',
+  'reviewLog.delivery.embedded': '工作区窗格',
+
+  'reviewExport.htmlLang': 'zh-CN',
+  'reviewExport.title': '检索方法: {name}',
+  'reviewExport.noSearches': '还没有记录任何检索.',
+  'reviewExport.summaryOne': '{first} 在以下数据库中执行了 1 次检索: {databases}. 检索式与提交给各数据库的完全一致.',
+  'reviewExport.summaryOneDay': '{first} 在以下数据库中执行了 {count} 次检索: {databases}. 检索式与提交给各数据库的完全一致.',
+  'reviewExport.summary': '{first} 至 {last} 期间在以下数据库中执行了 {count} 次检索: {databases}. 检索式与提交给各数据库的完全一致.',
+  'reviewExport.date': '日期 (UTC)',
+  'reviewExport.database': '数据库',
+  'reviewExport.queryEntered': '输入的查询',
+  'reviewExport.querySent': '发送的查询',
+  'reviewExport.searchString': '检索式',
+  'reviewExport.delivery': '打开方式',
+  'reviewExport.results': '结果数',
+  'reviewExport.notes': '备注',
+  'reviewExport.amendments': '修订',
+  'reviewExport.notesAndAmendments': '备注和修订',
+  'reviewExport.searchNumber': '检索 {number}',
+  'reviewExport.hits': '结果数 = {count}',
+  'reviewExport.urls': '检索 URL',
+
+  'alerts.title': '检索提醒',
+  'alerts.intro': '检索提醒在本页打开期间按计划在 arXiv、PubMed、DBLP 或 Semantic Scholar 上重新执行查询, 只列出之前没有的文献. 页面关闭期间到期的检查会在下次打开时执行.',
+  'alerts.new': '新建提醒',
+  'alerts.create': '创建提醒',
+  'alerts.error': '无法检查提醒或访问浏览器存储: {error}',
+  'alerts.noUnread': '没有新结果',
+  'alerts.unread.one': '1 条新结果',
+  'alerts.unread': '{count} 条新结果',
+  'alerts.fromSaved': '从保存的搜索开始…',
+  'alerts.namePlaceholder': '提醒名称 (可选)',
+  'alerts.queryPlaceholder': '查询, 例如 title:"graph neural" year:2024-',
+  'alerts.check': '检查频率',
+  'alerts.frequency.daily': '每天',
+  'alerts.frequency.weekly': '每周',
+  'alerts.notify': '有新结果时显示浏览器通知',
+  'alerts.queryRequired': '请输入查询.',
+  'alerts.enginesRequired': '请至少选择一个搜索引擎.',
+  'alerts.notificationsUnsupported': '此浏览器不支持通知, 新结果仍会在这里计数.',
+  'alerts.notificationsBlocked': '本站的通知已被禁止, 新结果仍会在这里计数.',
+  'alerts.paused': '已暂停',
+  'alerts.notChecked': '尚未检查',
+  'alerts.checked': '上次检查 {last} · 下次检查 {next}',
+  'alerts.checking': '检查中…',
+  'alerts.newCount': '{count} 条新结果',
+  'alerts.newBadge': '新',
+  'alerts.notificationsOn': '已开启通知',
+  'alerts.checkNow': '立即检查',
+  'alerts.markAllRead': '全部标为已读',
+  'alerts.pause': '暂停',
+  'alerts.resume': '恢复',
+  'alerts.confirmDelete': '删除提醒 "{name}"?',
+  'alerts.sourceUnavailable': '此搜索引擎已不能用于检索提醒',
+  'alerts.found': '创建提醒以来的新结果 ({count})',
+  'alerts.nothingNew': '还没有新结果. 第一次检查时已有的结果不会列出.',
+  'alerts.notification.one': '{name}: 1 条新结果',
+  'alerts.notification': '{name}: {count} 条新结果',
+
+  'workspace.title': '工作区',
+  'workspace.empty': '工作区是空的. 搜索时允许嵌入的搜索引擎在这里打开, 其他搜索引擎仍在窗口中打开.',
+  'workspace.layout': '工作区布局',
+  'workspace.mode.panes': '并排',
+  'workspace.mode.tabs': '标签页',
+  'workspace.engines': '工作区中的搜索引擎',
+  'workspace.emptyPane': '此窗格中还没有搜索. 选中 {name} 后搜索即可在这里加载.',
+  'workspace.frameTitle': '{name} 搜索结果',
+  'workspace.resize': '调整 {left} 和 {right} 的宽度',
+  'workspace.moveLeft': '将 {name} 左移',
+  'workspace.moveRight': '将 {name} 右移',
+  'workspace.close': '关闭 {name}',
+  'workspace.openWindow': '在窗口中打开',
+  'workspace.notLoading': '无法加载?',
+  'workspace.notLoadingHint': '有些网站不允许在其他页面中显示. 此搜索引擎以后将在窗口中打开.',
+  'workspace.timedOut': '{name} 没有加载出来. 这个网站可能不允许在其他页面中显示.',
+  'workspace.openTab': '在新标签页中打开',
+
+  'packs.title': '搜索源包',
+  'packs.intro': '搜索源包是共享的搜索引擎列表, 例如图书馆目录和机构知识库. 订阅后即可安装其中的搜索引擎并接收更新.',
+  'packs.subscriptionInfo': '作者 {author} · {count} 个搜索引擎 · 更新于 {date}',
+  'packs.checkUpdates': '检查更新',
+  'packs.unsubscribe': '取消订阅',
+  'packs.confirmUnsubscribe': '取消订阅 "{name}"? 没有修改过的搜索引擎将被删除.',
+  'packs.loadLabel': '从 URL 或文件加载搜索源包',
+  'packs.load': '加载',
+  'packs.applied': '已应用 {name} {version}.',
+  'packs.update': '作者 {author}: v{from} → v{to}',
+  'packs.newPack': '作者 {author}: v{to}, 尚未订阅',
+  'packs.noChanges': '你的搜索引擎没有变化.',
+  'packs.noChangesCount': '你的搜索引擎没有变化 ({count} 个已是最新).',
+  'packs.added': '新增 ({count})',
+  'packs.changed': '修改 ({count})',
+  'packs.removed': '删除 ({count})',
+  'packs.unchanged': '{count} 个搜索引擎没有变化.',
+  'packs.keptAsCustom': '你修改过此搜索引擎, 它将保留为你的自定义搜索引擎.',
+  'packs.preserved': '保留你对以下内容的修改: {fields}',
+  'packs.bangIssues': '未安装的 bang: {issues}',
+  'packs.acceptUpdate': '接受更新',
+  'packs.subscribe': '订阅',
+  'packs.field.name': '名称',
+  'packs.field.url': 'URL',
+  'packs.field.description': '描述',
+  'packs.field.category': '分类',
+  'packs.field.syntax': '查询语法',
+  'packs.field.bangs': '快捷前缀',
+
+  'transfer.title': '导入 / 导出设置',
+  'transfer.exportHint': '将自定义搜索引擎、配置和词表导出为 JSON 文件.',
+  'transfer.export': '导出',
+  'transfer.importLabel': '导入设置文件或 OpenSearch 描述文件 (.xml)',
+  'transfer.pastePlaceholder': '…或在这里粘贴文件内容',
+  'transfer.sources': '{count} 个自定义搜索引擎',
+  'transfer.profiles': '{count} 个配置',
+  'transfer.thesaurus': '{count} 个词表条目',
+  'transfer.exportedAt': ', 导出于 {date}.',
+  'transfer.merge': '与现有设置合并',
+  'transfer.replace': '替换现有设置',
+  'transfer.report': '已导入: 新增 {added} 个, 已存在 {skipped} 个, {renamed} 个使用了新 ID.',
+  'transfer.import': '导入',
+  'transfer.check': '检查',
+
+  'deepLink.unknownEngine': '未知的搜索引擎 "{id}"',
+  'deepLink.hiddenEngine': '搜索引擎 "{id}" 已隐藏, 不会被搜索',
+  'deepLink.noEngines': 'engines 参数为空',
+  'deepLink.unknownProfile': '未知的配置 "{profile}"',
+  'deepLink.invalidRun': '无效的 run 值 "{value}" (请使用 run=1)',
+  'deepLink.noQuery': '没有可搜索的内容: q 参数为空',
+
+
+  // 内置搜索源的描述, 键为 source.<ID>.description
+  'source.google.description': '通用网页搜索',
+  'source.bing.description': '微软搜索引擎',
+  'source.google_scholar.description': '学术论文与引用',
+  'source.pubmed.description': '生物医学文献',
+  'source.semantic_scholar.description': 'AI 驱动的学术搜索',
+  'source.arxiv.description': '科学论文预印本库',
+  'source.research_gate.description': '科研社交网络与论文',
+  'source.dblp.description': '计算机科学文献目录',
+  'source.cnki.description': '中文期刊、学位论文和会议论文',
+  'source.baidu_scholar.description': '中英文学术搜索',
+};
@@ -0,0 +1,115 @@
+import type { SearchSource } from './types';
+import type { Locale } from './lib/i18n';
+
+export const defaultSearchSources: SearchSource[] = [
+  { 
+    id: 'google', 
+    name: 'Google',
+    url: 'https://www.google.com/search?q=',
+    description: 'General web search',
+    category: 'general',
+    syntax: 'web',
+    bangs: ['g'],
+    embeddable: false
+  },
+  { 
+    id: 'bing', 
+    name: 'Bing',
+    url: 'https://www.bing.com/search?q=',
+    description: 'Microsoft search engine',
+    category: 'general',
+    syntax: 'web',
+    bangs: ['b'],
+    embeddable: false
+  },
+  { 
+    id: 'google_scholar', 
+    name: 'Google Scholar',
+    url: 'https://scholar.google.com/scholar?q=',
+    description: 'Academic papers and citations',
+    category: 'academic',
+    syntax: 'google_scholar',
+    bangs: ['gs'],
+    embeddable: false
+  },
+  { 
+    id: 'pubmed', 
+    name: 'PubMed',
+    url: 'https://pubmed.ncbi.nlm.nih.gov/?term=',
+    description: 'Biomedical literature',
+    category: 'academic',
+    syntax: 'pubmed',
+    bangs: ['pm'],
+    embeddable: false
+  },
+  { 
+    id: 'semantic_scholar', 
+    name: 'Semantic Scholar',
+    url: 'https://www.semanticscholar.org/search?q=',
+    description: 'AI-powered research tool',
+    category: 'academic',
+    syntax: 'semantic_scholar',
+    bangs: ['ss']
+  },
+  { 
+    id: 'arxiv', 
+    name: 'arXiv',
+    // 高级检索页面按行指定字段和运算符, 其余行和日期由翻译器作为参数追加
+    url: 'https://arxiv.org/search/advanced?advanced=&terms-0-field=all&terms-0-term={query}',
+    description: 'Scientific paper repository',
+    category: 'academic',
+    syntax: 'arxiv',
+    bangs: ['ax']
+  },
+  { 
+    id: 'research_gate', 
+    name: 'ResearchGate',
+    url: 'https://www.researchgate.net/search/publication?q=',
+    description: 'Scientific network and papers',
+    category: 'academic',
+    bangs: ['rg'],
+    embeddable: false
+  },
+  { 
+    id: 'dblp', 
+    name: 'DBLP',
+    url: 'https://dblp.org/search?q=',
+    description: 'Computer Science Bibliography',
+    category: 'academic',
+    syntax: 'dblp',
+    bangs: ['dblp']
+  }
+];
+
+// 只在对应界面语言下提供的内置搜索源
+export const localeSearchSources: { [key in Locale]?: SearchSource[] } = {
+  'zh-CN': [
+    {
+      id: 'cnki',
+      name: '中国知网 CNKI',
+      url: 'https://kns.cnki.net/kns8s/defaultresult/index?kw={query}',
+      description: 'Chinese journals, theses and conference papers',
+      category: 'academic',
+      bangs: ['cnki', 'zw']
+    },
+    {
+      id: 'baidu_scholar',
+      name: '百度学术',
+      url: 'https://xueshu.baidu.com/s?wd={query}',
+      description: 'Chinese and English academic search',
+      category: 'academic',
+      bangs: ['bdxs']
+    }
+  ]
+};
+
+export const getDefaultSources = (locale: Locale): SearchSource[] => [
+  ...defaultSearchSources,
+  ...(localeSearchSources[locale] ?? [])
+];
+
+// 所有语言下的内置搜索源, 导入设置时这些 ID 都视为已占用
+export const allBuiltInSources: SearchSource[] = [
+  ...defaultSearchSources,
+  ...Object.values(localeSearchSources).flatMap(sources => sources ?? [])
+];
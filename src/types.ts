@@ -0,0 +1,38 @@
+// 查询语法: 决定结构化查询如何翻译成搜索源的原生语法
+export type QuerySyntax = 'web' | 'google_scholar' | 'pubmed' | 'arxiv' | 'dblp' | 'semantic_scholar';
+
+export interface SearchSource {
+  id: string;
+  name: string;
+  url: string;
+  description: string;
+  // 分类 ID: 内置的 general/academic 或用户自定义分类
+  category?: string;
+  isCustom?: boolean;
+  // 未设置时按纯文本发送
+  syntax?: QuerySyntax;
+  // 搜索框中的快捷别名 (不含 "!"), 例如 ['pm'] 对应 "!pm"
+  bangs?: string[];
+  // 从搜索源包安装时记录包 ID, 见 lib/sourcePacks.ts
+  packId?: string;
+  // 能否在工作区 iframe 中显示; 未设置时在运行时学习, 见 lib/embedding.ts
+  embeddable?: boolean;
+}
+
+// 从开放 API 获取的检索结果, 各搜索源的响应统一转换为这个格式
+export interface SearchResult {
+  // `${sourceId}:${原始 ID}`
+  id: string;
+  sourceId: string;
+  // 在该搜索源结果列表中的位置, 从 0 开始
+  rank: number;
+  title: string;
+  authors: string[];
+  year?: number;
+  venue?: string;
+  doi?: string;
+  arxivId?: string;
+  pmid?: string;
+  abstract?: string;
+  url: string;
+}
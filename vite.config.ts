@@ -1,7 +1,82 @@
-import { defineConfig } from 'vite'
+import { defineConfig, loadEnv } from 'vite'
+import type { Plugin } from 'vite'
 import react from '@vitejs/plugin-react'
 
+const OPENSEARCH_FILE = 'opensearch.xml'
+
+const escapeXml = (value: string) =>
+  value.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;')
+
+// root 是应用的绝对地址 (站点源 + base, 以 / 结尾); 浏览器会丢弃模板不是绝对 URL 的描述文件
+const openSearchXml = (root: string) => `<?xml version="1.0" encoding="UTF-8"?>
+<OpenSearchDescription xmlns="http://a9.com/-/spec/opensearch/1.1/"
+                       xmlns:moz="http://www.mozilla.org/2006/browser/search/">
+  <ShortName>LiteResearch</ShortName>
+  <Description>Search Google Scholar, PubMed, arXiv and more at once with LiteResearch</Description>
+  <InputEncoding>UTF-8</InputEncoding>
+  <Image width="16" height="16" type="image/svg+xml">${escapeXml(`${root}vite.svg`)}</Image>
+  <!-- run=1 立即搜索当前配置中选中的搜索引擎, 支持 bang (例如 "!pm crispr") -->
+  <Url type="text/html" method="get" template="${escapeXml(`${root}?q={searchTerms}&run=1`)}"/>
+  <moz:SearchForm>${escapeXml(root)}</moz:SearchForm>
+</OpenSearchDescription>
+`
+
+// 地址栏搜索的 OpenSearch 描述文件.
+// 开发和预览服务器按请求的主机名生成; 构建时使用 SITE_ORIGIN (例如 https://search.example.org),
+// 没有设置时不生成描述文件, 也不在页面中声明
+const openSearch = (siteOrigin: string | undefined): Plugin => {
+  let base = '/'
+  let emit = false
+
+  const serve: Plugin['configureServer'] = server => {
+    server.middlewares.use((req, res, next) => {
+      // 项目没有安装 Node 的类型声明, 只取用到的两个字段
+      const { url, headers } = req as unknown as { url?: string; headers: { host?: string } }
+      if (url?.split('?')[0] !== `${base}${OPENSEARCH_FILE}`) return next()
+      const protocol = server.config.server.https ? 'https' : 'http'
+      res.setHeader('Content-Type', 'application/opensearchdescription+xml')
+      res.end(openSearchXml(`${protocol}://${headers.host}${base}`))
+    })
+  }
+
+  return {
+    name: 'literesearch-opensearch',
+    configResolved(config) {
+      base = config.base
+      emit = config.command === 'serve' || Boolean(siteOrigin)
+      if (!emit) {
+        config.logger.warn('SITE_ORIGIN is not set; skipping the OpenSearch description (address-bar search).')
+      }
+    },
+    configureServer: serve,
+    configurePreviewServer: serve as Plugin['configurePreviewServer'],
+    generateBundle() {
+      if (!siteOrigin) return
+      this.emitFile({
+        type: 'asset',
+        fileName: OPENSEARCH_FILE,
+        source: openSearchXml(`${siteOrigin.replace(/\/+$/, '')}${base}`),
+      })
+    },
+    transformIndexHtml() {
+      if (!emit) return []
+      return [
+        {
+          tag: 'link',
+          attrs: {
+            rel: 'search',
+            type: 'application/opensearchdescription+xml',
+            title: 'LiteResearch',
+            href: `${base}${OPENSEARCH_FILE}`,
+          },
+          injectTo: 'head',
+        },
+      ]
+    },
+  }
+}
+
 // https://vitejs.dev/config/
-export default defineConfig({
-  plugins: [react()],
-})
+export default defineConfig(({ mode }) => ({
+  plugins: [react(), openSearch(loadEnv(mode, '.', '').SITE_ORIGIN || undefined)],
+}))